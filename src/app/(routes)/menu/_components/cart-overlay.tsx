@@ -9,6 +9,10 @@
  * - CartOverlayTabs: Navigation between Check, Actions, Guest tabs
  * - CheckTabContent: Displays cart items with edit/delete options
  * - ActionsTabContent: Discount codes and cart actions
+ * - GiftCardModal: Sell / top up gift cards as cart lines, check balances
+ * - SplitCheckModal: Split the order into separate checks, open another check on the table
+ * - LineDiscountModal: Per-item discounts (manager approval above branch limit)
+ * - PriceOverrideModal: Per-item price override with reason code (approval above limit, audit log)
  * - GuestTabContent: Customer info and loyalty card integration
  * - ConfirmationModeContent: Order review before payment
  * - CartTotals: Price calculations and proceed to payment button
@@ -22,11 +26,13 @@
 
 'use client';
 
-import React, { useState, useEffect } from 'react';
-import { CartItem as CartItemType, useCartItems, useCartSubtotal, useCartTotal, useCurrentSlotId, useCustomer, useTax, useDiscount, useCartActions, useOrderId } from '@/lib/store/cart-new';
+import React, { useState, useEffect, useMemo } from 'react';
+import { CartItem as CartItemType, useCartItems, useCartSubtotal, useCartTotal, useCurrentSlotId, useCustomer, useTax, useDiscount, useCartPromotions, useCartVouchers, useCartServiceCharge, useCartServiceChargeRate, useCartActions, useOrderId } from '@/lib/store/cart-new';
 import { useCustomerStore } from '@/lib/store/customer';
+import { useUnifiedSlot } from '@/lib/store/unified-slots';
 import { LoyaltyAPI } from '@/lib/api/loyalty';
 import { useOverlayModeStore } from '@/lib/store/overlay-mode';
+import { calculateCartPricing, type PricingPaymentMethod } from '@/lib/utils/pricing';
 // 🏆 PROFESSIONAL: No draft store needed - using single source of truth (ORDER OVERLAYS)
 // New optimized sub-components (currently unused - for future optimization)
 // import { CartHeader } from './cart-overlay/CartHeader';
@@ -41,7 +47,21 @@ import { ActionsTabContent } from './cart-overlay/ActionsTabContent';
 import { GuestTabContent } from './cart-overlay/GuestTabContent';
 import { ConfirmationModeContent } from './cart-overlay/ConfirmationModeContent';
 import { CartTotals } from './cart-overlay/CartTotals';
+import { CoursingModal } from './cart-overlay/CoursingModal';
 import { ManagerApprovalModal } from '@/components/pos/ManagerApprovalModal';
+import { GiftCardModal } from '@/components/pos/GiftCardModal';
+import { SplitCheckModal } from '@/components/pos/SplitCheckModal';
+import type { Course, MenuItem } from '@/types/pos';
+import type { OverlayOrder } from '@/lib/store/order-overlay';
+import { LineDiscountModal, PriceOverrideModal, type LineDiscountInput, type PriceOverrideInput } from './discount-management';
+import { requiresLineDiscountApproval } from '@/lib/utils/discounts';
+import { canOverridePrice, requiresPriceOverrideApproval } from '@/lib/utils/priceOverrides';
+import { usePriceOverrideAuditStore } from '@/lib/store/price-override-audit';
+import { allowsLineDiscounts, getBranchVoucherBatches, validateVoucherCode } from '@/lib/utils/vouchers';
+import { calculateLineDiscount } from '@/lib/utils/pricing';
+import { multiplyMoney, subtractMoney } from '@/lib/utils/money';
+import { getHeldCourses } from '@/lib/utils/coursing';
+import { isSoldByWeight } from '@/lib/utils/itemPricing';
 import { OrderCompletionOverlay } from './order-completion/OrderCompletionOverlay';
 
 interface CartOverlayProps {
@@ -56,7 +76,7 @@ interface CartOverlayProps {
   // onUndoLastAction?: () => void; // Legacy - replaced by Clear Cart button
   mode?: 'cart' | 'confirmation';
   onModeChange?: (mode: 'cart' | 'confirmation') => void;
-  taxRate?: number; // Dynamic tax rate from payment method (Cash: 16%, Card: 5%)
+  paymentMethod?: PricingPaymentMethod; // Selected payment method (pricing engine applies its tax override)
 }
 
 export const CartOverlay: React.FC<CartOverlayProps> = React.memo(({
@@ -71,7 +91,7 @@ export const CartOverlay: React.FC<CartOverlayProps> = React.memo(({
   // onUndoLastAction, // Legacy - replaced by Clear Cart button
   mode = 'cart',
   onModeChange,
-  taxRate = 16 // Default to cash tax rate
+  paymentMethod
 }) => {
   console.log('🛒 CartOverlay rendered:', { isOpen, slotId, orderType, mode });
   const [activeTab, setActiveTab] = useState<'check' | 'actions' | 'guest'>('check');
@@ -83,13 +103,21 @@ export const CartOverlay: React.FC<CartOverlayProps> = React.memo(({
   // 🏆 PROFESSIONAL MANAGER APPROVAL STATE
   const [showManagerApproval, setShowManagerApproval] = useState(false);
   const [managerApprovalData, setManagerApprovalData] = useState<{
-    operation: 'void' | 'waste' | 'modify' | 'refund' | 'cancel';
+    operation: 'void' | 'waste' | 'modify' | 'refund' | 'cancel' | 'discount' | 'price_override';
     item: CartItemType;
+    amount?: number; // Defaults to item total
     onApprove: (pin: string, reason: string, inventoryReversal?: boolean) => void;
   } | null>(null);
+
+  // 🏷️ LINE DISCOUNT STATE
+  const [discountItem, setDiscountItem] = useState<CartItemType | null>(null);
+  const [priceOverrideItem, setPriceOverrideItem] = useState<CartItemType | null>(null);
+  const [showGiftCardModal, setShowGiftCardModal] = useState(false);
+  const [showSplitCheck, setShowSplitCheck] = useState(false);
+  const [coursingItem, setCoursingItem] = useState<CartItemType | null>(null);
   // BULLETPROOF: Action history for audit trail (kept for manager approval operations)
   const [actionHistory, setActionHistory] = useState<Array<{
-    type: 'remove_item' | 'apply_discount' | 'remove_discount' | 'cancel_order' | 'draft_order' | 'add_item';
+    type: 'remove_item' | 'apply_discount' | 'remove_discount' | 'apply_item_discount' | 'remove_item_discount' | 'cancel_order' | 'draft_order' | 'add_item';
     data: {
       item?: CartItemType;
       itemId?: string;
@@ -116,6 +144,22 @@ export const CartOverlay: React.FC<CartOverlayProps> = React.memo(({
   const tax = useTax();
   const discount = useDiscount();
   const cartDiscount = discount; // Use discount from new cart store
+  const promotions = useCartPromotions(); // Automatic promotions applied by the cart store
+  const vouchers = useCartVouchers(); // Voucher codes on this order
+  const serviceCharge = useCartServiceCharge(); // Automatic service charge (order type + covers)
+  const serviceChargeRate = useCartServiceChargeRate();
+  const currentSlot = useUnifiedSlot(currentSlotId || '');
+  const covers = currentSlot?.customerCount || 0;
+  // 🍽️ Seats and courses are for dine-in tables
+  const isDineIn = (orderType ?? currentSlot?.orderType) === 'dine-in';
+  const heldCourses = useMemo(() => getHeldCourses(items), [items]);
+
+  // 🧾 PRICING ENGINE: Confirmation mode shows totals for the selected payment method
+  const pricing = calculateCartPricing(items, {
+    discount,
+    paymentMethod: mode === 'confirmation' ? paymentMethod : undefined,
+    serviceChargeRate
+  });
   
   console.log('🛒 CartOverlay - Professional cart state:', {
     currentSlotId,
@@ -126,7 +170,7 @@ export const CartOverlay: React.FC<CartOverlayProps> = React.memo(({
   });
   
   // Get professional cart actions
-  const { removeItem, clearCart, setCustomer, applyDiscount, addItem } = useCartActions();
+  const { removeItem, clearCart, setCustomer, applyItemDiscount, overrideItemPrice, applyVoucher, removeVoucher, setCovers, addItem, loadExistingOrder, setItemCoursing, setCourseHold } = useCartActions();
   
   // Debug cart items in CartOverlay
   console.log('🛒 CartOverlay - items:', items);
@@ -170,6 +214,9 @@ export const CartOverlay: React.FC<CartOverlayProps> = React.memo(({
       return;
     }
 
+    // 🎁 Gift card lines have nothing to modify (remove and sell again instead)
+    if (item.giftCard) return;
+
     // Open item modifier with saved modifications for editing
     if (onEditItem) {
       onEditItem(item);
@@ -177,9 +224,13 @@ export const CartOverlay: React.FC<CartOverlayProps> = React.memo(({
   };
 
   const handleRepeatItem = (item: CartItemType) => {
+    // Every gift card has its own code
+    if (item.giftCard) return;
+    // 💲 A repeated line is a new sale at the menu price (overrides are per line)
     addItem(
-      item,
-      1,
+      item.priceOverride ? { ...item, price: item.priceOverride.originalPrice, priceOverride: undefined } : item,
+      isSoldByWeight(item) ? item.quantity : 1, // ⚖️ Same weight again
+
       item.modifiers,
       { keepSeparate: true }
     );
@@ -206,74 +257,49 @@ export const CartOverlay: React.FC<CartOverlayProps> = React.memo(({
     
     setDiscountError('');
     try {
-      // For now, use a simple discount logic
-      // In the future, this will call the discountsAPI
-      const code = discountCode.trim().toUpperCase();
-      
-      if (code === 'WELCOME10') {
-        const discount = {
-          code: 'WELCOME10',
-          name: 'Welcome Discount',
-          type: 'percentage' as const,
-          value: 10
-        };
-        applyDiscount(discount.value);
-        setDiscountCode('');
-        
-        // Track discount application for undo
-        setActionHistory(prev => [...prev, {
-          type: 'apply_discount',
-          data: { discount },
-          timestamp: Date.now()
-        }]);
-      } else if (code === 'SAVE500') {
-        const discount = {
-          code: 'SAVE500',
-          name: 'Fixed Discount',
-          type: 'fixed' as const,
-          value: 500
-        };
-        applyDiscount(discount.value);
-        setDiscountCode('');
-        
-        // Track discount application for undo
-        setActionHistory(prev => [...prev, {
-          type: 'apply_discount',
-          data: { discount },
-          timestamp: Date.now()
-        }]);
-      } else if (code === 'FOOD20') {
-        const discount = {
-          code: 'FOOD20',
-          name: 'Food Discount',
-          type: 'percentage' as const,
-          value: 20
-        };
-        applyDiscount(discount.value);
-        setDiscountCode('');
-        
-        // Track discount application for undo
-        setActionHistory(prev => [...prev, {
-          type: 'apply_discount',
-          data: { discount },
-          timestamp: Date.now()
-        }]);
-      } else {
-        setDiscountError('Invalid discount code');
+      // 🎟️ Voucher codes: batch, dates, usage limits (offline ledger) and stacking rules
+      const { useAuthStore } = await import('@/lib/store/auth');
+      const cashier = useAuthStore.getState().user;
+      const orderTotal = calculateCartPricing(items).total; // Before any order discount
+
+      const result = await validateVoucherCode(discountCode, {
+        orderTotal,
+        appliedVouchers: vouchers,
+        hasLineDiscounts: items.some(item => !item.isPaid && !!item.lineDiscount),
+        customerPhone: customer?.phone || undefined,
+        orderId: cartOrderId,
+        appliedBy: cashier?.name
+      });
+
+      if (!result.isValid || !result.voucher) {
+        setDiscountError(result.error || 'Invalid discount code');
+        return;
       }
-    } catch {
+
+      applyVoucher(result.voucher);
+      setDiscountCode('');
+
+      // Track discount application for undo
+      setActionHistory(prev => [...prev, {
+        type: 'apply_discount',
+        data: { discount: result.voucher },
+        timestamp: Date.now()
+      }]);
+    } catch (error) {
+      console.error('❌ [VOUCHER] Failed to apply code:', error);
       setDiscountError('Failed to apply discount');
     }
   };
 
-  const handleRemoveDiscount = () => {
+  const handleRemoveDiscount = (code: string) => {
     // Track discount removal for undo
     setActionHistory(prev => [...prev, {
       type: 'remove_discount',
-      data: { discount: 'cart_discount' },
+      data: { discount: vouchers.find(voucher => voucher.code === code) },
       timestamp: Date.now()
     }]);
     
+    removeVoucher(code);
     setDiscountError('');
   };
 
@@ -553,6 +579,35 @@ export const CartOverlay: React.FC<CartOverlayProps> = React.memo(({
     handleDraftOrder();
   };
 
+  // 🎁 Gift card sale / top-up goes on the order as its own line
+  const handleAddGiftCard = (giftCardItem: MenuItem) => {
+    if (items.some(item => item.giftCard?.code === giftCardItem.giftCard?.code)) {
+      alert('This gift card is already on the order.');
+      return;
+    }
+    addItem(giftCardItem, 1, { variations: [], addOns: [] }, { keepSeparate: true });
+  };
+
+  // ✂️ Load a split check into the cart (the most recently updated active order is the one the slot reopens)
+  const handleOpenCheck = async (check: OverlayOrder) => {
+    const { useOrderOverlayStore } = await import('@/lib/store/order-overlay');
+    await useOrderOverlayStore.getState().updateOverlay(check.id, {});
+    loadExistingOrder(
+      check.items.map(item => ({ ...item, originalOrderId: check.id })),
+      check.customer,
+      check.orderType,
+      'mixed',
+      check.id,
+      { discount: check.discount, vouchers: check.vouchers }
+    );
+    console.log('✂️ [SPLIT CHECK] Loaded check', check.checkNumber, 'into cart:', check.id);
+  };
+
+  // After a split the cart carries on with check 1 - the other checks wait on the slot
+  const handleChecksSplit = (checks: OverlayOrder[]) => {
+    if (checks[0]) handleOpenCheck(checks[0]);
+  };
+
   const handleTipButton = () => {
     // TODO: Implement tip functionality
     console.log('Tip button clicked');
@@ -658,6 +713,176 @@ export const CartOverlay: React.FC<CartOverlayProps> = React.memo(({
     }
   };
 
+  // 🏷️ LINE DISCOUNTS - Manager approval above branch limit
+
+  const handleDiscountItem = (item: CartItemType) => {
+    if (item.isPaid || item.isModifierUpgrade || item.giftCard) {
+      console.log('⚠️ [LINE DISCOUNT] Paid/upgrade/gift card items cannot be discounted:', item.name);
+      return;
+    }
+    if (!item.lineDiscount && !allowsLineDiscounts(vouchers)) {
+      alert('Item discounts cannot be combined with the discount code on this order. Remove the code first.');
+      return;
+    }
+    setDiscountItem(item);
+  };
+
+  const performItemDiscount = async (item: CartItemType, discount: LineDiscountInput, managerPin?: string, approvalReason?: string) => {
+    try {
+      const { useAuthStore } = await import('@/lib/store/auth');
+      const cashier = useAuthStore.getState().user;
+      const maskedPin = managerPin ? managerPin.substring(0, 2) + '****' : undefined; // Partial PIN for audit
+
+      applyItemDiscount(item.uniqueId, {
+        ...discount,
+        amount: calculateLineDiscount(item.totalPrice, discount),
+        appliedBy: cashier?.name,
+        approvedBy: maskedPin,
+        appliedAt: new Date().toISOString()
+      });
+
+      setActionHistory(prev => [...prev, {
+        type: 'apply_item_discount',
+        data: {
+          item,
+          itemId: item.uniqueId,
+          managerPin: maskedPin,
+          reason: approvalReason ? `${discount.reason} (${approvalReason})` : discount.reason,
+          operation: `${discount.type}:${discount.value}`
+        },
+        timestamp: Date.now()
+      }]);
+
+      console.log('✅ [LINE DISCOUNT] Applied to', item.name, discount);
+    } catch (error) {
+      console.error('❌ [LINE DISCOUNT] Failed to apply discount:', error);
+    }
+  };
+
+  const handleApplyItemDiscount = (discount: LineDiscountInput) => {
+    const item = discountItem;
+    if (!item) return;
+    setDiscountItem(null);
+
+    if (requiresLineDiscountApproval(item.totalPrice, discount)) {
+      console.log('🛡️ [LINE DISCOUNT] Above limit - requesting manager approval:', item.name);
+      setManagerApprovalData({
+        operation: 'discount',
+        item,
+        amount: calculateLineDiscount(item.totalPrice, discount),
+        onApprove: (pin: string, reason: string) => {
+          performItemDiscount(item, discount, pin, reason);
+        }
+      });
+      setShowManagerApproval(true);
+      return;
+    }
+
+    performItemDiscount(item, discount);
+  };
+
+  const handleRemoveItemDiscount = () => {
+    const item = discountItem;
+    if (!item) return;
+    setDiscountItem(null);
+
+    applyItemDiscount(item.uniqueId, null);
+    setActionHistory(prev => [...prev, {
+      type: 'remove_item_discount',
+      data: { item, itemId: item.uniqueId },
+      timestamp: Date.now()
+    }]);
+  };
+
+  // 💲 PRICE OVERRIDES - Reason code required, manager approval above branch limit, audit logged
+
+  const handlePriceOverrideItem = (item: CartItemType) => {
+    if (!canOverridePrice(item)) {
+      console.log('⚠️ [PRICE OVERRIDE] Paid/upgrade/gift card/open-price items cannot be overridden:', item.name);
+      return;
+    }
+    setPriceOverrideItem(item);
+  };
+
+  const performPriceOverride = async (item: CartItemType, input: PriceOverrideInput | null, managerPin?: string) => {
+    try {
+      const { useAuthStore } = await import('@/lib/store/auth');
+      const cashier = useAuthStore.getState().user;
+      const maskedPin = managerPin ? managerPin.substring(0, 2) + '****' : undefined; // Partial PIN for audit
+      const originalPrice = item.priceOverride?.originalPrice ?? item.price;
+
+      overrideItemPrice(item.uniqueId, input && {
+        originalPrice,
+        price: input.price,
+        reason: input.reason,
+        overriddenBy: cashier?.name,
+        approvedBy: maskedPin,
+        overriddenAt: new Date().toISOString()
+      });
+
+      await usePriceOverrideAuditStore.getState().recordEntry({
+        action: input ? 'override' : 'restore',
+        orderId: orderId || undefined,
+        slotId: currentSlotId || undefined,
+        itemId: item.id,
+        lineId: item.uniqueId,
+        itemName: item.name,
+        quantity: item.quantity,
+        originalPrice,
+        price: input ? input.price : originalPrice,
+        reason: input ? input.reason : `Restored (was ${item.priceOverride?.reason || 'override'})`,
+        approvedBy: maskedPin
+      });
+
+      console.log('✅ [PRICE OVERRIDE]', input ? 'Applied to' : 'Restored', item.name, input);
+    } catch (error) {
+      console.error('❌ [PRICE OVERRIDE] Failed to override price:', error);
+    }
+  };
+
+  const handleApplyPriceOverride = (input: PriceOverrideInput) => {
+    const item = priceOverrideItem;
+    if (!item) return;
+    setPriceOverrideItem(null);
+
+    const originalPrice = item.priceOverride?.originalPrice ?? item.price;
+    if (requiresPriceOverrideApproval(originalPrice, input.price)) {
+      console.log('🛡️ [PRICE OVERRIDE] Above limit - requesting manager approval:', item.name);
+      setManagerApprovalData({
+        operation: 'price_override',
+        item,
+        amount: Math.abs(multiplyMoney(subtractMoney(originalPrice, input.price), item.quantity)),
+        onApprove: (pin: string) => {
+          performPriceOverride(item, input, pin);
+        }
+      });
+      setShowManagerApproval(true);
+      return;
+    }
+
+    performPriceOverride(item, input);
+  };
+
+  const handleRestorePrice = () => {
+    const item = priceOverrideItem;
+    if (!item) return;
+    setPriceOverrideItem(null);
+    performPriceOverride(item, null);
+  };
+
+  // 🍽️ SEAT / COURSE - held courses go to the kitchen when fired
+
+  const handleSaveCoursing = (coursing: { seat?: number; course?: Course }, hold: boolean) => {
+    const item = coursingItem;
+    if (!item) return;
+    setCoursingItem(null);
+
+    setItemCoursing(item.uniqueId, coursing);
+    if (coursing.course && hold !== heldCourses.includes(coursing.course)) {
+      setCourseHold(coursing.course, hold);
+    }
+  };
+
   const handleManagerApprovalClose = () => {
     setShowManagerApproval(false);
     setManagerApprovalData(null);
@@ -790,7 +1015,7 @@ export const CartOverlay: React.FC<CartOverlayProps> = React.memo(({
     }
   };
 
-  // Available discount codes from centralized mock data
+  // Available discount codes from branch voucher batches
   const [availableDiscounts, setAvailableDiscounts] = useState<Array<{
     type: 'percentage' | 'fixed';
     value: number;
@@ -802,23 +1027,23 @@ export const CartOverlay: React.FC<CartOverlayProps> = React.memo(({
     validUntil: Date;
   }>>([]);
 
-  // Load discount codes from centralized mock data
+  // Load public (reusable) voucher codes - single-use codes are handed to customers, never listed
   useEffect(() => {
     const loadDiscounts = async () => {
       try {
-        const { MOCK_DATA } = await import('@/lib/api/mockDataManager');
-        // Transform mock data to match Discount interface
-        const transformedDiscounts = MOCK_DATA.availableDiscounts.map(discount => ({
-          type: 'percentage' as const,
-          value: discount.percentage,
-          code: discount.code,
-          name: discount.description,
-          minimumOrder: discount.minimumOrder,
-          isActive: true,
-          validFrom: new Date(),
-          validUntil: new Date(discount.validUntil)
-        }));
-        setAvailableDiscounts(transformedDiscounts);
+        const publicCodes = getBranchVoucherBatches()
+          .filter(batch => batch.active !== false && batch.usesPerCode === 0)
+          .flatMap(batch => batch.codes.map(code => ({
+            type: batch.type,
+            value: batch.value,
+            code,
+            name: batch.name,
+            minimumOrder: batch.minimumOrder || 0,
+            isActive: true,
+            validFrom: new Date(batch.validFrom || Date.now()),
+            validUntil: new Date(batch.validUntil || Date.now())
+          })));
+        setAvailableDiscounts(publicCodes);
       } catch (error) {
         console.error('Failed to load discount codes:', error);
         setAvailableDiscounts([]);
@@ -973,6 +1198,8 @@ export const CartOverlay: React.FC<CartOverlayProps> = React.memo(({
           onPrintReceipt={handlePrintReceipt}
           onDraftOrderFromConfirmation={handleDraftOrderFromConfirmation}
           onTipButton={handleTipButton}
+          covers={covers}
+          onCoversChange={setCovers}
         />
 
         {/* Navigation Tabs */}
@@ -994,6 +1221,9 @@ export const CartOverlay: React.FC<CartOverlayProps> = React.memo(({
                   onDelete={handleDeleteItem}
                   onRefund={handleRefundItem}
                   onMarkWaste={handleWasteItem}
+                  onDiscount={handleDiscountItem}
+                  onCoursing={isDineIn ? setCoursingItem : undefined}
+                  onPriceOverride={handlePriceOverrideItem}
                 />
               )}
               {activeTab === 'actions' && (
@@ -1003,10 +1233,13 @@ export const CartOverlay: React.FC<CartOverlayProps> = React.memo(({
                   showAvailableDiscounts={showAvailableDiscounts}
                   availableDiscounts={availableDiscounts}
                   cartDiscount={cartDiscount}
+                  vouchers={vouchers}
                   onDiscountCodeChange={setDiscountCode}
                   onApplyDiscount={handleApplyDiscount}
                   onRemoveDiscount={handleRemoveDiscount}
                   onShowAvailableDiscounts={setShowAvailableDiscounts}
+                  onGiftCard={() => setShowGiftCardModal(true)}
+                  onSplitBill={cartOrderId && items.length > 0 ? () => setShowSplitCheck(true) : undefined}
                 />
               )}
               {activeTab === 'guest' && (
@@ -1075,13 +1308,19 @@ export const CartOverlay: React.FC<CartOverlayProps> = React.memo(({
         {/* Totals Section */}
         <CartTotals
           mode={mode}
-          subtotal={subtotal}
-          tax={mode === 'confirmation' ? subtotal * (taxRate / 100) : tax} // Use dynamic tax rate in confirmation mode
-          total={mode === 'confirmation' ? subtotal + (subtotal * (taxRate / 100)) - discount : total}
-          discount={discount}
+          subtotal={mode === 'confirmation' ? pricing.subtotal : subtotal}
+          tax={mode === 'confirmation' ? pricing.tax : tax} // Payment method rate in confirmation mode
+          total={mode === 'confirmation' ? pricing.total : total}
+          discount={pricing.lineDiscount}
           cartDiscount={cartDiscount}
+          promotions={promotions}
+          serviceCharge={mode === 'confirmation' ? pricing.serviceCharge : serviceCharge}
+          serviceChargeRate={serviceChargeRate}
+          surcharge={mode === 'confirmation' ? pricing.surcharge : 0} // Payment method fee (card fee etc.)
+          surchargeLabel={pricing.surchargeLabel}
           itemsLength={items.length}
-          taxRate={taxRate} // Pass dynamic tax rate for display
+          taxRate={pricing.taxRate} // Effective rate from pricing engine
+          taxMode={pricing.taxMode}
           onProceedToPayment={handleContinueToPayment}
           onCompleteOrder={handleCompleteOrder}
         />
@@ -1104,10 +1343,56 @@ export const CartOverlay: React.FC<CartOverlayProps> = React.memo(({
           onApprove={managerApprovalData.onApprove}
           operation={managerApprovalData.operation}
           itemName={managerApprovalData.item.name}
-          amount={managerApprovalData.item.totalPrice}
+          amount={managerApprovalData.amount ?? managerApprovalData.item.totalPrice}
           showInventoryReversal={false}
         />
       )}
+
+      {/* Gift Card Modal - Sell / top up / balance */}
+      <GiftCardModal
+        isOpen={showGiftCardModal}
+        onClose={() => setShowGiftCardModal(false)}
+        onAddToCart={handleAddGiftCard}
+      />
+
+      {/* Split Check Modal - Separate checks per guest / seat */}
+      <SplitCheckModal
+        isOpen={showSplitCheck}
+        onClose={() => setShowSplitCheck(false)}
+        orderId={cartOrderId}
+        slotId={currentSlotId}
+        covers={covers}
+        onSplit={handleChecksSplit}
+        onOpenCheck={handleOpenCheck}
+      />
+
+      {/* Coursing Modal - Seat, course and course hold for a line */}
+      <CoursingModal
+        isOpen={!!coursingItem}
+        item={coursingItem}
+        covers={covers}
+        heldCourses={heldCourses}
+        onClose={() => setCoursingItem(null)}
+        onSave={handleSaveCoursing}
+      />
+
+      {/* Line Discount Modal - Per-item discount with reason */}
+      <LineDiscountModal
+        isOpen={!!discountItem}
+        item={discountItem}
+        onClose={() => setDiscountItem(null)}
+        onApply={handleApplyItemDiscount}
+        onRemove={handleRemoveItemDiscount}
+      />
+
+      {/* Price Override Modal - Per-item price change with reason code */}
+      <PriceOverrideModal
+        isOpen={!!priceOverrideItem}
+        item={priceOverrideItem}
+        onClose={() => setPriceOverrideItem(null)}
+        onApply={handleApplyPriceOverride}
+        onRestore={handleRestorePrice}
+      />
     </>
   );
 });
@@ -1,5 +1,8 @@
 import React from 'react';
 import { Button } from '@/components/ui/button';
+import { formatCurrency } from '@/lib/utils/format';
+import { formatVoucherValue } from '@/lib/utils/vouchers';
+import type { AppliedVoucher } from '@/types/pos';
 
 interface ActionsTabContentProps {
   discountCode: string;
@@ -7,10 +10,13 @@ interface ActionsTabContentProps {
   showAvailableDiscounts: boolean;
   availableDiscounts: Array<{ type: 'percentage' | 'fixed'; value: number; code: string; name: string; minimumOrder: number; isActive: boolean; validFrom: Date; validUntil: Date; }>; 
   cartDiscount: number;
+  vouchers: AppliedVoucher[];
   onDiscountCodeChange: (code: string) => void;
   onApplyDiscount: () => void;
-  onRemoveDiscount: () => void;
+  onRemoveDiscount: (code: string) => void;
   onShowAvailableDiscounts: (show: boolean) => void;
+  onGiftCard?: () => void; // 🎁 Sell / top up / check balance
+  onSplitBill?: () => void; // ✂️ Split into separate checks
 }
 
 export const ActionsTabContent: React.FC<ActionsTabContentProps> = React.memo(({
@@ -19,10 +25,13 @@ export const ActionsTabContent: React.FC<ActionsTabContentProps> = React.memo(({
   showAvailableDiscounts,
   availableDiscounts,
   cartDiscount,
+  vouchers,
   onDiscountCodeChange,
   onApplyDiscount,
   onRemoveDiscount,
-  onShowAvailableDiscounts
+  onShowAvailableDiscounts,
+  onGiftCard,
+  onSplitBill
 }) => {
   return (
     <div className="h-full overflow-y-auto scrollbar-hide p-4">
@@ -74,17 +83,31 @@ export const ActionsTabContent: React.FC<ActionsTabContentProps> = React.memo(({
           )}
         </div>
 
-        {/* Applied Discount */}
-        {cartDiscount > 0 && (
+        {/* Applied Codes */}
+        {vouchers.map(voucher => (
+          <div key={voucher.code} className="flex items-center justify-between p-3 rounded-md border border-border">
+            <div>
+              <p className="text-sm font-medium text-text-primary">{voucher.name}</p>
+              <p className="text-xs text-text-secondary">
+                Code: {voucher.code} • {formatVoucherValue(voucher)}
+                {voucher.amount <= 0 && voucher.minimumOrder ? ` • Min. order ${formatCurrency(voucher.minimumOrder)}` : ''}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-success-light">- {formatCurrency(voucher.amount)}</span>
+              <Button variant="line" size="sm" onClick={() => onRemoveDiscount(voucher.code)}>Remove</Button>
+            </div>
+          </div>
+        ))}
+
+        {/* Manual order discount (no code) */}
+        {vouchers.length === 0 && cartDiscount > 0 && (
           <div className="flex items-center justify-between p-3 rounded-md border border-border">
             <div>
               <p className="text-sm font-medium text-text-primary">Applied Discount</p>
               <p className="text-xs text-text-secondary">Manual</p>
             </div>
-            <div className="flex items-center gap-2">
-              <span className="text-sm text-success-light">- {cartDiscount}</span>
-              <Button variant="line" size="sm" onClick={onRemoveDiscount}>Remove</Button>
-            </div>
+            <span className="text-sm text-success-light">- {formatCurrency(cartDiscount)}</span>
           </div>
         )}
       </div>
@@ -97,7 +120,8 @@ export const ActionsTabContent: React.FC<ActionsTabContentProps> = React.memo(({
           <Button
             variant="line"
             className="h-12 flex flex-col items-center justify-center"
-            onClick={() => console.log('Split bill')}
+            onClick={onSplitBill}
+            disabled={!onSplitBill}
           >
             <span className="text-sm">Split Bill</span>
           </Button>
@@ -119,7 +143,7 @@ export const ActionsTabContent: React.FC<ActionsTabContentProps> = React.memo(({
           </Button>
         </div>
 
-        <div className="grid grid-cols-2 gap-3">
+        <div className="grid grid-cols-3 gap-3">
           <Button
             variant="line"
             className="h-12 flex flex-col items-center justify-center"
@@ -135,6 +159,15 @@ export const ActionsTabContent: React.FC<ActionsTabContentProps> = React.memo(({
           >
             <span className="text-sm">Print</span>
           </Button>
+
+          <Button
+            variant="line"
+            className="h-12 flex flex-col items-center justify-center"
+            onClick={onGiftCard}
+            disabled={!onGiftCard}
+          >
+            <span className="text-sm">Gift Card</span>
+          </Button>
         </div>
       </div>
     </div>
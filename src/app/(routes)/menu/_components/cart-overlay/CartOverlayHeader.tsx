@@ -1,5 +1,5 @@
 import React from 'react';
-import { X, Trash2, Save, Printer, FileText, User } from 'lucide-react';
+import { X, Trash2, Save, Printer, FileText, User, Users, Minus, Plus } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 
 interface CartOverlayHeaderProps {
@@ -17,6 +17,8 @@ interface CartOverlayHeaderProps {
   onPrintReceipt: () => void;
   onDraftOrderFromConfirmation: () => void;
   onTipButton: () => void;
+  covers?: number;                            // Table covers (dine-in) - drives service charge
+  onCoversChange?: (covers: number) => void;
 }
 
 export const CartOverlayHeader: React.FC<CartOverlayHeaderProps> = React.memo(({
@@ -33,7 +35,9 @@ export const CartOverlayHeader: React.FC<CartOverlayHeaderProps> = React.memo(({
   onDraftOrder = () => {},
   onPrintReceipt = () => {},
   onDraftOrderFromConfirmation = () => {},
-  onTipButton = () => {}
+  onTipButton = () => {},
+  covers = 0,
+  onCoversChange
 }) => {
   return (
     <div className="flex items-center justify-between p-3 flex-shrink-0">
@@ -51,6 +55,31 @@ export const CartOverlayHeader: React.FC<CartOverlayHeaderProps> = React.memo(({
             <p className="text-sm text-text-secondary">
               {orderType ? orderType.charAt(0).toUpperCase() + orderType.slice(1).replace('-', ' ') : 'Dine In'} / SLOT#{slotId || 'D1'}
             </p>
+            {/* Covers - dine-in only */}
+            {orderType === 'dine-in' && onCoversChange && (
+              <div className="flex items-center gap-1.5 mt-1">
+                <Users className="w-3.5 h-3.5 text-text-secondary" />
+                <button
+                  onClick={() => onCoversChange(Math.max(0, covers - 1))}
+                  disabled={covers === 0}
+                  className="w-5 h-5 rounded-full border border-border flex items-center justify-center hover:bg-muted disabled:opacity-40"
+                  title="Remove cover"
+                >
+                  <Minus className="w-3 h-3" />
+                </button>
+                <span className="text-xs font-semibold text-text-primary tabular-nums min-w-[1.5rem] text-center">
+                  {covers || '-'}
+                </span>
+                <button
+                  onClick={() => onCoversChange(covers + 1)}
+                  className="w-5 h-5 rounded-full border border-border flex items-center justify-center hover:bg-muted"
+                  title="Add cover"
+                >
+                  <Plus className="w-3 h-3" />
+                </button>
+                <span className="text-xs text-text-secondary">covers</span>
+              </div>
+            )}
           </>
         )}
       </div>
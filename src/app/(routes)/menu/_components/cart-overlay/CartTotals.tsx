@@ -7,16 +7,25 @@ import { useUnifiedSlot } from '@/lib/store/unified-slots';
 import { useCurrentSlotId, useCartItems } from '@/lib/store/cart-new';
 import { useOverlayByOrderId } from '@/lib/store/order-overlay';
 import { useNavigationMode } from '@/lib/store/navigation';
+import { getBranchTaxConfig, type TaxMode } from '@/lib/utils/pricing';
+import { sumMoney } from '@/lib/utils/money';
+import type { AppliedPromotion } from '@/types/pos';
 
 interface CartTotalsProps {
   mode: 'cart' | 'confirmation';
   subtotal: number;
   tax: number;
   total: number;
-  discount: number;
+  discount: number; // Line (item) discounts
   cartDiscount: number;
+  promotions?: AppliedPromotion[]; // Automatic promotions, shown with an explanation
+  serviceCharge?: number;     // Automatic service charge (added before tax)
+  serviceChargeRate?: number;
+  surcharge?: number;         // Payment method surcharge e.g. card fee (confirmation only)
+  surchargeLabel?: string;
   itemsLength: number;
-  taxRate?: number; // Dynamic tax rate based on payment method (Cash: 16%, Card: 5%)
+  taxRate?: number; // Effective tax rate from pricing engine (branch rate or payment method override)
+  taxMode?: TaxMode; // Inclusive: menu prices already contain tax
   onProceedToPayment: () => void;
   onCompleteOrder?: () => void;
 }
@@ -28,8 +37,14 @@ export const CartTotals: React.FC<CartTotalsProps> = React.memo(({
   total,
   discount,
   cartDiscount,
+  promotions = [],
+  serviceCharge = 0,
+  serviceChargeRate = 0,
+  surcharge = 0,
+  surchargeLabel = 'Surcharge',
   itemsLength,
-  taxRate = 16, // Default to cash tax rate
+  taxRate = getBranchTaxConfig().rate,
+  taxMode = getBranchTaxConfig().mode,
   onProceedToPayment,
   onCompleteOrder
 }) => {
@@ -37,6 +52,15 @@ export const CartTotals: React.FC<CartTotalsProps> = React.memo(({
   const navigationMode = useNavigationMode();
   const isEditMode = navigationMode === 'edit';
 
+  // Inclusive pricing: cart view shows menu (tax-inclusive) amounts, confirmation shows net + tax
+  // Subtotal is after line discounts and promotions, so add them back for the gross items amount
+  const promotionTotal = sumMoney(promotions.map(promotion => promotion.amount));
+  const itemsAmount = sumMoney([
+    taxMode === 'inclusive' && mode === 'cart' ? subtotal + tax : subtotal,
+    discount,
+    promotionTotal
+  ]);
+
   // Get current state for smart logic
   const currentSlotId = useCurrentSlotId();
   const cartItems = useCartItems();
@@ -188,7 +212,7 @@ export const CartTotals: React.FC<CartTotalsProps> = React.memo(({
             // Standard display for new orders
             <div className="flex justify-between">
               <span className="text-text-secondary">Items ({itemsLength})</span>
-              <span className="text-text-primary">{formatCurrency(subtotal)}</span>
+              <span className="text-text-primary">{formatCurrency(itemsAmount)}</span>
             </div>
           )}
 
@@ -199,6 +223,23 @@ export const CartTotals: React.FC<CartTotalsProps> = React.memo(({
             </div>
           )}
 
+          {promotions.map(promotion => (
+            <div key={promotion.promotionId} className="flex justify-between gap-3">
+              <div className="min-w-0">
+                <span className="text-text-secondary">{promotion.name}</span>
+                <p className="text-xs text-text-secondary/80 truncate">{promotion.description}</p>
+              </div>
+              <span className="text-success-light whitespace-nowrap">- {formatCurrency(promotion.amount)}</span>
+            </div>
+          ))}
+
+          {serviceCharge > 0 && (
+            <div className="flex justify-between">
+              <span className="text-text-secondary">Service Charge ({serviceChargeRate}%)</span>
+              <span className="text-text-primary">{formatCurrency(serviceCharge)}</span>
+            </div>
+          )}
+
           {cartDiscount > 0 && (
             <div className="flex justify-between">
               <span className="text-text-secondary">Cart Discount</span>
@@ -210,9 +251,15 @@ export const CartTotals: React.FC<CartTotalsProps> = React.memo(({
           {mode === 'confirmation' && (
             <>
               <div className="flex justify-between">
-                <span className="text-text-secondary">Tax ({taxRate}%)</span>
+                <span className="text-text-secondary">Tax ({taxRate}%{taxMode === 'inclusive' ? ' incl.' : ''})</span>
                 <span className="text-text-primary">{formatCurrency(tax)}</span>
               </div>
+              {surcharge > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-text-secondary">{surchargeLabel}</span>
+                  <span className="text-text-primary">{formatCurrency(surcharge)}</span>
+                </div>
+              )}
             </>
           )}
 
@@ -223,8 +270,8 @@ export const CartTotals: React.FC<CartTotalsProps> = React.memo(({
               </span>
               <span className="text-lg font-bold text-text-primary">
                 {isEditMode && paidItemsCount > 0
-                  ? formatCurrency(unpaidItemsTotal - discount - cartDiscount + (mode === 'confirmation' ? tax * (unpaidItemsTotal / subtotal) : 0))
-                  : (mode === 'cart' ? formatCurrency(Math.max(0, subtotal - discount - cartDiscount)) : formatCurrency(total))
+                  ? formatCurrency(unpaidItemsTotal - discount - promotionTotal - cartDiscount + serviceCharge + (mode === 'confirmation' ? tax * (unpaidItemsTotal / subtotal) : 0))
+                  : (mode === 'cart' ? formatCurrency(Math.max(0, itemsAmount - discount - promotionTotal - cartDiscount + serviceCharge)) : formatCurrency(total))
                 }
               </span>
             </div>
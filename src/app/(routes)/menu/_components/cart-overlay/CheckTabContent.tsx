@@ -1,6 +1,7 @@
 import React from 'react';
 import { CartItem as CartItemType } from '@/lib/store/cart-new';
 import { formatCurrency } from '@/lib/utils/format';
+import { subtractMoney } from '@/lib/utils/money';
 import { SwipeableCartItem } from './SwipeableCartItem';
 
 interface CheckTabContentProps {
@@ -11,6 +12,9 @@ interface CheckTabContentProps {
   onDelete: (uniqueId: string) => void;
   onRefund?: (item: CartItemType) => void;
   onMarkWaste?: (item: CartItemType) => void;
+  onDiscount?: (item: CartItemType) => void;
+  onCoursing?: (item: CartItemType) => void;
+  onPriceOverride?: (item: CartItemType) => void;
 }
 
 export const CheckTabContent: React.FC<CheckTabContentProps> = React.memo(({
@@ -20,7 +24,10 @@ export const CheckTabContent: React.FC<CheckTabContentProps> = React.memo(({
   onRepeat,
   onDelete,
   onRefund,
-  onMarkWaste
+  onMarkWaste,
+  onDiscount,
+  onCoursing,
+  onPriceOverride
 }) => {
   if (mode === 'cart') {
     // Cart mode - editable items
@@ -36,6 +43,9 @@ export const CheckTabContent: React.FC<CheckTabContentProps> = React.memo(({
               onDelete={onDelete}
               onRefund={onRefund}
               onMarkWaste={onMarkWaste}
+              onDiscount={onDiscount}
+              onCoursing={onCoursing}
+              onPriceOverride={onPriceOverride}
             />
           ))}
         </div>
@@ -97,6 +107,13 @@ export const CheckTabContent: React.FC<CheckTabContentProps> = React.memo(({
                       {item.modifiers.notes}
                     </p>
                   )}
+
+                  {/* Line Discount */}
+                  {item.lineDiscount && item.lineDiscount.amount > 0 && (
+                    <p className="text-sm text-success-light mb-0.5">
+                      Discount: - {formatCurrency(item.lineDiscount.amount)} ({item.lineDiscount.reason})
+                    </p>
+                  )}
                 </div>
 
                 <div className="flex items-center space-x-2 flex-shrink-0">
@@ -107,7 +124,7 @@ export const CheckTabContent: React.FC<CheckTabContentProps> = React.memo(({
                   <span className={`font-semibold text-base ${
                     item.isPaid ? 'text-green-700' : 'text-text-primary'
                   }`}>
-                    {formatCurrency(item.totalPrice)}
+                    {formatCurrency(subtractMoney(item.totalPrice, item.lineDiscount?.amount || 0))}
                   </span>
                 </div>
               </div>
@@ -0,0 +1,144 @@
+/**
+ * Coursing Modal Component
+ *
+ * PURPOSE: Tag a dine-in cart line with a seat and a course, and hold the
+ * course so the kitchen doesn't get it until someone fires it.
+ *
+ * LINKS WITH:
+ * - CartOverlay: Opens from the SwipeableCartItem seat / course button
+ * - Cart Store: setItemCoursing + setCourseHold
+ * - Coursing Rules (lib/utils/coursing): Courses, labels, default seats
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Pause, Utensils, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { CartItem } from '@/lib/store/cart-new';
+import type { Course } from '@/types/pos';
+import { COURSES, COURSE_LABELS, DEFAULT_SEAT_COUNT } from '@/lib/utils/coursing';
+
+interface CoursingModalProps {
+  isOpen: boolean;
+  item: CartItem | null;
+  covers?: number;       // Table covers - one seat button per cover
+  heldCourses: Course[]; // Courses currently on hold in the cart
+  onClose: () => void;
+  onSave: (coursing: { seat?: number; course?: Course }, hold: boolean) => void;
+}
+
+export const CoursingModal: React.FC<CoursingModalProps> = ({
+  isOpen,
+  item,
+  covers,
+  heldCourses,
+  onClose,
+  onSave
+}) => {
+  const [seat, setSeat] = useState<number | undefined>();
+  const [course, setCourse] = useState<Course | undefined>();
+  const [hold, setHold] = useState(false);
+
+  // Prefill with the line's current seat / course
+  useEffect(() => {
+    if (isOpen && item) {
+      setSeat(item.seat);
+      setCourse(item.course);
+      setHold(!!item.course && heldCourses.includes(item.course));
+    }
+  }, [isOpen, item, heldCourses]);
+
+  if (!isOpen || !item) return null;
+
+  const seatCount = Math.max(covers || DEFAULT_SEAT_COUNT, item.seat || 0);
+
+  const handleCourse = (next?: Course) => {
+    setCourse(next);
+    setHold(!!next && heldCourses.includes(next));
+  };
+
+  const optionClass = (isSelected: boolean) =>
+    `h-10 min-w-10 px-3 text-sm font-semibold rounded-lg border transition-colors ${
+      isSelected ? 'bg-primary text-primary-foreground border-primary' : 'bg-background border-border hover:bg-muted'
+    }`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="bg-card border border-border rounded-2xl p-6 max-w-md mx-4 w-full">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-primary/10 rounded-full flex items-center justify-center">
+              <Utensils className="w-5 h-5 text-primary" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-text-primary">Seat &amp; Course</h2>
+              <p className="text-sm text-text-secondary">{item.name} x{item.quantity}</p>
+            </div>
+          </div>
+          <Button variant="icon" size="sm" onClick={onClose}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {/* Seat */}
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-text-primary mb-2">Seat</label>
+          <div className="flex flex-wrap gap-2">
+            <button type="button" onClick={() => setSeat(undefined)} className={optionClass(seat === undefined)}>
+              Table
+            </button>
+            {Array.from({ length: seatCount }, (_, index) => index + 1).map(option => (
+              <button key={option} type="button" onClick={() => setSeat(option)} className={optionClass(seat === option)}>
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Course */}
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-text-primary mb-2">Course</label>
+          <div className="flex flex-wrap gap-2">
+            <button type="button" onClick={() => handleCourse(undefined)} className={optionClass(course === undefined)}>
+              None
+            </button>
+            {COURSES.map(option => (
+              <button key={option} type="button" onClick={() => handleCourse(option)} className={optionClass(course === option)}>
+                {COURSE_LABELS[option]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Hold the course */}
+        {course && (
+          <label className="mb-6 p-3 flex items-center gap-3 rounded-lg border border-border cursor-pointer">
+            <input
+              type="checkbox"
+              checked={hold}
+              onChange={(e) => setHold(e.target.checked)}
+              className="w-4 h-4 accent-primary"
+            />
+            <Pause className="w-4 h-4 text-warning" />
+            <div>
+              <p className="text-sm font-semibold text-text-primary">Hold {COURSE_LABELS[course]}</p>
+              <p className="text-xs text-text-secondary">The whole course waits until it is fired</p>
+            </div>
+          </label>
+        )}
+
+        {/* Actions */}
+        <div className="flex gap-3">
+          <Button variant="line" className="flex-1" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button variant="fill" className="flex-1" onClick={() => onSave({ seat, course }, hold)}>
+            Save
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,11 @@
 import React, { useState, useRef } from 'react';
-import { Repeat, Trash2, CheckCircle, RotateCcw, X } from 'lucide-react';
+import { Repeat, Trash2, CheckCircle, RotateCcw, X, Tag, Utensils, DollarSign } from 'lucide-react';
 import { CartItem as CartItemType } from '@/lib/store/cart-new';
 import { formatCurrency } from '@/lib/utils/format';
+import { subtractMoney } from '@/lib/utils/money';
+import { formatCoursing } from '@/lib/utils/coursing';
+import { formatQuantity, formatUnitPrice, getPricingMode } from '@/lib/utils/itemPricing';
+import { canOverridePrice } from '@/lib/utils/priceOverrides';
 
 interface SwipeableCartItemProps {
   item: CartItemType;
@@ -10,6 +14,9 @@ interface SwipeableCartItemProps {
   onDelete: (uniqueId: string) => void;
   onRefund?: (item: CartItemType) => void;
   onMarkWaste?: (item: CartItemType) => void;
+  onDiscount?: (item: CartItemType) => void;
+  onCoursing?: (item: CartItemType) => void; // 🍽️ Seat / course (dine-in)
+  onPriceOverride?: (item: CartItemType) => void; // 💲 Price override (reason code + audit)
 }
 
 export const SwipeableCartItem: React.FC<SwipeableCartItemProps> = React.memo(({
@@ -18,7 +25,10 @@ export const SwipeableCartItem: React.FC<SwipeableCartItemProps> = React.memo(({
   onRepeat,
   onDelete,
   onRefund,
-  onMarkWaste
+  onMarkWaste,
+  onDiscount,
+  onCoursing,
+  onPriceOverride
 }) => {
   const [isSwiping, setIsSwiping] = useState(false);
   const [swipeOffset, setSwipeOffset] = useState(0);
@@ -126,6 +136,21 @@ export const SwipeableCartItem: React.FC<SwipeableCartItemProps> = React.memo(({
   // Determine item payment status for different actions
   const isPaidItem = item.isPaid === true;
 
+  // 🏷️ Line discount (only unpaid, editable lines can be discounted)
+  const lineDiscount = item.lineDiscount;
+  const canDiscount = !!onDiscount && !isPaidItem && item.isModifierUpgrade !== true;
+
+  // 🍽️ Seat / course tag (paid lines keep what the kitchen was sent)
+  const coursing = formatCoursing(item);
+  const canCourse = !!onCoursing && !isPaidItem && item.isModifierUpgrade !== true;
+
+  // 💲 Price override (only unpaid, fixed / weight priced lines)
+  const priceOverride = item.priceOverride;
+  const canOverride = !!onPriceOverride && canOverridePrice(item);
+
+  // ⚖️ Weight lines show "0.750 kg × Rs. 1,200/kg", open-price lines are tagged
+  const pricingMode = getPricingMode(item);
+
   return (
     <div className="relative overflow-hidden rounded-lg">
       {/* Action Buttons (hidden behind item) - Different for paid vs unpaid */}
@@ -185,6 +210,16 @@ export const SwipeableCartItem: React.FC<SwipeableCartItemProps> = React.memo(({
               </p>
             )}
 
+            {/* Weight / Open Price */}
+            {pricingMode === 'weight' && (
+              <p className="text-sm text-text-secondary mb-0.5">
+                {formatQuantity(item.quantity, item.weightUnit || 'kg')} × {formatUnitPrice(item.price, item.weightUnit || 'kg')}
+              </p>
+            )}
+            {pricingMode === 'open' && (
+              <p className="text-sm text-text-secondary mb-0.5">Open price</p>
+            )}
+
             {/* Variations */}
             {item.modifiers?.variations && item.modifiers.variations.map((variation, index) => (
               <p key={`var-${index}`} className="text-sm text-text-secondary mb-0.5">
@@ -212,6 +247,32 @@ export const SwipeableCartItem: React.FC<SwipeableCartItemProps> = React.memo(({
                 {item.modifiers.notes}
               </p>
             )}
+
+            {/* Seat / Course */}
+            {coursing && (
+              <p className={`text-sm mb-0.5 flex items-center gap-1 ${item.courseHeld ? 'text-warning' : 'text-text-secondary'}`}>
+                <Utensils className="w-3 h-3" />
+                {coursing}
+              </p>
+            )}
+
+            {/* Price Override */}
+            {priceOverride && (
+              <p className="text-sm text-warning mb-0.5 flex items-center gap-1">
+                <DollarSign className="w-3 h-3" />
+                Was {formatCurrency(priceOverride.originalPrice)}
+                <span className="text-text-secondary">· {priceOverride.reason}</span>
+              </p>
+            )}
+
+            {/* Line Discount */}
+            {lineDiscount && lineDiscount.amount > 0 && (
+              <p className="text-sm text-success-light mb-0.5 flex items-center gap-1">
+                <Tag className="w-3 h-3" />
+                {lineDiscount.type === 'percentage' ? `${lineDiscount.value}% off` : `${formatCurrency(lineDiscount.amount)} off`}
+                {lineDiscount.reason && <span className="text-text-secondary">· {lineDiscount.reason}</span>}
+              </p>
+            )}
           </div>
           
           <div className="flex items-center space-x-2 flex-shrink-0">
@@ -220,12 +281,76 @@ export const SwipeableCartItem: React.FC<SwipeableCartItemProps> = React.memo(({
               <CheckCircle className="w-5 h-5 text-green-600" />
             )}
 
+            {/* Seat / course button */}
+            {canCourse && (
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onCoursing?.(item);
+                }}
+                onMouseDown={(e) => e.stopPropagation()}
+                onTouchStart={(e) => e.stopPropagation()}
+                className={`p-1.5 rounded-full transition-colors ${
+                  coursing ? 'text-primary bg-primary/10' : 'text-text-secondary hover:bg-muted'
+                }`}
+                title="Seat & course"
+              >
+                <Utensils className="w-4 h-4" />
+              </button>
+            )}
+
+            {/* Price override button */}
+            {canOverride && (
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onPriceOverride?.(item);
+                }}
+                onMouseDown={(e) => e.stopPropagation()}
+                onTouchStart={(e) => e.stopPropagation()}
+                className={`p-1.5 rounded-full transition-colors ${
+                  priceOverride ? 'text-warning bg-warning/10' : 'text-text-secondary hover:bg-muted'
+                }`}
+                title="Override price"
+              >
+                <DollarSign className="w-4 h-4" />
+              </button>
+            )}
+
+            {/* Discount button */}
+            {canDiscount && (
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onDiscount?.(item);
+                }}
+                onMouseDown={(e) => e.stopPropagation()}
+                onTouchStart={(e) => e.stopPropagation()}
+                className={`p-1.5 rounded-full transition-colors ${
+                  lineDiscount ? 'text-success-light bg-success-light/10' : 'text-text-secondary hover:bg-muted'
+                }`}
+                title="Discount item"
+              >
+                <Tag className="w-4 h-4" />
+              </button>
+            )}
+
             {/* Price display */}
-            <span className={`font-semibold text-base ${
-              isPaidItem ? 'text-green-700' : 'text-text-primary'
-            }`}>
-              {formatCurrency(item.totalPrice)}
-            </span>
+            <div className="flex flex-col items-end">
+              {lineDiscount && lineDiscount.amount > 0 && (
+                <span className="text-xs text-text-secondary line-through">
+                  {formatCurrency(item.totalPrice)}
+                </span>
+              )}
+              <span className={`font-semibold text-base ${
+                isPaidItem ? 'text-green-700' : 'text-text-primary'
+              }`}>
+                {formatCurrency(subtractMoney(item.totalPrice, lineDiscount?.amount || 0))}
+              </span>
+            </div>
           </div>
         </div>
       </div>
@@ -6,3 +6,4 @@ export { SwipeableCartItem } from './SwipeableCartItem';
 export { ActionsTabContent } from './ActionsTabContent';
 export { GuestTabContent } from './GuestTabContent';
 export { CartTotals } from './CartTotals';
+export { CoursingModal } from './CoursingModal';
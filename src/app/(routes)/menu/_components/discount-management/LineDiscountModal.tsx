@@ -0,0 +1,211 @@
+/**
+ * Line Discount Modal Component
+ *
+ * PURPOSE: Cashier discount on a single cart line - percentage or fixed amount
+ * with a mandatory reason. Shows the resulting line price and flags discounts
+ * that are above the branch limit (those go through manager approval).
+ *
+ * LINKS WITH:
+ * - CartOverlay: Opens from SwipeableCartItem discount button, handles approval
+ * - Discount Rules (lib/utils/discounts): Branch limits + reasons
+ * - Pricing Engine: calculateLineDiscount (same amount the totals use)
+ */
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Tag, X, Shield } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { CartItem } from '@/lib/store/cart-new';
+import type { LineDiscount } from '@/types/pos';
+import { formatCurrency } from '@/lib/utils/format';
+import { calculateLineDiscount } from '@/lib/utils/pricing';
+import { getBranchDiscountConfig, requiresLineDiscountApproval } from '@/lib/utils/discounts';
+import { subtractMoney } from '@/lib/utils/money';
+
+export type LineDiscountInput = Pick<LineDiscount, 'type' | 'value' | 'reason'>;
+
+interface LineDiscountModalProps {
+  isOpen: boolean;
+  item: CartItem | null;
+  onClose: () => void;
+  onApply: (discount: LineDiscountInput) => void;
+  onRemove?: () => void;
+}
+
+export const LineDiscountModal: React.FC<LineDiscountModalProps> = ({
+  isOpen,
+  item,
+  onClose,
+  onApply,
+  onRemove
+}) => {
+  const [type, setType] = useState<LineDiscount['type']>('percentage');
+  const [value, setValue] = useState('');
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState('');
+
+  // Prefill with the existing discount when editing
+  useEffect(() => {
+    if (isOpen && item) {
+      setType(item.lineDiscount?.type || 'percentage');
+      setValue(item.lineDiscount ? String(item.lineDiscount.value) : '');
+      setReason(item.lineDiscount?.reason || '');
+      setError('');
+    }
+  }, [isOpen, item]);
+
+  if (!isOpen || !item) return null;
+
+  const { reasons = [] } = getBranchDiscountConfig();
+  const numericValue = parseFloat(value) || 0;
+  const discountAmount = calculateLineDiscount(item.totalPrice, { type, value: numericValue });
+  const needsApproval = requiresLineDiscountApproval(item.totalPrice, { type, value: numericValue });
+
+  const handleApply = () => {
+    if (numericValue <= 0) {
+      setError('Enter a discount value');
+      return;
+    }
+
+    if (type === 'percentage' && numericValue > 100) {
+      setError('Percentage cannot be more than 100%');
+      return;
+    }
+
+    if (!reason.trim()) {
+      setError('Reason is required for audit trail');
+      return;
+    }
+
+    onApply({ type, value: numericValue, reason: reason.trim() });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="bg-card border border-border rounded-2xl p-6 max-w-md mx-4 w-full">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-primary/10 rounded-full flex items-center justify-center">
+              <Tag className="w-5 h-5 text-primary" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-text-primary">Discount Item</h2>
+              <p className="text-sm text-text-secondary">
+                {item.name} · {formatCurrency(item.totalPrice)}
+              </p>
+            </div>
+          </div>
+          <Button variant="icon" size="sm" onClick={onClose}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {/* Discount Type */}
+        <div className="grid grid-cols-2 gap-2 mb-4">
+          {(['percentage', 'fixed'] as const).map((option) => (
+            <Button
+              key={option}
+              variant="line"
+              onClick={() => setType(option)}
+              className={type === option ? 'bg-primary text-primary-foreground border-primary hover:bg-primary/90' : ''}
+            >
+              {option === 'percentage' ? 'Percentage (%)' : 'Fixed Amount'}
+            </Button>
+          ))}
+        </div>
+
+        {/* Value */}
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-text-primary mb-2">
+            {type === 'percentage' ? 'Discount %' : 'Discount Amount'}
+          </label>
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            className="w-full p-3 bg-background border border-border rounded-lg text-text-primary"
+            placeholder={type === 'percentage' ? 'e.g. 10' : 'e.g. 100'}
+          />
+        </div>
+
+        {/* Reason */}
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-text-primary mb-2">
+            Reason (Required for Audit)
+          </label>
+          <div className="flex flex-wrap gap-2 mb-2">
+            {reasons.map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setReason(option)}
+                className={`px-3 py-1.5 text-xs rounded-full border transition-colors ${
+                  reason === option
+                    ? 'bg-primary text-primary-foreground border-primary'
+                    : 'bg-background border-border text-text-secondary hover:bg-muted'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            className="w-full p-3 bg-background border border-border rounded-lg text-text-primary"
+            placeholder="Or enter a reason..."
+            maxLength={100}
+          />
+        </div>
+
+        {/* Preview */}
+        <div className="mb-4 p-4 bg-background rounded-lg border border-border space-y-1">
+          <div className="flex justify-between text-sm text-text-secondary">
+            <span>Discount</span>
+            <span className="text-success-light">- {formatCurrency(discountAmount)}</span>
+          </div>
+          <div className="flex justify-between font-medium text-text-primary">
+            <span>New line total</span>
+            <span>{formatCurrency(subtractMoney(item.totalPrice, discountAmount))}</span>
+          </div>
+        </div>
+
+        {/* Approval notice */}
+        {needsApproval && (
+          <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg flex items-center gap-2">
+            <Shield className="w-4 h-4 text-amber-600 flex-shrink-0" />
+            <p className="text-sm text-amber-700">Above discount limit - manager approval required</p>
+          </div>
+        )}
+
+        {/* Error */}
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex gap-3">
+          {item.lineDiscount && onRemove ? (
+            <Button variant="line" className="flex-1 text-destructive" onClick={onRemove}>
+              Remove
+            </Button>
+          ) : (
+            <Button variant="line" className="flex-1" onClick={onClose}>
+              Cancel
+            </Button>
+          )}
+          <Button variant="fill" className="flex-1" onClick={handleApply}>
+            {needsApproval ? 'Request Approval' : 'Apply'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
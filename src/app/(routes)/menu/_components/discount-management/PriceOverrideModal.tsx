@@ -0,0 +1,192 @@
+/**
+ * Price Override Modal Component
+ *
+ * PURPOSE: Cashier price change on a single cart line (e.g. to match a printed
+ * flyer) with a mandatory reason code from the branch list. Shows the original
+ * and new line price and flags overrides above the branch limit (those go
+ * through manager approval).
+ *
+ * LINKS WITH:
+ * - CartOverlay: Opens from SwipeableCartItem price button, handles approval + audit log
+ * - Price Override Rules (lib/utils/priceOverrides): Branch limits + reason codes
+ */
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { DollarSign, X, Shield } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { CartItem } from '@/lib/store/cart-new';
+import type { PriceOverride } from '@/types/pos';
+import { formatCurrency } from '@/lib/utils/format';
+import { getBranchPriceOverrideConfig, requiresPriceOverrideApproval } from '@/lib/utils/priceOverrides';
+import { multiplyMoney, subtractMoney, sumMoney } from '@/lib/utils/money';
+
+export type PriceOverrideInput = Pick<PriceOverride, 'price' | 'reason'>;
+
+interface PriceOverrideModalProps {
+  isOpen: boolean;
+  item: CartItem | null;
+  onClose: () => void;
+  onApply: (override: PriceOverrideInput) => void;
+  onRestore?: () => void;
+}
+
+export const PriceOverrideModal: React.FC<PriceOverrideModalProps> = ({
+  isOpen,
+  item,
+  onClose,
+  onApply,
+  onRestore
+}) => {
+  const [value, setValue] = useState('');
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState('');
+
+  // Prefill with the existing override when editing
+  useEffect(() => {
+    if (isOpen && item) {
+      setValue(item.priceOverride ? String(item.priceOverride.price) : '');
+      setReason(item.priceOverride?.reason || '');
+      setError('');
+    }
+  }, [isOpen, item]);
+
+  if (!isOpen || !item) return null;
+
+  const { reasons = [] } = getBranchPriceOverrideConfig();
+  const originalPrice = item.priceOverride?.originalPrice ?? item.price;
+  const newPrice = parseFloat(value);
+  const hasPrice = !isNaN(newPrice) && newPrice >= 0;
+  const needsApproval = hasPrice && requiresPriceOverrideApproval(originalPrice, newPrice);
+
+  // Add-ons stay on top of the overridden price
+  const modifiersPrice = subtractMoney(item.totalPrice / item.quantity, item.price);
+  const newLineTotal = hasPrice ? multiplyMoney(sumMoney([newPrice, modifiersPrice]), item.quantity) : item.totalPrice;
+
+  const handleApply = () => {
+    if (!hasPrice) {
+      setError('Enter the new price');
+      return;
+    }
+
+    if (newPrice === originalPrice) {
+      setError('New price is the same as the menu price');
+      return;
+    }
+
+    if (!reason) {
+      setError('Select a reason code for the audit log');
+      return;
+    }
+
+    onApply({ price: newPrice, reason });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="bg-card border border-border rounded-2xl p-6 max-w-md mx-4 w-full">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-primary/10 rounded-full flex items-center justify-center">
+              <DollarSign className="w-5 h-5 text-primary" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-text-primary">Override Price</h2>
+              <p className="text-sm text-text-secondary">
+                {item.name} · Menu price {formatCurrency(originalPrice)}
+              </p>
+            </div>
+          </div>
+          <Button variant="icon" size="sm" onClick={onClose}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {/* New Price */}
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-text-primary mb-2">
+            New Price{modifiersPrice > 0 ? ' (before add-ons)' : ''}
+          </label>
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            className="w-full p-3 bg-background border border-border rounded-lg text-text-primary"
+            placeholder={`e.g. ${originalPrice}`}
+            autoFocus
+          />
+        </div>
+
+        {/* Reason Code */}
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-text-primary mb-2">
+            Reason (Required for Audit)
+          </label>
+          <div className="flex flex-wrap gap-2">
+            {reasons.map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setReason(option)}
+                className={`px-3 py-1.5 text-xs rounded-full border transition-colors ${
+                  reason === option
+                    ? 'bg-primary text-primary-foreground border-primary'
+                    : 'bg-background border-border text-text-secondary hover:bg-muted'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Preview */}
+        <div className="mb-4 p-4 bg-background rounded-lg border border-border space-y-1">
+          <div className="flex justify-between text-sm text-text-secondary">
+            <span>Current line total</span>
+            <span>{formatCurrency(item.totalPrice)}</span>
+          </div>
+          <div className="flex justify-between font-medium text-text-primary">
+            <span>New line total</span>
+            <span>{formatCurrency(newLineTotal)}</span>
+          </div>
+        </div>
+
+        {/* Approval notice */}
+        {needsApproval && (
+          <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg flex items-center gap-2">
+            <Shield className="w-4 h-4 text-amber-600 flex-shrink-0" />
+            <p className="text-sm text-amber-700">Above override limit - manager approval required</p>
+          </div>
+        )}
+
+        {/* Error */}
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex gap-3">
+          {item.priceOverride && onRestore ? (
+            <Button variant="line" className="flex-1 text-destructive" onClick={onRestore}>
+              Restore Price
+            </Button>
+          ) : (
+            <Button variant="line" className="flex-1" onClick={onClose}>
+              Cancel
+            </Button>
+          )}
+          <Button variant="fill" className="flex-1" onClick={handleApply}>
+            {needsApproval ? 'Request Approval' : 'Apply'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
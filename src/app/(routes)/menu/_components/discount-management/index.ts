@@ -11,3 +11,7 @@ export {
 // Components
 export { DiscountInput } from './DiscountInput';
 export { DiscountDisplay } from './DiscountDisplay';
+export { LineDiscountModal } from './LineDiscountModal';
+export type { LineDiscountInput } from './LineDiscountModal';
+export { PriceOverrideModal } from './PriceOverrideModal';
+export type { PriceOverrideInput } from './PriceOverrideModal';
@@ -51,6 +51,7 @@ interface ItemModifierProps {
     addOns?: Array<{ id: string }>;
     specialInstructions?: string;
     quantity?: number;
+    price?: number;
   };
 }
 
@@ -82,6 +83,11 @@ export const ItemModifier: React.FC<ItemModifierProps> = ({
     customItemPrice,
     setCustomItemName,
     setCustomItemPrice,
+    pricingMode,
+    enteredPrice,
+    enteredWeight,
+    setEnteredPrice,
+    setEnteredWeight,
     isFormValid,
     calculatePricePerItem,
     prepareCartItem
@@ -138,7 +144,10 @@ export const ItemModifier: React.FC<ItemModifierProps> = ({
     } else if (isEditing && editingItemId) {
       // 🔥 CRITICAL: Pass quantity to enable duplication logic in handleModifierAddToCart
       console.log('🎯 [ITEM MODIFIER] Calling onAddToCart for editing:', { editingItemId, isEditing: true, quantity });
-      onAddToCart({ ...cartItem, id: editingItemId, isEditing: true, quantity });
+      onAddToCart({ ...cartItem, id: editingItemId, isEditing: true, quantity: pricingMode === 'weight' ? cartItem.quantity : quantity });
+    } else if (pricingMode === 'weight') {
+      // ⚖️ WEIGHT: One line carrying the entered weight as its quantity
+      onAddToCart({ ...cartItem, id: item.id });
     } else {
       // Add main item multiple times for quantity (as separate lines), preserve original menu id
       for (let i = 0; i < quantity; i++) {
@@ -201,6 +210,10 @@ export const ItemModifier: React.FC<ItemModifierProps> = ({
             customItemPrice={customItemPrice}
             onCustomNameChange={setCustomItemName}
             onCustomPriceChange={setCustomItemPrice}
+            enteredPrice={enteredPrice}
+            enteredWeight={enteredWeight}
+            onEnteredPriceChange={setEnteredPrice}
+            onEnteredWeightChange={setEnteredWeight}
           />
         </div>
 
@@ -209,6 +222,7 @@ export const ItemModifier: React.FC<ItemModifierProps> = ({
           quantity={quantity}
           isFormValid={isFormValid()}
           isEditing={isEditing}
+          showQuantity={pricingMode !== 'weight'}
           onQuantityChange={setQuantity}
           onAddToCart={handleAddToCart}
         />
@@ -5,6 +5,8 @@ import { ItemInfo } from './ItemInfo';
 import { SpecialInstructions } from './SpecialInstructions';
 import { FrequentlyBoughtTogether } from './FrequentlyBoughtTogether';
 import { CustomItemInputs } from './CustomItemInputs';
+import { PriceEntryInputs } from './PriceEntryInputs';
+import type { ItemPricingMode, WeightUnit } from '@/types/pos';
 
 // Local interface to match AddOnSection from AddOnSections component
 interface AddOnSection {
@@ -28,6 +30,10 @@ interface MenuItem {
   available: boolean;
   isCustomItem?: boolean;
   isCustomTemplate?: boolean;
+  pricingMode?: ItemPricingMode;
+  minPrice?: number;
+  maxPrice?: number;
+  weightUnit?: WeightUnit;
 }
 
 interface ItemModifierContentProps {
@@ -65,6 +71,11 @@ interface ItemModifierContentProps {
   customItemPrice?: number;
   onCustomNameChange?: (value: string) => void;
   onCustomPriceChange?: (value: number) => void;
+  // Open-price / weight entry props
+  enteredPrice?: number;
+  enteredWeight?: number;
+  onEnteredPriceChange?: (value: number) => void;
+  onEnteredWeightChange?: (value: number) => void;
 }
 
 export const ItemModifierContent: React.FC<ItemModifierContentProps> = React.memo(({
@@ -84,7 +95,11 @@ export const ItemModifierContent: React.FC<ItemModifierContentProps> = React.mem
   customItemName,
   customItemPrice,
   onCustomNameChange,
-  onCustomPriceChange
+  onCustomPriceChange,
+  enteredPrice,
+  enteredWeight,
+  onEnteredPriceChange,
+  onEnteredWeightChange
 }) => {
   if (loading) {
     return (
@@ -137,6 +152,21 @@ export const ItemModifierContent: React.FC<ItemModifierContentProps> = React.mem
         />
       )}
 
+      {/* Price / Weight Entry - ONLY for open-price and weight items */}
+      {isRegularItem && item.pricingMode && item.pricingMode !== 'fixed' && onEnteredPriceChange && onEnteredWeightChange && (
+        <PriceEntryInputs
+          pricingMode={item.pricingMode}
+          unitPrice={calculatePricePerItem()}
+          minPrice={item.minPrice}
+          maxPrice={item.maxPrice}
+          weightUnit={item.weightUnit}
+          price={enteredPrice || 0}
+          weight={enteredWeight || 0}
+          onPriceChange={onEnteredPriceChange}
+          onWeightChange={onEnteredWeightChange}
+        />
+      )}
+
       {/* Variations - ONLY for regular items */}
       {isRegularItem && modifierData.variations && modifierData.variations.length > 0 && (
         <VariationSelector
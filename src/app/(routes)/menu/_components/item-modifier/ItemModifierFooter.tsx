@@ -6,6 +6,7 @@ interface ItemModifierFooterProps {
   quantity: number;
   isFormValid: boolean;
   isEditing: boolean;
+  showQuantity?: boolean; // Weight items sell one line of the entered weight
   onQuantityChange: (quantity: number) => void;
   onAddToCart: () => void;
 }
@@ -14,6 +15,7 @@ export const ItemModifierFooter: React.FC<ItemModifierFooterProps> = React.memo(
   quantity,
   isFormValid,
   isEditing,
+  showQuantity = true,
   onQuantityChange,
   onAddToCart
 }) => {
@@ -21,10 +23,14 @@ export const ItemModifierFooter: React.FC<ItemModifierFooterProps> = React.memo(
     <div className="sticky bottom-0 z-10 bg-secondary backdrop-blur-sm border-t border-border p-4">
       <div className="flex items-center justify-between">
         {/* Quantity Controls - Left */}
-        <QuantityControls
-          quantity={quantity}
-          onQuantityChange={onQuantityChange}
-        />
+        {showQuantity ? (
+          <QuantityControls
+            quantity={quantity}
+            onQuantityChange={onQuantityChange}
+          />
+        ) : (
+          <div />
+        )}
 
         {/* Add to Cart Button - Right */}
         <Button
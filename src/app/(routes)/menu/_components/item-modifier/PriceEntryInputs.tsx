@@ -0,0 +1,106 @@
+/**
+ * PriceEntryInputs Component
+ *
+ * PURPOSE: Price or weight entry for open-price and weight-based menu items
+ * Open price: the line's price (inside the item's min/max when set)
+ * Weight: the weight sold, priced at the item's unit price
+ */
+
+import React from 'react';
+import type { ItemPricingMode, WeightUnit } from '@/types/pos';
+import { formatCurrency } from '@/lib/utils/format';
+import { formatUnitPrice, roundWeight, validateOpenPrice, validateWeight } from '@/lib/utils/itemPricing';
+
+interface PriceEntryInputsProps {
+  pricingMode: ItemPricingMode;
+  unitPrice: number; // Weight: price per unit, modifiers included
+  minPrice?: number;
+  maxPrice?: number;
+  weightUnit?: WeightUnit;
+  price: number;
+  weight: number;
+  onPriceChange: (value: number) => void;
+  onWeightChange: (value: number) => void;
+}
+
+const inputClass = 'w-full px-4 py-3 bg-secondary border border-border rounded-lg text-text-primary placeholder-text-secondary focus:outline-none focus:ring-2 focus:ring-primary';
+
+export const PriceEntryInputs: React.FC<PriceEntryInputsProps> = React.memo(({
+  pricingMode,
+  unitPrice,
+  minPrice,
+  maxPrice,
+  weightUnit = 'kg',
+  price,
+  weight,
+  onPriceChange,
+  onWeightChange
+}) => {
+  // Allow empty or valid decimal numbers
+  const handleNumberChange = (onChange: (value: number) => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    if (value === '' || /^\d*\.?\d*$/.test(value)) {
+      onChange(value === '' ? 0 : parseFloat(value));
+    }
+  };
+
+  if (pricingMode === 'open') {
+    const error = price > 0 ? validateOpenPrice({ minPrice, maxPrice }, price) : null;
+    const range = [
+      minPrice !== undefined ? `min ${formatCurrency(minPrice)}` : '',
+      maxPrice !== undefined ? `max ${formatCurrency(maxPrice)}` : ''
+    ].filter(Boolean).join(' • ');
+
+    return (
+      <div className="space-y-3 p-4 bg-card rounded-lg border border-border">
+        <h3 className="text-lg font-semibold text-text-primary">Enter Price</h3>
+        <div>
+          <label className="block text-sm font-medium text-text-secondary mb-2">
+            Price (Rs.) *{range && <span className="ml-2 text-xs">({range})</span>}
+          </label>
+          <input
+            type="text"
+            inputMode="decimal"
+            value={price === 0 ? '' : price}
+            onChange={handleNumberChange(onPriceChange)}
+            placeholder="0.00"
+            className={inputClass}
+            autoFocus
+          />
+        </div>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </div>
+    );
+  }
+
+  const error = weight > 0 ? validateWeight(weight) : null;
+
+  return (
+    <div className="space-y-3 p-4 bg-card rounded-lg border border-border">
+      <h3 className="text-lg font-semibold text-text-primary">Enter Weight</h3>
+      <div>
+        <label className="block text-sm font-medium text-text-secondary mb-2">
+          Weight ({weightUnit}) *
+        </label>
+        <input
+          type="text"
+          inputMode="decimal"
+          value={weight === 0 ? '' : weight}
+          onChange={handleNumberChange(onWeightChange)}
+          placeholder="0.000"
+          className={inputClass}
+          autoFocus
+        />
+      </div>
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-text-secondary">{formatUnitPrice(unitPrice, weightUnit)}</span>
+        <span className="font-semibold text-text-primary">
+          {formatCurrency(Math.round(unitPrice * roundWeight(weight)))}
+        </span>
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+});
+
+PriceEntryInputs.displayName = 'PriceEntryInputs';
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { MenuItem, CartItemModifiers } from '@/types/pos';
 import { getItemById } from '@/lib/api/mockDataManager';
+import { getPricingMode, roundWeight, validateOpenPrice, validateWeight } from '@/lib/utils/itemPricing';
 
 interface UseItemModifierProps {
   item: MenuItem & { modifiers?: CartItemModifiers };
@@ -11,6 +12,7 @@ interface UseItemModifierProps {
     addOns?: Array<{ id: string }>;
     specialInstructions?: string;
     quantity?: number;
+    price?: number; // Entered open price
   } | null;
 }
 
@@ -68,6 +70,11 @@ export const useItemModifier = ({
   const [customItemName, setCustomItemName] = useState('');
   const [customItemPrice, setCustomItemPrice] = useState(0);
 
+  // ⚖️ Open-price / weight entry state
+  const pricingMode = getPricingMode(item);
+  const [enteredPrice, setEnteredPrice] = useState(0);
+  const [enteredWeight, setEnteredWeight] = useState(0);
+
   // Load item modifier data when component opens
   useEffect(() => {
     if (isOpen && item.id) {
@@ -78,6 +85,8 @@ export const useItemModifier = ({
       setSelectedFrequentlyBoughtItems([]);
       setSpecialInstructions('');
       setQuantity(1);
+      setEnteredPrice(0);
+      setEnteredWeight(0);
     }
   }, [isOpen, item.id]);
 
@@ -131,10 +140,19 @@ export const useItemModifier = ({
       }
       
       if (savedSelections.quantity) {
-        setQuantity(savedSelections.quantity);
+        // ⚖️ Weight lines carry the weight as their quantity
+        if (pricingMode === 'weight') {
+          setEnteredWeight(savedSelections.quantity);
+        } else {
+          setQuantity(savedSelections.quantity);
+        }
+      }
+
+      if (pricingMode === 'open' && savedSelections.price) {
+        setEnteredPrice(savedSelections.price);
       }
     }
-  }, [modifierData, isEditing, savedSelections]);
+  }, [modifierData, isEditing, savedSelections, pricingMode]);
 
   const loadModifierData = async () => {
     setLoading(true);
@@ -434,6 +452,14 @@ export const useItemModifier = ({
       return true;
     }
 
+    // ⚖️ OPEN PRICE / WEIGHT: Require a valid entry
+    if (pricingMode === 'open' && validateOpenPrice(item, enteredPrice)) {
+      return false;
+    }
+    if (pricingMode === 'weight' && validateWeight(enteredWeight)) {
+      return false;
+    }
+
     // Check if variation is selected (if variations exist)
     if ((modifierData.variations?.length ?? 0) > 0 && Object.values(selectedVariations).length === 0) {
       return false;
@@ -458,8 +484,13 @@ export const useItemModifier = ({
 
   const calculateTotal = (): number => {
     if (!modifierData) return 0;
-    
-    let total = item.price * quantity;
+
+    // ⚖️ WEIGHT: Unit price (with modifiers) times the entered weight
+    if (pricingMode === 'weight') {
+      return Math.round(calculatePricePerItem() * roundWeight(enteredWeight));
+    }
+
+    let total = (pricingMode === 'open' ? enteredPrice : item.price) * quantity;
     
     // Add variation price
     if (modifierData.variations) {
@@ -503,7 +534,8 @@ export const useItemModifier = ({
       return Math.round(item.price);
     }
 
-    let pricePerItem = item.price;
+    // ⚖️ OPEN PRICE: Entered price replaces the menu price
+    let pricePerItem = pricingMode === 'open' ? enteredPrice : item.price;
     
     // Add variation price
     if (modifierData.variations) {
@@ -609,7 +641,19 @@ export const useItemModifier = ({
 
     // Calculate prices
     const pricePerItem = Math.round(calculatePricePerItem());
-    
+
+    // ⚖️ OPEN PRICE / WEIGHT: Entered price, and the weight as the line quantity
+    if (pricingMode !== 'fixed') {
+      return {
+        ...item,
+        price: pricingMode === 'open' ? Math.round(enteredPrice) : item.price,
+        ...(pricingMode === 'weight' && { quantity: roundWeight(enteredWeight) }),
+        modifiers,
+        calculatedPrice: pricePerItem,
+        originalPrice: pricePerItem
+      };
+    }
+
     return {
       ...item,
       modifiers,
@@ -641,6 +685,13 @@ export const useItemModifier = ({
     setCustomItemName,
     setCustomItemPrice,
 
+    // Open-price / weight entry state and actions
+    pricingMode,
+    enteredPrice,
+    enteredWeight,
+    setEnteredPrice,
+    setEnteredWeight,
+
     // Computed values
     isFormValid,
     calculateTotal,
@@ -7,4 +7,5 @@ export { AddOnSections } from './AddOnSections';
 export { SpecialInstructions } from './SpecialInstructions';
 export { FrequentlyBoughtTogether } from './FrequentlyBoughtTogether';
 export { QuantityControls } from './QuantityControls';
+export { PriceEntryInputs } from './PriceEntryInputs';
 export { useItemModifier } from './hooks/useItemModifier';
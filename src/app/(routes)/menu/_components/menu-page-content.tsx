@@ -28,6 +28,7 @@ import { ItemModifier } from './item-modifier';
 import { CartOverlay } from './cart-overlay';
 import { PaymentOverlay } from './payment-overlay';
 import { SlotSelector } from './slot-selector';
+import type { PricingPaymentMethod } from '@/lib/utils/pricing';
 
 // Menu item card settings - should match MenuItemCard CARD_SETTINGS
 const CARD_WIDTH = 280;
@@ -39,8 +40,8 @@ export const MenuPageContent = () => {
   const [itemsVisible, setItemsVisible] = useState(true);
   const [previousCartState, setPreviousCartState] = useState(false);
   const [isCashierMode, setIsCashierMode] = useState(true);
-  // Tax rate from payment overlay (Cash: 16%, Card: 5%, Split: 16%)
-  const [paymentTaxRate, setPaymentTaxRate] = useState(16);
+  // Payment method selected in payment overlay (drives tax rate override in pricing engine)
+  const [paymentMethod, setPaymentMethod] = useState<PricingPaymentMethod | undefined>('cash');
 
   // Use the custom hook for all menu management
   const {
@@ -277,7 +278,7 @@ export const MenuPageContent = () => {
           onEditItem={handleEditItem}
           onCancelOrder={handleCancelOrder}
           onDraftOrder={handleDraftOrder}
-          taxRate={paymentTaxRate} // Dynamic tax rate from payment method selection
+          paymentMethod={paymentMethod} // Pricing engine applies payment method tax override
         // onUndoLastAction removed - replaced by Clear Cart button in bulletproof implementation
         />
 
@@ -293,7 +294,7 @@ export const MenuPageContent = () => {
             console.log('🏁 [MENU] Order complete callback - slotId:', slotId);
             handleOrderComplete();
           }}
-          onTaxRateChange={setPaymentTaxRate} // Update tax rate when payment method changes
+          onPaymentMethodChange={setPaymentMethod} // Re-price confirmation totals when payment tab changes
         />
       </div>
     </div>
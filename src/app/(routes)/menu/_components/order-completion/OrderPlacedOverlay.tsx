@@ -2,20 +2,21 @@
 
 import React from 'react';
 import { Button } from '@/components/ui/button';
-import { Printer, CheckCircle, ChefHat } from 'lucide-react';
+import { Printer, CheckCircle, ChefHat, Users } from 'lucide-react';
 import { useAuthStore } from '@/lib/store/auth';
 import { useCustomer } from '@/lib/store/cart-new';
+import { useOrderOverlayStore } from '@/lib/store/order-overlay';
 
 interface OrderPlacedOverlayProps {
   slotId: string;
   orderNumber: string;
   orderType: 'dine-in' | 'take-away' | 'delivery';
-  paymentMethod: 'cash' | 'card' | 'split' | 'unpaid';
+  paymentMethod: 'cash' | 'card' | 'split' | 'gift_card' | 'mobile' | 'unpaid';
   placedAt: string;
   total: number;
   subtotal: number;
   tax: number;
-  taxRate?: number; // Dynamic tax rate based on payment method
+  taxRate?: number; // Effective tax rate from pricing engine (payment method override applied)
   cashReceived?: number;
   change?: number;
   onPrintReceipt: () => void;
@@ -33,7 +34,7 @@ export const OrderPlacedOverlay: React.FC<OrderPlacedOverlayProps> = React.memo(
   total: _total,
   subtotal: _subtotal,
   tax: _tax,
-  taxRate = 16, // Default to cash tax rate
+  taxRate,
   cashReceived: _cashReceived,
   change: _change,
   onPrintReceipt,
@@ -46,8 +47,11 @@ export const OrderPlacedOverlay: React.FC<OrderPlacedOverlayProps> = React.memo(
   const userRole = user?.role ?? 'staff';
   const roleLabel = `${userRole.charAt(0).toUpperCase()}${userRole.slice(1)}`;
   const isUnpaidOrder = paymentMethod === 'unpaid';
-  const displayPaymentMethod = isUnpaidOrder ? 'pay later' : paymentMethod;
+  const displayPaymentMethod = isUnpaidOrder ? 'pay later' : paymentMethod === 'mobile' ? 'online transfer' : paymentMethod.replace('_', ' ');
   const orderMeta = `${roleLabel} / ${orderType.replace('-', ' ')} / ${displayPaymentMethod}`;
+  // 🍽️ Dine-in orders with seats can print the receipt grouped by seat
+  const hasSeats = useOrderOverlayStore(state =>
+    !!state.getByOrderId(orderNumber)?.items.some(item => item.seat !== undefined));
 
   // Determine the overlay variant
   const getOverlayVariant = () => {
@@ -65,7 +69,7 @@ export const OrderPlacedOverlay: React.FC<OrderPlacedOverlayProps> = React.memo(
   const overlayVariant = getOverlayVariant();
 
   // Handle receipt printing - OFFLINE-FIRST using frontend receipt generation
-  const handlePrintReceipt = async () => {
+  const handlePrintReceipt = async (groupBySeat = false) => {
     try {
       console.log('🖨️ [PRINT] Starting receipt print for order:', orderNumber);
 
@@ -97,10 +101,11 @@ export const OrderPlacedOverlay: React.FC<OrderPlacedOverlayProps> = React.memo(
       console.log('🔨 [PRINT] Generating receipt from frontend...');
       const { generateReceiptFromOrder, getBranchInfo, printReceiptContent } = await import('@/lib/services/receiptService');
 
-      // Get branch info with dynamic tax rate based on payment method
+      // Branch info from config; order overlay's recorded tax rate takes precedence in the generator
+      const baseBranchInfo = getBranchInfo();
       const branchInfo = {
-        ...getBranchInfo(),
-        taxRate: taxRate // Use dynamic tax rate from payment method
+        ...baseBranchInfo,
+        taxRate: taxRate ?? baseBranchInfo.taxRate
       };
 
       // Get cashier name from auth
@@ -112,7 +117,8 @@ export const OrderPlacedOverlay: React.FC<OrderPlacedOverlayProps> = React.memo(
         cashierName,
         branchInfo,
         _cashReceived,
-        _change
+        _change,
+        { groupBySeat }
       );
 
       console.log('✅ [PRINT] Receipt generated successfully');
@@ -120,7 +126,7 @@ export const OrderPlacedOverlay: React.FC<OrderPlacedOverlayProps> = React.memo(
         orderNumber: receipt.data.orderNumber,
         items: receipt.data.items.length,
         total: receipt.data.grandTotal,
-        taxRate: taxRate,
+        taxRate: receipt.data.taxRate,
         format: receipt.format
       });
 
@@ -319,12 +325,23 @@ export const OrderPlacedOverlay: React.FC<OrderPlacedOverlayProps> = React.memo(
           <div className="absolute left-0 top-0">
             <Button
               variant="line"
-              onClick={handlePrintReceipt}
+              onClick={() => handlePrintReceipt()}
               className="px-5 py-3 flex items-center gap-2"
             >
               <Printer className="w-5 h-5" />
               <span>Print</span>
             </Button>
+            {hasSeats && (
+              <Button
+                variant="line"
+                onClick={() => handlePrintReceipt(true)}
+                className="mt-2 px-5 py-3 flex items-center gap-2"
+                title="Print receipt grouped by seat"
+              >
+                <Users className="w-5 h-5" />
+                <span>By Seat</span>
+              </Button>
+            )}
           </div>
           <div className="flex items-center justify-center">
             <Button
@@ -1,6 +1,8 @@
 import React from 'react';
 import { Button } from '@/components/ui/button';
 import { CreditCard } from 'lucide-react';
+import { TipSelector } from './TipSelector';
+import type { TerminalEvent } from '@/lib/services/paymentTerminal';
 
 interface CardPaymentTabProps {
   cardNumber: string;
@@ -8,17 +10,44 @@ interface CardPaymentTabProps {
   expiryDate: string;
   cvv: string;
   paymentStatus: string;
+  taxRate: number;       // Effective card tax rate (pricing engine)
+  branchTaxRate: number; // Branch default rate - info shown only when card overrides it
   onCardNumberChange: (value: string) => void;
   onCardHolderChange: (value: string) => void;
   onExpiryDateChange: (value: string) => void;
   onCvvChange: (value: string) => void;
   onCardPayment: () => void;
   onOfflineCardPayment: () => void;
+  // 💳 Card terminal progress (insert card → approved/declined)
+  terminalEvent?: TerminalEvent | null;
+  canConfirmOffline?: boolean; // Terminal timed out/disconnected - allow manual confirmation
+  onCancelTerminal?: () => void;
+  // Amount to charge on the terminal (includes tip)
+  total?: number;
+  formatCurrency?: (amount: number) => string;
+  tip?: number;
+  tipBase?: number;
+  tipPresets?: number[];
+  tipsEnabled?: boolean;
+  onTipChange?: (tip: number) => void;
 }
 
 export const CardPaymentTab: React.FC<CardPaymentTabProps> = React.memo(({
   paymentStatus,
-  onOfflineCardPayment
+  taxRate,
+  branchTaxRate,
+  onCardPayment,
+  onOfflineCardPayment,
+  terminalEvent,
+  canConfirmOffline = false,
+  onCancelTerminal,
+  total,
+  formatCurrency,
+  tip = 0,
+  tipBase = 0,
+  tipPresets,
+  tipsEnabled = false,
+  onTipChange
 }) => {
   return (
     <div className="space-y-6">
@@ -28,42 +57,97 @@ export const CardPaymentTab: React.FC<CardPaymentTabProps> = React.memo(({
           <CreditCard className="w-8 h-8 text-primary" />
         </div>
         <h3 className="text-lg font-semibold text-text-primary">Card Payment</h3>
-        <p className="text-sm text-text-secondary">Process card payment offline</p>
+        <p className="text-sm text-text-secondary">Charge the card on the payment terminal</p>
       </div>
 
-      {/* Tax Info */}
-      <div className="bg-success/10 border border-success/20 rounded-lg p-4 text-center">
-        <p className="text-sm font-medium text-success">
-          Card payments have reduced tax rate
-        </p>
-        <p className="text-2xl font-bold text-success mt-1">5% Tax</p>
-      </div>
+      {/* Tax Info - only when branch config overrides tax for card payments */}
+      {taxRate !== branchTaxRate && (
+        <div className="bg-success/10 border border-success/20 rounded-lg p-4 text-center">
+          <p className="text-sm font-medium text-success">
+            Card payments have {taxRate < branchTaxRate ? 'reduced' : 'different'} tax rate
+          </p>
+          <p className="text-2xl font-bold text-success mt-1">{taxRate}% Tax</p>
+        </div>
+      )}
 
-      {/* Info */}
-      <div className="bg-muted rounded-lg p-4">
-        <p className="text-sm text-text-secondary text-center">
-          Use the external card terminal to process the payment, then confirm below.
+      {/* Tip - charged on the terminal with the order */}
+      {tipsEnabled && onTipChange && formatCurrency && (
+        <TipSelector
+          tip={tip}
+          tipBase={tipBase}
+          presets={tipPresets}
+          formatCurrency={formatCurrency}
+          onTipChange={onTipChange}
+          disabled={paymentStatus === 'processing'}
+        />
+      )}
+
+      {/* Amount to charge */}
+      {total !== undefined && formatCurrency && (
+        <div className="bg-background rounded-lg p-3 border border-border text-center">
+          <p className="text-[10px] font-bold uppercase tracking-wide text-text-secondary">Charge on Terminal</p>
+          <p className="text-2xl font-bold text-text-primary tabular-nums">{formatCurrency(total)}</p>
+          {tip > 0 && (
+            <p className="text-[10px] text-text-secondary">Includes tip {formatCurrency(tip)}</p>
+          )}
+        </div>
+      )}
+
+      {/* Terminal status */}
+      <div className={`rounded-lg p-4 ${terminalEvent ? TERMINAL_EVENT_STYLES[terminalEvent.type] || 'bg-muted' : 'bg-muted'}`}>
+        <p className="text-sm text-center font-medium">
+          {terminalEvent ? terminalEvent.message : 'Press charge, then ask the customer to present their card.'}
         </p>
       </div>
 
-      {/* Confirm Button */}
-      <Button
-        variant="fill"
-        className="w-full h-11 flex-shrink-0 bg-success hover:bg-success/90 text-white font-bold text-sm disabled:bg-muted disabled:text-text-secondary shadow-lg"
-        onClick={onOfflineCardPayment}
-        disabled={paymentStatus === 'processing'}
-      >
-        {paymentStatus === 'processing' ? (
-          <span className="flex items-center gap-2">
-            <span className="w-3.5 h-3.5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-            Processing...
-          </span>
-        ) : (
-          'Confirm Card Payment'
+      {/* Charge Button */}
+      <div className="flex gap-2">
+        <Button
+          variant="fill"
+          className="flex-1 h-11 flex-shrink-0 bg-success hover:bg-success/90 text-white font-bold text-sm disabled:bg-muted disabled:text-text-secondary shadow-lg"
+          onClick={onCardPayment}
+          disabled={paymentStatus === 'processing'}
+        >
+          {paymentStatus === 'processing' ? (
+            <span className="flex items-center gap-2">
+              <span className="w-3.5 h-3.5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+              Waiting for terminal...
+            </span>
+          ) : paymentStatus === 'failed' ? (
+            'Retry on Terminal'
+          ) : (
+            'Charge on Terminal'
+          )}
+        </Button>
+        {paymentStatus === 'processing' && onCancelTerminal && (
+          <Button variant="line" className="h-11 px-4 text-sm" onClick={onCancelTerminal}>
+            Cancel
+          </Button>
         )}
-      </Button>
+      </div>
+
+      {/* Terminal unreachable - payment taken on a standalone terminal */}
+      {canConfirmOffline && (
+        <Button
+          variant="line"
+          className="w-full h-10 text-sm"
+          onClick={onOfflineCardPayment}
+        >
+          Confirm Payment Taken on Standalone Terminal
+        </Button>
+      )}
     </div>
   );
 });
 
 CardPaymentTab.displayName = 'CardPaymentTab';
+
+const TERMINAL_EVENT_STYLES: Partial<Record<TerminalEvent['type'], string>> = {
+  insert_card: 'bg-primary/10 text-primary',
+  processing: 'bg-primary/10 text-primary animate-pulse',
+  approved: 'bg-success/10 text-success',
+  declined: 'bg-destructive/10 text-destructive',
+  timeout: 'bg-destructive/10 text-destructive',
+  disconnected: 'bg-destructive/10 text-destructive',
+  error: 'bg-destructive/10 text-destructive'
+};
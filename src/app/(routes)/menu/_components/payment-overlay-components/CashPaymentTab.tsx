@@ -1,7 +1,9 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Keypad } from '@/components/ui/Keypad';
 import { Banknote, Minus } from 'lucide-react';
+import { TipSelector } from './TipSelector';
+import { formatDenomination, getCashDenominations, getChangeBreakdown, getQuickTenderAmounts } from '@/lib/utils/cash';
 
 interface CashPaymentTabProps {
   cashAmount: string;
@@ -13,15 +15,16 @@ interface CashPaymentTabProps {
   onKeypadClear: () => void;
   onKeypadBackspace: () => void;
   onCashPayment: () => void;
+  // Tip (total already includes it)
+  tip?: number;
+  tipBase?: number;
+  tipPresets?: number[];
+  tipsEnabled?: boolean;
+  onTipChange?: (tip: number) => void;
+  roundingAdjustment?: number; // Cash rounding already applied to total (+/-)
+  allowPartial?: boolean;      // Less than the total is taken as a partial payment (balance stays due)
 }
 
-const CURRENCY_DENOMINATIONS = [
-  { value: 100, label: '100' },
-  { value: 500, label: '500' },
-  { value: 1000, label: '1K' },
-  { value: 5000, label: '5K' }
-];
-
 export const CashPaymentTab: React.FC<CashPaymentTabProps> = React.memo(({
   cashAmount,
   cashChange,
@@ -31,16 +34,28 @@ export const CashPaymentTab: React.FC<CashPaymentTabProps> = React.memo(({
   onKeypadInput,
   onKeypadClear,
   onKeypadBackspace,
-  onCashPayment
+  onCashPayment,
+  tip = 0,
+  tipBase = 0,
+  tipPresets,
+  tipsEnabled = false,
+  onTipChange,
+  roundingAdjustment = 0,
+  allowPartial = false
 }) => {
   const currentAmount = parseFloat(cashAmount) || 0;
   const isInsufficientAmount = currentAmount < total;
+  const isPartialPayment = allowPartial && isInsufficientAmount && currentAmount > 0;
   const hasChange = cashChange > 0;
 
-  const handleDenominationClick = (value: number) => {
-    const newAmount = currentAmount + value;
+  // 💵 Branch/currency note set - quick tender suggestions + change by note/coin
+  const denominations = useMemo(() => getCashDenominations(), []);
+  const quickTenders = useMemo(() => getQuickTenderAmounts(total, denominations), [total, denominations]);
+  const changeBreakdown = useMemo(() => getChangeBreakdown(cashChange, denominations), [cashChange, denominations]);
+
+  const handleTenderAmount = (amount: number) => {
     // Convert to string without decimal if whole number, otherwise preserve decimals
-    const amountStr = newAmount % 1 === 0 ? newAmount.toString() : newAmount.toFixed(2);
+    const amountStr = amount % 1 === 0 ? amount.toString() : amount.toFixed(2);
     // Clear first then set the new amount to avoid appending issues
     onKeypadClear();
     // Use timeout to ensure clear completes first
@@ -51,17 +66,6 @@ export const CashPaymentTab: React.FC<CashPaymentTabProps> = React.memo(({
     }, 0);
   };
 
-  const handleExactAmount = () => {
-    const amountStr = total % 1 === 0 ? total.toString() : total.toFixed(2);
-    // Clear first then set exact amount
-    onKeypadClear();
-    setTimeout(() => {
-      for (const char of amountStr) {
-        onKeypadInput(char);
-      }
-    }, 0);
-  };
-
   return (
     <div className="flex flex-col h-full gap-2">
       {/* Amount Display Section - Compact */}
@@ -85,38 +89,73 @@ export const CashPaymentTab: React.FC<CashPaymentTabProps> = React.memo(({
           </button>
         </div>
 
+        {/* Change by note/coin */}
+        {hasChange && changeBreakdown.lines.length > 0 && (
+          <div className="mt-1 flex flex-wrap gap-1">
+            {changeBreakdown.lines.map(line => (
+              <span
+                key={line.value}
+                className={`px-1.5 py-0.5 rounded text-[9px] font-semibold tabular-nums ${
+                  line.isCoin ? 'bg-muted text-text-secondary' : 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400'
+                }`}
+              >
+                {line.count} × {formatDenomination(line.value)}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {/* Cash Rounding - total is rounded for cash tender */}
+        {roundingAdjustment !== 0 && (
+          <div className="mt-1 text-[9px] font-medium text-text-secondary">
+            Due {formatCurrency(total)} (cash rounding {roundingAdjustment > 0 ? '+' : '-'}{formatCurrency(Math.abs(roundingAdjustment))})
+          </div>
+        )}
+
         {/* Insufficient Amount Warning - Compact */}
         {currentAmount > 0 && isInsufficientAmount && (
           <div className="mt-1.5 bg-destructive/10 border border-destructive/30 rounded-md p-1">
             <span className="text-[9px] font-medium text-destructive">
-              Need {formatCurrency(total - currentAmount)} more
+              {isPartialPayment ? 'Partial payment - ' : 'Need '}{formatCurrency(total - currentAmount)} {isPartialPayment ? 'left to pay' : 'more'}
             </span>
           </div>
         )}
       </div>
 
-      {/* Quick Denomination Buttons - Same style as keypad */}
+      {/* Tip - added on top of the order total */}
+      {tipsEnabled && onTipChange && (
+        <TipSelector
+          tip={tip}
+          tipBase={tipBase}
+          presets={tipPresets}
+          formatCurrency={formatCurrency}
+          onTipChange={onTipChange}
+          disabled={paymentStatus === 'processing'}
+        />
+      )}
+
+      {/* Quick Tender Buttons - exact, then the due amount rounded up to each note */}
       <div className="flex-shrink-0">
         <div className="flex items-center gap-1 mb-1">
           <Banknote className="w-3 h-3 text-text-secondary" />
-          <span className="text-[9px] font-medium text-text-secondary uppercase tracking-wide">Quick Add</span>
+          <span className="text-[9px] font-medium text-text-secondary uppercase tracking-wide">Quick Tender</span>
         </div>
         <div className="grid grid-cols-5 gap-1.5">
-          {CURRENCY_DENOMINATIONS.map((denomination) => (
-            <button
-              key={denomination.value}
-              onClick={() => handleDenominationClick(denomination.value)}
-              className="h-9 text-xs font-semibold bg-background border border-border rounded-lg hover:bg-muted transition-colors active:scale-95 touch-manipulation"
-            >
-              {denomination.label}
-            </button>
-          ))}
           <button
-            onClick={handleExactAmount}
+            onClick={() => handleTenderAmount(total)}
             className="h-9 text-xs font-semibold bg-background border border-border rounded-lg hover:bg-muted transition-colors active:scale-95 touch-manipulation"
           >
             Exact
           </button>
+          {quickTenders.map((amount) => (
+            <button
+              key={amount}
+              onClick={() => handleTenderAmount(amount)}
+              className="h-9 text-xs font-semibold bg-background border border-border rounded-lg hover:bg-muted transition-colors active:scale-95 touch-manipulation tabular-nums"
+            >
+              {formatDenomination(amount)}
+            </button>
+          ))}
         </div>
       </div>
 
@@ -134,13 +173,15 @@ export const CashPaymentTab: React.FC<CashPaymentTabProps> = React.memo(({
         variant="fill"
         className="w-full h-11 flex-shrink-0 bg-success hover:bg-success/90 text-white font-bold text-sm disabled:bg-muted disabled:text-text-secondary shadow-lg"
         onClick={onCashPayment}
-        disabled={isInsufficientAmount || paymentStatus === 'processing'}
+        disabled={(isInsufficientAmount && !isPartialPayment) || paymentStatus === 'processing'}
       >
         {paymentStatus === 'processing' ? (
           <span className="flex items-center gap-2">
             <span className="w-3.5 h-3.5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
             Processing...
           </span>
+        ) : isPartialPayment ? (
+          `Take Partial ${formatCurrency(currentAmount)}`
         ) : (
           `Confirm ${formatCurrency(currentAmount)}`
         )}
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Gift, QrCode } from 'lucide-react';
+import QRScanner from '@/components/pos/QRScanner';
+import { subtractMoney } from '@/lib/utils/money';
+import type { GiftCardBalance } from '@/lib/store/gift-cards';
+import type { GiftCardQRData, QRCodeData } from '@/types/pos';
+
+interface GiftCardPaymentTabProps {
+  code: string;
+  giftCard: GiftCardBalance | null; // Looked-up card (null until checked)
+  error: string;
+  total: number;                    // Balance due on the order
+  paymentStatus: string;
+  formatCurrency: (amount: number) => string;
+  onCodeChange: (code: string) => void;
+  onLookup: (code?: string) => void;
+  onRedeem: () => void;
+}
+
+// 🎁 Gift card / store credit tender - short balances pay part of the order
+export const GiftCardPaymentTab: React.FC<GiftCardPaymentTabProps> = React.memo(({
+  code,
+  giftCard,
+  error,
+  total,
+  paymentStatus,
+  formatCurrency,
+  onCodeChange,
+  onLookup,
+  onRedeem
+}) => {
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+  const amount = giftCard ? Math.min(giftCard.balance, total) : 0;
+
+  const handleScan = (qrData: QRCodeData) => {
+    if (qrData.type !== 'gift_card') return;
+    onLookup((qrData.data as GiftCardQRData).code);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="text-center">
+        <div className="w-16 h-16 mx-auto bg-primary/10 rounded-full flex items-center justify-center mb-3">
+          <Gift className="w-8 h-8 text-primary" />
+        </div>
+        <h3 className="text-lg font-semibold text-text-primary">Gift Card</h3>
+        <p className="text-sm text-text-secondary">Enter or scan the gift card / store credit code</p>
+      </div>
+
+      {/* Code entry */}
+      <div className="space-y-2">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={code}
+            onChange={(e) => onCodeChange(e.target.value.toUpperCase())}
+            onKeyDown={(e) => e.key === 'Enter' && onLookup()}
+            placeholder="GC-XXXX-XXXX"
+            className="flex-1 bg-background border border-border rounded-md px-3 py-2 text-sm font-mono uppercase"
+          />
+          <Button variant="line" size="sm" className="h-10" onClick={() => setIsScannerOpen(true)}>
+            <QrCode className="w-4 h-4" />
+          </Button>
+          <Button variant="fill" size="sm" className="h-10" onClick={() => onLookup()} disabled={!code.trim()}>
+            Check
+          </Button>
+        </div>
+        {error && <p className="text-xs text-destructive">{error}</p>}
+      </div>
+
+      {/* Balance + amount that will be taken */}
+      {giftCard && (
+        <div className="bg-background rounded-lg p-3 border border-border space-y-1">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-text-secondary">{giftCard.card.type === 'store_credit' ? 'Store credit' : 'Gift card'} balance</span>
+            <span className="font-semibold text-text-primary tabular-nums">{formatCurrency(giftCard.balance)}</span>
+          </div>
+          {giftCard.pending !== 0 && (
+            <p className="text-[10px] text-text-secondary">Includes {formatCurrency(giftCard.pending)} not yet synced</p>
+          )}
+          <div className="flex items-center justify-between text-sm pt-1 border-t border-border">
+            <span className="text-text-secondary">Apply to order</span>
+            <span className="font-bold text-primary tabular-nums">{formatCurrency(amount)}</span>
+          </div>
+          {amount < total && (
+            <p className="text-[10px] text-text-secondary">
+              {formatCurrency(subtractMoney(total, amount))} left to pay with another tender
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Redeem Button */}
+      <Button
+        variant="fill"
+        className="w-full h-11 flex-shrink-0 bg-success hover:bg-success/90 text-white font-bold text-sm disabled:bg-muted disabled:text-text-secondary shadow-lg"
+        onClick={onRedeem}
+        disabled={!giftCard || amount <= 0 || paymentStatus === 'processing'}
+      >
+        {paymentStatus === 'processing' ? 'Redeeming...' : `Redeem ${formatCurrency(amount)}`}
+      </Button>
+
+      <QRScanner
+        isOpen={isScannerOpen}
+        onClose={() => setIsScannerOpen(false)}
+        onScan={handleScan}
+      />
+    </div>
+  );
+});
+
+GiftCardPaymentTab.displayName = 'GiftCardPaymentTab';
@@ -0,0 +1,91 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Landmark, Monitor } from 'lucide-react';
+import { TransferQRCard } from '@/components/pos/TransferQRCard';
+import type { BankAccountInfo } from '@/types/pos';
+
+interface OnlineTransferTabProps {
+  account: BankAccountInfo | null;
+  orderReference: string;   // Order id the customer quotes on the transfer
+  qrPayload: string;
+  total: number;            // Balance due on the order
+  reference: string;        // Transaction reference from the customer's banking app
+  paymentStatus: string;
+  formatCurrency: (amount: number) => string;
+  onReferenceChange: (reference: string) => void;
+  onConfirm: () => void;
+}
+
+// 🏦 Online bank transfer - customer scans the QR, cashier enters the bank's transaction reference
+export const OnlineTransferTab: React.FC<OnlineTransferTabProps> = React.memo(({
+  account,
+  orderReference,
+  qrPayload,
+  total,
+  reference,
+  paymentStatus,
+  formatCurrency,
+  onReferenceChange,
+  onConfirm
+}) => {
+  const handleOpenCustomerDisplay = () => {
+    window.open('/customer-display', 'pos-customer-display', 'width=900,height=700');
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Landmark className="w-5 h-5 text-primary" />
+          <h3 className="text-lg font-semibold text-text-primary">Online Transfer</h3>
+        </div>
+        <Button variant="line" size="sm" onClick={handleOpenCustomerDisplay}>
+          <Monitor className="w-4 h-4 mr-1" />
+          Customer Display
+        </Button>
+      </div>
+
+      {/* Account + payment QR */}
+      {account && qrPayload ? (
+        <TransferQRCard
+          account={account}
+          amount={total}
+          reference={orderReference}
+          qrPayload={qrPayload}
+          formatCurrency={formatCurrency}
+        />
+      ) : (
+        <div className="p-4 text-center text-sm text-text-secondary bg-background rounded-lg border border-border">
+          Loading branch account...
+        </div>
+      )}
+
+      {/* Transaction reference - required before the order is marked paid */}
+      <div className="space-y-1">
+        <label className="block text-sm font-medium text-text-primary">Transaction Reference</label>
+        <input
+          type="text"
+          value={reference}
+          onChange={(e) => onReferenceChange(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && reference.trim() && onConfirm()}
+          placeholder="From the customer's banking app"
+          className="w-full bg-background border border-border rounded-md px-3 py-2 text-sm font-mono"
+        />
+        <p className="text-[10px] text-text-secondary">Checked against the bank statement by a manager at end of day</p>
+      </div>
+
+      {/* Confirm Button */}
+      <Button
+        variant="fill"
+        className="w-full h-11 flex-shrink-0 bg-success hover:bg-success/90 text-white font-bold text-sm disabled:bg-muted disabled:text-text-secondary shadow-lg"
+        onClick={onConfirm}
+        disabled={!reference.trim() || total <= 0 || paymentStatus === 'processing'}
+      >
+        {paymentStatus === 'processing' ? 'Processing...' : `Confirm Transfer ${formatCurrency(total)}`}
+      </Button>
+    </div>
+  );
+});
+
+OnlineTransferTab.displayName = 'OnlineTransferTab';
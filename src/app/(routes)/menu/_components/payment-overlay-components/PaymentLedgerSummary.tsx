@@ -0,0 +1,53 @@
+import React from 'react';
+import { Banknote, CreditCard, Gift, Smartphone } from 'lucide-react';
+import type { PaymentTransaction } from '@/types/pos';
+
+interface PaymentLedgerSummaryProps {
+  payments: PaymentTransaction[];
+  amountPaid: number;
+  balanceDue: number;
+  formatCurrency: (amount: number) => string;
+}
+
+const METHOD_ICONS = {
+  cash: Banknote,
+  card: CreditCard,
+  mobile: Smartphone,
+  gift_card: Gift
+};
+
+// 💳 Tenders already taken on this order + running balance due
+export const PaymentLedgerSummary: React.FC<PaymentLedgerSummaryProps> = React.memo(({
+  payments,
+  amountPaid,
+  balanceDue,
+  formatCurrency
+}) => {
+  if (payments.length === 0) return null;
+
+  return (
+    <div className="mx-4 mb-2 bg-card rounded-lg border border-border px-3 py-2 flex-shrink-0">
+      <div className="space-y-1 max-h-20 overflow-y-auto">
+        {payments.map(payment => {
+          const Icon = METHOD_ICONS[payment.method] || Banknote;
+          return (
+            <div key={payment.id} className="flex items-center justify-between text-[11px]">
+              <span className="flex items-center gap-1.5 text-text-secondary capitalize">
+                <Icon className="w-3 h-3" />
+                {payment.method.replace('_', ' ')}
+                {payment.reference && <span className="normal-case">({payment.reference})</span>}
+              </span>
+              <span className="font-semibold text-text-primary tabular-nums">{formatCurrency(payment.amount)}</span>
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex items-center justify-between border-t border-border mt-1.5 pt-1.5 text-xs">
+        <span className="text-text-secondary">Paid {formatCurrency(amountPaid)}</span>
+        <span className="font-bold text-primary tabular-nums">Balance Due {formatCurrency(balanceDue)}</span>
+      </div>
+    </div>
+  );
+});
+
+PaymentLedgerSummary.displayName = 'PaymentLedgerSummary';
@@ -1,8 +1,9 @@
 import React from 'react';
-import { Banknote, CreditCard, Users } from 'lucide-react';
+import { Banknote, CreditCard, Gift, Landmark, Users } from 'lucide-react';
 import { useBranchConfigStore } from '@/lib/store/branchConfig';
+import { isPaymentMethodEnabled } from '@/lib/utils/pricing';
 
-type PaymentTab = 'cash' | 'card' | 'split';
+type PaymentTab = 'cash' | 'card' | 'split' | 'gift_card' | 'mobile';
 
 interface PaymentOverlayTabsProps {
   activeTab: PaymentTab;
@@ -16,19 +17,14 @@ export const PaymentOverlayTabs: React.FC<PaymentOverlayTabsProps> = React.memo(
   // Get branch config to filter payment methods
   const branchConfig = useBranchConfigStore(state => state.config);
 
-  // Check which payment methods are enabled
-  const isCashEnabled = branchConfig?.paymentMethods?.cash?.enabled ??
-                        branchConfig?.posConfig?.paymentMethods?.cash?.enabled ??
-                        true; // Default to enabled
-
-  const isCardEnabled = branchConfig?.paymentMethods?.card?.enabled ??
-                        branchConfig?.posConfig?.paymentMethods?.card?.enabled ??
-                        true; // Default to enabled
-
-  // Mobile payment is not shown in tabs, but split requires at least 2 methods
-  const isMobileEnabled = branchConfig?.paymentMethods?.mobile?.enabled ??
-                          branchConfig?.posConfig?.paymentMethods?.mobile?.enabled ??
-                          true;
+  // Branch payment method config (flattened field first, then posConfig) - methods are on unless switched off
+  const paymentMethods = branchConfig?.paymentMethods ?? branchConfig?.posConfig?.paymentMethods;
+  const isCashEnabled = isPaymentMethodEnabled('cash', paymentMethods);
+  const isCardEnabled = isPaymentMethodEnabled('card', paymentMethods);
+  // 🏦 Mobile = online bank transfer (QR + transaction reference)
+  const isMobileEnabled = isPaymentMethodEnabled('mobile', paymentMethods);
+  // 🎁 Gift cards / store credit
+  const isGiftCardEnabled = isPaymentMethodEnabled('giftCard', paymentMethods);
 
   // Count enabled payment methods
   const enabledMethodsCount = [isCashEnabled, isCardEnabled, isMobileEnabled].filter(Boolean).length;
@@ -38,6 +34,8 @@ export const PaymentOverlayTabs: React.FC<PaymentOverlayTabsProps> = React.memo(
   const allTabs = [
     { id: 'cash' as PaymentTab, label: 'Cash', icon: Banknote, enabled: isCashEnabled },
     { id: 'card' as PaymentTab, label: 'Card', icon: CreditCard, enabled: isCardEnabled },
+    { id: 'mobile' as PaymentTab, label: 'Online', icon: Landmark, enabled: isMobileEnabled },
+    { id: 'gift_card' as PaymentTab, label: 'Gift Card', icon: Gift, enabled: isGiftCardEnabled },
     { id: 'split' as PaymentTab, label: 'Split', icon: Users, enabled: isSplitEnabled }
   ];
 
@@ -48,6 +46,7 @@ export const PaymentOverlayTabs: React.FC<PaymentOverlayTabsProps> = React.memo(
     cash: isCashEnabled,
     card: isCardEnabled,
     mobile: isMobileEnabled,
+    giftCard: isGiftCardEnabled,
     split: isSplitEnabled,
     visibleTabs: tabs.map(t => t.id)
   });
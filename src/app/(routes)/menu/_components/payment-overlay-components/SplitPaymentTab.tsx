@@ -1,35 +1,49 @@
 import React, { useState, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
-import { Minus, Plus } from 'lucide-react';
+import { Banknote, CreditCard, Minus, Plus } from 'lucide-react';
 import { formatCurrency } from '@/lib/utils/format';
+import { splitMoney } from '@/lib/utils/money';
+import type { PaymentTransaction, TenderMethod } from '@/types/pos';
 
 interface SplitPaymentTabProps {
   total: number;
+  balanceDue: number; // What is left after shares (and any earlier tenders) already taken
+  payments?: PaymentTransaction[]; // Order's tender ledger (shares already taken)
   paymentStatus: string;
-  onSplitPayment: (splits: SplitBillData) => void;
+  onSplitPayment: (share: SplitBillShare) => void;
 }
 
-export interface SplitBillData {
+// 💳 One guest's share - recorded as its own tender in the payment ledger
+export interface SplitBillShare {
+  method: TenderMethod;
+  amount: number;
+  shareNumber: number;
   numberOfPersons: number;
-  amountPerPerson: number;
-  totalAmount: number;
 }
 
 export const SplitPaymentTab: React.FC<SplitPaymentTabProps> = React.memo(({
   total,
+  balanceDue,
+  payments = [],
   paymentStatus,
   onSplitPayment
 }) => {
-  const [numberOfPersons, setNumberOfPersons] = useState(2);
-
-  // Calculate amount per person
+  // Shares already taken live in the ledger (reference "Share n/N") - survive tab switches
+  const shareTenders = payments.filter(payment => /^Share \d+\/\d+$/.test(payment.reference || ''));
+  const sharesPaid = shareTenders.length;
+  const [numberOfPersons, setNumberOfPersons] = useState(() => {
+    const lastReference = shareTenders[shareTenders.length - 1]?.reference;
+    return lastReference ? parseInt(lastReference.split('/')[1], 10) || 2 : 2;
+  });
+
+  // Next guest's share of what is left (shares add up exactly; earlier guests cover any remainder)
   const amountPerPerson = useMemo(() => {
-    return Math.ceil((total / numberOfPersons) * 100) / 100; // Round up to nearest paisa
-  }, [total, numberOfPersons]);
+    return splitMoney(balanceDue, Math.max(1, numberOfPersons - sharesPaid))[0] ?? 0;
+  }, [balanceDue, numberOfPersons, sharesPaid]);
 
-  // Ensure minimum of 2 persons for split bill
+  // Ensure minimum of 2 persons for split bill (and never fewer than the shares already paid + 1)
   const handleDecrement = () => {
-    if (numberOfPersons > 2) {
+    if (numberOfPersons > Math.max(2, sharesPaid + 1)) {
       setNumberOfPersons(prev => prev - 1);
     }
   };
@@ -40,20 +54,23 @@ export const SplitPaymentTab: React.FC<SplitPaymentTabProps> = React.memo(({
     }
   };
 
-  const handleConfirmSplit = () => {
+  const handlePayShare = (method: TenderMethod) => {
     onSplitPayment({
-      numberOfPersons,
-      amountPerPerson,
-      totalAmount: total
+      method,
+      amount: amountPerPerson,
+      shareNumber: sharesPaid + 1,
+      numberOfPersons
     });
   };
 
+  const isLocked = sharesPaid > 0; // Guest count can only grow once shares are being taken
+
   return (
     <div className="space-y-6">
       {/* Header */}
       <div className="text-center">
         <h3 className="text-lg font-semibold text-text-primary">Split Bill</h3>
-        <p className="text-sm text-text-secondary">Divide the bill equally among guests</p>
+        <p className="text-sm text-text-secondary">Divide the bill equally - each guest pays by cash or card</p>
       </div>
 
       {/* Number of Persons Selector */}
@@ -63,9 +80,9 @@ export const SplitPaymentTab: React.FC<SplitPaymentTabProps> = React.memo(({
           <div className="flex items-center gap-4">
             <button
               onClick={handleDecrement}
-              disabled={numberOfPersons <= 2}
+              disabled={numberOfPersons <= Math.max(2, sharesPaid + 1)}
               className={`w-10 h-10 rounded-full flex items-center justify-center transition-all ${
-                numberOfPersons <= 2
+                numberOfPersons <= Math.max(2, sharesPaid + 1)
                   ? 'bg-muted text-text-muted cursor-not-allowed'
                   : 'bg-card border border-border text-text-primary hover:bg-primary/10 active:scale-95'
               }`}
@@ -97,7 +114,8 @@ export const SplitPaymentTab: React.FC<SplitPaymentTabProps> = React.memo(({
             <button
               key={num}
               onClick={() => setNumberOfPersons(num)}
-              className={`flex-1 py-2 rounded-lg text-sm font-medium transition-all ${
+              disabled={isLocked && num <= sharesPaid}
+              className={`flex-1 py-2 rounded-lg text-sm font-medium transition-all disabled:opacity-50 ${
                 numberOfPersons === num
                   ? 'bg-primary text-white'
                   : 'bg-card border border-border text-text-primary hover:bg-primary/10'
@@ -121,31 +139,58 @@ export const SplitPaymentTab: React.FC<SplitPaymentTabProps> = React.memo(({
           <span className="font-semibold text-text-primary">{numberOfPersons}</span>
         </div>
 
+        {balanceDue !== total && (
+          <div className="flex justify-between text-sm">
+            <span className="text-text-secondary">Remaining</span>
+            <span className="font-semibold text-text-primary">{formatCurrency(balanceDue)}</span>
+          </div>
+        )}
+
         <div className="border-t border-border pt-3">
           <div className="flex justify-between">
-            <span className="text-lg font-medium text-text-primary">Per Person</span>
+            <span className="text-lg font-medium text-text-primary">
+              Guest {Math.min(sharesPaid + 1, numberOfPersons)} of {numberOfPersons}
+            </span>
             <span className="text-xl font-bold text-primary">{formatCurrency(amountPerPerson)}</span>
           </div>
         </div>
       </div>
 
 
-      {/* Confirm Button */}
-      <Button
-        variant="fill"
-        className="w-full h-11 flex-shrink-0 bg-success hover:bg-success/90 text-white font-bold text-sm disabled:bg-muted disabled:text-text-secondary shadow-lg"
-        onClick={handleConfirmSplit}
-        disabled={paymentStatus === 'processing'}
-      >
-        {paymentStatus === 'processing' ? (
+      {/* Take the next guest's share - each share is its own tender */}
+      {paymentStatus === 'processing' ? (
+        <Button
+          variant="fill"
+          className="w-full h-11 flex-shrink-0 bg-success text-white font-bold text-sm shadow-lg"
+          disabled
+        >
           <span className="flex items-center gap-2">
             <span className="w-3.5 h-3.5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
             Processing...
           </span>
-        ) : (
-          'Confirm Split Payment'
-        )}
-      </Button>
+        </Button>
+      ) : (
+        <div className="grid grid-cols-2 gap-2">
+          <Button
+            variant="fill"
+            className="h-11 bg-success hover:bg-success/90 text-white font-bold text-sm disabled:bg-muted disabled:text-text-secondary shadow-lg"
+            onClick={() => handlePayShare('cash')}
+            disabled={amountPerPerson <= 0}
+          >
+            <Banknote className="w-4 h-4 mr-1.5" />
+            Cash
+          </Button>
+          <Button
+            variant="fill"
+            className="h-11 bg-primary hover:bg-primary/90 text-white font-bold text-sm disabled:bg-muted disabled:text-text-secondary shadow-lg"
+            onClick={() => handlePayShare('card')}
+            disabled={amountPerPerson <= 0}
+          >
+            <CreditCard className="w-4 h-4 mr-1.5" />
+            Card
+          </Button>
+        </div>
+      )}
     </div>
   );
 });
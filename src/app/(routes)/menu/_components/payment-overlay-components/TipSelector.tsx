@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { Coins } from 'lucide-react';
+import { isSameAmount, percentOfMoney, roundMoney } from '@/lib/utils/money';
+
+interface TipSelectorProps {
+  tip: number;
+  tipBase: number;    // Order total before the tip (preset percentages apply to this)
+  presets?: number[]; // Tip percentages from branch config
+  formatCurrency: (amount: number) => string;
+  onTipChange: (tip: number) => void;
+  disabled?: boolean;
+}
+
+const DEFAULT_TIP_PRESETS = [5, 10, 15];
+
+export const TipSelector: React.FC<TipSelectorProps> = React.memo(({
+  tip,
+  tipBase,
+  presets = DEFAULT_TIP_PRESETS,
+  formatCurrency,
+  onTipChange,
+  disabled = false
+}) => {
+  const [customTip, setCustomTip] = useState('');
+
+  const handlePreset = (percent: number) => {
+    setCustomTip('');
+    onTipChange(percentOfMoney(tipBase, percent));
+  };
+
+  const handleCustomChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    // Only allow numbers and a single decimal point
+    if (value !== '' && !/^\d*\.?\d*$/.test(value)) return;
+    setCustomTip(value);
+    onTipChange(Math.max(0, roundMoney(parseFloat(value) || 0)));
+  };
+
+  const buttonClass = (selected: boolean) =>
+    `h-8 text-xs font-semibold rounded-lg border transition-colors active:scale-95 touch-manipulation disabled:opacity-50 ${
+      selected ? 'bg-primary text-primary-foreground border-primary' : 'bg-background border-border hover:bg-muted'
+    }`;
+
+  return (
+    <div className="flex-shrink-0">
+      <div className="flex items-center justify-between mb-1">
+        <div className="flex items-center gap-1">
+          <Coins className="w-3 h-3 text-text-secondary" />
+          <span className="text-[9px] font-medium text-text-secondary uppercase tracking-wide">Tip</span>
+        </div>
+        {tip > 0 && (
+          <span className="text-[10px] font-semibold text-text-primary tabular-nums">+{formatCurrency(tip)}</span>
+        )}
+      </div>
+      <div className="grid grid-cols-5 gap-1.5">
+        <button
+          onClick={() => { setCustomTip(''); onTipChange(0); }}
+          disabled={disabled}
+          className={buttonClass(tip === 0)}
+        >
+          None
+        </button>
+        {presets.slice(0, 3).map(percent => (
+          <button
+            key={percent}
+            onClick={() => handlePreset(percent)}
+            disabled={disabled}
+            className={buttonClass(!customTip && tip > 0 && isSameAmount(tip, percentOfMoney(tipBase, percent)))}
+          >
+            {percent}%
+          </button>
+        ))}
+        <input
+          type="text"
+          inputMode="decimal"
+          value={customTip}
+          onChange={handleCustomChange}
+          placeholder="Other"
+          disabled={disabled}
+          className="h-8 w-full min-w-0 px-1.5 text-xs font-semibold text-center bg-background border border-border rounded-lg focus:outline-none focus:ring-1 focus:ring-primary disabled:opacity-50"
+        />
+      </div>
+    </div>
+  );
+});
+
+TipSelector.displayName = 'TipSelector';
@@ -1,5 +1,5 @@
-import { useState, useEffect } from 'react';
-import { useCartItems, useCustomer, useOrderId, useCartActions, useCartStore } from '@/lib/store/cart-new';
+import { useState, useEffect, useMemo } from 'react';
+import { useCartItems, useCustomer, useOrderId, useCartActions, useDiscount, useCartVouchers, useCartServiceChargeRate } from '@/lib/store/cart-new';
 import { useNavigationActions } from '@/lib/store/navigation';
 import { useSafeSlotActions } from '@/lib/store/unified-integration-wrapper';
 import { useUnifiedSlotStore } from '@/lib/store/unified-slots';
@@ -7,21 +7,30 @@ import { useCurrentSlotId } from '@/lib/store/cart-new';
 // 🏆 PROFESSIONAL: Draft store eliminated - using ORDER OVERLAYS as single source of truth
 import { formatCurrency } from '@/lib/utils/format';
 import { useOrderOverlayStore } from '@/lib/store/order-overlay';
+import { useVoucherLedgerStore } from '@/lib/store/voucher-ledger';
 import { kitchenService } from '@/lib/kitchen/kitchen-service';
 import { useSettingsStore } from '@/lib/store/settings';
 // ⚡ PHASE 1: Use centralized cart sync service
 import { syncCartToOverlay } from '@/lib/services/cartSyncService';
 import { useAuthStore } from '@/lib/store/auth';
-
-export type PaymentTab = 'cash' | 'card' | 'split';
+import { calculateCartPricing, checkPaymentMinimum, getBranchTipConfig, getPaymentSurcharge, getTenderSurcharge, type PricingPaymentMethod } from '@/lib/utils/pricing';
+import { compareMoney, isSameAmount, subtractMoney, sumMoney } from '@/lib/utils/money';
+import { useTillStore } from '@/lib/store/till';
+import { buildTransferQRPayload, createPaymentId, createPaymentTransaction, getAmountPaid, getBalanceDue, getLedgerSurcharge, resolvePaymentMethod, toBackendPayments } from '@/lib/utils/payments';
+import type { BankAccountInfo, PaymentTransaction, TenderMethod, ZReportRecord } from '@/types/pos';
+import type { PlaceOrderAPIRequest } from '@/lib/api/orders';
+import { getPaymentTerminal, isTerminalUnavailable, type TerminalEvent } from '@/lib/services/paymentTerminal';
+import { maskGiftCardCode, normalizeGiftCardCode, useGiftCardStore, type GiftCardBalance } from '@/lib/store/gift-cards';
+import { paymentAPI } from '@/lib/api/payment';
+import { publishCustomerDisplay } from '@/lib/services/customerDisplay';
+import { getBusinessDayLock } from '@/lib/services/reportService';
+
+export type PaymentTab = 'cash' | 'card' | 'split' | 'gift_card' | 'mobile'; // mobile = online bank transfer
 export type PaymentStatus = 'idle' | 'processing' | 'completed' | 'failed';
 
-// Tax rates by payment method (offline processing)
-export const TAX_RATES = {
-  cash: 16, // 16% for cash
-  card: 5,  // 5% for card
-  split: 16 // 16% for split (treated as cash)
-} as const;
+// Gift cards have no tax override of their own - priced at the branch rate
+export const toPricingMethod = (tab: PaymentTab): PricingPaymentMethod | undefined =>
+  tab === 'gift_card' ? undefined : tab;
 
 // Get current time with branch timezone
 const getFormattedTime = (): string => {
@@ -43,7 +52,7 @@ const getFormattedTime = (): string => {
 };
 
 interface UsePaymentOverlayProps {
-  total: number;
+  total: number; // Cart total at branch rate - fallback when cart has no items
   onOrderComplete?: () => void;
   onClose: () => void;
   slotId?: string | null;
@@ -51,7 +60,7 @@ interface UsePaymentOverlayProps {
 }
 
 export const usePaymentOverlay = ({
-  total,
+  total: cartTotal,
   onOrderComplete,
   onClose,
   slotId = null
@@ -69,12 +78,30 @@ export const usePaymentOverlay = ({
   // Cash payment state
   const [cashAmount, setCashAmount] = useState('');
   const [cashChange, setCashChange] = useState(0);
+
+  // Tip (added by the cashier at payment time, cash or card)
+  const [tip, setTip] = useState(0);
+
+  // 💳 Tenders taken against this order (partial payments, split shares)
+  const [payments, setPayments] = useState<PaymentTransaction[]>([]);
   
   // Card payment state
   const [cardNumber, setCardNumber] = useState('');
   const [cardHolder, setCardHolder] = useState('');
   const [expiryDate, setExpiryDate] = useState('');
   const [cvv, setCvv] = useState('');
+  // Last event from the card terminal ("Insert card", "Approved", "Declined"...)
+  const [terminalEvent, setTerminalEvent] = useState<TerminalEvent | null>(null);
+
+  // 🎁 Gift card tender state (card looked up by code or QR before redeeming)
+  const [giftCardCode, setGiftCardCode] = useState('');
+  const [giftCard, setGiftCard] = useState<GiftCardBalance | null>(null);
+  const [giftCardError, setGiftCardError] = useState('');
+
+  // 🏦 Online transfer state (branch account + the customer's transaction reference)
+  const [transferAccount, setTransferAccount] = useState<BankAccountInfo | null>(null);
+  const [transferReference, setTransferReference] = useState('');
+  const [dayLock, setDayLock] = useState<ZReportRecord | null>(null); // 🔒 Z report taken today
   
   // Split payment state
   const [splitPayments, setSplitPayments] = useState<Array<{
@@ -86,6 +113,9 @@ export const usePaymentOverlay = ({
   const { clearCart } = useCartActions();
   const customer = useCustomer();
   const cartItems = useCartItems();
+  const discount = useDiscount();
+  const vouchers = useCartVouchers();
+  const serviceChargeRate = useCartServiceChargeRate();
   const cartOrderId = useOrderId(); // BULLETPROOF: Use cart's order ID
   // 🏆 PROFESSIONAL: Draft store eliminated - using ORDER OVERLAYS as single source of truth
   const { setSlotProcessing, setSlotCompleted } = useSafeSlotActions();
@@ -93,12 +123,122 @@ export const usePaymentOverlay = ({
   const overlayStore = useOrderOverlayStore.getState();
   const { kitchen: kitchenSettings } = useSettingsStore();
 
+  // 🧾 PRICING ENGINE: Re-price order for the active payment method (branch tax + method override)
+  // 💳 The method fee only covers what this tender pays - fees already taken stay with their tenders (cash + card)
+  const { pricing, tenderSurcharge } = useMemo(() => {
+    const paymentMethod = toPricingMethod(activeTab);
+    const options = { discount, paymentMethod, serviceChargeRate, tip };
+    const ledgerSurcharge = getLedgerSurcharge(payments);
+    const owedBeforeFees = subtractMoney(
+      calculateCartPricing(cartItems, { ...options, surcharge: null }).total,
+      subtractMoney(getAmountPaid(payments), ledgerSurcharge?.value ?? 0)
+    );
+    const tenderSurcharge = getTenderSurcharge(paymentMethod, owedBeforeFees);
+    const surcharge = sumMoney([ledgerSurcharge?.value ?? 0, tenderSurcharge]);
+
+    return {
+      pricing: calculateCartPricing(cartItems, {
+        ...options,
+        surcharge: surcharge > 0 ? { type: 'fixed', value: surcharge, label: getPaymentSurcharge(paymentMethod)?.label ?? ledgerSurcharge?.label } : null
+      }),
+      tenderSurcharge
+    };
+  }, [cartItems, discount, activeTab, serviceChargeRate, tip, payments]);
+  const total = cartItems.length > 0 ? pricing.total : cartTotal;
+  // Tip presets are a percentage of what the order costs before the tip
+  const tipBase = subtractMoney(total, pricing.tip);
+  const tipConfig = useMemo(() => getBranchTipConfig(), []);
+
+  // 💳 Running balance - everything already taken comes off the total
+  const amountPaid = getAmountPaid(payments);
+  const balanceDue = getBalanceDue(total, payments);
+
+  // Tips belong to one order - start at zero for the next; tenders already taken stay with the order
+  useEffect(() => {
+    setTip(0);
+    setTerminalEvent(null);
+    setGiftCardCode('');
+    setGiftCard(null);
+    setGiftCardError('');
+    setTransferReference('');
+    setPayments(cartOrderId ? useOrderOverlayStore.getState().getByOrderId(cartOrderId)?.payments || [] : []);
+  }, [cartOrderId]);
+
+  // 🔒 No tenders once today's Z report has closed the business day
+  useEffect(() => {
+    getBusinessDayLock()
+      .then(setDayLock)
+      .catch(error => console.error('❌ [PAYMENT] Failed to check business day:', error));
+  }, [cartOrderId]);
+
+  // 🏦 Branch account for online transfers (branch config, mock account otherwise)
+  useEffect(() => {
+    paymentAPI.getOnlineAccountInfo()
+      .then(response => { if (response.success && response.data) setTransferAccount(response.data); })
+      .catch(error => console.error('❌ [PAYMENT] Failed to load online account:', error));
+  }, []);
+
+  // Payment QR: branch account + balance due + order reference
+  const transferQRPayload = useMemo(
+    () => transferAccount && cartOrderId && balanceDue > 0 ? buildTransferQRPayload(transferAccount, balanceDue, cartOrderId) : '',
+    [transferAccount, cartOrderId, balanceDue]
+  );
+
+  // Mirror the QR on the customer display while the Online tab is open
+  useEffect(() => {
+    if (activeTab === 'mobile' && transferAccount && transferQRPayload && cartOrderId && paymentStatus !== 'completed') {
+      publishCustomerDisplay({ type: 'bank_transfer', orderId: cartOrderId, amount: balanceDue, account: transferAccount, qrPayload: transferQRPayload });
+      return () => publishCustomerDisplay(null);
+    }
+    return undefined;
+  }, [activeTab, transferAccount, transferQRPayload, cartOrderId, balanceDue, paymentStatus]);
 
   // Calculate cash change when cash amount changes
   useEffect(() => {
     const cash = parseFloat(cashAmount) || 0;
-    setCashChange(Math.max(0, cash - total));
-  }, [cashAmount, total]);
+    setCashChange(Math.max(0, subtractMoney(cash, balanceDue)));
+  }, [cashAmount, balanceDue]);
+
+  // 🚫 Closed business day or branch minimum per payment method - returns true (and tells the cashier) when the tender can't be taken
+  const isTenderBlocked = (method: TenderMethod, amount: number): boolean => {
+    if (dayLock) {
+      alert(`Business day ${dayLock.businessDate} is closed (Z #${dayLock.zNumber}). No more payments can be taken today.`);
+      return true;
+    }
+    const message = checkPaymentMinimum(method === 'gift_card' ? 'giftCard' : method, amount, undefined, formatCurrency);
+    if (!message) return false;
+    alert(message);
+    return true;
+  };
+
+  // Record tenders in the ledger (saved on the order straight away so a closed overlay keeps them)
+  const recordPayments = async (tenders: Array<Omit<Parameters<typeof createPaymentTransaction>[0], 'tillSessionId'>>): Promise<PaymentTransaction[]> => {
+    const tillSessionId = useTillStore.getState().currentSession?.id;
+    // The tender settling the balance on the active tab paid this tab's method fee
+    const transactions = tenders.map(tender => createPaymentTransaction({
+      ...tender,
+      tillSessionId,
+      surcharge: tenderSurcharge > 0 && tender.method === activeTab && isSameAmount(tender.amount, balanceDue) ? tenderSurcharge : undefined
+    }));
+    const updated = [...payments, ...transactions];
+    setPayments(updated);
+
+    if (cartOrderId) {
+      try {
+        for (const transaction of transactions) {
+          await useOrderOverlayStore.getState().addPayment(cartOrderId, transaction);
+        }
+      } catch (error) {
+        console.error('❌ [PAYMENT] Failed to save payment on order:', error);
+      }
+    }
+
+    console.log('💳 [PAYMENT] Tenders recorded:', {
+      tenders: transactions.map(transaction => `${transaction.method} ${transaction.amount}`),
+      balanceDue: getBalanceDue(total, updated)
+    });
+    return updated;
+  };
 
   // Handle payment completion
   const handlePaymentComplete = () => {
@@ -131,70 +271,222 @@ export const usePaymentOverlay = ({
 
   // REMOVED: Using shared generateOrderNumber from posUtils for consistency
 
-  // Handle cash payment
-  const handleCashPayment = () => {
-    if (parseFloat(cashAmount) < total) {
-      alert('Cash amount must be equal to or greater than total');
+  // Handle cash payment (less than the balance due is taken as a partial payment)
+  const handleCashPayment = async () => {
+    const cash = parseFloat(cashAmount) || 0;
+    if (cash <= 0) {
+      alert('Enter the cash amount received');
       return;
     }
-    
+    if (isTenderBlocked('cash', Math.min(cash, balanceDue))) return;
+
+    if (compareMoney(cash, balanceDue) < 0) {
+      await recordPayments([{ method: 'cash', amount: cash, tendered: cash }]);
+      setCashAmount('');
+      return;
+    }
+
     setPaymentStatus('processing');
+    await recordPayments([{
+      method: 'cash',
+      amount: balanceDue,
+      tendered: cash,
+      change: subtractMoney(cash, balanceDue)
+    }]);
     // Simulate payment processing
     setTimeout(() => {
       handlePaymentComplete();
     }, 1500);
   };
 
-  // Handle card payment
-  const handleCardPayment = () => {
-    if (!cardNumber || !cardHolder || !expiryDate || !cvv) {
-      alert('Please fill in all card details');
+  // Handle card payment (charges the balance due)
+  // 💳 Charge the balance due on the card terminal (lib/services/paymentTerminal)
+  const handleCardPayment = async () => {
+    const amount = balanceDue;
+    if (isTenderBlocked('card', amount)) return;
+    setPaymentStatus('processing');
+    setTerminalEvent(null);
+
+    const result = await getPaymentTerminal().sale({
+      amount,
+      reference: cartOrderId || 'order',
+      onEvent: setTerminalEvent
+    });
+
+    if (result.status !== 'approved') {
+      console.warn('⚠️ [PAYMENT] Card not charged:', result.status, result.message);
+      setPaymentStatus(result.status === 'cancelled' ? 'idle' : 'failed');
       return;
     }
-    
+
+    await recordPayments([{
+      method: 'card',
+      amount,
+      reference: result.maskedPan,
+      approvalCode: result.approvalCode,
+      maskedPan: result.maskedPan,
+      cardBrand: result.cardBrand,
+      terminalTransactionId: result.transactionId
+    }]);
+    handlePaymentComplete();
+  };
+
+  // Stop a terminal transaction from the POS
+  const handleCancelTerminal = async () => {
+    await getPaymentTerminal().cancel();
+  };
+
+  // Terminal unreachable - cashier confirms a payment taken on a standalone terminal
+  const handleOfflineCardPayment = async () => {
+    if (isTenderBlocked('card', balanceDue)) return;
     setPaymentStatus('processing');
-    // Simulate payment processing
-    setTimeout(() => {
-      handlePaymentComplete();
-    }, 2000);
+    setTerminalEvent(null);
+    await recordPayments([{ method: 'card', amount: balanceDue, reference: 'Offline terminal' }]);
+    handlePaymentComplete();
+  };
+
+  const canConfirmOfflineCard = paymentStatus === 'failed' && !!terminalEvent && isTerminalUnavailable(terminalEvent.type);
+
+  // 🎁 Look up a gift card / store credit balance (typed code or QR scan)
+  const handleGiftCardLookup = async (code: string = giftCardCode) => {
+    const normalized = normalizeGiftCardCode(code);
+    setGiftCardCode(normalized);
+    setGiftCard(null);
+    setGiftCardError('');
+    if (!normalized) return;
+
+    const result = await useGiftCardStore.getState().lookup(normalized);
+    if (!result) {
+      setGiftCardError('Gift card not found');
+    } else if (result.card.status !== 'active') {
+      setGiftCardError('Gift card is not active');
+    } else if (result.balance <= 0) {
+      setGiftCardError('Gift card has no balance left');
+    } else {
+      setGiftCard(result);
+    }
   };
 
-  // Handle offline card payment
-  const handleOfflineCardPayment = () => {
+  // 🎁 Redeem as a tender - a short balance pays part, the rest stays due
+  // 🏦 Online transfer - taken on the customer's transaction reference, verified by a manager later
+  const handleOnlineTransferPayment = async () => {
+    const reference = transferReference.trim();
+    if (!reference) {
+      alert('Enter the transaction reference from the customer\'s transfer');
+      return;
+    }
+    if (isTenderBlocked('mobile', balanceDue)) return;
+
     setPaymentStatus('processing');
-    // Simulate offline card processing
-    setTimeout(() => {
-      handlePaymentComplete();
-    }, 1500);
+    await recordPayments([{
+      method: 'mobile',
+      amount: balanceDue,
+      reference,
+      verification: 'unverified'
+    }]);
+    setTransferReference('');
+    handlePaymentComplete();
   };
 
-  // Handle split bill payment
-  const handleSplitBillPayment = (splitData: { numberOfPersons: number; amountPerPerson: number; totalAmount: number }) => {
-    console.log('💳 [SPLIT BILL] Processing split payment:', splitData);
+  const handleGiftCardPayment = async () => {
+    if (!giftCard || !cartOrderId) return;
+
+    const amount = Math.min(giftCard.balance, balanceDue);
+    if (isTenderBlocked('gift_card', amount)) return;
+    const paymentId = createPaymentId();
     setPaymentStatus('processing');
-    // Simulate split payment processing (each person paying their share)
+
+    const result = await useGiftCardStore.getState().redeem({
+      code: giftCard.card.code,
+      amount,
+      orderId: cartOrderId,
+      paymentId,
+      tillSessionId: useTillStore.getState().currentSession?.id
+    });
+
+    if (!result.success) {
+      setGiftCardError(result.error || 'Gift card not redeemed');
+      setPaymentStatus('idle');
+      return;
+    }
+
+    const updated = await recordPayments([{
+      id: paymentId,
+      method: 'gift_card',
+      amount,
+      reference: `${giftCard.card.type === 'store_credit' ? 'Store Credit' : 'Gift Card'} ${maskGiftCardCode(giftCard.card.code)}`,
+      giftCardCode: giftCard.card.code
+    }]);
+    setGiftCard(null);
+    setGiftCardCode('');
+
+    if (getBalanceDue(total, updated) > 0) {
+      setPaymentStatus('idle');
+      return;
+    }
+    handlePaymentComplete();
+  };
+
+  // Handle split bill payment - one guest's share at a time, each with their own method
+  const handleSplitBillPayment = async (share: { method: TenderMethod; amount: number; shareNumber: number; numberOfPersons: number }) => {
+    console.log('💳 [SPLIT BILL] Taking share:', share);
+    const amount = Math.min(share.amount, balanceDue);
+    const reference = `Share ${share.shareNumber}/${share.numberOfPersons}`;
+    if (isTenderBlocked(share.method, amount)) return;
+
+    // Card shares are charged on the terminal first
+    let card = {};
+    if (share.method === 'card') {
+      setPaymentStatus('processing');
+      const result = await getPaymentTerminal().sale({ amount, reference: cartOrderId || 'order', onEvent: setTerminalEvent });
+      if (result.status !== 'approved') {
+        alert(`Card not charged: ${result.message}`);
+        setPaymentStatus('idle');
+        return;
+      }
+      setPaymentStatus('idle');
+      card = {
+        approvalCode: result.approvalCode,
+        maskedPan: result.maskedPan,
+        cardBrand: result.cardBrand,
+        terminalTransactionId: result.transactionId
+      };
+    }
+
+    const updated = await recordPayments([{ method: share.method, amount, reference, ...card }]);
+
+    if (getBalanceDue(total, updated) > 0) return;
+
+    setPaymentStatus('processing');
+    // Simulate split payment processing (last share settles the bill)
     setTimeout(() => {
       handlePaymentComplete();
     }, 1500);
   };
 
   // Get current tax rate based on active payment tab
-  const currentTaxRate = TAX_RATES[activeTab];
+  const currentTaxRate = pricing.taxRate;
 
   // Handle split payment
-  const handleSplitPayment = () => {
+  const handleSplitPayment = async () => {
     if (splitPayments.length === 0) {
       alert('Please add at least one split payment method');
       return;
     }
     
-    const totalSplit = splitPayments.reduce((sum, payment) => sum + payment.amount, 0);
-    if (Math.abs(totalSplit - total) > 0.01) {
-      alert(`Split payments must equal total amount. Current: ${formatCurrency(totalSplit)}, Required: ${formatCurrency(total)}`);
+    const totalSplit = sumMoney(splitPayments.map(payment => payment.amount));
+    if (!isSameAmount(totalSplit, balanceDue)) {
+      alert(`Split payments must equal total amount. Current: ${formatCurrency(totalSplit)}, Required: ${formatCurrency(balanceDue)}`);
       return;
     }
+    if (splitPayments.some(payment => isTenderBlocked(payment.method === 'card' ? 'card' : 'cash', payment.amount))) return;
     
     setPaymentStatus('processing');
+    await recordPayments(splitPayments.map(payment => ({
+      method: payment.method === 'card' ? 'card' as const : 'cash' as const,
+      amount: payment.amount,
+      reference: payment.reference
+    })));
     // Simulate split payment processing
     setTimeout(() => {
       handlePaymentComplete();
@@ -203,7 +495,7 @@ export const usePaymentOverlay = ({
 
   // Add split payment method
   const addSplitPayment = (method: PaymentTab) => {
-    const remainingAmount = total - splitPayments.reduce((sum, payment) => sum + payment.amount, 0);
+    const remainingAmount = subtractMoney(balanceDue, sumMoney(splitPayments.map(payment => payment.amount)));
     if (remainingAmount <= 0) {
       alert('Total amount already covered by split payments');
       return;
@@ -304,6 +596,8 @@ export const usePaymentOverlay = ({
       const isExistingOrder = currentSlotState?.status === 'processing' && currentSlotState?.orderRefId;
       const completingUnpaidOrder = isExistingOrder && currentSlotState?.paymentStatus === 'unpaid';
       const completingPaidOrderWithAdditions = isExistingOrder && currentSlotState?.paymentStatus === 'paid';
+      // ✂️ Split checks are settled one at a time - a paid check is completed, the table moves on to the next
+      const isSplitCheck = useOrderOverlayStore.getState().getByOrderId(cartOrderId || '')?.checkNumber !== undefined;
 
       console.log('🔍 [ORDER TYPE DETECTION]:', {
         slotId: targetSlotId,
@@ -312,7 +606,8 @@ export const usePaymentOverlay = ({
         hasOrderRef: !!currentSlotState?.orderRefId,
         isExistingOrder,
         completingUnpaidOrder,
-        completingPaidOrderWithAdditions
+        completingPaidOrderWithAdditions,
+        isSplitCheck
       });
 
       // Update state for UI
@@ -330,10 +625,16 @@ export const usePaymentOverlay = ({
       // SMART VALIDATION: For existing unpaid orders, use overlay details (overlay-first)
       let orderItems;
       let orderCustomer;
+      // 🎟️ Order discount + voucher codes (overlay's for existing unpaid orders)
+      let orderDiscount = discount;
+      let orderVouchers = vouchers;
+      let orderServiceChargeRate = serviceChargeRate;
 
       if (completingUnpaidOrder) {
         console.log('💰 [EXISTING UNPAID] Loading active overlay for completion');
-        const overlay = await useOrderOverlayStore.getState().getActiveOrderBySlot(targetSlotId);
+        // The cart's order first - a split table has one active overlay per check
+        const overlay = useOrderOverlayStore.getState().getByOrderId(cartOrderId || '')
+          ?? await useOrderOverlayStore.getState().getActiveOrderBySlot(targetSlotId);
         if (overlay?.items?.length) {
           orderItems = overlay.items.map((item: any, index: number) => ({
             uniqueId: `order-${overlay.id}-${index}`,
@@ -346,7 +647,20 @@ export const usePaymentOverlay = ({
             description: item.description || '',
             image: item.image || '',
             available: true,
+            priceIncludesTax: item.priceIncludesTax,
+            taxClassId: item.taxClassId,
+            lineDiscount: item.lineDiscount,
+            priceOverride: item.priceOverride,
+            promotionDiscount: item.promotionDiscount,
             modifiers: item.modifiers || { variations: [], addOns: [] },
+            giftCard: item.giftCard,
+            splitShare: item.splitShare,
+            seat: item.seat,
+            course: item.course,
+            courseHeld: item.courseHeld,
+            firedAt: item.firedAt,
+            pricingMode: item.pricingMode,
+            weightUnit: item.weightUnit,
             // 🎯 CRITICAL: Mark all items as paid when completing unpaid order
             isPaid: true,
             originalOrderId: overlay.id
@@ -360,6 +674,9 @@ export const usePaymentOverlay = ({
             totalStamps: 0,
             totalSpent: 0
           };
+          orderDiscount = overlay.discount ?? 0;
+          orderVouchers = overlay.vouchers || [];
+          orderServiceChargeRate = overlay.serviceChargeRate ?? serviceChargeRate;
         } else {
           console.warn('⚠️ [EXISTING UNPAID] No overlay found; falling back to cart');
         }
@@ -388,7 +705,20 @@ export const usePaymentOverlay = ({
           available: item.available,
           description: item.description,
           image: item.image,
+          priceIncludesTax: item.priceIncludesTax,
+          taxClassId: item.taxClassId,
+          lineDiscount: item.lineDiscount,
+          priceOverride: item.priceOverride,
+          promotionDiscount: item.promotionDiscount,
           modifiers: item.modifiers,
+          giftCard: item.giftCard,
+          splitShare: item.splitShare,
+          seat: item.seat,
+          course: item.course,
+          courseHeld: item.courseHeld,
+          firedAt: item.firedAt,
+          pricingMode: item.pricingMode,
+          weightUnit: item.weightUnit,
           // 🎯 MARK AS PAID: All items being paid now become paid items
           isPaid: true,
           originalOrderId: item.originalOrderId || cartOrderId || undefined
@@ -434,7 +764,7 @@ export const usePaymentOverlay = ({
       // 1. Update slot UI state only (lightning fast)
       await setSlotProcessing(targetSlotId, {
         orderRefId: finalOrderId,
-        paymentMethod: selectedPaymentMethod,
+        paymentMethod: resolvePaymentMethod(payments) || selectedPaymentMethod,
         paymentStatus: 'paid'
       });
 
@@ -447,12 +777,18 @@ export const usePaymentOverlay = ({
       // Get backend sync required fields from auth/till stores
       const user = useAuthStore.getState().user;
 
-      // 🚨 CRITICAL FIX: Use actual cart totals, not approximations
-      // Get accurate subtotal and tax from cart store
-      const cartStore = useCartStore.getState();
-      const cartState = targetSlotId ? cartStore.carts[targetSlotId] : null;
-      const actualSubtotal = cartState?.subtotal || (total / 1.1); // Fallback: reverse calculate if cart missing
-      const actualTax = cartState?.tax || (total - actualSubtotal); // Fallback: difference
+      // 🧾 PRICING ENGINE: Price the order for the method actually used to pay
+      // 💳 Method fees only on the tenders that paid them (mixed cash + card: just the card part)
+      const orderPricing = calculateCartPricing(orderItems || [], {
+        discount: orderDiscount,
+        paymentMethod: toPricingMethod(selectedPaymentMethod),
+        serviceChargeRate: orderServiceChargeRate,
+        tip,
+        surcharge: getLedgerSurcharge(payments)
+      });
+
+      // 💳 Order-level method from the ledger (mixed tenders report 'split')
+      const orderPaymentMethod = resolvePaymentMethod(payments) || selectedPaymentMethod;
 
       await syncCartToOverlay({
         orderId: finalOrderId,
@@ -460,12 +796,23 @@ export const usePaymentOverlay = ({
         orderType: currentSlotState?.orderType || 'dine-in',
         items: orderItems || [],
         customer: orderCustomer || { name: 'Guest', phone: '', email: '', specialInstructions: '', currentStamps: 0, totalStamps: 0, totalSpent: 0 },
-        total: (completingUnpaidOrder ? ((await useOrderOverlayStore.getState().getActiveOrderBySlot(targetSlotId))?.total || total) : total) || total,
-        subtotal: actualSubtotal, // ✅ Use actual cart subtotal
-        tax: actualTax, // ✅ Use actual cart tax
+        total: orderPricing.total,
+        subtotal: orderPricing.subtotal,
+        tax: orderPricing.tax,
+        taxRate: orderPricing.taxRate,
+        discount: orderPricing.discount,
+        vouchers: orderVouchers,
+        serviceCharge: orderPricing.serviceCharge,
+        serviceChargeRate: orderPricing.serviceChargeRate,
+        tip: orderPricing.tip,
+        surcharge: orderPricing.surcharge,
+        surchargeLabel: orderPricing.surchargeLabel,
+        roundingAdjustment: orderPricing.roundingAdjustment,
+        covers: currentSlotState?.customerCount,
+        payments,
         paymentStatus: 'paid',
-        paymentMethod: selectedPaymentMethod, // 🎯 CRITICAL: Persist payment method for backend sync
-        status: (completingUnpaidOrder || completingPaidOrderWithAdditions) ? 'completed' : 'active', // Mark as completed immediately if paying off existing order
+        paymentMethod: orderPaymentMethod, // 🎯 CRITICAL: Persist payment method for backend sync
+        status: (completingUnpaidOrder || completingPaidOrderWithAdditions || isSplitCheck) ? 'completed' : 'active', // Mark as completed immediately if paying off existing order or a split check
         // 🎯 BACKEND SYNC REQUIRED FIELDS (from Postman collection)
         branchId: user?.branchId,       // From auth store
         posId: user?.posId,             // From auth store
@@ -474,6 +821,15 @@ export const usePaymentOverlay = ({
 
       console.log('✅ [ORDER OVERLAY] Saved complete order data for', finalOrderId);
 
+      // 🎟️ Voucher ledger: record code usage offline (syncs with the order)
+      await useVoucherLedgerStore.getState().recordRedemptions(finalOrderId, orderVouchers, orderCustomer?.phone);
+
+      // 🎁 Gift cards sold / topped up on this order are loaded now that it is paid
+      const giftCardLoads = (orderItems || []).flatMap((item: any, index: number) => item.giftCard
+        ? [{ giftCard: item.giftCard, amount: orderPricing.lines[index]?.gross ?? item.totalPrice }]
+        : []);
+      await useGiftCardStore.getState().loadOrderCards(finalOrderId, giftCardLoads, useTillStore.getState().currentSession?.id);
+
       // 🚀 IMMEDIATE BACKEND SYNC FOR PRINTING
       // Sync order to backend immediately to get MongoDB _id for printing receipt
       console.log('📤 [BACKEND SYNC] Syncing order to backend for printing...');
@@ -490,14 +846,11 @@ export const usePaymentOverlay = ({
           throw new Error('Till session ID not found');
         }
 
-        // 🎯 CRITICAL: For unpaid orders, get total from overlay; for new orders, use cart total
-        const orderTotal = completingUnpaidOrder
-          ? ((await useOrderOverlayStore.getState().getActiveOrderBySlot(targetSlotId))?.total || total)
-          : total;
+        // 🎯 CRITICAL: Same engine figures as the overlay (unpaid orders re-priced from overlay items)
+        const orderTotal = orderPricing.total;
 
-        // Prepare order data for backend
-        // Map split payment method to cash for backend API (split is treated as cash)
-        const backendPaymentMethod = selectedPaymentMethod === 'split' ? 'cash' : selectedPaymentMethod;
+        // Prepare order data for backend (tenders listed individually, mobile reported as online)
+        const backendPaymentMethod: PlaceOrderAPIRequest['paymentMethod'] = orderPaymentMethod === 'mobile' ? 'online' : orderPaymentMethod;
 
         const backendOrderData = {
           branchId: user?.branchId || '',
@@ -505,7 +858,8 @@ export const usePaymentOverlay = ({
           tillSessionId: tillSessionId,
           customerName: orderCustomer?.name || 'Guest',
           notes: orderCustomer?.specialInstructions || undefined,
-          items: orderItems?.map((item: any) => ({
+          // 🎁 Gift card lines are not menu items - sent as giftCardLoads instead
+          items: orderItems?.flatMap((item: any, index: number) => item.giftCard ? [] : [{
             menuItemId: item.id,
             quantity: item.quantity,
             notes: [
@@ -513,10 +867,29 @@ export const usePaymentOverlay = ({
               item.modifiers?.notes,
               item.modifiers?.variations?.map((v: any) => v.name).join(', '),
               item.modifiers?.addOns?.map((a: any) => a.name).join(', ')
-            ].filter(Boolean).join(' | ') || undefined
-          })) || [],
-          paymentMethod: backendPaymentMethod, // 'cash', 'card', or 'online' (split is mapped to cash)
-          amountPaid: orderTotal // Total amount paid by customer (from overlay for unpaid, cart for new)
+            ].filter(Boolean).join(' | ') || undefined,
+            // 🧾 Per-line tax (mixed-rate baskets)
+            taxClassId: item.taxClassId,
+            taxRate: orderPricing.lines[index]?.taxRate,
+            taxAmount: orderPricing.lines[index]?.tax,
+            // 🏷️ Line discount (deducted before tax)
+            discountAmount: orderPricing.lines[index]?.discount || undefined,
+            discountReason: item.lineDiscount?.reason,
+            promotionAmount: orderPricing.lines[index]?.promotion || undefined
+          }]) || [],
+          giftCardLoads: giftCardLoads.length > 0
+            ? giftCardLoads.map(load => ({ code: load.giftCard.code, kind: load.giftCard.kind, amount: load.amount }))
+            : undefined,
+          discountAmount: orderPricing.discount || undefined, // Order discount (after tax)
+          voucherCodes: orderVouchers.length > 0 ? orderVouchers.map(voucher => voucher.code) : undefined,
+          serviceChargeAmount: orderPricing.serviceCharge || undefined,
+          tipAmount: orderPricing.tip || undefined,
+          surchargeAmount: orderPricing.surcharge || undefined, // Card fee etc. (included in amountPaid)
+          surchargeLabel: orderPricing.surchargeLabel,
+          roundingAdjustment: orderPricing.roundingAdjustment || undefined, // Cash rounding (included in amountPaid)
+          paymentMethod: backendPaymentMethod, // 'cash', 'card', 'online' or 'split' (see payments)
+          amountPaid: payments.length > 0 ? getAmountPaid(payments) : orderTotal, // Total amount paid by customer
+          payments: payments.length > 0 ? toBackendPayments(payments) : undefined
         };
 
         console.log('📦 [BACKEND SYNC] Order data:', backendOrderData);
@@ -535,6 +908,7 @@ export const usePaymentOverlay = ({
           });
 
           console.log('✅ [ORDER OVERLAY] Updated with backend order ID:', syncResult.orderId);
+          await useVoucherLedgerStore.getState().markOrderRedemptionsSynced(finalOrderId);
         } else {
           console.error('❌ [BACKEND SYNC] Failed to sync order:', syncResult.error);
           // Don't block order completion if sync fails
@@ -565,7 +939,7 @@ export const usePaymentOverlay = ({
             : 'dine-in';
 
           // Convert order items to cart format for kitchen service
-          const cartItemsForKitchen = orderItems?.map((item: any, index: number) => ({
+          const cartItemsForKitchen = orderItems?.filter((item: any) => !item.giftCard).map((item: any, index: number) => ({
             uniqueId: `kitchen-${finalOrderId}-${index}`,
             id: item.id,
             name: item.name,
@@ -577,6 +951,11 @@ export const usePaymentOverlay = ({
             description: item.description || '',
             image: item.image || '',
             modifiers: item.modifiers || { variations: [], addOns: [] },
+            seat: item.seat,
+            course: item.course,
+            courseHeld: item.courseHeld, // 🍽️ Held courses wait for "fire course"
+            pricingMode: item.pricingMode, // ⚖️ Weight lines print "0.750 kg"
+            weightUnit: item.weightUnit,
             isPaid: !isAdditionalItems // Mark as paid unless it's additional items
           })) || [];
 
@@ -614,13 +993,25 @@ export const usePaymentOverlay = ({
       // 🏆 PROFESSIONAL: Order overlay is automatically marked completed - no draft cleanup needed
       console.log('✅ [ORDER OVERLAY] Order will be marked completed automatically');
 
+      // ✂️ Other checks still open on this table - the slot follows the next one
+      const openChecks = isSplitCheck
+        ? (await useOrderOverlayStore.getState().getSlotChecks(targetSlotId)).filter(check => check.id !== finalOrderId)
+        : [];
+
       // 🚀 SMART WORKFLOW: Different behavior based on order type
-      if (completingUnpaidOrder || completingPaidOrderWithAdditions) {
+      if (openChecks.length > 0) {
+        await setSlotProcessing(targetSlotId, {
+          orderRefId: openChecks[0].id,
+          paymentMethod: 'unpaid',
+          paymentStatus: 'unpaid'
+        });
+        console.log('✂️ [WORKFLOW] Check paid -', openChecks.length, 'check(s) still open on slot', targetSlotId, '- next:', openChecks[0].id);
+      } else if (completingUnpaidOrder || completingPaidOrderWithAdditions || isSplitCheck) {
         // EXISTING ORDER COMPLETION: Either unpaid order payment or paid order with additional items → Complete immediately
         // ✅ Order already saved as 'completed' in syncCartToOverlay above with correct payment method
 
         await setSlotCompleted(targetSlotId);
-        const completionType = completingUnpaidOrder ? 'unpaid order payment' : 'paid order with additions payment';
+        const completionType = completingUnpaidOrder ? 'unpaid order payment' : completingPaidOrderWithAdditions ? 'paid order with additions payment' : 'last split check payment';
         console.log('✅ [WORKFLOW]', completionType, 'received - order completed for slot', targetSlotId);
 
         console.log('🧹 [ORDER COMPLETE] Order completed for slot:', targetSlotId);
@@ -637,7 +1028,7 @@ export const usePaymentOverlay = ({
         customer: orderCustomer?.name || 'Guest',
         itemCount: orderItems?.length || 0,
         total,
-        paymentMethod: selectedPaymentMethod,
+        paymentMethod: orderPaymentMethod,
         wasExistingOrder: completingUnpaidOrder || completingPaidOrderWithAdditions,
         orderType: completingUnpaidOrder ? 'unpaid' : completingPaidOrderWithAdditions ? 'paid-with-additions' : 'new',
         finalStatus
@@ -739,7 +1130,20 @@ export const usePaymentOverlay = ({
         available: item.available,
         description: item.description,
         image: item.image,
+        priceIncludesTax: item.priceIncludesTax,
+        taxClassId: item.taxClassId,
+        lineDiscount: item.lineDiscount,
+        priceOverride: item.priceOverride,
+        promotionDiscount: item.promotionDiscount,
         modifiers: item.modifiers,
+        giftCard: item.giftCard,
+        splitShare: item.splitShare,
+        seat: item.seat,
+        course: item.course,
+        courseHeld: item.courseHeld,
+        firedAt: item.firedAt,
+        pricingMode: item.pricingMode,
+        weightUnit: item.weightUnit,
         // 🎯 CRITICAL: Preserve individual item payment status
         isPaid: item.isPaid || false,
         originalOrderId: item.originalOrderId
@@ -777,21 +1181,26 @@ export const usePaymentOverlay = ({
       // Get backend sync required fields from auth/till stores
       const user = useAuthStore.getState().user;
 
-      // 🚨 CRITICAL FIX: Use actual cart totals, not approximations
-      const cartStore2 = useCartStore.getState();
-      const cartState2 = targetSlotId ? cartStore2.carts[targetSlotId] : null;
-      const actualSubtotal2 = cartState2?.subtotal || (total / 1.1); // Fallback: reverse calculate
-      const actualTax2 = cartState2?.tax || (total - actualSubtotal2); // Fallback: difference
+      // 🧾 PRICING ENGINE: Payment method unknown yet - price at branch rate
+      const unpaidPricing = calculateCartPricing(orderItems, { discount, serviceChargeRate });
+      const targetSlot = useUnifiedSlotStore.getState().getSlot(targetSlotId);
 
       await syncCartToOverlay({
         orderId: finalOrderId,
         slotId: targetSlotId,
-        orderType: useUnifiedSlotStore.getState().getSlot(targetSlotId)?.orderType || 'dine-in',
+        orderType: targetSlot?.orderType || 'dine-in',
         items: orderItems,
         customer: orderCustomer,
-        total,
-        subtotal: actualSubtotal2, // ✅ Use actual cart subtotal
-        tax: actualTax2, // ✅ Use actual cart tax
+        total: unpaidPricing.total,
+        subtotal: unpaidPricing.subtotal,
+        tax: unpaidPricing.tax,
+        taxRate: unpaidPricing.taxRate,
+        discount: unpaidPricing.discount,
+        vouchers,
+        serviceCharge: unpaidPricing.serviceCharge,
+        serviceChargeRate: unpaidPricing.serviceChargeRate,
+        covers: targetSlot?.customerCount,
+        payments, // Partial payments already taken stay on the order
         paymentStatus: 'unpaid',
         paymentMethod: 'unpaid', // 🎯 CRITICAL: Mark as unpaid for pay later workflow
         status: 'active',
@@ -803,6 +1212,9 @@ export const usePaymentOverlay = ({
 
       console.log('✅ [ORDER OVERLAY] Saved unpaid order data for', finalOrderId);
 
+      // 🎟️ Voucher ledger: placing the order uses the codes (even before payment)
+      await useVoucherLedgerStore.getState().recordRedemptions(finalOrderId, vouchers, orderCustomer?.phone);
+
       // 🏆 PROFESSIONAL: Order overlay handles state management - no draft cleanup needed
       console.log('✅ [ORDER OVERLAY] Order saved successfully to persistent storage');
 
@@ -848,25 +1260,47 @@ export const usePaymentOverlay = ({
     isCompletingUnpaidOrder,
     cashAmount,
     cashChange,
+    payments,
+    amountPaid,
+    balanceDue,
+    tip,
+    tipBase,
+    tipConfig,
     cardNumber,
     cardHolder,
     expiryDate,
     cvv,
+    terminalEvent,
+    canConfirmOfflineCard,
+    giftCardCode,
+    giftCard,
+    giftCardError,
+    cartOrderId,
+    transferAccount,
+    transferReference,
+    transferQRPayload,
     splitPayments,
     
     // Actions
     setActiveTab,
     setShowSplitPayments,
     setCashAmount,
+    setTip,
     setCardNumber,
     setCardHolder,
     setExpiryDate,
     setCvv,
+    setGiftCardCode,
+    setTransferReference,
     
     // Handlers
     handleCashPayment,
     handleCardPayment,
+    handleCancelTerminal,
     handleOfflineCardPayment,
+    handleGiftCardLookup,
+    handleGiftCardPayment,
+    handleOnlineTransferPayment,
     handleSplitBillPayment,
     handleSplitPayment,
     addSplitPayment,
@@ -883,6 +1317,8 @@ export const usePaymentOverlay = ({
 
     // Computed values
     formatCurrency,
+    total,
+    pricing,
     currentTaxRate
   };
 };
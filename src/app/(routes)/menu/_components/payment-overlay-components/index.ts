@@ -3,5 +3,9 @@ export { PaymentOverlayTabs } from './PaymentOverlayTabs';
 export { CashPaymentTab } from './CashPaymentTab';
 export { CardPaymentTab } from './CardPaymentTab';
 export { SplitPaymentTab } from './SplitPaymentTab';
-export type { SplitBillData } from './SplitPaymentTab';
+export { GiftCardPaymentTab } from './GiftCardPaymentTab';
+export { OnlineTransferTab } from './OnlineTransferTab';
+export { TipSelector } from './TipSelector';
+export { PaymentLedgerSummary } from './PaymentLedgerSummary';
+export type { SplitBillShare } from './SplitPaymentTab';
 export { usePaymentOverlay } from './hooks/usePaymentOverlay';
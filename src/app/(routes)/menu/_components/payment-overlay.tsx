@@ -10,6 +10,9 @@
  * - CashPaymentTab: Cash payment interface with change calculation
  * - CardPaymentTab: Card payment processing
  * - SplitPaymentTab: Handle multiple payment methods for one order
+ * - GiftCardPaymentTab: Gift card / store credit tender (partial balance supported)
+ * - OnlineTransferTab: Bank transfer QR (also on the customer display) + transaction reference
+ * - PaymentLedgerSummary: Tenders already taken + balance due (partial payments)
  * - OrderPlacedOverlay: Success/failure confirmation
  * - usePaymentOverlay hook: Payment state management and processing logic
  * - useCart hook: Final order data
@@ -22,15 +25,20 @@
 
 import React, { useEffect } from 'react';
 import { useCartTotal } from '@/lib/store/cart-new';
+import { toPricingMethod } from './payment-overlay-components/hooks/usePaymentOverlay';
 import {
   PaymentOverlayHeader,
   PaymentOverlayTabs,
   CashPaymentTab,
   CardPaymentTab,
   SplitPaymentTab,
+  GiftCardPaymentTab,
+  OnlineTransferTab,
+  PaymentLedgerSummary,
   usePaymentOverlay
 } from './payment-overlay-components';
 import { OrderPlacedOverlay } from './order-completion';
+import { getBranchTaxConfig, type PricingPaymentMethod } from '@/lib/utils/pricing';
 
 interface PaymentOverlayProps {
   isOpen: boolean;
@@ -39,7 +47,7 @@ interface PaymentOverlayProps {
   slotId?: string | null;
   orderType?: 'dine-in' | 'take-away' | 'delivery' | null;
   onOrderComplete?: () => void;
-  onTaxRateChange?: (taxRate: number) => void; // Callback when payment tab changes (affects tax rate)
+  onPaymentMethodChange?: (method: PricingPaymentMethod | undefined) => void; // Callback when payment tab changes (affects tax rate)
 }
 
 export const PaymentOverlay: React.FC<PaymentOverlayProps> = React.memo(({
@@ -49,9 +57,9 @@ export const PaymentOverlay: React.FC<PaymentOverlayProps> = React.memo(({
   slotId = null,
   orderType = null,
   onOrderComplete,
-  onTaxRateChange
+  onPaymentMethodChange
 }) => {
-  const total = useCartTotal();
+  const cartTotal = useCartTotal();
   
   // Use the custom hook for all business logic
   const {
@@ -64,18 +72,40 @@ export const PaymentOverlay: React.FC<PaymentOverlayProps> = React.memo(({
     isCompletingUnpaidOrder,
     cashAmount,
     cashChange,
+    payments,
+    amountPaid,
+    balanceDue,
+    tip,
+    tipBase,
+    tipConfig,
     cardNumber,
     cardHolder,
     expiryDate,
     cvv,
+    terminalEvent,
+    canConfirmOfflineCard,
+    giftCardCode,
+    giftCard,
+    giftCardError,
+    cartOrderId,
+    transferAccount,
+    transferReference,
+    transferQRPayload,
     setActiveTab,
+    setTip,
     setCardNumber,
     setCardHolder,
     setExpiryDate,
     setCvv,
+    setGiftCardCode,
+    setTransferReference,
     handleCashPayment,
     handleCardPayment,
+    handleCancelTerminal,
     handleOfflineCardPayment,
+    handleGiftCardLookup,
+    handleGiftCardPayment,
+    handleOnlineTransferPayment,
     handleSplitBillPayment,
     handleKeypadInput,
     handleKeypadClear,
@@ -85,21 +115,23 @@ export const PaymentOverlay: React.FC<PaymentOverlayProps> = React.memo(({
     handleNavigateHome,
     handlePayLater,
     formatCurrency,
+    total,
+    pricing,
     currentTaxRate
   } = usePaymentOverlay({
-    total,
+    total: cartTotal,
     onOrderComplete,
     onClose,
     slotId,
     orderType
   });
 
-  // Notify parent when tax rate changes (for confirmation overlay sync)
+  // Notify parent when payment method changes (for confirmation overlay sync)
   useEffect(() => {
-    if (onTaxRateChange) {
-      onTaxRateChange(currentTaxRate);
+    if (onPaymentMethodChange) {
+      onPaymentMethodChange(toPricingMethod(activeTab));
     }
-  }, [currentTaxRate, onTaxRateChange]);
+  }, [activeTab, onPaymentMethodChange]);
 
   if (!isOpen) return null;
 
@@ -113,8 +145,8 @@ export const PaymentOverlay: React.FC<PaymentOverlayProps> = React.memo(({
         paymentMethod={selectedPaymentMethod}
         placedAt={placedAt || ''}
         total={total}
-        subtotal={total / (1 + currentTaxRate / 100)} // Calculate subtotal from total with current tax rate
-        tax={total - (total / (1 + currentTaxRate / 100))} // Tax based on current payment method
+        subtotal={pricing.subtotal} // Pricing engine breakdown for selected payment method
+        tax={pricing.tax}
         taxRate={currentTaxRate}
         cashReceived={selectedPaymentMethod === 'cash' || selectedPaymentMethod === 'split' ? parseFloat(cashAmount) || 0 : undefined}
         change={selectedPaymentMethod === 'cash' || selectedPaymentMethod === 'split' ? cashChange : undefined}
@@ -153,6 +185,14 @@ export const PaymentOverlay: React.FC<PaymentOverlayProps> = React.memo(({
         onTabChange={setActiveTab}
       />
 
+      {/* Tenders taken so far (partial payments / split shares) */}
+      <PaymentLedgerSummary
+        payments={payments}
+        amountPaid={amountPaid}
+        balanceDue={balanceDue}
+        formatCurrency={formatCurrency}
+      />
+
       {/* Content Area - Fits remaining overlay space */}
       <div className="flex flex-col flex-1 mx-4 mb-4 min-h-0">
         <div className="flex-1 bg-card rounded-lg border border-border p-1 min-h-0 overflow-hidden">
@@ -162,13 +202,20 @@ export const PaymentOverlay: React.FC<PaymentOverlayProps> = React.memo(({
               <CashPaymentTab
                 cashAmount={cashAmount}
                 cashChange={cashChange}
-                total={total}
+                total={balanceDue}
                 paymentStatus={paymentStatus}
                 formatCurrency={formatCurrency}
                 onKeypadInput={handleKeypadInput}
                 onKeypadClear={handleKeypadClear}
                 onKeypadBackspace={handleKeypadBackspace}
                 onCashPayment={handleCashPayment}
+                tip={tip}
+                tipBase={tipBase}
+                tipPresets={tipConfig.presets}
+                tipsEnabled={tipConfig.enabled !== false}
+                onTipChange={setTip}
+                roundingAdjustment={pricing.roundingAdjustment}
+                allowPartial
               />
             )}
 
@@ -179,18 +226,60 @@ export const PaymentOverlay: React.FC<PaymentOverlayProps> = React.memo(({
                 expiryDate={expiryDate}
                 cvv={cvv}
                 paymentStatus={paymentStatus}
+                taxRate={currentTaxRate}
+                branchTaxRate={getBranchTaxConfig().rate}
                 onCardNumberChange={setCardNumber}
                 onCardHolderChange={setCardHolder}
                 onExpiryDateChange={setExpiryDate}
                 onCvvChange={setCvv}
                 onCardPayment={handleCardPayment}
                 onOfflineCardPayment={handleOfflineCardPayment}
+                terminalEvent={terminalEvent}
+                canConfirmOffline={canConfirmOfflineCard}
+                onCancelTerminal={handleCancelTerminal}
+                total={balanceDue}
+                formatCurrency={formatCurrency}
+                tip={tip}
+                tipBase={tipBase}
+                tipPresets={tipConfig.presets}
+                tipsEnabled={tipConfig.enabled !== false}
+                onTipChange={setTip}
+              />
+            )}
+
+            {activeTab === 'gift_card' && (
+              <GiftCardPaymentTab
+                code={giftCardCode}
+                giftCard={giftCard}
+                error={giftCardError}
+                total={balanceDue}
+                paymentStatus={paymentStatus}
+                formatCurrency={formatCurrency}
+                onCodeChange={setGiftCardCode}
+                onLookup={handleGiftCardLookup}
+                onRedeem={handleGiftCardPayment}
+              />
+            )}
+
+            {activeTab === 'mobile' && (
+              <OnlineTransferTab
+                account={transferAccount}
+                orderReference={cartOrderId || ''}
+                qrPayload={transferQRPayload}
+                total={balanceDue}
+                reference={transferReference}
+                paymentStatus={paymentStatus}
+                formatCurrency={formatCurrency}
+                onReferenceChange={setTransferReference}
+                onConfirm={handleOnlineTransferPayment}
               />
             )}
 
             {activeTab === 'split' && (
               <SplitPaymentTab
                 total={total}
+                balanceDue={balanceDue}
+                payments={payments}
                 paymentStatus={paymentStatus}
                 onSplitPayment={handleSplitBillPayment}
               />
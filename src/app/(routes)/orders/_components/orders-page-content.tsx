@@ -1,8 +1,9 @@
 'use client';
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { Search, RefreshCw } from 'lucide-react';
+import { Search, RefreshCw, Landmark } from 'lucide-react';
 import { OrderOverlay } from '@/components/pos';
+import { OnlineTransfersModal } from '@/components/pos/OnlineTransfersModal';
 import { Dropdown, DropdownOption } from '@/components/ui/Dropdown';
 import { useOrderManagement } from '../_hooks/useOrderManagement';
 import { OrderTabs } from './order-tabs';
@@ -23,12 +24,18 @@ export const OrdersPageContent = () => {
   const [isSyncing, setIsSyncing] = useState(false);
   const [pendingOrderCount, setPendingOrderCount] = useState(0);
 
+  // 🏦 Online transfers waiting for manager verification (end-of-day reconciliation)
+  const [unverifiedTransferCount, setUnverifiedTransferCount] = useState(0);
+  const [showTransfers, setShowTransfers] = useState(false);
+
   // Count pending orders for sync button
   useEffect(() => {
     const countPendingOrders = async () => {
       const overlayStore = useOrderOverlayStore.getState();
       const pendingOrders = await overlayStore.getPendingSyncOrders();
       setPendingOrderCount(pendingOrders.length);
+      const unverifiedTransfers = await overlayStore.getUnverifiedTransfers();
+      setUnverifiedTransferCount(unverifiedTransfers.length);
     };
 
     countPendingOrders();
@@ -228,6 +235,21 @@ export const OrdersPageContent = () => {
               )}
             </button>
 
+            {/* Online Transfers Button - manager reconciles transfer references */}
+            <button
+              onClick={() => setShowTransfers(true)}
+              className={`relative w-[46px] h-[46px] flex items-center justify-center bg-secondary border border-border rounded-xl transition-colors flex-shrink-0 hover:bg-accent/50 ${unverifiedTransferCount > 0 ? 'text-primary' : 'text-text-secondary'
+                }`}
+              title={unverifiedTransferCount > 0 ? `${unverifiedTransferCount} online transfer${unverifiedTransferCount > 1 ? 's' : ''} to verify` : 'No online transfers to verify'}
+            >
+              <Landmark className="w-5 h-5" />
+              {unverifiedTransferCount > 0 && (
+                <span className="absolute -top-2 -right-2 bg-primary text-primary-foreground text-xs rounded-full w-5 h-5 flex items-center justify-center">
+                  {unverifiedTransferCount}
+                </span>
+              )}
+            </button>
+
             {/* Order Type Dropdown */}
             <div className="w-32 sm:w-36">
               <Dropdown
@@ -274,6 +296,12 @@ export const OrdersPageContent = () => {
           </div>
         )}
       </div>
+
+      <OnlineTransfersModal
+        isOpen={showTransfers}
+        onClose={() => setShowTransfers(false)}
+        onChange={setUnverifiedTransferCount}
+      />
     </div>
   );
 };
@@ -163,7 +163,9 @@ export const useOrderManagement = () => {
           tax: overlayOrder?.tax || 0,
           orderDetails: overlayOrder?.items || [], // Get real order items
           specialInstructions: overlayOrder?.specialInstructions,
-          syncStatus: overlayOrder?.syncStatus // Include sync status
+          syncStatus: overlayOrder?.syncStatus, // Include sync status
+          refunded: !!overlayOrder?.refundedAmount,
+          refundAmount: overlayOrder?.refundedAmount
         };
       });
 
@@ -201,7 +203,9 @@ export const useOrderManagement = () => {
         tax: overlay.tax || 0,
         orderDetails: overlay.items || [],
         specialInstructions: overlay.specialInstructions,
-        syncStatus: overlay.syncStatus // Include sync status for badges
+        syncStatus: overlay.syncStatus, // Include sync status for badges
+        refunded: !!overlay.refundedAmount,
+        refundAmount: overlay.refundedAmount
       }));
 
     // 3. 🏆 BULLETPROOF: Combine and de-duplicate by order ID
@@ -18,7 +18,7 @@
 import { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Save, RefreshCw, LogOut } from 'lucide-react';
+import { Save, RefreshCw, LogOut, Banknote, FileBarChart, ArrowLeftRight, History } from 'lucide-react';
 import { useSettingsStore } from '@/lib/store/settings';
 import { TileSize, AnimationLevel } from '@/lib/store/settings';
 import { SettingSection } from '@/types/settings';
@@ -28,6 +28,8 @@ import { useAuthStore } from '@/lib/store/auth';
 import { useTillStore } from '@/lib/store/till';
 import { useBranchConfigStore } from '@/lib/store/branchConfig';
 import { TillModal } from '@/components/till/TillModal';
+import { TillHistoryModal } from '@/components/till/TillHistoryModal';
+import { SalesReportModal } from '@/components/pos/SalesReportModal';
 import { ThemeToggle } from './theme-toggle';
 
 export const SettingsContent = () => {
@@ -35,6 +37,10 @@ export const SettingsContent = () => {
   const [activeSection, setActiveSection] = useState<string>('general');
   const [isLoading, setIsLoading] = useState(true);
   const [showCloseModal, setShowCloseModal] = useState(false);
+  const [showCashModal, setShowCashModal] = useState(false); // Pay-in / pay-out / safe drop
+  const [showReportModal, setShowReportModal] = useState(false); // X / Z reports
+  const [showHandoverModal, setShowHandoverModal] = useState(false); // Cashier change on the same drawer
+  const [showTillHistory, setShowTillHistory] = useState(false); // Past till sessions
   const [expectedTillAmount, setExpectedTillAmount] = useState(0);
   const [pendingOrderCount, setPendingOrderCount] = useState(0);
   const [isSyncing, setIsSyncing] = useState(false);
@@ -267,6 +273,13 @@ export const SettingsContent = () => {
     }
   };
 
+  const handleHandover = async () => {
+    // Fresh expected amount - the handover count is reconciled against it
+    const expected = await tillStore.getExpectedTillAmount();
+    setExpectedTillAmount(expected);
+    setShowHandoverModal(true);
+  };
+
   const performLogout = async () => {
     // Just logout - SPA architecture will handle showing login automatically
     // No need to navigate, app.tsx will detect no auth and show LoginPage
@@ -354,6 +367,42 @@ export const SettingsContent = () => {
                 <Save className="w-4 h-4 mr-2" />
                 Save
               </Button>
+              <Button
+                variant="line"
+                size="sm"
+                onClick={() => setShowReportModal(true)}
+              >
+                <FileBarChart className="w-4 h-4 mr-2" />
+                Reports
+              </Button>
+              <Button
+                variant="line"
+                size="sm"
+                onClick={() => setShowTillHistory(true)}
+              >
+                <History className="w-4 h-4 mr-2" />
+                Till History
+              </Button>
+              {currentSession?.status === 'open' && (
+                <Button
+                  variant="line"
+                  size="sm"
+                  onClick={() => setShowCashModal(true)}
+                >
+                  <Banknote className="w-4 h-4 mr-2" />
+                  Cash In / Out
+                </Button>
+              )}
+              {currentSession?.status === 'open' && (
+                <Button
+                  variant="line"
+                  size="sm"
+                  onClick={handleHandover}
+                >
+                  <ArrowLeftRight className="w-4 h-4 mr-2" />
+                  Hand Over
+                </Button>
+              )}
               {currentSession?.status === 'open' && (
                 <Button
                   variant="line"
@@ -474,6 +523,39 @@ export const SettingsContent = () => {
         mode="close"
         systemAmount={expectedTillAmount}
       />
+
+      {/* Cash Movements Modal - Expected amount refreshes as movements are recorded */}
+      <TillModal
+        isOpen={showCashModal}
+        onClose={() => setShowCashModal(false)}
+        onSuccess={() => console.log('✅ [SETTINGS] Cash movement recorded')}
+        mode="cash"
+        systemAmount={expectedTillAmount}
+      />
+
+      {/* Cashier Handover - drawer stays open, incoming cashier signs in */}
+      <TillModal
+        isOpen={showHandoverModal}
+        onClose={() => setShowHandoverModal(false)}
+        onSuccess={() => {
+          setShowHandoverModal(false);
+          console.log('✅ [SETTINGS] Till handed over');
+        }}
+        mode="handover"
+        systemAmount={expectedTillAmount}
+      />
+
+      {/* X / Z Reports */}
+      <SalesReportModal
+        isOpen={showReportModal}
+        onClose={() => setShowReportModal(false)}
+      />
+
+      {/* Till History - reprint close reports, retry failed syncs */}
+      <TillHistoryModal
+        isOpen={showTillHistory}
+        onClose={() => setShowTillHistory(false)}
+      />
     </div>
   );
 };
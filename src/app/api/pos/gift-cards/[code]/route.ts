@@ -0,0 +1,112 @@
+/**
+ * Next.js API Route Proxy for Gift Card Lookup
+ *
+ * PURPOSE: Bypass CORS restrictions during development
+ * - Frontend calls this route (same origin, no CORS)
+ * - This route calls backend API (server-to-server, no CORS)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    console.log('🔄 [API PROXY - GIFT CARD] ===== PROXY START =====');
+
+    const { code } = await params;
+
+    if (!code) {
+      console.error('❌ [API PROXY - GIFT CARD] Missing code parameter');
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Gift card code is required',
+          message: 'Missing code in request'
+        },
+        { status: 400 }
+      );
+    }
+
+    // Get tenant ID from request headers or env
+    const tenantId = request.headers.get('x-tenant-id') ||
+                     process.env.NEXT_PUBLIC_TENANT_ID ||
+                     'extraction';
+    const authToken = request.headers.get('authorization');
+
+    if (!authToken) {
+      console.error('❌ [API PROXY - GIFT CARD] Missing authorization header');
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'No authentication token',
+          message: 'Authorization header is required'
+        },
+        { status: 401 }
+      );
+    }
+
+    const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'https://api.tritechtechnologyllc.com';
+    const fullEndpoint = `${apiUrl}/t/pos/gift-cards/${encodeURIComponent(code)}`;
+
+    console.log('🔄 [API PROXY - GIFT CARD] Looking up gift card at:', fullEndpoint);
+
+    // Forward the request to the backend API
+    const response = await fetch(fullEndpoint, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-tenant-id': tenantId,
+        'Authorization': authToken,
+      },
+    });
+
+    console.log('📡 [API PROXY - GIFT CARD] Backend response status:', response.status, response.statusText);
+
+    // Get response text first for better error handling
+    const responseText = await response.text();
+
+    let data;
+    try {
+      data = JSON.parse(responseText);
+    } catch (parseError) {
+      console.error('❌ [API PROXY - GIFT CARD] Failed to parse response as JSON:', parseError);
+      throw new Error(`Backend returned invalid JSON: ${responseText.substring(0, 200)}`);
+    }
+
+    console.log('🔄 [API PROXY - GIFT CARD] ===== PROXY END =====');
+
+    // Return the backend response with the same status code
+    return NextResponse.json(data, {
+      status: response.status,
+      headers: {
+        'Content-Type': 'application/json',
+      }
+    });
+
+  } catch (error) {
+    console.error('❌ [API PROXY - GIFT CARD] Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Proxy error',
+        message: 'Failed to connect to gift card service'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS preflight requests (CORS)
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-tenant-id',
+    },
+  });
+}
@@ -0,0 +1,101 @@
+/**
+ * Next.js API Route Proxy for the Gift Card Ledger
+ *
+ * PURPOSE: Bypass CORS restrictions during development
+ * - Frontend calls this route (same origin, no CORS)
+ * - This route calls backend API (server-to-server, no CORS)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function POST(request: NextRequest) {
+  try {
+    console.log('🔄 [API PROXY - GIFT CARD LEDGER] ===== PROXY START =====');
+
+    // Get tenant ID from request headers or env
+    const tenantId = request.headers.get('x-tenant-id') ||
+                     process.env.NEXT_PUBLIC_TENANT_ID ||
+                     'extraction';
+    const authToken = request.headers.get('authorization');
+
+    if (!authToken) {
+      console.error('❌ [API PROXY - GIFT CARD LEDGER] Missing authorization header');
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'No authentication token',
+          message: 'Authorization header is required'
+        },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+
+    const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'https://api.tritechtechnologyllc.com';
+    const fullEndpoint = `${apiUrl}/t/pos/gift-cards/ledger`;
+
+    console.log('🔄 [API PROXY - GIFT CARD LEDGER] Forwarding ledger entries to backend:', {
+      endpoint: fullEndpoint,
+      entries: Array.isArray(body.entries) ? body.entries.length : 0
+    });
+
+    // Forward the request to the backend API
+    const response = await fetch(fullEndpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-tenant-id': tenantId,
+        'Authorization': authToken,
+      },
+      body: JSON.stringify(body),
+    });
+
+    console.log('📡 [API PROXY - GIFT CARD LEDGER] Backend response status:', response.status, response.statusText);
+
+    // Get response text first for better error handling
+    const responseText = await response.text();
+
+    let data;
+    try {
+      data = JSON.parse(responseText);
+    } catch (parseError) {
+      console.error('❌ [API PROXY - GIFT CARD LEDGER] Failed to parse response as JSON:', parseError);
+      throw new Error(`Backend returned invalid JSON: ${responseText.substring(0, 200)}`);
+    }
+
+    console.log('🔄 [API PROXY - GIFT CARD LEDGER] ===== PROXY END =====');
+
+    // Return the backend response with the same status code
+    return NextResponse.json(data, {
+      status: response.status,
+      headers: {
+        'Content-Type': 'application/json',
+      }
+    });
+
+  } catch (error) {
+    console.error('❌ [API PROXY - GIFT CARD LEDGER] Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Proxy error',
+        message: 'Failed to connect to gift card service'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS preflight requests (CORS)
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-tenant-id',
+    },
+  });
+}
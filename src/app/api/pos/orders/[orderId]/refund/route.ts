@@ -0,0 +1,120 @@
+/**
+ * Next.js API Route Proxy for Order Refunds
+ *
+ * PURPOSE: Bypass CORS restrictions during development
+ * - Frontend calls this route (same origin, no CORS)
+ * - This route calls backend API (server-to-server, no CORS)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    console.log('🔄 [API PROXY - REFUND] ===== PROXY START =====');
+
+    const { orderId } = await params;
+
+    if (!orderId) {
+      console.error('❌ [API PROXY - REFUND] Missing orderId parameter');
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Order ID is required',
+          message: 'Missing orderId in request'
+        },
+        { status: 400 }
+      );
+    }
+
+    // Get tenant ID from request headers or env
+    const tenantId = request.headers.get('x-tenant-id') ||
+                     process.env.NEXT_PUBLIC_TENANT_ID ||
+                     'extraction';
+    const authToken = request.headers.get('authorization');
+
+    if (!authToken) {
+      console.error('❌ [API PROXY - REFUND] Missing authorization header');
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'No authentication token',
+          message: 'Authorization header is required'
+        },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+
+    const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'https://api.tritechtechnologyllc.com';
+    const fullEndpoint = `${apiUrl}/t/pos/orders/${orderId}/refunds`;
+
+    console.log('🔄 [API PROXY - REFUND] Forwarding refund to backend:', {
+      endpoint: fullEndpoint,
+      orderId: orderId,
+      refundId: body.refundId,
+      amount: body.amount
+    });
+
+    // Forward the request to the backend API
+    const response = await fetch(fullEndpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-tenant-id': tenantId,
+        'Authorization': authToken,
+      },
+      body: JSON.stringify(body),
+    });
+
+    console.log('📡 [API PROXY - REFUND] Backend response status:', response.status, response.statusText);
+
+    // Get response text first for better error handling
+    const responseText = await response.text();
+
+    let data;
+    try {
+      data = JSON.parse(responseText);
+    } catch (parseError) {
+      console.error('❌ [API PROXY - REFUND] Failed to parse response as JSON:', parseError);
+      throw new Error(`Backend returned invalid JSON: ${responseText.substring(0, 200)}`);
+    }
+
+    console.log('🔄 [API PROXY - REFUND] ===== PROXY END =====');
+
+    // Return the backend response with the same status code
+    return NextResponse.json(data, {
+      status: response.status,
+      headers: {
+        'Content-Type': 'application/json',
+      }
+    });
+
+  } catch (error) {
+    console.error('❌ [API PROXY - REFUND] Error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Proxy error',
+        message: 'Failed to connect to refund service'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS preflight requests (CORS)
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-tenant-id',
+    },
+  });
+}
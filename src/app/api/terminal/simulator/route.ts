@@ -0,0 +1,186 @@
+/**
+ * Next.js API Route - Card Terminal Simulator
+ *
+ * PURPOSE: Deterministic stand-in for a card terminal so approvals, declines,
+ * timeouts and disconnects can be tested offline (lib/services/paymentTerminal)
+ * - Outcome is chosen by the last two digits of the amount in minor units
+ * - Same sequence of requests always gives the same results
+ * - Refused in production builds (it approves every normal charge)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+type SimulatorAction = 'sale' | 'refund' | 'void' | 'status' | 'cancel';
+
+interface SimulatedTransaction {
+  transactionId: string;
+  reference: string;
+  amountMinor: number;
+  refundedMinor: number;
+  voided: boolean;
+}
+
+// In-memory terminal state (resets when the dev server restarts)
+const transactions = new Map<string, SimulatedTransaction>();
+let sequence = 0;
+let busy = false;
+let cancelRequested = false;
+
+const CARD_READ_MS = 1500;
+const AUTHORIZE_MS = 800;
+const TIMEOUT_MS = 3000;
+
+// Magic amounts (last two digits of minor units)
+const SCENARIOS: Record<number, { status: 'declined' | 'timeout' | 'disconnected'; message: string }> = {
+  51: { status: 'declined', message: 'Declined - insufficient funds' },
+  54: { status: 'declined', message: 'Declined - expired card' },
+  91: { status: 'timeout', message: 'Terminal timed out - no response' },
+  99: { status: 'disconnected', message: 'Terminal disconnected' }
+};
+
+// Stable short hash → approval codes / transaction ids
+const hash = (value: string): string => {
+  let result = 5381;
+  for (let index = 0; index < value.length; index++) {
+    result = ((result << 5) + result + value.charCodeAt(index)) >>> 0;
+  }
+  return result.toString(36).toUpperCase().padStart(6, '0');
+};
+
+// Wait in small steps so a cancel from the POS stops the transaction
+const wait = async (ms: number): Promise<boolean> => {
+  const step = 100;
+  for (let elapsed = 0; elapsed < ms; elapsed += step) {
+    if (cancelRequested) return false;
+    await new Promise(resolve => setTimeout(resolve, step));
+  }
+  return !cancelRequested;
+};
+
+const cardFor = (amountMinor: number) => {
+  const declined = SCENARIOS[amountMinor % 100]?.status === 'declined';
+  return { maskedPan: declined ? '**** 0002' : '**** 4242', cardBrand: 'VISA' };
+};
+
+export async function POST(request: NextRequest) {
+  if (process.env.NODE_ENV === 'production') {
+    console.error('❌ [TERMINAL SIMULATOR] Refused - simulator is disabled in production');
+    return NextResponse.json({ status: 'error', message: 'Terminal simulator is disabled in production' }, { status: 403 });
+  }
+
+  try {
+    const body = await request.json();
+    const action = body.action as SimulatorAction;
+    const amountMinor = Math.round(Number(body.amountMinor) || 0);
+    const reference = String(body.reference || '');
+
+    console.log('💳 [TERMINAL SIMULATOR] Request:', { action, amountMinor, reference, transactionId: body.transactionId });
+
+    if (action === 'status') {
+      return NextResponse.json({ connected: true, busy, model: 'Terminal Simulator' });
+    }
+
+    if (action === 'cancel') {
+      cancelRequested = busy;
+      return NextResponse.json({ success: true, cancelled: busy });
+    }
+
+    if (action !== 'sale' && action !== 'refund' && action !== 'void') {
+      return NextResponse.json({ status: 'error', message: `Unknown action: ${action}` }, { status: 400 });
+    }
+
+    if (busy) {
+      return NextResponse.json({ status: 'error', message: 'Terminal busy' }, { status: 409 });
+    }
+
+    busy = true;
+    cancelRequested = false;
+
+    try {
+      const scenario = SCENARIOS[amountMinor % 100];
+
+      if (scenario?.status === 'disconnected') {
+        return NextResponse.json({ status: 'disconnected', message: scenario.message }, { status: 503 });
+      }
+
+      // Card presented (or void keyed on the terminal)
+      if (!await wait(CARD_READ_MS)) {
+        return NextResponse.json({ status: 'cancelled', message: 'Cancelled on POS' });
+      }
+
+      if (scenario?.status === 'timeout') {
+        await wait(TIMEOUT_MS);
+        return NextResponse.json({ status: 'timeout', message: scenario.message });
+      }
+
+      if (!await wait(AUTHORIZE_MS)) {
+        return NextResponse.json({ status: 'cancelled', message: 'Cancelled on POS' });
+      }
+
+      const card = cardFor(amountMinor);
+
+      if (scenario?.status === 'declined') {
+        return NextResponse.json({ status: 'declined', message: scenario.message, ...card });
+      }
+
+      sequence += 1;
+
+      if (action === 'sale') {
+        const transactionId = `SIM-${hash(`${reference}:${amountMinor}:${sequence}`)}`;
+        transactions.set(transactionId, { transactionId, reference, amountMinor, refundedMinor: 0, voided: false });
+        return NextResponse.json({
+          status: 'approved',
+          message: 'Approved',
+          transactionId,
+          approvalCode: hash(transactionId).slice(-6),
+          ...card
+        });
+      }
+
+      const original = body.transactionId ? transactions.get(String(body.transactionId)) : undefined;
+      if (body.transactionId && !original) {
+        return NextResponse.json({ status: 'declined', message: 'Original transaction not found' });
+      }
+
+      if (action === 'void') {
+        if (!original || original.voided || original.refundedMinor > 0) {
+          return NextResponse.json({ status: 'declined', message: 'Transaction cannot be voided' });
+        }
+        original.voided = true;
+        return NextResponse.json({
+          status: 'approved',
+          message: 'Voided',
+          transactionId: original.transactionId,
+          approvalCode: hash(`void:${original.transactionId}`).slice(-6),
+          ...card
+        });
+      }
+
+      // Refund (referenced refunds are capped at what the sale took)
+      if (original && (original.voided || original.refundedMinor + amountMinor > original.amountMinor)) {
+        return NextResponse.json({ status: 'declined', message: 'Refund exceeds original amount' });
+      }
+      if (original) original.refundedMinor += amountMinor;
+      const refundId = `SIM-R-${hash(`${body.transactionId || reference}:${amountMinor}:${sequence}`)}`;
+      return NextResponse.json({
+        status: 'approved',
+        message: 'Refund approved',
+        transactionId: refundId,
+        approvalCode: hash(refundId).slice(-6),
+        ...card
+      });
+    } finally {
+      busy = false;
+      cancelRequested = false;
+    }
+  } catch (error) {
+    console.error('❌ [TERMINAL SIMULATOR] Error:', error);
+    return NextResponse.json(
+      {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Simulator error'
+      },
+      { status: 500 }
+    );
+  }
+}
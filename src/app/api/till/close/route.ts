@@ -22,8 +22,11 @@ export async function POST(request: NextRequest) {
     const authToken = request.headers.get('authorization');
 
     // Add tenantSlug to request body since JWT doesn't have it
+    // 💵 Cash movements (pay-in / pay-out / safe drop) are forwarded with the close
+    const cashMovements = Array.isArray(body.cashMovements) ? body.cashMovements : [];
     const requestBody = {
       ...body,
+      cashMovements: cashMovements.length > 0 ? cashMovements : undefined,
       tenantSlug: tenantSlug
     };
 
@@ -66,7 +69,12 @@ export async function POST(request: NextRequest) {
       systemClosingAmount: requestBody.systemClosingAmount,
       tenantSlug: requestBody.tenantSlug,
       hasCashCounts: !!requestBody.cashCounts,
-      hasNotes: !!requestBody.notes
+      hasNotes: !!requestBody.notes,
+      cashMovements: cashMovements.length,
+      blindClose: !!requestBody.blindClose,
+      variance: requestBody.variance,
+      varianceApproved: !!requestBody.varianceApprovedBy,
+      shifts: Array.isArray(requestBody.shifts) ? requestBody.shifts.length : 0
     });
 
     // 🔍 DEBUG: Log complete request body
@@ -0,0 +1,58 @@
+'use client';
+
+/**
+ * Customer Display Page
+ *
+ * PURPOSE: Customer-facing screen - open /customer-display on a second
+ * screen. Shows the online transfer QR while the cashier has the Online
+ * tab open, otherwise a welcome screen.
+ *
+ * LINKS WITH:
+ * - Customer Display Service: State from the cashier screen (BroadcastChannel)
+ * - TransferQRCard: Same QR card as the payment overlay
+ */
+
+import { useEffect, useState } from 'react';
+import { TransferQRCard } from '@/components/pos/TransferQRCard';
+import {
+  getCustomerDisplayState,
+  subscribeCustomerDisplay,
+  type CustomerDisplayState
+} from '@/lib/services/customerDisplay';
+import { useSettingsStore } from '@/lib/store/settings';
+
+export default function CustomerDisplayPage() {
+  const [state, setState] = useState<CustomerDisplayState | null>(null);
+  const formatCurrency = useSettingsStore(store => store.formatCurrency);
+
+  useEffect(() => {
+    setState(getCustomerDisplayState());
+    return subscribeCustomerDisplay(setState);
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-8">
+      {state?.type === 'bank_transfer' ? (
+        <div className="w-full max-w-2xl space-y-6 text-center">
+          <div>
+            <h1 className="text-3xl font-bold text-text-primary">Scan to pay</h1>
+            <p className="text-lg text-text-secondary">Please quote the reference on your transfer</p>
+          </div>
+          <TransferQRCard
+            account={state.account}
+            amount={state.amount}
+            reference={state.orderId}
+            qrPayload={state.qrPayload}
+            formatCurrency={formatCurrency}
+            size={260}
+          />
+        </div>
+      ) : (
+        <div className="text-center">
+          <h1 className="text-4xl font-bold text-text-primary">Welcome</h1>
+          <p className="text-lg text-text-secondary mt-2">Your order total will appear here</p>
+        </div>
+      )}
+    </div>
+  );
+}
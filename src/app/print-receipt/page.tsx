@@ -6,6 +6,8 @@ import { useSearchParams } from 'next/navigation';
 export default function PrintReceiptPage() {
   const searchParams = useSearchParams();
   const [receiptContent, setReceiptContent] = useState<string>('');
+  // 58mm or 80mm paper (reports pass ?width=58)
+  const paperWidth = searchParams.get('width') === '58' ? 58 : 80;
 
   useEffect(() => {
     // Get receipt key from URL parameters
@@ -52,7 +54,7 @@ export default function PrintReceiptPage() {
             display: none;
           }
           @page {
-            size: 80mm auto;
+            size: ${paperWidth}mm auto;
             margin: 0;
           }
         }
@@ -68,7 +70,7 @@ export default function PrintReceiptPage() {
         }
 
         .receipt-container {
-          max-width: 320px;
+          max-width: ${paperWidth === 58 ? 240 : 320}px;
           margin: 0 auto;
           white-space: pre;
           overflow-x: auto;
@@ -0,0 +1,276 @@
+/**
+ * Gift Card Modal Component
+ *
+ * PURPOSE: Gift cards / store credit at the counter:
+ * - Sell a new card (added to the cart as an untaxed line, loaded when paid)
+ * - Top up an existing card (also a cart line)
+ * - Check a balance by code or QR
+ *
+ * LINKS WITH:
+ * - Gift Card Store: Card lookup + balance (offline ledger, backend when online)
+ * - Cart Overlay: Adds the sale / top-up line to the current order
+ * - QRScanner: Reads the code printed on the card
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { Gift, QrCode, RefreshCw, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import QRScanner from '@/components/pos/QRScanner';
+import type { GiftCardLine, GiftCardQRData, MenuItem, QRCodeData } from '@/types/pos';
+import {
+  generateGiftCardCode,
+  maskGiftCardCode,
+  normalizeGiftCardCode,
+  useGiftCardStore,
+  type GiftCardBalance
+} from '@/lib/store/gift-cards';
+import { roundMoney } from '@/lib/utils/money';
+import { formatCurrency } from '@/lib/utils/format';
+
+type GiftCardMode = 'sell' | 'topup' | 'balance';
+
+interface GiftCardModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onAddToCart: (item: MenuItem) => void;
+}
+
+const MODE_LABELS: Record<GiftCardMode, string> = {
+  sell: 'Sell',
+  topup: 'Top Up',
+  balance: 'Balance'
+};
+
+/**
+ * Cart line for a gift card sale / top-up
+ */
+export const createGiftCardItem = (giftCard: GiftCardLine, amount: number): MenuItem => ({
+  id: `gift-card-${giftCard.code}`,
+  name: giftCard.kind === 'issue' ? `Gift Card ${giftCard.code}` : `Gift Card Top-up ${maskGiftCardCode(giftCard.code)}`,
+  price: roundMoney(amount),
+  category: 'Gift Cards',
+  available: true,
+  giftCard
+});
+
+export const GiftCardModal: React.FC<GiftCardModalProps> = ({
+  isOpen,
+  onClose,
+  onAddToCart
+}) => {
+  const [mode, setMode] = useState<GiftCardMode>('sell');
+  const [code, setCode] = useState(() => generateGiftCardCode());
+  const [amountInput, setAmountInput] = useState('');
+  const [card, setCard] = useState<GiftCardBalance | null>(null);
+  const [error, setError] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+
+  if (!isOpen) return null;
+
+  const amount = roundMoney(parseFloat(amountInput) || 0);
+
+  const reset = (nextMode: GiftCardMode) => {
+    setMode(nextMode);
+    setCode(nextMode === 'sell' ? generateGiftCardCode() : '');
+    setAmountInput('');
+    setCard(null);
+    setError('');
+  };
+
+  const handleClose = () => {
+    reset('sell');
+    onClose();
+  };
+
+  const handleAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    // Only allow numbers and a single decimal point
+    if (value !== '' && !/^\d*\.?\d*$/.test(value)) return;
+    setAmountInput(value);
+  };
+
+  const handleLookup = async (value: string = code) => {
+    const normalized = normalizeGiftCardCode(value);
+    setCode(normalized);
+    setCard(null);
+    setError('');
+    if (!normalized) return;
+
+    setIsChecking(true);
+    try {
+      const result = await useGiftCardStore.getState().lookup(normalized);
+      if (!result) {
+        setError('Gift card not found');
+      } else if (result.card.status !== 'active') {
+        setError('Gift card is not active');
+      } else {
+        setCard(result);
+      }
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleScan = (qrData: QRCodeData) => {
+    if (qrData.type !== 'gift_card') {
+      setError('Not a gift card QR code');
+      return;
+    }
+    const scanned = (qrData.data as GiftCardQRData).code;
+    if (mode === 'sell') {
+      // Pre-printed card - sell under its own code
+      setCode(normalizeGiftCardCode(scanned));
+      setError('');
+      return;
+    }
+    handleLookup(scanned);
+  };
+
+  const handleSell = async () => {
+    const normalized = normalizeGiftCardCode(code);
+    if (!normalized || amount <= 0) return;
+
+    // A code can only be issued once - use Top Up for existing cards
+    setIsChecking(true);
+    const existing = await useGiftCardStore.getState().lookup(normalized);
+    setIsChecking(false);
+    if (existing) {
+      setError('This card is already issued - use Top Up');
+      return;
+    }
+
+    onAddToCart(createGiftCardItem({ code: normalized, kind: 'issue' }, amount));
+    handleClose();
+  };
+
+  const handleTopUp = () => {
+    if (!card || amount <= 0) return;
+    onAddToCart(createGiftCardItem({ code: card.card.code, kind: 'topup' }, amount));
+    handleClose();
+  };
+
+  const tabClass = (selected: boolean) =>
+    `flex-1 h-9 text-sm font-semibold rounded-lg border transition-colors ${
+      selected ? 'bg-primary text-primary-foreground border-primary' : 'bg-background border-border hover:bg-muted'
+    }`;
+
+  return (
+    <>
+      <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+        <div className="bg-card border border-border rounded-2xl p-6 max-w-md mx-4 w-full">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-primary/10 rounded-full flex items-center justify-center">
+                <Gift className="w-5 h-5 text-primary" />
+              </div>
+              <div>
+                <h2 className="text-lg font-semibold text-text-primary">Gift Cards</h2>
+                <p className="text-sm text-text-secondary">Sell, top up or check a balance</p>
+              </div>
+            </div>
+            <Button variant="icon" size="sm" onClick={handleClose}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+
+          {/* Mode */}
+          <div className="flex gap-2 mb-4">
+            {(Object.keys(MODE_LABELS) as GiftCardMode[]).map(option => (
+              <button key={option} onClick={() => reset(option)} className={tabClass(mode === option)}>
+                {MODE_LABELS[option]}
+              </button>
+            ))}
+          </div>
+
+          {/* Card code */}
+          <label className="block text-sm font-medium text-text-primary mb-2">Card Code</label>
+          <div className="flex gap-2 mb-2">
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => { setCode(e.target.value.toUpperCase()); setCard(null); setError(''); }}
+              onKeyDown={(e) => e.key === 'Enter' && mode !== 'sell' && handleLookup()}
+              placeholder="GC-XXXX-XXXX"
+              className="flex-1 p-3 bg-background border border-border rounded-lg text-text-primary font-mono uppercase"
+            />
+            <Button variant="line" className="h-auto px-3" onClick={() => setIsScannerOpen(true)}>
+              <QrCode className="w-4 h-4" />
+            </Button>
+            {mode === 'sell' ? (
+              <Button variant="line" className="h-auto px-3" onClick={() => { setCode(generateGiftCardCode()); setError(''); }}>
+                <RefreshCw className="w-4 h-4" />
+              </Button>
+            ) : (
+              <Button variant="fill" className="h-auto px-4" onClick={() => handleLookup()} disabled={!code.trim() || isChecking}>
+                {isChecking ? '...' : 'Check'}
+              </Button>
+            )}
+          </div>
+
+          {error && <p className="text-sm text-destructive mb-2">{error}</p>}
+
+          {/* Balance */}
+          {card && mode !== 'sell' && (
+            <div className="p-3 bg-background rounded-lg border border-border mb-4">
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-text-secondary">
+                  {card.card.type === 'store_credit' ? 'Store credit' : 'Gift card'} {maskGiftCardCode(card.card.code)}
+                </span>
+                <span className="text-lg font-bold text-text-primary tabular-nums">{formatCurrency(card.balance)}</span>
+              </div>
+              {card.pending !== 0 && (
+                <p className="text-xs text-text-secondary">Includes {formatCurrency(card.pending)} not yet synced</p>
+              )}
+            </div>
+          )}
+
+          {/* Amount */}
+          {(mode === 'sell' || (mode === 'topup' && card)) && (
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-text-primary mb-2">
+                {mode === 'sell' ? 'Card Value' : 'Top-up Amount'}
+              </label>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={amountInput}
+                onChange={handleAmountChange}
+                placeholder="0"
+                className="w-full p-3 bg-background border border-border rounded-lg text-text-primary"
+              />
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex gap-3 mt-4">
+            <Button variant="line" className="flex-1" onClick={handleClose}>
+              {mode === 'balance' ? 'Done' : 'Cancel'}
+            </Button>
+            {mode === 'sell' && (
+              <Button variant="fill" className="flex-1" disabled={!code.trim() || amount <= 0 || isChecking} onClick={handleSell}>
+                Add {amount > 0 ? formatCurrency(amount) : ''} to Order
+              </Button>
+            )}
+            {mode === 'topup' && (
+              <Button variant="fill" className="flex-1" disabled={!card || amount <= 0} onClick={handleTopUp}>
+                Add Top-up to Order
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <QRScanner
+        isOpen={isScannerOpen}
+        onClose={() => setIsScannerOpen(false)}
+        onScan={handleScan}
+      />
+    </>
+  );
+};
+
+export default GiftCardModal;
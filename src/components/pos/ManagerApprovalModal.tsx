@@ -5,6 +5,12 @@
  * - Voiding paid items (refunds)
  * - Marking paid items as waste
  * - Modifying completed orders
+ * - Line discounts above the branch discount limit
+ * - Price overrides above the branch override limit
+ * - Verifying online transfers against the bank statement
+ * - Running the Z report (closes the business day)
+ * - Closing a till with a variance over the branch threshold
+ * - Reprinting a till close report / retrying a failed till sync (till history)
  *
  * COMPLIANCE: Meets restaurant POS audit requirements for paid item modifications
  */
@@ -19,7 +25,7 @@ interface ManagerApprovalModalProps {
   isOpen: boolean;
   onClose: () => void;
   onApprove: (pin: string, reason: string, inventoryReversal?: boolean) => void;
-  operation: 'void' | 'waste' | 'modify' | 'refund' | 'cancel';
+  operation: 'void' | 'waste' | 'modify' | 'refund' | 'cancel' | 'discount' | 'price_override' | 'verify' | 'z_report' | 'till_variance' | 'reprint' | 'retry_sync';
   itemName?: string;
   amount?: number;
   showInventoryReversal?: boolean;
@@ -46,7 +52,14 @@ export const ManagerApprovalModal: React.FC<ManagerApprovalModalProps> = ({
     waste: 'Mark as Waste',
     modify: 'Modify Paid Item',
     refund: 'Process Refund',
-    cancel: 'Cancel Order'
+    cancel: 'Cancel Order',
+    discount: 'Apply Discount',
+    price_override: 'Override Price',
+    verify: 'Verify Transfer',
+    z_report: 'Run Z Report',
+    till_variance: 'Approve Till Variance',
+    reprint: 'Reprint Close Report',
+    retry_sync: 'Retry Till Sync'
   };
 
   const operationDescriptions = {
@@ -54,7 +67,14 @@ export const ManagerApprovalModal: React.FC<ManagerApprovalModalProps> = ({
     waste: 'This will mark the item as waste (no refund)',
     modify: 'This will allow modification of the paid item',
     refund: 'This will process a refund for the customer',
-    cancel: 'This will cancel the entire processing order'
+    cancel: 'This will cancel the entire processing order',
+    discount: 'This discount is above the cashier limit',
+    price_override: 'This price change is above the cashier limit',
+    verify: 'Confirm the transfer reached the branch account',
+    z_report: 'This closes the business day - no more sales can be taken today',
+    till_variance: 'The counted cash is over or short by more than the branch allows',
+    reprint: 'This prints a copy of the till close report',
+    retry_sync: 'This sends the till close to the server again'
   };
 
   const handleApprove = () => {
@@ -0,0 +1,207 @@
+/**
+ * Merge Orders Modal Component
+ *
+ * PURPOSE: Join tables - fold the open orders of other slots into this slot's
+ * order (items, customer, tenders), undo a merge while the order is unpaid,
+ * and show the order's merge history.
+ *
+ * LINKS WITH:
+ * - Merge Order Service: Candidates, merge, undo (releases / restores the source slots)
+ * - Order Overlay (home): Opens the modal from a processing, unpaid slot
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Merge, Undo2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { OverlayOrder } from '@/lib/store/order-overlay';
+import { getMergeCandidates, mergeOrders, undoMerge, type MergeCandidate } from '@/lib/services/mergeOrderService';
+import { formatCurrency } from '@/lib/utils/format';
+
+interface MergeOrdersModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  order: OverlayOrder;
+  onMerged: () => void; // Merge or undo saved - slots changed
+}
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export const MergeOrdersModal: React.FC<MergeOrdersModalProps> = ({
+  isOpen,
+  onClose,
+  order,
+  onMerged
+}) => {
+  const [candidates, setCandidates] = useState<MergeCandidate[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  // Open orders on the other tables
+  useEffect(() => {
+    if (!isOpen) return;
+    setSelectedIds([]);
+    setError('');
+    setIsLoading(true);
+    getMergeCandidates(order)
+      .then(setCandidates)
+      .catch(loadError => console.error('❌ [MERGE] Failed to load merge candidates:', loadError))
+      .finally(() => setIsLoading(false));
+  }, [isOpen, order]);
+
+  if (!isOpen) return null;
+
+  const isPaid = order.paymentStatus === 'paid' || order.status === 'completed';
+
+  const toggleCandidate = (orderId: string) => {
+    setSelectedIds(ids => ids.includes(orderId) ? ids.filter(id => id !== orderId) : [...ids, orderId]);
+    setError('');
+  };
+
+  const handleMerge = async () => {
+    setIsSaving(true);
+    const result = await mergeOrders(order.id, selectedIds);
+    setIsSaving(false);
+    if (!result.success) {
+      setError(result.error || 'Merge failed');
+      return;
+    }
+    onMerged();
+    onClose();
+  };
+
+  const handleUndo = async (mergeId: string) => {
+    setIsSaving(true);
+    const result = await undoMerge(order.id, mergeId);
+    setIsSaving(false);
+    if (!result.success) {
+      setError(result.error || 'Undo failed');
+      return;
+    }
+    onMerged();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="bg-card border border-border rounded-2xl p-6 max-w-lg mx-4 w-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-primary/10 rounded-full flex items-center justify-center">
+              <Merge className="w-5 h-5 text-primary" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-text-primary">Merge Tables</h2>
+              <p className="text-sm text-text-secondary">Into {order.slotId} • Order {order.id}</p>
+            </div>
+          </div>
+          <Button variant="icon" size="sm" onClick={onClose}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-4">
+          {/* Tables that can join */}
+          {!isPaid && (
+            <div className="space-y-2">
+              <p className="text-sm font-semibold text-text-primary">Open orders</p>
+              {isLoading && <p className="text-sm text-text-secondary">Loading...</p>}
+              {!isLoading && candidates.length === 0 && (
+                <p className="text-sm text-text-secondary">No other open {order.orderType} orders to merge</p>
+              )}
+              {candidates.map(({ slotId, order: candidate }) => (
+                <label
+                  key={candidate.id}
+                  className="flex items-center justify-between gap-3 p-3 rounded-lg border border-border cursor-pointer hover:bg-muted"
+                >
+                  <div className="flex items-center gap-3">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(candidate.id)}
+                      onChange={() => toggleCandidate(candidate.id)}
+                      className="w-4 h-4 accent-primary"
+                    />
+                    <div>
+                      <p className="text-sm font-semibold text-text-primary">
+                        {slotId}{candidate.customer?.name ? ` • ${candidate.customer.name}` : ''}
+                      </p>
+                      <p className="text-xs text-text-secondary">
+                        #{candidate.id} • {candidate.items.length} item{candidate.items.length === 1 ? '' : 's'}
+                        {candidate.payments?.length ? ' • part paid' : ''}
+                      </p>
+                    </div>
+                  </div>
+                  <span className="text-sm font-semibold text-text-primary">{formatCurrency(candidate.total)}</span>
+                </label>
+              ))}
+            </div>
+          )}
+
+          {/* Merges that can still be undone */}
+          {!!order.merges?.length && (
+            <div className="space-y-2">
+              <p className="text-sm font-semibold text-text-primary">Merged tables</p>
+              {order.merges.map(merge => (
+                <div key={merge.id} className="flex items-center justify-between gap-3 p-3 rounded-lg border border-border">
+                  <div>
+                    <p className="text-sm font-semibold text-text-primary">
+                      {merge.sources.map(source => source.order.slotId).join(', ')}
+                    </p>
+                    <p className="text-xs text-text-secondary">
+                      {formatTime(merge.mergedAt)}{merge.mergedBy ? ` • ${merge.mergedBy}` : ''}
+                    </p>
+                  </div>
+                  <Button
+                    variant="line"
+                    size="sm"
+                    disabled={isPaid || isSaving}
+                    onClick={() => handleUndo(merge.id)}
+                    className="flex items-center gap-1"
+                  >
+                    <Undo2 className="w-4 h-4" />
+                    Undo
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Order history */}
+          {!!order.history?.length && (
+            <div className="space-y-1">
+              <p className="text-sm font-semibold text-text-primary">History</p>
+              {order.history.map(entry => (
+                <p key={entry.id} className="text-xs text-text-secondary">
+                  {formatTime(entry.at)} • {entry.note}{entry.userName ? ` (${entry.userName})` : ''}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-destructive mt-3">{error}</p>}
+
+        {!isPaid && (
+          <div className="flex gap-3 mt-4">
+            <Button variant="line" className="flex-1" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              variant="fill"
+              className="flex-1"
+              disabled={selectedIds.length === 0 || isSaving}
+              onClick={handleMerge}
+            >
+              {isSaving ? 'Merging...' : `Merge${selectedIds.length ? ` ${selectedIds.length + 1} Tables` : ''}`}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+/**
+ * Online Transfers Modal Component
+ *
+ * PURPOSE: End-of-day reconciliation of online bank transfers - every
+ * transfer taken on a transaction reference that has not been checked
+ * against the bank statement yet. A manager verifies each one.
+ *
+ * LINKS WITH:
+ * - Order Overlay Store: getUnverifiedTransfers / verifyPayment
+ * - ManagerApprovalModal: Manager PIN + note before a transfer is marked verified
+ * - Orders Page: Opened from the header (badge = unverified count)
+ */
+
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { CheckCircle, Landmark, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ManagerApprovalModal } from '@/components/pos/ManagerApprovalModal';
+import { useOrderOverlayStore, type OverlayOrder } from '@/lib/store/order-overlay';
+import type { PaymentTransaction } from '@/types/pos';
+import { sumMoney } from '@/lib/utils/money';
+import { formatCurrency } from '@/lib/utils/format';
+
+interface OnlineTransfersModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onChange?: (unverifiedCount: number) => void;
+}
+
+type UnverifiedTransfer = { order: OverlayOrder; payment: PaymentTransaction };
+
+export const OnlineTransfersModal: React.FC<OnlineTransfersModalProps> = ({
+  isOpen,
+  onClose,
+  onChange
+}) => {
+  const [transfers, setTransfers] = useState<UnverifiedTransfer[]>([]);
+  const [selected, setSelected] = useState<UnverifiedTransfer | null>(null);
+
+  const loadTransfers = useCallback(async () => {
+    const unverified = await useOrderOverlayStore.getState().getUnverifiedTransfers();
+    setTransfers(unverified);
+    onChange?.(unverified.length);
+  }, [onChange]);
+
+  useEffect(() => {
+    if (isOpen) loadTransfers();
+  }, [isOpen, loadTransfers]);
+
+  if (!isOpen) return null;
+
+  const handleVerify = async (pin: string, note: string) => {
+    if (!selected) return;
+    const updated = await useOrderOverlayStore.getState().verifyPayment(
+      selected.order.id,
+      selected.payment.id,
+      pin.substring(0, 2) + '****', // Partial PIN for audit
+      note
+    );
+    if (!updated) {
+      alert('Failed to verify transfer');
+    }
+    setSelected(null);
+    await loadTransfers();
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+        <div className="bg-card border border-border rounded-2xl p-6 max-w-lg mx-4 w-full max-h-[90vh] flex flex-col">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-4 flex-shrink-0">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-primary/10 rounded-full flex items-center justify-center">
+                <Landmark className="w-5 h-5 text-primary" />
+              </div>
+              <div>
+                <h2 className="text-lg font-semibold text-text-primary">Unverified Online Transfers</h2>
+                <p className="text-sm text-text-secondary">
+                  {transfers.length} transfer{transfers.length === 1 ? '' : 's'} • {formatCurrency(sumMoney(transfers.map(({ payment }) => payment.amount)))}
+                </p>
+              </div>
+            </div>
+            <Button variant="icon" size="sm" onClick={onClose}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+
+          {/* Transfers */}
+          <div className="flex-1 min-h-0 overflow-y-auto space-y-2">
+            {transfers.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-10 text-text-secondary">
+                <CheckCircle className="w-8 h-8 mb-2 text-success" />
+                <p className="text-sm">All online transfers are verified</p>
+              </div>
+            ) : (
+              transfers.map(({ order, payment }) => (
+                <div key={payment.id} className="flex items-center justify-between gap-3 p-3 bg-background rounded-lg border border-border">
+                  <div className="min-w-0">
+                    <p className="text-sm font-semibold text-text-primary">
+                      Order #{order.id} • {formatCurrency(payment.amount)}
+                    </p>
+                    <p className="text-xs text-text-secondary truncate">
+                      Ref <span className="font-mono text-text-primary">{payment.reference}</span>
+                    </p>
+                    <p className="text-xs text-text-secondary">
+                      {new Date(payment.createdAt).toLocaleString()}{payment.cashierName ? ` • ${payment.cashierName}` : ''}
+                    </p>
+                  </div>
+                  <Button variant="fill" size="sm" className="flex-shrink-0" onClick={() => setSelected({ order, payment })}>
+                    Verify
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </div>
+
+      <ManagerApprovalModal
+        isOpen={!!selected}
+        onClose={() => setSelected(null)}
+        onApprove={handleVerify}
+        operation="verify"
+        itemName={selected ? `Order #${selected.order.id} • Ref ${selected.payment.reference}` : undefined}
+        amount={selected?.payment.amount}
+      />
+    </>
+  );
+};
+
+export default OnlineTransfersModal;
@@ -1,11 +1,19 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
-import { Printer, Edit, Trash2 } from 'lucide-react';
+import { Printer, Edit, Trash2, RotateCcw, Merge, Flame } from 'lucide-react';
 import { CheckTabContent } from '@/app/(routes)/menu/_components/cart-overlay/CheckTabContent';
 import { useOrderOverlay } from '@/lib/hooks/useOrderOverlay';
-import type { Slot } from '@/types/pos';
+import { RefundModal } from '@/components/pos/RefundModal';
+import { getRefundableAmount } from '@/lib/services/refundService';
+import { MergeOrdersModal } from '@/components/pos/MergeOrdersModal';
+import { isMergeable } from '@/lib/services/mergeOrderService';
+import { fireCourse } from '@/lib/services/coursingService';
+import { COURSE_LABELS, getHeldCourses } from '@/lib/utils/coursing';
+import type { Course, Slot } from '@/types/pos';
+import type { OrderDiscountEntry } from '@/lib/utils/discounts';
+import { formatCurrency } from '@/lib/utils/format';
 
 export interface OrderOverlayHeaderProps {
   slotId: string;
@@ -51,13 +59,18 @@ export const OrderOverlay: React.FC<OrderOverlayProps> = React.memo(({
   isExpanded = false,
   syncStatus
 }) => {
+  const [showRefund, setShowRefund] = useState(false);
+  const [showMerge, setShowMerge] = useState(false);
   const {
     cartItems,
     subtotal,
     tax,
+    taxRate,
+    taxMode,
     total,
     discount,
-    cartDiscount,
+    discounts,
+    orderData,
     orderMeta,
     orderTime,
     orderDate,
@@ -81,6 +94,12 @@ export const OrderOverlay: React.FC<OrderOverlayProps> = React.memo(({
     isMinimized
   });
 
+  // ↩️ Paid orders with money left to give back
+  const canRefund = !!orderData && getRefundableAmount(orderData) > 0;
+
+  // 🔗 Join tables while the order is open (or review / undo its merges)
+  const canMerge = slot?.status === 'processing' && (isMergeable(orderData) || !!orderData?.merges?.length);
+
   // For home page: only render when slide overlay is mounted
   if (!isMinimized && slideOverlay && !slideOverlay.isMounted) return null;
 
@@ -123,6 +142,12 @@ export const OrderOverlay: React.FC<OrderOverlayProps> = React.memo(({
           <div className="px-4 pb-3">
             <div className="text-sm text-text-secondary">
               {orderDate} • {cartItems.length} items • {formatCurrency(total)} • <span className={statusInfo.colorClass}>{statusInfo.displayName}</span>
+              {orderData?.refundStatus && (
+                <>
+                  {' • '}
+                  <span className="text-destructive">{REFUND_STATUS_LABELS[orderData.refundStatus]}</span>
+                </>
+              )}
               {syncStatus && (
                 <>
                   {' • '}
@@ -170,22 +195,11 @@ export const OrderOverlay: React.FC<OrderOverlayProps> = React.memo(({
                 <div className="space-y-2 text-sm">
                   <div className="flex justify-between">
                     <span className="text-text-secondary">Items ({cartItems.length})</span>
-                    <span className="text-text-primary">{formatCurrency(subtotal)}</span>
+                    <span className="text-text-primary">{formatCurrency(subtotal + discount)}</span>
                   </div>
 
-                  {discount > 0 && (
-                    <div className="flex justify-between">
-                      <span className="text-text-secondary">Item Discounts</span>
-                      <span className="text-success-light">-{formatCurrency(discount)}</span>
-                    </div>
-                  )}
-
-                  {cartDiscount > 0 && (
-                    <div className="flex justify-between">
-                      <span className="text-text-secondary">Cart Discount</span>
-                      <span className="text-success-light">-{formatCurrency(cartDiscount)}</span>
-                    </div>
-                  )}
+                  {/* 🏷️ Line discounts + promotions (before tax) */}
+                  <DiscountRows entries={discounts.filter(entry => entry.kind === 'line' || entry.kind === 'promotion')} />
 
                   {slot?.orderCustomer?.specialInstructions && (
                     <div className="border-t border-border pt-2 mt-2">
@@ -197,20 +211,32 @@ export const OrderOverlay: React.FC<OrderOverlayProps> = React.memo(({
                   )}
 
                   <div className="flex justify-between">
-                    <span className="text-text-secondary">Tax (15%)</span>
+                    <span className="text-text-secondary">Tax ({taxRate}%{taxMode === 'inclusive' ? ' incl.' : ''})</span>
                     <span className="text-text-primary">{formatCurrency(tax)}</span>
                   </div>
 
+                  {/* 🎟️ Voucher codes / order discount (after tax) */}
+                  <DiscountRows entries={discounts.filter(entry => entry.kind === 'voucher' || entry.kind === 'manual')} />
+
                   <div className="border-t border-border pt-2 mt-2">
                     <div className="flex justify-between">
                       <span className="text-lg font-semibold text-text-primary">Total</span>
                       <span className="text-lg font-bold text-text-primary">{formatCurrency(total)}</span>
                     </div>
+                    {!!orderData?.refundedAmount && (
+                      <div className="flex justify-between mt-1">
+                        <span className="text-destructive">{REFUND_STATUS_LABELS[orderData.refundStatus || 'partial']}</span>
+                        <span className="text-destructive">-{formatCurrency(orderData.refundedAmount)}</span>
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
             </div>
 
+            {/* 🍽️ Held courses */}
+            {orderData && <FireCourseRow orderId={orderData.id} heldCourses={getHeldCourses(orderData.items)} />}
+
             {/* Action buttons */}
             <div className="flex items-center justify-between px-4 pb-4 pt-1 flex-shrink-0">
               <div className="flex items-center gap-2">
@@ -224,6 +250,17 @@ export const OrderOverlay: React.FC<OrderOverlayProps> = React.memo(({
                     <Edit className="h-4 w-4" />
                   </Button>
                 )}
+                {canRefund && (
+                  <Button
+                    variant="icon"
+                    size="sm"
+                    onClick={() => setShowRefund(true)}
+                    className="h-9 w-9 p-0 text-destructive hover:bg-destructive/10"
+                    title="Refund / Void"
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                  </Button>
+                )}
                 {canDelete && (
                   <Button
                     variant="icon"
@@ -258,6 +295,14 @@ export const OrderOverlay: React.FC<OrderOverlayProps> = React.memo(({
             </div>
           </div>
         )}
+
+        {orderData && (
+          <RefundModal
+            isOpen={showRefund}
+            onClose={() => setShowRefund(false)}
+            order={orderData}
+          />
+        )}
       </div>
     );
   }
@@ -324,22 +369,11 @@ export const OrderOverlay: React.FC<OrderOverlayProps> = React.memo(({
             <div className="space-y-2 text-sm">
               <div className="flex justify-between">
                 <span className="text-text-secondary">Items ({cartItems.length})</span>
-                <span className="text-text-primary">{formatCurrency(subtotal)}</span>
+                <span className="text-text-primary">{formatCurrency(subtotal + discount)}</span>
               </div>
 
-              {discount > 0 && (
-                <div className="flex justify-between">
-                  <span className="text-text-secondary">Item Discounts</span>
-                  <span className="text-success-light">-{formatCurrency(discount)}</span>
-                </div>
-              )}
-
-              {cartDiscount > 0 && (
-                <div className="flex justify-between">
-                  <span className="text-text-secondary">Cart Discount</span>
-                  <span className="text-success-light">-{formatCurrency(cartDiscount)}</span>
-                </div>
-              )}
+              {/* 🏷️ Line discounts + promotions (before tax) */}
+              <DiscountRows entries={discounts.filter(entry => entry.kind === 'line' || entry.kind === 'promotion')} />
 
               {slot?.orderCustomer?.specialInstructions && (
                 <div className="border-t border-border pt-2 mt-2">
@@ -351,10 +385,13 @@ export const OrderOverlay: React.FC<OrderOverlayProps> = React.memo(({
               )}
 
               <div className="flex justify-between">
-                <span className="text-text-secondary">Tax (15%)</span>
+                <span className="text-text-secondary">Tax ({taxRate}%{taxMode === 'inclusive' ? ' incl.' : ''})</span>
                 <span className="text-text-primary">{formatCurrency(tax)}</span>
               </div>
 
+              {/* 🎟️ Voucher codes / order discount (after tax) */}
+              <DiscountRows entries={discounts.filter(entry => entry.kind === 'voucher' || entry.kind === 'manual')} />
+
               <div className="border-t border-border pt-2 mt-2">
                 <div className="flex justify-between">
                   <span className="text-lg font-semibold text-text-primary">Total</span>
@@ -365,6 +402,9 @@ export const OrderOverlay: React.FC<OrderOverlayProps> = React.memo(({
           </div>
         </div>
 
+        {/* 🍽️ Held courses */}
+        {orderData && <FireCourseRow orderId={orderData.id} heldCourses={getHeldCourses(orderData.items)} />}
+
         {/* Action Buttons */}
         <div className="flex items-center justify-between px-4 pb-4 pt-1 flex-shrink-0">
           <div className="flex items-center gap-2">
@@ -378,6 +418,11 @@ export const OrderOverlay: React.FC<OrderOverlayProps> = React.memo(({
                 <Edit className="h-4 w-4" />
               </Button>
             )}
+            {canEdit && canMerge && (
+              <Button variant="icon" size="sm" onClick={() => setShowMerge(true)} className="h-9 w-9 p-0" title="Merge Tables">
+                <Merge className="h-4 w-4" />
+              </Button>
+            )}
             {canDelete && (
               <Button
                 variant="icon"
@@ -411,8 +456,73 @@ export const OrderOverlay: React.FC<OrderOverlayProps> = React.memo(({
           )}
         </div>
       </div>
+
+      {/* Keep modal clicks away from the backdrop close */}
+      {orderData && (
+        <div onClick={e => e.stopPropagation()}>
+          <MergeOrdersModal
+            isOpen={showMerge}
+            onClose={() => setShowMerge(false)}
+            order={orderData}
+            onMerged={onClose}
+          />
+        </div>
+      )}
     </div>
   );
 });
 
-OrderOverlay.displayName = 'OrderOverlay';
\ No newline at end of file
+OrderOverlay.displayName = 'OrderOverlay';
+
+const REFUND_STATUS_LABELS = {
+  partial: 'Partly Refunded',
+  refunded: 'Refunded',
+  voided: 'Voided'
+};
+
+// Discount audit rows - what each order used, with reason/code and who applied it
+const DiscountRows: React.FC<{ entries: OrderDiscountEntry[] }> = ({ entries }) => (
+  <>
+    {entries.map((entry, index) => (
+      <div key={`${entry.kind}-${index}`} className="flex justify-between gap-3">
+        <div className="min-w-0">
+          <span className="text-text-secondary">{entry.label}</span>
+          {entry.detail && <p className="text-xs text-text-secondary/80 truncate">{entry.detail}</p>}
+        </div>
+        <span className="text-success-light whitespace-nowrap">-{formatCurrency(entry.amount)}</span>
+      </div>
+    ))}
+  </>
+);
+
+// Held courses on a placed order - fire sends the course to the kitchen
+const FireCourseRow: React.FC<{ orderId: string; heldCourses: Course[] }> = ({ orderId, heldCourses }) => {
+  const [firing, setFiring] = useState<Course | null>(null);
+  if (heldCourses.length === 0) return null;
+
+  const handleFire = async (course: Course) => {
+    setFiring(course);
+    const result = await fireCourse(orderId, course);
+    setFiring(null);
+    if (!result.success) alert(result.error || 'Fire course failed');
+  };
+
+  return (
+    <div className="flex items-center gap-2 px-4 pb-2 flex-shrink-0">
+      <span className="text-sm text-text-secondary">On hold</span>
+      {heldCourses.map(course => (
+        <Button
+          key={course}
+          variant="line"
+          size="sm"
+          disabled={!!firing}
+          onClick={() => handleFire(course)}
+          className="flex items-center gap-1 text-warning"
+        >
+          <Flame className="h-4 w-4" />
+          {firing === course ? 'Firing...' : `Fire ${COURSE_LABELS[course]}`}
+        </Button>
+      ))}
+    </div>
+  );
+};
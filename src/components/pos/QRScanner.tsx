@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { X, Camera, QrCode } from 'lucide-react';
 import { QRCodeData } from '@/types/pos';
+import { isGiftCardCode, normalizeGiftCardCode } from '@/lib/store/gift-cards';
 
 interface QRScannerProps {
   isOpen: boolean;
@@ -66,8 +67,10 @@ const QRScanner: React.FC<QRScannerProps> = ({ isOpen, onClose, onScan }) => {
 
   const handleScanSuccess = (decodedText: string) => {
     try {
-      // Parse the QR code data
-      const qrData: QRCodeData = JSON.parse(decodedText);
+      // Parse the QR code data (gift cards carry the bare code)
+      const qrData: QRCodeData = isGiftCardCode(decodedText)
+        ? { type: 'gift_card', data: { code: normalizeGiftCardCode(decodedText) }, timestamp: new Date() }
+        : JSON.parse(decodedText);
       
       // Validate the data structure
       if (!qrData.type || !qrData.data) {
@@ -152,7 +155,7 @@ const QRScanner: React.FC<QRScannerProps> = ({ isOpen, onClose, onScan }) => {
                 Position the QR code within the frame to scan
               </p>
               <p className="text-xs text-muted-foreground mt-1">
-                Supports loyalty cards and order history
+                Supports loyalty cards, gift cards and order history
               </p>
             </div>
           </div>
@@ -0,0 +1,309 @@
+/**
+ * Refund Modal Component
+ *
+ * PURPOSE: Refund or void a paid order from the orders page:
+ * - Full refund (optionally a void - vouchers released, slot freed)
+ * - Refund selected lines/quantities
+ * - Refund a fixed amount
+ * Money goes back to the original tender(s), as cash or as store credit.
+ *
+ * LINKS WITH:
+ * - Refund Service: Amount calculation, tenders, sync
+ * - ManagerApprovalModal: Manager PIN + reason before anything is recorded
+ * - Receipt Service: Refund receipt printed after approval (shows the store credit code)
+ *
+ * COMPLIANCE: Every refund keeps the reason, masked manager PIN, cashier and till session
+ */
+
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Minus, Plus, RotateCcw, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ManagerApprovalModal } from '@/components/pos/ManagerApprovalModal';
+import type { OverlayOrder } from '@/lib/store/order-overlay';
+import type { RefundDestination } from '@/types/pos';
+import {
+  calculateLineRefund,
+  getRefundableAmount,
+  getRefundableLines,
+  processRefund,
+  type RefundMode
+} from '@/lib/services/refundService';
+import { resolvePaymentMethod } from '@/lib/utils/payments';
+import { compareMoney, roundMoney, sumMoney } from '@/lib/utils/money';
+import { formatCurrency } from '@/lib/utils/format';
+
+interface RefundModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  order: OverlayOrder;
+  onRefunded?: (order: OverlayOrder) => void;
+}
+
+const MODE_LABELS: Record<RefundMode, string> = {
+  full: 'Full',
+  lines: 'By Item',
+  amount: 'By Amount'
+};
+
+export const RefundModal: React.FC<RefundModalProps> = ({
+  isOpen,
+  onClose,
+  order,
+  onRefunded
+}) => {
+  const [mode, setMode] = useState<RefundMode>('full');
+  const [quantities, setQuantities] = useState<Record<number, number>>({});
+  const [amountInput, setAmountInput] = useState('');
+  const [destination, setDestination] = useState<RefundDestination>('original');
+  const [storeCreditCode, setStoreCreditCode] = useState(''); // Blank = new store credit card
+  const [isVoid, setIsVoid] = useState(false);
+  const [showApproval, setShowApproval] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const refundable = getRefundableAmount(order);
+  const refundableLines = useMemo(() => getRefundableLines(order), [order]);
+  const originalMethod = resolvePaymentMethod(order.payments) || order.paymentMethod || 'cash';
+
+  // 💰 What will be given back for the current selection
+  const refundAmount = useMemo(() => {
+    if (mode === 'full') return refundable;
+    if (mode === 'lines') {
+      const selections = Object.entries(quantities).map(([itemIndex, quantity]) => ({ itemIndex: Number(itemIndex), quantity }));
+      return sumMoney(calculateLineRefund(order, selections).map(line => line.amount));
+    }
+    return roundMoney(parseFloat(amountInput) || 0);
+  }, [mode, refundable, quantities, amountInput, order]);
+
+  const isValid = refundAmount > 0 && compareMoney(refundAmount, refundable) <= 0;
+
+  if (!isOpen) return null;
+
+  const handleQuantityChange = (itemIndex: number, delta: number, max: number) => {
+    setQuantities(prev => ({
+      ...prev,
+      [itemIndex]: Math.min(max, Math.max(0, (prev[itemIndex] || 0) + delta))
+    }));
+  };
+
+  const handleAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    // Only allow numbers and a single decimal point
+    if (value !== '' && !/^\d*\.?\d*$/.test(value)) return;
+    setAmountInput(value);
+  };
+
+  const handleClose = () => {
+    setMode('full');
+    setQuantities({});
+    setAmountInput('');
+    setDestination('original');
+    setStoreCreditCode('');
+    setIsVoid(false);
+    onClose();
+  };
+
+  const handleApprove = async (pin: string, reason: string) => {
+    setIsProcessing(true);
+    try {
+      const result = await processRefund({
+        orderId: order.id,
+        mode,
+        lines: Object.entries(quantities).map(([itemIndex, quantity]) => ({ itemIndex: Number(itemIndex), quantity })),
+        amount: refundAmount,
+        destination,
+        storeCreditCode: destination === 'store_credit' && storeCreditCode.trim() ? storeCreditCode : undefined,
+        reason,
+        approvedBy: pin.substring(0, 2) + '****', // Partial PIN for audit
+        isVoid: mode === 'full' && isVoid
+      });
+
+      if (!result.refund || !result.order) {
+        alert(`Refund failed: ${result.error || 'Unknown error'}`);
+        return;
+      }
+      // ⚠️ A later card was declined - the cards already refunded are recorded (and printed)
+      if (!result.success) {
+        alert(`Refund incomplete: ${result.error}`);
+      }
+
+      // 🧾 Refund receipt
+      try {
+        const { generateRefundReceipt, getBranchInfo, printReceiptContent } = await import('@/lib/services/receiptService');
+        const content = generateRefundReceipt(result.order, result.refund, getBranchInfo());
+        printReceiptContent(content, `${order.id}-refund`);
+      } catch (printError) {
+        console.error('❌ [REFUND MODAL] Failed to print refund receipt:', printError);
+      }
+
+      onRefunded?.(result.order);
+      handleClose();
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const tabClass = (selected: boolean) =>
+    `flex-1 h-9 text-sm font-semibold rounded-lg border transition-colors ${
+      selected ? 'bg-primary text-primary-foreground border-primary' : 'bg-background border-border hover:bg-muted'
+    }`;
+
+  return (
+    <>
+      <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+        <div className="bg-card border border-border rounded-2xl p-6 max-w-md mx-4 w-full max-h-[90vh] flex flex-col">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-4 flex-shrink-0">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-destructive/10 rounded-full flex items-center justify-center">
+                <RotateCcw className="w-5 h-5 text-destructive" />
+              </div>
+              <div>
+                <h2 className="text-lg font-semibold text-text-primary">Refund Order #{order.id}</h2>
+                <p className="text-sm text-text-secondary">
+                  Refundable {formatCurrency(refundable)} of {formatCurrency(order.total)}
+                </p>
+              </div>
+            </div>
+            <Button variant="icon" size="sm" onClick={handleClose}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+
+          {/* Mode */}
+          <div className="flex gap-2 mb-4 flex-shrink-0">
+            {(Object.keys(MODE_LABELS) as RefundMode[]).map(option => (
+              <button key={option} onClick={() => setMode(option)} className={tabClass(mode === option)}>
+                {MODE_LABELS[option]}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex-1 min-h-0 overflow-y-auto mb-4">
+            {mode === 'full' && (
+              <label className="flex items-center gap-3 p-3 bg-background rounded-lg border border-border">
+                <input
+                  type="checkbox"
+                  checked={isVoid}
+                  onChange={(e) => setIsVoid(e.target.checked)}
+                  className="w-4 h-4"
+                />
+                <div>
+                  <span className="text-sm font-medium text-text-primary">Void order</span>
+                  <p className="text-xs text-text-secondary">Order was not served - vouchers are released</p>
+                </div>
+              </label>
+            )}
+
+            {mode === 'lines' && (
+              <div className="space-y-2">
+                {refundableLines.map(line => (
+                  <div key={line.itemIndex} className="flex items-center justify-between gap-3 p-2 bg-background rounded-lg border border-border">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-text-primary truncate">{line.name}</p>
+                      <p className="text-xs text-text-secondary">
+                        {order.items[line.itemIndex]?.giftCard
+                          ? 'Gift card - full refund or void only'
+                          : <>{line.quantity} of {line.orderedQuantity} refundable • {formatCurrency(line.amount)}</>}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <Button
+                        variant="icon"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        disabled={!quantities[line.itemIndex]}
+                        onClick={() => handleQuantityChange(line.itemIndex, -1, line.quantity)}
+                      >
+                        <Minus className="w-3 h-3" />
+                      </Button>
+                      <span className="w-6 text-center text-sm font-semibold tabular-nums">{quantities[line.itemIndex] || 0}</span>
+                      <Button
+                        variant="icon"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        disabled={(quantities[line.itemIndex] || 0) >= line.quantity || !!order.items[line.itemIndex]?.giftCard}
+                        onClick={() => handleQuantityChange(line.itemIndex, 1, line.quantity)}
+                      >
+                        <Plus className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {mode === 'amount' && (
+              <input
+                type="text"
+                inputMode="decimal"
+                value={amountInput}
+                onChange={handleAmountChange}
+                placeholder={`Up to ${formatCurrency(refundable)}`}
+                className="w-full p-3 bg-background border border-border rounded-lg text-text-primary"
+              />
+            )}
+          </div>
+
+          {/* Destination */}
+          <div className="mb-4 flex-shrink-0">
+            <label className="block text-sm font-medium text-text-primary mb-2">Refund To</label>
+            <div className="flex gap-2">
+              <button onClick={() => setDestination('original')} className={tabClass(destination === 'original')}>
+                Original (<span className="capitalize">{originalMethod.replace('_', ' ')}</span>)
+              </button>
+              <button onClick={() => setDestination('cash')} className={tabClass(destination === 'cash')}>
+                Cash
+              </button>
+              <button onClick={() => setDestination('store_credit')} className={tabClass(destination === 'store_credit')}>
+                Store Credit
+              </button>
+            </div>
+            {destination === 'store_credit' && (
+              <input
+                type="text"
+                value={storeCreditCode}
+                onChange={(e) => setStoreCreditCode(e.target.value.toUpperCase())}
+                placeholder="Existing card code (blank = new card)"
+                className="w-full mt-2 p-3 bg-background border border-border rounded-lg text-text-primary font-mono uppercase"
+              />
+            )}
+          </div>
+
+          {!isValid && refundAmount > 0 && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex-shrink-0">
+              <p className="text-sm text-red-600">Refund exceeds the refundable amount</p>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex gap-3 flex-shrink-0">
+            <Button variant="line" className="flex-1" onClick={handleClose}>
+              Cancel
+            </Button>
+            <Button
+              variant="fill"
+              className="flex-1 bg-destructive hover:bg-destructive/90"
+              disabled={!isValid || isProcessing}
+              onClick={() => setShowApproval(true)}
+            >
+              {isProcessing ? 'Processing...' : `Refund ${formatCurrency(refundAmount)}`}
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <ManagerApprovalModal
+        isOpen={showApproval}
+        onClose={() => setShowApproval(false)}
+        onApprove={handleApprove}
+        operation={mode === 'full' && isVoid ? 'void' : 'refund'}
+        itemName={`Order #${order.id}`}
+        amount={refundAmount}
+      />
+    </>
+  );
+};
+
+export default RefundModal;
@@ -0,0 +1,191 @@
+/**
+ * Sales Report Modal Component
+ *
+ * PURPOSE: X report (mid-shift snapshot) and Z report (end of day) for the
+ * current business day - shown as the printed slip, printable at 58mm or
+ * 80mm. Running a Z report needs a manager and locks the business day.
+ *
+ * LINKS WITH:
+ * - Report Service: generateSalesReport / runZReport / getBusinessDayLock
+ * - Receipt Service: generateReportReceipt + printReceiptContent
+ * - Till Store: Z report history (reprint)
+ * - ManagerApprovalModal: Manager PIN + reason before a Z report
+ */
+
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { FileBarChart, Lock, Printer, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ManagerApprovalModal } from '@/components/pos/ManagerApprovalModal';
+import { generateSalesReport, getBusinessDayLock, runZReport } from '@/lib/services/reportService';
+import { generateReportReceipt, getBranchInfo, getReceiptPaperWidth, printReceiptContent } from '@/lib/services/receiptService';
+import { useTillStore } from '@/lib/store/till';
+import type { SalesReport, ZReportRecord } from '@/types/pos';
+
+interface SalesReportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const SalesReportModal: React.FC<SalesReportModalProps> = ({
+  isOpen,
+  onClose
+}) => {
+  const [report, setReport] = useState<SalesReport | null>(null);
+  const [dayLock, setDayLock] = useState<ZReportRecord | null>(null);
+  const [zReports, setZReports] = useState<ZReportRecord[]>([]);
+  const [paperWidth, setPaperWidth] = useState<58 | 80>(80);
+  const [isLoading, setIsLoading] = useState(false);
+  const [showApproval, setShowApproval] = useState(false);
+
+  const loadXReport = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [xReport, lock, history] = await Promise.all([
+        generateSalesReport('X'),
+        getBusinessDayLock(),
+        useTillStore.getState().getZReports()
+      ]);
+      setReport(xReport);
+      setDayLock(lock);
+      setZReports(history.slice().reverse());
+    } catch (error) {
+      console.error('❌ [REPORTS] Failed to load X report:', error);
+      alert('Failed to generate the X report');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setPaperWidth(getReceiptPaperWidth());
+    loadXReport();
+  }, [isOpen, loadXReport]);
+
+  // The slip as it prints
+  const slip = useMemo(
+    () => report ? generateReportReceipt(report, getBranchInfo(), paperWidth) : '',
+    [report, paperWidth]
+  );
+
+  if (!isOpen) return null;
+
+  const handlePrint = () => {
+    if (!report) return;
+    printReceiptContent(slip, report.type === 'Z' ? `Z${report.zNumber}` : `X-${report.businessDate}`, paperWidth);
+  };
+
+  const handleRunZReport = async (pin: string, reason: string) => {
+    setIsLoading(true);
+    const result = await runZReport(pin.substring(0, 2) + '****', reason); // Partial PIN for audit
+    setIsLoading(false);
+
+    if (!result.success || !result.record) {
+      alert(result.error || 'Z report failed');
+      return;
+    }
+    setReport(result.record.report);
+    setDayLock(result.record);
+    setZReports(prev => [result.record as ZReportRecord, ...prev]);
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+        <div className="bg-card border border-border rounded-2xl p-6 max-w-xl mx-4 w-full max-h-[90vh] flex flex-col">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-4 flex-shrink-0">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-primary/10 rounded-full flex items-center justify-center">
+                <FileBarChart className="w-5 h-5 text-primary" />
+              </div>
+              <div>
+                <h2 className="text-lg font-semibold text-text-primary">
+                  {report?.type === 'Z' ? `Z Report #${report.zNumber}` : 'X Report'}
+                </h2>
+                <p className="text-sm text-text-secondary">
+                  {report ? `Business day ${report.businessDate}` : 'Loading...'}
+                  {dayLock && ` • Closed by Z #${dayLock.zNumber}`}
+                </p>
+              </div>
+            </div>
+            <Button variant="icon" size="sm" onClick={onClose}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+
+          {/* Actions */}
+          <div className="flex flex-wrap items-center gap-2 mb-3 flex-shrink-0">
+            <Button variant="line" size="sm" onClick={loadXReport} disabled={isLoading}>
+              X Report
+            </Button>
+            <Button
+              variant="line"
+              size="sm"
+              onClick={() => setShowApproval(true)}
+              disabled={isLoading || !!dayLock}
+              title={dayLock ? `Business day already closed (Z #${dayLock.zNumber})` : 'Close the business day'}
+            >
+              <Lock className="w-4 h-4 mr-1" />
+              Run Z Report
+            </Button>
+            {zReports.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => {
+                  const record = zReports.find(z => z.zNumber === Number(e.target.value));
+                  if (record) setReport(record.report);
+                }}
+                className="bg-background border border-border rounded-md px-2 py-1 text-sm"
+              >
+                <option value="">Previous Z reports</option>
+                {zReports.map(z => (
+                  <option key={z.zNumber} value={z.zNumber}>Z #{z.zNumber} • {z.businessDate}</option>
+                ))}
+              </select>
+            )}
+            <div className="ml-auto flex items-center gap-1">
+              {([58, 80] as const).map(width => (
+                <button
+                  key={width}
+                  type="button"
+                  onClick={() => setPaperWidth(width)}
+                  className={`px-2 py-1 rounded-md text-xs font-medium border ${
+                    paperWidth === width ? 'bg-primary/10 text-primary border-primary' : 'bg-background text-text-secondary border-border'
+                  }`}
+                >
+                  {width}mm
+                </button>
+              ))}
+              <Button variant="fill" size="sm" onClick={handlePrint} disabled={!report}>
+                <Printer className="w-4 h-4 mr-1" />
+                Print
+              </Button>
+            </div>
+          </div>
+
+          {/* Slip preview */}
+          <div className="flex-1 min-h-0 overflow-y-auto bg-white text-black rounded-lg border border-border p-4 flex justify-center">
+            {isLoading && !report ? (
+              <p className="text-sm text-gray-500 py-10">Generating report...</p>
+            ) : (
+              <pre className="font-mono text-xs leading-snug whitespace-pre">{slip}</pre>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <ManagerApprovalModal
+        isOpen={showApproval}
+        onClose={() => setShowApproval(false)}
+        onApprove={handleRunZReport}
+        operation="z_report"
+        itemName={report ? `Business day ${report.businessDate}` : undefined}
+      />
+    </>
+  );
+};
+
+export default SalesReportModal;
@@ -0,0 +1,327 @@
+/**
+ * Split Check Modal Component
+ *
+ * PURPOSE: Split a table's order into separate checks:
+ * - By item: move lines (or some units) between checks
+ * - By seat: one check per cover, then move each guest's lines
+ * - Even shares: every line shared equally across the checks
+ * - Share one line across guests (e.g. a bottle between 3)
+ * Also lists the checks already open on the slot so the cashier can load one to pay.
+ *
+ * LINKS WITH:
+ * - Split Check Rules (lib/utils/splitCheck): Move / share / even split, paid lines locked
+ * - Split Check Service: Saves each check as its own OverlayOrder on the slot
+ * - Cart Overlay: Opens the modal (Actions > Split Bill) and loads the chosen check
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Lock, Minus, Plus, Scissors, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { OrderItem } from '@/types/pos';
+import { useOrderOverlayStore, type OverlayOrder } from '@/lib/store/order-overlay';
+import { priceChecks, splitOrder } from '@/lib/services/splitCheckService';
+import {
+  MAX_SPLIT_CHECKS,
+  MIN_SPLIT_CHECKS,
+  canDivideItem,
+  createChecks,
+  isLockedItem,
+  moveItem,
+  shareItem,
+  splitEvenly,
+  validateChecks
+} from '@/lib/utils/splitCheck';
+import { formatCurrency } from '@/lib/utils/format';
+
+type SplitMode = 'item' | 'seat' | 'even';
+
+interface SplitCheckModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  orderId: string | null;
+  slotId: string | null;
+  covers?: number;                             // Table covers - "By Seat" opens one check per cover
+  onSplit: (checks: OverlayOrder[]) => void;   // Saved checks (check 1 first)
+  onOpenCheck: (check: OverlayOrder) => void;  // Load an open check into the cart
+}
+
+const MODE_LABELS: Record<SplitMode, string> = {
+  item: 'By Item',
+  seat: 'By Seat',
+  even: 'Even Shares'
+};
+
+const formatQuantity = (item: OrderItem): string =>
+  item.splitShare ? `${item.splitShare.part}/${item.splitShare.parts} share` : `${item.quantity}x`;
+
+export const SplitCheckModal: React.FC<SplitCheckModalProps> = ({
+  isOpen,
+  onClose,
+  orderId,
+  slotId,
+  covers,
+  onSplit,
+  onOpenCheck
+}) => {
+  const [order, setOrder] = useState<OverlayOrder | null>(null);
+  const [openChecks, setOpenChecks] = useState<OverlayOrder[]>([]);
+  const [view, setView] = useState<'checks' | 'split'>('split');
+  const [mode, setMode] = useState<SplitMode>('item');
+  const [checks, setChecks] = useState<OrderItem[][]>([]);
+  const [selected, setSelected] = useState<{ check: number; index: number } | null>(null);
+  const [moveQuantity, setMoveQuantity] = useState(1);
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Load the cart's order and the checks already open on the slot
+  useEffect(() => {
+    if (!isOpen) return;
+    const current = orderId ? useOrderOverlayStore.getState().getByOrderId(orderId) : null;
+    setOrder(current);
+    setChecks(createChecks(current?.items || [], MIN_SPLIT_CHECKS));
+    setMode('item');
+    setSelected(null);
+    setError('');
+
+    if (!slotId) return;
+    useOrderOverlayStore.getState().getSlotChecks(slotId)
+      .then(slotChecks => {
+        setOpenChecks(slotChecks);
+        setView(slotChecks.length > 1 ? 'checks' : 'split');
+      })
+      .catch(loadError => console.error('❌ [SPLIT CHECK] Failed to load checks:', loadError));
+  }, [isOpen, orderId, slotId]);
+
+  if (!isOpen) return null;
+
+  const items = order?.items || [];
+  const selectedItem = selected ? checks[selected.check]?.[selected.index] : undefined;
+  // Same pricing the split is saved with (order discount shared, codes on check 1)
+  const checkTotals = order ? priceChecks(order, checks).map(check => check.pricing.total) : [];
+
+  const handleModeChange = (nextMode: SplitMode) => {
+    const count = nextMode === 'seat' ? Math.max(MIN_SPLIT_CHECKS, covers || 0) : checks.length;
+    setMode(nextMode);
+    setSelected(null);
+    setError('');
+    setChecks(nextMode === 'even' ? splitEvenly(items, count) : createChecks(items, count));
+  };
+
+  const handleCheckCount = (delta: number) => {
+    const count = Math.min(MAX_SPLIT_CHECKS, Math.max(MIN_SPLIT_CHECKS, checks.length + delta));
+    if (count === checks.length) return;
+    setSelected(null);
+    if (mode === 'even') {
+      setChecks(splitEvenly(items, count));
+      return;
+    }
+    // Removed checks hand their lines back to check 1
+    setChecks(count > checks.length
+      ? [...checks, ...Array.from({ length: count - checks.length }, () => [])]
+      : [[...checks[0], ...checks.slice(count).flat()], ...checks.slice(1, count)]);
+  };
+
+  const handleSelect = (check: number, index: number) => {
+    const item = checks[check][index];
+    if (isLockedItem(item)) return;
+    setSelected(selected?.check === check && selected.index === index ? null : { check, index });
+    setMoveQuantity(item.quantity);
+    setError('');
+  };
+
+  const handleMove = (to: number) => {
+    if (!selected) return;
+    setChecks(moveItem(checks, selected.check, selected.index, to, moveQuantity));
+    setSelected(null);
+  };
+
+  const handleShare = () => {
+    if (!selected) return;
+    setChecks(shareItem(checks, selected.check, selected.index, checks.map((_, index) => index)));
+    setSelected(null);
+  };
+
+  const handleSave = async () => {
+    if (!order) return;
+    const validation = validateChecks(checks);
+    if (validation) {
+      setError(validation);
+      return;
+    }
+
+    setIsSaving(true);
+    const result = await splitOrder(order.id, checks);
+    setIsSaving(false);
+    if (!result.success || !result.checks) {
+      setError(result.error || 'Split failed');
+      return;
+    }
+    onSplit(result.checks);
+    onClose();
+  };
+
+  const tabClass = (isSelected: boolean) =>
+    `flex-1 h-9 text-sm font-semibold rounded-lg border transition-colors ${
+      isSelected ? 'bg-primary text-primary-foreground border-primary' : 'bg-background border-border hover:bg-muted'
+    }`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="bg-card border border-border rounded-2xl p-6 max-w-5xl mx-4 w-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-primary/10 rounded-full flex items-center justify-center">
+              <Scissors className="w-5 h-5 text-primary" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-text-primary">Split Check</h2>
+              <p className="text-sm text-text-secondary">
+                {order ? `Order ${order.id}${order.checkNumber ? ` • Check ${order.checkNumber}` : ''}` : 'No order in the cart'}
+              </p>
+            </div>
+          </div>
+          <Button variant="icon" size="sm" onClick={onClose}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {view === 'checks' ? (
+          /* Checks already open on this table */
+          <div className="flex-1 overflow-y-auto space-y-2">
+            {openChecks.map(check => (
+              <div key={check.id} className="flex items-center justify-between p-3 rounded-lg border border-border">
+                <div>
+                  <p className="text-sm font-semibold text-text-primary">
+                    Check {check.checkNumber} • {check.id}
+                    {check.id === orderId && <span className="ml-2 text-xs text-primary">In cart</span>}
+                  </p>
+                  <p className="text-xs text-text-secondary">
+                    {check.items.length} item{check.items.length === 1 ? '' : 's'} • Due {formatCurrency(check.balanceDue ?? check.total)}
+                  </p>
+                </div>
+                <Button
+                  variant="line"
+                  size="sm"
+                  disabled={check.id === orderId}
+                  onClick={() => { onOpenCheck(check); onClose(); }}
+                >
+                  Open
+                </Button>
+              </div>
+            ))}
+            <Button variant="fill" className="w-full h-11 mt-2" disabled={!order} onClick={() => setView('split')}>
+              Split Check in Cart
+            </Button>
+          </div>
+        ) : (
+          <>
+            {/* Mode + number of checks */}
+            <div className="flex items-center gap-3 mb-4">
+              <div className="flex gap-2 flex-1">
+                {(Object.keys(MODE_LABELS) as SplitMode[]).map(option => (
+                  <button key={option} onClick={() => handleModeChange(option)} className={tabClass(mode === option)}>
+                    {MODE_LABELS[option]}
+                  </button>
+                ))}
+              </div>
+              <div className="flex items-center gap-2">
+                <Button variant="line" size="sm" onClick={() => handleCheckCount(-1)} disabled={checks.length <= MIN_SPLIT_CHECKS}>
+                  <Minus className="w-4 h-4" />
+                </Button>
+                <span className="w-16 text-center text-sm font-semibold text-text-primary">{checks.length} checks</span>
+                <Button variant="line" size="sm" onClick={() => handleCheckCount(1)} disabled={checks.length >= MAX_SPLIT_CHECKS}>
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+
+            {/* Selected line actions */}
+            {selectedItem && (
+              <div className="flex items-center gap-3 mb-4 p-3 rounded-lg bg-primary/5 border border-primary/20">
+                <span className="flex-1 text-sm text-text-primary truncate">
+                  {selectedItem.name} • choose a check to move {canDivideItem(selectedItem) && selectedItem.quantity > 1 ? 'units' : 'it'} to
+                </span>
+                {canDivideItem(selectedItem) && selectedItem.quantity > 1 && (
+                  <div className="flex items-center gap-2">
+                    <Button variant="line" size="sm" onClick={() => setMoveQuantity(Math.max(1, moveQuantity - 1))}>
+                      <Minus className="w-4 h-4" />
+                    </Button>
+                    <span className="w-8 text-center text-sm font-semibold">{moveQuantity}</span>
+                    <Button variant="line" size="sm" onClick={() => setMoveQuantity(Math.min(Math.floor(selectedItem.quantity), moveQuantity + 1))}>
+                      <Plus className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+                {canDivideItem(selectedItem) && (
+                  <Button variant="line" size="sm" onClick={handleShare}>
+                    Share Across All
+                  </Button>
+                )}
+              </div>
+            )}
+
+            {/* Checks */}
+            <div className="flex-1 overflow-y-auto grid grid-cols-2 lg:grid-cols-3 gap-3">
+              {checks.map((check, checkIndex) => (
+                <div key={checkIndex} className="rounded-xl border border-border p-3 flex flex-col min-h-[160px]">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-sm font-semibold text-text-primary">
+                      {mode === 'seat' ? `Seat ${checkIndex + 1}` : `Check ${checkIndex + 1}`}
+                    </span>
+                    <span className="text-sm font-semibold text-text-primary">{formatCurrency(checkTotals[checkIndex] ?? 0)}</span>
+                  </div>
+                  <div className="flex-1 space-y-1">
+                    {check.map((item, itemIndex) => {
+                      const locked = isLockedItem(item);
+                      const isSelected = selected?.check === checkIndex && selected.index === itemIndex;
+                      return (
+                        <button
+                          key={item.uniqueId || `${item.id}-${itemIndex}`}
+                          onClick={() => handleSelect(checkIndex, itemIndex)}
+                          disabled={locked}
+                          className={`w-full flex items-center justify-between gap-2 px-2 py-1.5 rounded-md text-left text-sm border transition-colors ${
+                            isSelected ? 'border-primary bg-primary/10' : 'border-transparent hover:bg-muted'
+                          } ${locked ? 'opacity-60 cursor-not-allowed' : ''}`}
+                        >
+                          <span className="flex items-center gap-1 truncate text-text-primary">
+                            {locked && <Lock className="w-3 h-3 shrink-0" />}
+                            <span className="text-text-secondary">{formatQuantity(item)}</span> {item.name}
+                          </span>
+                          <span className="text-text-secondary">{formatCurrency(item.total)}</span>
+                        </button>
+                      );
+                    })}
+                    {check.length === 0 && <p className="text-xs text-text-secondary text-center py-4">No items</p>}
+                  </div>
+                  {selected && selected.check !== checkIndex && (
+                    <Button variant="line" size="sm" className="mt-2" onClick={() => handleMove(checkIndex)}>
+                      Move Here
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {error && <p className="text-sm text-destructive mt-3">{error}</p>}
+            {items.some(isLockedItem) && (
+              <p className="text-xs text-text-secondary mt-2">🔒 Paid items stay on check 1 with the payments already taken</p>
+            )}
+
+            {/* Actions */}
+            <div className="flex gap-3 mt-4">
+              <Button variant="line" className="flex-1 h-11" onClick={openChecks.length > 1 ? () => setView('checks') : onClose}>
+                {openChecks.length > 1 ? 'Back' : 'Cancel'}
+              </Button>
+              <Button variant="fill" className="flex-1 h-11" onClick={handleSave} disabled={!order || isSaving}>
+                {isSaving ? 'Splitting...' : `Split into ${checks.length} Checks`}
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
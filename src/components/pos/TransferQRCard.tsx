@@ -0,0 +1,57 @@
+/**
+ * Transfer QR Card Component
+ *
+ * PURPOSE: Branch bank account + payment QR (amount and order reference)
+ * for an online transfer. Same card on the payment overlay and the
+ * customer display so the customer scans exactly what the cashier sees.
+ *
+ * LINKS WITH:
+ * - Payment Ledger: buildTransferQRPayload (QR content)
+ * - OnlineTransferTab: Cashier view
+ * - Customer Display Page: Customer view (large)
+ */
+
+'use client';
+
+import React from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import type { BankAccountInfo } from '@/types/pos';
+
+interface TransferQRCardProps {
+  account: BankAccountInfo;
+  amount: number;
+  reference: string;     // Order reference the customer quotes on the transfer
+  qrPayload: string;
+  formatCurrency: (amount: number) => string;
+  size?: number;
+}
+
+export const TransferQRCard: React.FC<TransferQRCardProps> = ({
+  account,
+  amount,
+  reference,
+  qrPayload,
+  formatCurrency,
+  size = 140
+}) => {
+  return (
+    <div className="flex items-center gap-4 p-3 bg-background rounded-lg border border-border">
+      <div className="bg-white p-2 rounded-lg flex-shrink-0">
+        <QRCodeSVG value={qrPayload} size={size} level="M" />
+      </div>
+      <div className="min-w-0 space-y-1 text-sm">
+        <p className="text-2xl font-bold text-text-primary tabular-nums">{formatCurrency(amount)}</p>
+        <p className="text-text-secondary">
+          Reference <span className="font-mono font-semibold text-text-primary">{reference}</span>
+        </p>
+        <div className="pt-1 border-t border-border">
+          <p className="font-semibold text-text-primary truncate">{account.accountTitle}</p>
+          <p className="text-text-secondary truncate">{account.bankName}</p>
+          <p className="font-mono text-text-primary truncate">{account.iban || account.accountNumber}</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TransferQRCard;
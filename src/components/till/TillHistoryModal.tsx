@@ -0,0 +1,362 @@
+/**
+ * Till History Modal Component
+ *
+ * PURPOSE: Browse past till sessions kept in TillDB - filter by business
+ * day, cashier and terminal, and see each session's opening and closing
+ * counts, variance, cash movements, sync status and linked orders.
+ * A manager can reprint the close report or retry a failed sync.
+ *
+ * LINKS WITH:
+ * - Till Store: getSessions / getAllCashMovements / retrySessionSync
+ * - Order Overlay Store: Orders taken on each session (tillSessionId / payment ledger)
+ * - Receipt Service: generateTillCloseReceipt + printReceiptContent
+ * - ManagerApprovalModal: Manager PIN before a reprint or sync retry
+ */
+
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { History, Printer, RefreshCw, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ManagerApprovalModal } from '@/components/pos/ManagerApprovalModal';
+import { getBusinessDate, getTillShifts, PAY_OUT_CATEGORIES, useTillStore } from '@/lib/store/till';
+import { useOrderOverlayStore, type OverlayOrder } from '@/lib/store/order-overlay';
+import { generateTillCloseReceipt, getBranchInfo, getReceiptPaperWidth, printReceiptContent } from '@/lib/services/receiptService';
+import { formatMoneyValue, getActiveCurrency, sumMoney } from '@/lib/utils/money';
+import { formatDenomination } from '@/lib/utils/cash';
+import type { CashCounts, CashMovement, TillSession } from '@/types/pos';
+
+interface TillHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type PendingAction = { type: 'reprint' | 'retry_sync'; session: TillSession };
+
+const SYNC_BADGES: Record<TillSession['syncStatus'], string> = {
+  synced: 'bg-primary/10 text-primary',
+  pending: 'bg-accent/40 text-text-secondary',
+  failed: 'bg-destructive/10 text-destructive'
+};
+
+export const TillHistoryModal: React.FC<TillHistoryModalProps> = ({
+  isOpen,
+  onClose
+}) => {
+  const [sessions, setSessions] = useState<TillSession[]>([]);
+  const [movements, setMovements] = useState<CashMovement[]>([]);
+  const [orders, setOrders] = useState<OverlayOrder[]>([]);
+  const [dateFilter, setDateFilter] = useState(getBusinessDate());
+  const [cashierFilter, setCashierFilter] = useState('');
+  const [terminalFilter, setTerminalFilter] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadHistory = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const tillStore = useTillStore.getState();
+      await useOrderOverlayStore.getState().loadAll();
+      const [allSessions, allMovements] = await Promise.all([
+        tillStore.getSessions(),
+        tillStore.getAllCashMovements()
+      ]);
+      setSessions(allSessions.sort((a, b) => new Date(b.openedAt).getTime() - new Date(a.openedAt).getTime()));
+      setMovements(allMovements);
+      setOrders(Object.values(useOrderOverlayStore.getState().overlays));
+    } catch (error) {
+      console.error('❌ [TILL HISTORY] Failed to load till history:', error);
+      alert('Failed to load till history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) loadHistory();
+  }, [isOpen, loadHistory]);
+
+  // Filter options from every session on this device
+  const cashiers = useMemo(() => {
+    const names = new Map<string, string>();
+    sessions.forEach(session => getTillShifts(session).forEach(shift => {
+      if (!names.has(shift.userId) || shift.userName) names.set(shift.userId, shift.userName || shift.userId);
+    }));
+    return Array.from(names.entries());
+  }, [sessions]);
+  const terminals = useMemo(() => Array.from(new Set(sessions.map(session => session.posId))), [sessions]);
+
+  const filteredSessions = useMemo(() => sessions.filter(session =>
+    (!dateFilter || getBusinessDate(session.openedAt) === dateFilter) &&
+    (!cashierFilter || getTillShifts(session).some(shift => shift.userId === cashierFilter)) &&
+    (!terminalFilter || session.posId === terminalFilter)
+  ), [sessions, dateFilter, cashierFilter, terminalFilter]);
+
+  if (!isOpen) return null;
+
+  const currency = getActiveCurrency();
+  const formatAmount = (amount: number) => `${amount < 0 ? '−' : ''}${currency} ${formatMoneyValue(Math.abs(amount))}`;
+  const getSessionMovements = (session: TillSession) => movements.filter(movement => movement.tillSessionId === session.id);
+  const getSessionOrders = (session: TillSession) => orders.filter(order =>
+    order.tillSessionId === session.id || order.payments?.some(payment => payment.tillSessionId === session.id)
+  );
+
+  const handleApprove = async (pin: string, reason: string) => {
+    if (!pendingAction) return;
+    const { type, session } = pendingAction;
+    setPendingAction(null);
+    console.log(`🔐 [TILL HISTORY] ${type} approved:`, { tillSessionId: session.id, approvedBy: pin.substring(0, 2) + '****', reason });
+
+    if (type === 'reprint') {
+      const paperWidth = getReceiptPaperWidth();
+      const slip = generateTillCloseReceipt(session, getSessionMovements(session), getSessionOrders(session), getBranchInfo(), paperWidth);
+      printReceiptContent(slip, `TILL-${session.id.substring(0, 8)}`, paperWidth);
+      return;
+    }
+
+    setIsLoading(true);
+    const result = await useTillStore.getState().retrySessionSync(session.id);
+    if (!result.success) {
+      alert(result.error || 'Till sync failed');
+    }
+    await loadHistory();
+  };
+
+  const renderCounts = (counts?: CashCounts) => {
+    const entries = Object.entries(counts || {}).filter(([, count]) => count > 0);
+    if (entries.length === 0) return <p className="text-xs text-text-secondary">No denomination count</p>;
+    return (
+      <div className="flex flex-wrap gap-1">
+        {entries.sort(([a], [b]) => Number(b) - Number(a)).map(([denomination, count]) => (
+          <span key={denomination} className="px-2 py-0.5 rounded-md bg-accent/30 text-xs text-text-primary">
+            {formatDenomination(Number(denomination))} × {count}
+          </span>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+        <div className="bg-card border border-border rounded-2xl p-6 max-w-2xl mx-4 w-full max-h-[90vh] flex flex-col">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-4 flex-shrink-0">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-primary/10 rounded-full flex items-center justify-center">
+                <History className="w-5 h-5 text-primary" />
+              </div>
+              <div>
+                <h2 className="text-lg font-semibold text-text-primary">Till History</h2>
+                <p className="text-sm text-text-secondary">
+                  {filteredSessions.length} session{filteredSessions.length === 1 ? '' : 's'}
+                </p>
+              </div>
+            </div>
+            <Button variant="icon" size="sm" onClick={onClose}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+
+          {/* Filters */}
+          <div className="flex flex-wrap items-center gap-2 mb-3 flex-shrink-0">
+            <input
+              type="date"
+              value={dateFilter}
+              onChange={(e) => setDateFilter(e.target.value)}
+              className="bg-background border border-border rounded-md px-2 py-1 text-sm"
+            />
+            <select
+              value={cashierFilter}
+              onChange={(e) => setCashierFilter(e.target.value)}
+              className="bg-background border border-border rounded-md px-2 py-1 text-sm"
+            >
+              <option value="">All cashiers</option>
+              {cashiers.map(([userId, name]) => (
+                <option key={userId} value={userId}>{name}</option>
+              ))}
+            </select>
+            <select
+              value={terminalFilter}
+              onChange={(e) => setTerminalFilter(e.target.value)}
+              className="bg-background border border-border rounded-md px-2 py-1 text-sm"
+            >
+              <option value="">All terminals</option>
+              {terminals.map(posId => (
+                <option key={posId} value={posId}>{posId}</option>
+              ))}
+            </select>
+            {dateFilter && (
+              <button
+                type="button"
+                onClick={() => setDateFilter('')}
+                className="text-xs font-medium text-muted-foreground hover:text-text-primary"
+              >
+                All dates
+              </button>
+            )}
+          </div>
+
+          {/* Sessions */}
+          <div className="flex-1 min-h-0 overflow-y-auto space-y-2">
+            {isLoading && sessions.length === 0 ? (
+              <p className="text-sm text-text-secondary text-center py-10">Loading till history...</p>
+            ) : filteredSessions.length === 0 ? (
+              <p className="text-sm text-text-secondary text-center py-10">No till sessions match the filters</p>
+            ) : (
+              filteredSessions.map(session => {
+                const shifts = getTillShifts(session);
+                const sessionMovements = getSessionMovements(session);
+                const sessionOrders = getSessionOrders(session);
+                const isExpanded = expandedId === session.id;
+
+                return (
+                  <div key={session.id} className="bg-background rounded-lg border border-border">
+                    {/* Summary row */}
+                    <button
+                      type="button"
+                      onClick={() => setExpandedId(isExpanded ? null : session.id)}
+                      className="w-full flex items-center justify-between gap-3 p-3 text-left"
+                    >
+                      <div className="min-w-0">
+                        <p className="text-sm font-semibold text-text-primary truncate">
+                          {new Date(session.openedAt).toLocaleString()} • {session.posId}
+                        </p>
+                        <p className="text-xs text-text-secondary truncate">
+                          {shifts.map(shift => shift.userName || shift.userId).join(' → ')} • {sessionOrders.length} order{sessionOrders.length === 1 ? '' : 's'}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        {session.closingVariance !== undefined && (
+                          <span className="text-sm font-bold text-text-primary">{formatAmount(session.closingVariance)}</span>
+                        )}
+                        <span className={`px-2 py-0.5 rounded-full text-[10px] font-semibold uppercase ${
+                          session.status === 'open' ? 'bg-primary text-primary-foreground' : SYNC_BADGES[session.syncStatus]
+                        }`}>
+                          {session.status === 'open' ? 'open' : session.syncStatus}
+                        </span>
+                      </div>
+                    </button>
+
+                    {/* Details */}
+                    {isExpanded && (
+                      <div className="border-t border-border p-3 space-y-3 text-sm">
+                        <div className="grid grid-cols-2 gap-3">
+                          <div>
+                            <p className="text-xs font-medium text-muted-foreground mb-1">Opening</p>
+                            <p className="font-bold text-text-primary">{formatAmount(session.openingAmount)}</p>
+                            {renderCounts(session.openingCashCounts)}
+                          </div>
+                          <div>
+                            <p className="text-xs font-medium text-muted-foreground mb-1">Closing{session.blindClose ? ' (blind)' : ''}</p>
+                            {session.status === 'closed' ? (
+                              <>
+                                <p className="font-bold text-text-primary">
+                                  {formatAmount(session.declaredClosingAmount ?? 0)}
+                                  <span className="font-normal text-text-secondary"> / expected {formatAmount(session.systemClosingAmount ?? 0)}</span>
+                                </p>
+                                {renderCounts(session.closingCashCounts)}
+                              </>
+                            ) : (
+                              <p className="text-text-secondary">Still open</p>
+                            )}
+                          </div>
+                        </div>
+
+                        {session.varianceApprovedBy && (
+                          <p className="text-xs text-text-secondary">
+                            Variance approved by {session.varianceApprovedBy}{session.varianceReason ? ` • ${session.varianceReason}` : ''}
+                          </p>
+                        )}
+                        {session.closingNotes && <p className="text-xs text-text-secondary">Note: {session.closingNotes}</p>}
+
+                        {/* Cashier shifts */}
+                        {shifts.length > 1 && (
+                          <div>
+                            <p className="text-xs font-medium text-muted-foreground mb-1">Cashiers</p>
+                            {shifts.map(shift => (
+                              <div key={shift.id} className="flex justify-between text-xs text-text-primary">
+                                <span>
+                                  {shift.userName || shift.userId} • {new Date(shift.startedAt).toLocaleTimeString()}
+                                  {shift.endedAt ? `–${new Date(shift.endedAt).toLocaleTimeString()}` : ''}
+                                </span>
+                                <span>{shift.variance !== undefined ? formatAmount(shift.variance) : '—'}</span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+
+                        {/* Cash movements */}
+                        {sessionMovements.length > 0 && (
+                          <div>
+                            <p className="text-xs font-medium text-muted-foreground mb-1">Cash Movements</p>
+                            {sessionMovements.map(movement => (
+                              <div key={movement.id} className="flex justify-between gap-2 text-xs text-text-primary">
+                                <span className="truncate">
+                                  {movement.type === 'pay_in' ? 'Pay In' : movement.type === 'pay_out' ? 'Pay Out' : 'Safe Drop'}
+                                  {movement.category ? ` • ${PAY_OUT_CATEGORIES[movement.category]}` : ''} • {movement.reason}
+                                </span>
+                                <span className="whitespace-nowrap">{formatAmount(movement.type === 'pay_in' ? movement.amount : -movement.amount)}</span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+
+                        {/* Linked orders */}
+                        <div>
+                          <p className="text-xs font-medium text-muted-foreground mb-1">
+                            Orders ({sessionOrders.length}) • {formatAmount(sumMoney(sessionOrders.map(order => order.total)))}
+                          </p>
+                          <div className="max-h-32 overflow-y-auto space-y-0.5">
+                            {sessionOrders.map(order => (
+                              <div key={order.id} className="flex justify-between text-xs text-text-primary">
+                                <span>#{order.id} • {order.orderType} • {order.paymentStatus}</span>
+                                <span>{formatAmount(order.total)}</span>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+
+                        {/* Manager actions */}
+                        {session.status === 'closed' && (
+                          <div className="flex justify-end gap-2 pt-1">
+                            {session.syncStatus !== 'synced' && (
+                              <Button
+                                variant="line"
+                                size="sm"
+                                onClick={() => setPendingAction({ type: 'retry_sync', session })}
+                                disabled={isLoading}
+                              >
+                                <RefreshCw className="w-4 h-4 mr-1" />
+                                Retry Sync
+                              </Button>
+                            )}
+                            <Button variant="fill" size="sm" onClick={() => setPendingAction({ type: 'reprint', session })}>
+                              <Printer className="w-4 h-4 mr-1" />
+                              Reprint Close Report
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </div>
+      </div>
+
+      <ManagerApprovalModal
+        isOpen={!!pendingAction}
+        onClose={() => setPendingAction(null)}
+        onApprove={handleApprove}
+        operation={pendingAction?.type || 'reprint'}
+        itemName={pendingAction ? `Till session ${pendingAction.session.id.substring(0, 8)}` : undefined}
+      />
+    </>
+  );
+};
+
+export default TillHistoryModal;
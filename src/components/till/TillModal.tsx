@@ -7,6 +7,12 @@
  * FEATURES:
  * - mode="open": Clock in with opening balance
  * - mode="close": Clock out with cash counting & reconciliation
+ *   (service charge and tips shown separately; blind close hides the expected
+ *   amount, and a variance over the branch threshold needs a manager)
+ * - mode="handover": Outgoing cashier counts, incoming cashier signs in with
+ *   PIN and accepts the count as their float - the drawer stays open
+ * - mode="cash": Pay-ins, pay-outs and safe drops during the shift
+ *   (each with a reason - synced with the till close)
  * - Large time display for shift awareness
  * - Smooth slide-up animation from bottom
  * - Professional validation and error handling
@@ -30,31 +36,38 @@
  * - Auth Store: Gets user data
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { X } from 'lucide-react';
 import { useAuthStore } from '@/lib/store/auth';
-import { useTillStore } from '@/lib/store/till';
-import { openTill, openTillMock, closeTill, closeTillMock } from '@/lib/api/till';
+import {
+  getBusinessDate,
+  getTillCloseConfig,
+  getTillShifts,
+  isVarianceOverThreshold,
+  PAY_OUT_CATEGORIES,
+  useTillStore,
+  type TillCloseOutTotals
+} from '@/lib/store/till';
+import { openTill, openTillMock, closeTill, closeTillMock, isMockTillSession, toCashMovementsAPI, toTillShiftsAPI } from '@/lib/api/till';
 import { formatTime } from '@/lib/utils/format';
-import type { CashCounts } from '@/types/pos';
+import { formatMoneyValue, getActiveCurrency, isSameAmount, multiplyMoney, roundMoney, subtractMoney, sumMoney } from '@/lib/utils/money';
+import { formatDenomination, getAllDenominations } from '@/lib/utils/cash';
+import type { CashCounts, CashMovementType, PayOutCategory } from '@/types/pos';
 import { Keypad } from '@/components/ui/Keypad';
+import { ManagerApprovalModal } from '@/components/pos/ManagerApprovalModal';
 
 interface TillModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSuccess: () => void;
-  mode: 'open' | 'close';
-  systemAmount?: number; // For close mode - expected amount from system
+  mode: 'open' | 'close' | 'cash' | 'handover';
+  systemAmount?: number; // For close/cash/handover mode - expected amount from system
 }
 
-const DENOMINATIONS = [
-  { value: 5000, label: 'PKR 5000' },
-  { value: 1000, label: 'PKR 1000' },
-  { value: 500, label: 'PKR 500' },
-  { value: 100, label: 'PKR 100' },
-  { value: 50, label: 'PKR 50' },
-  { value: 20, label: 'PKR 20' },
-  { value: 10, label: 'PKR 10' },
+const MOVEMENT_TYPES: Array<{ type: CashMovementType; label: string }> = [
+  { type: 'pay_in', label: 'Pay In' },
+  { type: 'pay_out', label: 'Pay Out' },
+  { type: 'safe_drop', label: 'Safe Drop' }
 ];
 
 export const TillModal: React.FC<TillModalProps> = ({
@@ -67,6 +80,10 @@ export const TillModal: React.FC<TillModalProps> = ({
   const user = useAuthStore(state => state.user);
   const tillStore = useTillStore();
   const currentSession = tillStore.currentSession;
+  const cashMovements = tillStore.cashMovements;
+
+  // 💵 Notes + coins for the branch currency (same set as the cash payment tab)
+  const denominations = useMemo(() => getAllDenominations(), []);
 
   // State - Simple balance input for open mode
   const [balance, setBalance] = useState('');
@@ -78,6 +95,23 @@ export const TillModal: React.FC<TillModalProps> = ({
   const [calculatedTotal, setCalculatedTotal] = useState(0);
   const [selectedDenomination, setSelectedDenomination] = useState<number | null>(null);
   const [keypadInput, setKeypadInput] = useState('');
+  const [closeOutTotals, setCloseOutTotals] = useState<TillCloseOutTotals | null>(null);
+  const [showVarianceApproval, setShowVarianceApproval] = useState(false);
+
+  // 🙈 Blind close: the cashier never sees the expected amount or the variance
+  const closeConfig = getTillCloseConfig();
+  const isCounting = mode === 'close' || mode === 'handover';
+  const isBlindClose = isCounting && !!closeConfig.blindClose;
+
+  // State - Handover: counted float waiting for the incoming cashier (null = still counting)
+  const [handoverFloat, setHandoverFloat] = useState<number | null>(null);
+  const [incomingEmployeeId, setIncomingEmployeeId] = useState('');
+  const [incomingPin, setIncomingPin] = useState('');
+
+  // State - Cash movement for cash mode (amount uses `balance`, note uses `note`)
+  const [movementType, setMovementType] = useState<CashMovementType>('pay_out');
+  const [movementReason, setMovementReason] = useState('');
+  const [payOutCategory, setPayOutCategory] = useState<PayOutCategory>('supplier');
 
   // UI State
   const [currentTime, setCurrentTime] = useState(new Date());
@@ -105,16 +139,26 @@ export const TillModal: React.FC<TillModalProps> = ({
     }
   }, [isOpen]);
 
-  // Calculate total from cash counts (close mode)
+  // Calculate total from cash counts (close / handover mode)
   useEffect(() => {
-    if (mode === 'close') {
-      const total = DENOMINATIONS.reduce((sum, denom) => {
-        const count = counts[denom.value.toString()] || 0;
-        return sum + denom.value * count;
-      }, 0);
+    if (mode === 'close' || mode === 'handover') {
+      const total = sumMoney(denominations.map(denom => {
+        const count = counts[denom.toString()] || 0;
+        return multiplyMoney(denom, count);
+      }));
       setCalculatedTotal(total);
     }
-  }, [counts, mode]);
+  }, [counts, mode, denominations]);
+
+  // Service charge, tips + cash rounding for this session (close / handover mode)
+  useEffect(() => {
+    if (!isOpen || (mode !== 'close' && mode !== 'handover')) return;
+    let cancelled = false;
+    useTillStore.getState().getCloseOutTotals()
+      .then(totals => { if (!cancelled) setCloseOutTotals(totals); })
+      .catch(error => console.error('❌ [TILL MODAL] Failed to load close-out totals:', error));
+    return () => { cancelled = true; };
+  }, [isOpen, mode]);
 
   // Reset form when mode changes
   useEffect(() => {
@@ -125,6 +169,13 @@ export const TillModal: React.FC<TillModalProps> = ({
     setCalculatedTotal(0);
     setSelectedDenomination(null);
     setKeypadInput('');
+    setMovementType('pay_out');
+    setMovementReason('');
+    setPayOutCategory('supplier');
+    setShowVarianceApproval(false);
+    setHandoverFloat(null);
+    setIncomingEmployeeId('');
+    setIncomingPin('');
   }, [mode]);
 
   const handleBalanceChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -194,9 +245,50 @@ export const TillModal: React.FC<TillModalProps> = ({
     }, 500); // Match transition duration
   };
 
+  // 💵 Record a pay-in / pay-out / safe drop (modal stays open for the next one)
+  const handleRecordMovement = async () => {
+    const amount = roundMoney(parseFloat(balance) || 0);
+    if (!movementReason.trim()) {
+      alert('Please enter a reason');
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      await tillStore.recordCashMovement({
+        type: movementType,
+        amount,
+        reason: movementReason,
+        category: movementType === 'pay_out' ? payOutCategory : undefined,
+        note: note || undefined,
+        userId: user?.id,
+        userName: user?.name
+      });
+      setBalance('');
+      setMovementReason('');
+      setNote('');
+      setShowNoteInput(false);
+      onSuccess();
+    } catch (error) {
+      console.error('❌ [TILL MODAL] Failed to record cash movement:', error);
+      alert(error instanceof Error ? error.message : 'Failed to record cash movement. Please try again.');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
   const handleSubmit = async () => {
+    if (mode === 'cash') {
+      await handleRecordMovement();
+      return;
+    }
+    if (mode === 'handover' && handoverFloat !== null) {
+      await handleAcceptHandover(handoverFloat);
+      return;
+    }
+
     // Determine amount based on mode
-    const amount = mode === 'open' ? parseFloat(balance) : calculatedTotal;
+    const amount = mode === 'open' ? roundMoney(parseFloat(balance)) : calculatedTotal;
 
     if (!amount || amount < 0) {
       alert(`Please enter a valid ${mode === 'open' ? 'opening' : 'closing'} balance`);
@@ -214,17 +306,81 @@ export const TillModal: React.FC<TillModalProps> = ({
       return;
     }
 
+    // 🔁 Count done - the incoming cashier signs in and accepts it as their float
+    if (mode === 'handover') {
+      setHandoverFloat(amount);
+      return;
+    }
+
+    // 🛡️ Over/short beyond the branch threshold - manager signs off with a reason first
+    if (mode === 'close' && isVarianceOverThreshold(subtractMoney(amount, systemAmount), closeConfig)) {
+      setShowVarianceApproval(true);
+      return;
+    }
+
+    await submitTill(amount);
+  };
+
+  const submitTill = async (amount: number, approval?: { approvedBy: string; reason: string }) => {
     setIsProcessing(true);
 
     try {
       if (mode === 'open') {
         await handleOpenTill(amount);
       } else {
-        await handleCloseTill(amount);
+        await handleCloseTill(amount, approval);
       }
     } catch (error) {
       console.error(`❌ [TILL MODAL] Failed to ${mode} till:`, error);
-      alert(`Failed to ${mode} till. Please try again.`);
+      alert(`Failed to ${mode} till. ${error instanceof Error && error.message ? error.message : 'Please try again.'}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleVarianceApproval = async (pin: string, reason: string) => {
+    setShowVarianceApproval(false);
+    await submitTill(calculatedTotal, {
+      approvedBy: pin.substring(0, 2) + '****', // Partial PIN for audit
+      reason
+    });
+  };
+
+  const handleAcceptHandover = async (float: number) => {
+    if (!incomingEmployeeId.trim() || incomingPin.length !== 6) {
+      alert('Incoming cashier: enter Employee ID and 6-digit PIN');
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      // Check the incoming cashier's PIN before the drawer changes hands
+      const login = await useAuthStore.getState().handoverLogin(incomingEmployeeId.trim().toUpperCase(), incomingPin);
+      if (!login.success || !login.user) {
+        setIncomingPin('');
+        alert(login.error || 'Invalid Employee ID or PIN');
+        return;
+      }
+
+      const cashCounts: CashCounts = {};
+      Object.keys(counts).forEach(key => {
+        if (counts[key] > 0) cashCounts[key] = counts[key];
+      });
+
+      await tillStore.handoverTill({
+        countedAmount: float,
+        expectedAmount: systemAmount,
+        cashCounts: Object.keys(cashCounts).length > 0 ? cashCounts : undefined,
+        notes: note || undefined,
+        incomingUserId: login.user.id,
+        incomingUserName: login.user.name
+      });
+
+      console.log('✅ [TILL MODAL] Till handed over to', login.user.name);
+      onSuccess();
+    } catch (error) {
+      console.error('❌ [TILL MODAL] Failed to hand over till:', error);
+      alert(`Failed to hand over till. ${error instanceof Error && error.message ? error.message : 'Please try again.'}`);
     } finally {
       setIsProcessing(false);
     }
@@ -236,6 +392,12 @@ export const TillModal: React.FC<TillModalProps> = ({
       throw new Error('Missing required user data (posId, branchId, or userId). Please re-login.');
     }
 
+    // 🔒 A Z report closed today - no more tills until tomorrow
+    const zReport = await tillStore.getZReportForDate(getBusinessDate());
+    if (zReport) {
+      throw new Error(`Business day ${zReport.businessDate} is closed (Z #${zReport.zNumber})`);
+    }
+
     console.log('🏦 [TILL MODAL] Opening till...', {
       posId: user.posId,
       branchId: user.branchId,
@@ -288,13 +450,14 @@ export const TillModal: React.FC<TillModalProps> = ({
       openingAmount: amount,
       openingNotes: note || undefined,
       tillSessionId: apiResponse.tillSessionId,
+      userName: user.name,
     });
 
     console.log('✅ [TILL MODAL] Till opened successfully');
     onSuccess();
   };
 
-  const handleCloseTill = async (amount: number) => {
+  const handleCloseTill = async (amount: number, approval?: { approvedBy: string; reason: string }) => {
     if (!currentSession) {
       throw new Error('No active till session to close');
     }
@@ -310,6 +473,8 @@ export const TillModal: React.FC<TillModalProps> = ({
       tillSessionId: currentSession.id,
       declaredAmount: amount,
       systemAmount,
+      blindClose: isBlindClose,
+      varianceApproved: !!approval,
     });
 
     // Build cash counts object
@@ -321,13 +486,11 @@ export const TillModal: React.FC<TillModalProps> = ({
     });
 
     // Detect mock mode
-    const isMockTillSession = currentSession.id.startsWith('till-') ||
-                              currentSession.id.startsWith('mock-') ||
-                              !/^[0-9a-fA-F]{24}$/.test(currentSession.id);
+    const isMockSession = isMockTillSession(currentSession.id);
 
-    const enableMock = process.env.NEXT_PUBLIC_ENABLE_MOCK_DATA === 'true' || isMockTillSession;
+    const enableMock = process.env.NEXT_PUBLIC_ENABLE_MOCK_DATA === 'true' || isMockSession;
 
-    if (isMockTillSession) {
+    if (isMockSession) {
       console.warn(`⚠️ [TILL MODAL] Till session was opened in MOCK mode (ID: ${currentSession.id})`);
       console.warn(`⚠️ [TILL MODAL] Forcing MOCK API for till close to match opening mode`);
     }
@@ -335,15 +498,29 @@ export const TillModal: React.FC<TillModalProps> = ({
     console.log(`🎯 [TILL MODAL] Using ${enableMock ? 'MOCK' : 'REAL'} API for till close`);
 
     // Close in IndexedDB first
-    await tillStore.closeTill({
+    const closedSession = await tillStore.closeTill({
       declaredClosingAmount: amount,
       systemClosingAmount: systemAmount,
       closingCashCounts: Object.keys(cashCounts).length > 0 ? cashCounts : undefined,
       closingNotes: note || undefined,
+      serviceChargeTotal: closeOutTotals?.serviceCharge,
+      tipTotal: closeOutTotals?.tips,
+      roundingTotal: closeOutTotals?.cashRounding,
+      refundTotal: closeOutTotals?.refunds,
+      payInTotal: closeOutTotals?.payIns,
+      payOutTotal: closeOutTotals?.payOuts,
+      safeDropTotal: closeOutTotals?.safeDrops,
+      blindClose: isBlindClose,
+      varianceApprovedBy: approval?.approvedBy,
+      varianceReason: approval?.reason,
     });
 
     console.log('✅ [TILL MODAL] Till closed in IndexedDB');
 
+    // 💵 Pay-ins / pay-outs / safe drops + cashier shifts go up with the close
+    const movements = cashMovements.length > 0 ? toCashMovementsAPI(cashMovements) : undefined;
+    const shifts = closedSession ? toTillShiftsAPI(getTillShifts(closedSession)) : undefined;
+
     // Sync to backend
     const apiResponse = enableMock
       ? await closeTillMock({
@@ -354,6 +531,19 @@ export const TillModal: React.FC<TillModalProps> = ({
           systemClosingAmount: systemAmount,
           cashCounts: Object.keys(cashCounts).length > 0 ? cashCounts : undefined,
           notes: note || undefined,
+          serviceChargeTotal: closeOutTotals?.serviceCharge,
+          tipTotal: closeOutTotals?.tips,
+          roundingTotal: closeOutTotals?.cashRounding,
+          refundTotal: closeOutTotals?.refunds,
+          payInTotal: closeOutTotals?.payIns,
+          payOutTotal: closeOutTotals?.payOuts,
+          safeDropTotal: closeOutTotals?.safeDrops,
+          cashMovements: movements,
+          blindClose: isBlindClose,
+          variance: subtractMoney(amount, systemAmount),
+          varianceApprovedBy: approval?.approvedBy,
+          varianceReason: approval?.reason,
+          shifts,
         })
       : await closeTill({
           posId: user.posId,
@@ -363,22 +553,41 @@ export const TillModal: React.FC<TillModalProps> = ({
           systemClosingAmount: systemAmount,
           cashCounts: Object.keys(cashCounts).length > 0 ? cashCounts : undefined,
           notes: note || undefined,
+          serviceChargeTotal: closeOutTotals?.serviceCharge,
+          tipTotal: closeOutTotals?.tips,
+          roundingTotal: closeOutTotals?.cashRounding,
+          refundTotal: closeOutTotals?.refunds,
+          payInTotal: closeOutTotals?.payIns,
+          payOutTotal: closeOutTotals?.payOuts,
+          safeDropTotal: closeOutTotals?.safeDrops,
+          cashMovements: movements,
+          blindClose: isBlindClose,
+          variance: subtractMoney(amount, systemAmount),
+          varianceApprovedBy: approval?.approvedBy,
+          varianceReason: approval?.reason,
+          shifts,
         });
 
     if (!apiResponse.success) {
       console.error('❌ [TILL MODAL] Failed to close till in backend:', apiResponse.error);
+      await tillStore.markSessionSyncStatus(currentSession.id, 'failed'); // Retry from till history
       throw new Error(apiResponse.message || apiResponse.error);
     }
 
     console.log('✅ [TILL MODAL] Till closed in backend');
+    await tillStore.markSessionSyncStatus(currentSession.id, 'synced');
+    await tillStore.markCashMovementsSynced(currentSession.id);
     onSuccess();
   };
 
   if (!isOpen) return null;
 
-  const difference = mode === 'close' ? calculatedTotal - systemAmount : 0;
+  const difference = isCounting ? subtractMoney(calculatedTotal, systemAmount) : 0;
   const isDifferencePositive = difference > 0;
-  const currentAmount = mode === 'open' ? parseFloat(balance) || 0 : calculatedTotal;
+  const isBalanced = isSameAmount(calculatedTotal, systemAmount);
+  const currency = getActiveCurrency();
+  const currentAmount = isCounting ? calculatedTotal : roundMoney(parseFloat(balance) || 0);
+  const isAwaitingIncoming = mode === 'handover' && handoverFloat !== null;
 
   return (
     <>
@@ -387,7 +596,7 @@ export const TillModal: React.FC<TillModalProps> = ({
         className={`fixed inset-0 bg-black/60 backdrop-blur-sm z-50 transition-opacity duration-300 ${
           isAnimating ? 'opacity-100' : 'opacity-0'
         }`}
-        onClick={isProcessing ? undefined : mode === 'close' ? handleSlideDown : undefined}
+        onClick={isProcessing ? undefined : mode !== 'open' ? handleSlideDown : undefined}
       />
 
       {/* Modal - Slide up from bottom */}
@@ -397,8 +606,8 @@ export const TillModal: React.FC<TillModalProps> = ({
         }`}
       >
         <div className="bg-background rounded-t-3xl shadow-2xl max-h-[100vh] overflow-hidden flex flex-col">
-          {/* Close Button - Only show for close mode */}
-          {mode === 'close' && (
+          {/* Close Button - Not shown for open mode (clock in first) */}
+          {mode !== 'open' && (
             <button
               onClick={handleSlideDown}
               disabled={isProcessing}
@@ -417,6 +626,10 @@ export const TillModal: React.FC<TillModalProps> = ({
               <div className="text-xl font-semibold text-text-secondary">
                 {mode === 'open'
                   ? `Welcome ${user?.name || 'User'}! Ready to start your shift?`
+                  : mode === 'cash'
+                  ? `${user?.name || 'User'}, record cash going in or out of the drawer`
+                  : mode === 'handover'
+                  ? `${user?.name || 'User'}, hand the drawer to the next cashier`
                   : `${user?.name || 'User'}, time to close your shift`}
               </div>
             </div>
@@ -429,10 +642,109 @@ export const TillModal: React.FC<TillModalProps> = ({
               <h1 className="text-3xl md:text-4xl font-normal text-text-primary mb-8 text-center">
                 {mode === 'open'
                   ? 'Please Enter Your Opening Balance'
+                  : mode === 'cash'
+                  ? 'Pay In, Pay Out & Safe Drop'
+                  : isAwaitingIncoming
+                  ? 'Incoming Cashier, Accept the Float'
+                  : mode === 'handover'
+                  ? 'Count Your Cash & Hand Over'
                   : 'Count Your Cash & Close Till'}
               </h1>
 
-              {mode === 'open' ? (
+              {mode === 'cash' ? (
+                /* CASH MODE - Pay-in / pay-out / safe drop */
+                <>
+                  {/* Movement type */}
+                  <div className="w-full max-w-md mb-6 grid grid-cols-3 gap-2">
+                    {MOVEMENT_TYPES.map(({ type, label }) => (
+                      <button
+                        key={type}
+                        type="button"
+                        onClick={() => setMovementType(type)}
+                        disabled={isProcessing}
+                        className={`py-3 rounded-full text-sm font-semibold border-2 transition-all disabled:opacity-50 ${
+                          movementType === type
+                            ? 'bg-primary text-primary-foreground border-primary'
+                            : 'bg-card text-text-secondary border-border hover:border-primary'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+
+                  {/* Amount */}
+                  <div className="w-full max-w-md mb-4">
+                    <input
+                      type="text"
+                      value={balance}
+                      onChange={handleBalanceChange}
+                      placeholder="0.00"
+                      disabled={isProcessing}
+                      className="w-full px-4 py-4 bg-card text-text-primary rounded-full border-2 border-border focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary text-center text-2xl font-mono tracking-widest disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                    />
+                    <p className="text-xs text-muted-foreground text-center mt-2">
+                      Expected in drawer: {currency} {formatMoneyValue(systemAmount)}
+                    </p>
+                  </div>
+
+                  {/* Pay-out category */}
+                  {movementType === 'pay_out' && (
+                    <div className="w-full max-w-md mb-4 flex flex-wrap justify-center gap-2">
+                      {(Object.keys(PAY_OUT_CATEGORIES) as PayOutCategory[]).map(category => (
+                        <button
+                          key={category}
+                          type="button"
+                          onClick={() => setPayOutCategory(category)}
+                          disabled={isProcessing}
+                          className={`px-4 py-1.5 rounded-full text-xs font-medium border transition-all disabled:opacity-50 ${
+                            payOutCategory === category
+                              ? 'bg-primary/10 text-primary border-primary'
+                              : 'bg-background text-text-secondary border-border hover:bg-accent/20'
+                          }`}
+                        >
+                          {PAY_OUT_CATEGORIES[category]}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+
+                  {/* Reason (required) */}
+                  <div className="w-full max-w-md mb-6">
+                    <input
+                      type="text"
+                      value={movementReason}
+                      onChange={(e) => setMovementReason(e.target.value)}
+                      placeholder={movementType === 'pay_out' ? 'Reason, e.g. Milk delivery' : movementType === 'pay_in' ? 'Reason, e.g. Float top-up' : 'Reason, e.g. Midday drop'}
+                      disabled={isProcessing}
+                      className="w-full px-4 py-3 bg-card text-text-primary rounded-full border-2 border-border focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary text-center disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                    />
+                  </div>
+
+                  {/* Movements this session */}
+                  {cashMovements.length > 0 && (
+                    <div className="w-full mb-6 space-y-1.5">
+                      <h3 className="text-sm font-semibold text-text-secondary mb-2">This Shift</h3>
+                      {cashMovements.map(movement => (
+                        <div key={movement.id} className="flex items-center justify-between gap-3 p-2 rounded-lg border border-border bg-background">
+                          <div className="min-w-0">
+                            <div className="text-sm font-semibold text-text-primary truncate">
+                              {MOVEMENT_TYPES.find(({ type }) => type === movement.type)?.label}
+                              {movement.category ? ` • ${PAY_OUT_CATEGORIES[movement.category]}` : ''} • {movement.reason}
+                            </div>
+                            <div className="text-xs text-muted-foreground truncate">
+                              {formatTime(new Date(movement.createdAt))}{movement.userName ? ` • ${movement.userName}` : ''}{movement.note ? ` • ${movement.note}` : ''}
+                            </div>
+                          </div>
+                          <div className="text-sm font-bold text-text-primary whitespace-nowrap">
+                            {movement.type === 'pay_in' ? '+' : '−'}{currency} {formatMoneyValue(movement.amount)}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </>
+              ) : mode === 'open' ? (
                 /* OPEN MODE - Simple Balance Input */
                 <>
                   <div className="w-full max-w-md mb-8">
@@ -460,44 +772,125 @@ export const TillModal: React.FC<TillModalProps> = ({
                     </p>
                   </div>
                 </>
+              ) : isAwaitingIncoming ? (
+                /* HANDOVER - Incoming cashier signs in and accepts the counted float */
+                <>
+                  <div className="w-full max-w-md mb-6 p-4 bg-accent/30 rounded-xl border border-border shadow-sm text-center">
+                    <div className="text-xs font-medium text-muted-foreground mb-1">Float counted by {user?.name || 'outgoing cashier'}</div>
+                    <div className="text-3xl font-bold text-text-primary">{currency} {formatMoneyValue(handoverFloat ?? 0)}</div>
+                    <button
+                      type="button"
+                      onClick={() => setHandoverFloat(null)}
+                      disabled={isProcessing}
+                      className="mt-2 text-xs font-medium text-muted-foreground hover:text-text-primary disabled:opacity-50"
+                    >
+                      Recount
+                    </button>
+                  </div>
+
+                  <div className="w-full max-w-md mb-8 space-y-3">
+                    <input
+                      type="text"
+                      value={incomingEmployeeId}
+                      onChange={(e) => setIncomingEmployeeId(e.target.value)}
+                      placeholder="Employee ID"
+                      disabled={isProcessing}
+                      className="w-full px-4 py-3 bg-card text-text-primary rounded-full border-2 border-border focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary text-center text-lg uppercase disabled:opacity-50"
+                    />
+                    <input
+                      type="password"
+                      inputMode="numeric"
+                      value={incomingPin}
+                      onChange={(e) => setIncomingPin(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                      placeholder="6-digit PIN"
+                      disabled={isProcessing}
+                      className="w-full px-4 py-3 bg-card text-text-primary rounded-full border-2 border-border focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary text-center text-lg font-mono tracking-widest disabled:opacity-50"
+                    />
+                    <p className="text-xs text-muted-foreground text-center">
+                      Incoming cashier: sign in to take over this drawer
+                    </p>
+                  </div>
+                </>
               ) : (
-                /* CLOSE MODE - Cash Counting Grid */
+                /* CLOSE / HANDOVER MODE - Cash Counting Grid */
                 <>
                   {/* Summary Cards - System Design Colors */}
                   <div className="w-full mb-6 grid grid-cols-2 gap-3">
-                    {/* Expected Amount */}
-                    <div className="p-4 bg-accent/30 rounded-xl border border-border shadow-sm">
-                      <div className="text-xs font-medium text-muted-foreground mb-1">Expected</div>
-                      <div className="text-xl font-bold text-text-primary">PKR {systemAmount.toFixed(0)}</div>
-                    </div>
+                    {/* Expected Amount (hidden in blind close) */}
+                    {isBlindClose ? (
+                      <div className="p-4 bg-accent/30 rounded-xl border border-border shadow-sm">
+                        <div className="text-xs font-medium text-muted-foreground mb-1">Expected</div>
+                        <div className="text-xl font-bold text-text-primary">Blind close</div>
+                        <div className="text-[10px] text-muted-foreground mt-0.5">Count every note and coin in the drawer</div>
+                      </div>
+                    ) : (
+                      <div className="p-4 bg-accent/30 rounded-xl border border-border shadow-sm">
+                        <div className="text-xs font-medium text-muted-foreground mb-1">Expected</div>
+                        <div className="text-xl font-bold text-text-primary">{currency} {formatMoneyValue(systemAmount)}</div>
+                        {closeOutTotals && closeOutTotals.cashRounding !== 0 && (
+                          <div className="text-[10px] text-muted-foreground mt-0.5">
+                            Incl. cash rounding {closeOutTotals.cashRounding > 0 ? '+' : '−'}{formatMoneyValue(Math.abs(closeOutTotals.cashRounding))}
+                          </div>
+                        )}
+                        {closeOutTotals && closeOutTotals.cashRefunds > 0 && (
+                          <div className="text-[10px] text-muted-foreground mt-0.5">
+                            After cash refunds −{formatMoneyValue(closeOutTotals.cashRefunds)}
+                          </div>
+                        )}
+                        {closeOutTotals && (closeOutTotals.payIns > 0 || closeOutTotals.payOuts > 0 || closeOutTotals.safeDrops > 0) && (
+                          <div className="text-[10px] text-muted-foreground mt-0.5">
+                            Pay in +{formatMoneyValue(closeOutTotals.payIns)} • Pay out −{formatMoneyValue(closeOutTotals.payOuts)} • Safe drop −{formatMoneyValue(closeOutTotals.safeDrops)}
+                          </div>
+                        )}
+                      </div>
+                    )}
 
                     {/* Total Counted */}
                     <div className={`p-4 rounded-xl border shadow-sm ${
-                      calculatedTotal === systemAmount
+                      isBalanced && !isBlindClose
                         ? 'bg-primary/10 border-primary'
                         : calculatedTotal > systemAmount
                         ? 'bg-accent/40 border-border'
                         : 'bg-accent/40 border-border'
                     }`}>
                       <div className={`text-xs font-medium mb-1 ${
-                        calculatedTotal === systemAmount ? 'text-primary'
+                        isBalanced && !isBlindClose ? 'text-primary'
                         : 'text-muted-foreground'
                       }`}>Counted</div>
                       <div className={`text-xl font-bold ${
-                        calculatedTotal === systemAmount ? 'text-primary'
+                        isBalanced && !isBlindClose ? 'text-primary'
                         : 'text-text-primary'
-                      }`}>PKR {calculatedTotal.toFixed(0)}</div>
+                      }`}>{currency} {formatMoneyValue(calculatedTotal)}</div>
                     </div>
                   </div>
 
+                  {/* Service Charge + Tips - totalled separately (cash tips are already in Expected) */}
+                  {closeOutTotals && (closeOutTotals.serviceCharge > 0 || closeOutTotals.tips > 0) && (
+                    <div className="w-full mb-6 grid grid-cols-2 gap-3">
+                      <div className="p-3 bg-accent/20 rounded-xl border border-border">
+                        <div className="text-xs font-medium text-muted-foreground mb-1">Service Charge</div>
+                        <div className="text-lg font-bold text-text-primary">{currency} {formatMoneyValue(closeOutTotals.serviceCharge)}</div>
+                      </div>
+                      <div className="p-3 bg-accent/20 rounded-xl border border-border">
+                        <div className="text-xs font-medium text-muted-foreground mb-1">Tips</div>
+                        <div className="text-lg font-bold text-text-primary">{currency} {formatMoneyValue(closeOutTotals.tips)}</div>
+                        {closeOutTotals.tips > 0 && (
+                          <div className="text-[10px] text-muted-foreground mt-0.5">
+                            Cash {formatMoneyValue(closeOutTotals.cashTips)} • Card {formatMoneyValue(closeOutTotals.cardTips)}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Variance Indicator */}
-                  {calculatedTotal !== systemAmount && (
+                  {!isBalanced && !isBlindClose && (
                     <div className="w-full mb-6 p-3 rounded-xl flex items-center justify-between bg-accent/30 border border-border">
                       <span className="text-sm font-semibold text-text-secondary">
                         {isDifferencePositive ? '↑ Over' : '↓ Short'}
                       </span>
                       <span className="text-lg font-bold text-text-primary">
-                        {isDifferencePositive ? '+' : '−'}PKR {Math.abs(difference).toFixed(0)}
+                        {isDifferencePositive ? '+' : '−'}{currency} {formatMoneyValue(Math.abs(difference))}
                       </span>
                     </div>
                   )}
@@ -518,15 +911,15 @@ export const TillModal: React.FC<TillModalProps> = ({
                     <div className="flex gap-4">
                       {/* Left: Compact Counter List */}
                       <div className="flex-1 space-y-1.5">
-                        {DENOMINATIONS.map(denom => {
-                          const count = Number(counts[denom.value.toString()] || 0);
-                          const total = count * denom.value;
-                          const isSelected = selectedDenomination === denom.value;
+                        {denominations.map(denom => {
+                          const count = Number(counts[denom.toString()] || 0);
+                          const total = multiplyMoney(denom, count);
+                          const isSelected = selectedDenomination === denom;
 
                           return (
                             <div
-                              key={denom.value}
-                              onClick={() => handleDenominationSelect(denom.value)}
+                              key={denom}
+                              onClick={() => handleDenominationSelect(denom)}
                               className={`flex items-center gap-2 p-2 rounded-lg border cursor-pointer transition-all ${
                                 isSelected
                                   ? 'bg-primary/10 border-primary shadow-sm'
@@ -536,10 +929,10 @@ export const TillModal: React.FC<TillModalProps> = ({
                               {/* Denomination */}
                               <div className="flex-1 min-w-0">
                                 <div className={`text-sm font-semibold ${isSelected ? 'text-primary' : 'text-text-primary'}`}>
-                                  {denom.label.replace('PKR ', '')}
+                                  {formatDenomination(denom)}
                                 </div>
                                 <div className="text-xs text-muted-foreground">
-                                  {total > 0 ? `PKR ${total.toLocaleString()}` : '—'}
+                                  {total > 0 ? `${currency} ${formatMoneyValue(total)}` : '—'}
                                 </div>
                               </div>
 
@@ -552,7 +945,7 @@ export const TillModal: React.FC<TillModalProps> = ({
                                     e.preventDefault();
                                     e.stopPropagation();
                                     if (count > 0) {
-                                      handleCountChange(denom.value, (count - 1).toString());
+                                      handleCountChange(denom, (count - 1).toString());
                                       if (isSelected) {
                                         setKeypadInput((count - 1).toString());
                                       }
@@ -575,7 +968,7 @@ export const TillModal: React.FC<TillModalProps> = ({
                                   onClick={(e) => {
                                     e.preventDefault();
                                     e.stopPropagation();
-                                    handleCountChange(denom.value, (count + 1).toString());
+                                    handleCountChange(denom, (count + 1).toString());
                                     if (isSelected) {
                                       setKeypadInput((count + 1).toString());
                                     }
@@ -598,7 +991,7 @@ export const TillModal: React.FC<TillModalProps> = ({
                             {/* Selected Denomination Display */}
                             <div className="w-full text-center p-2 bg-primary/10 border border-primary rounded-lg">
                               <div className="text-xs font-medium text-primary mb-1">
-                                {DENOMINATIONS.find(d => d.value === selectedDenomination)?.label.replace('PKR ', '')}
+                                {formatDenomination(selectedDenomination)}
                               </div>
                               <div className="text-2xl font-bold text-text-primary">
                                 {keypadInput || '0'}
@@ -633,15 +1026,25 @@ export const TillModal: React.FC<TillModalProps> = ({
               {/* Submit Button */}
               <button
                 onClick={handleSubmit}
-                disabled={!currentAmount || isProcessing || currentAmount < 0}
+                disabled={!currentAmount || isProcessing || currentAmount < 0 || (isAwaitingIncoming && (!incomingEmployeeId.trim() || incomingPin.length !== 6))}
                 className="px-12 py-4 bg-primary text-primary-foreground rounded-full font-semibold text-lg hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-lg hover:shadow-xl active:scale-95 mb-6"
               >
                 {isProcessing
                   ? mode === 'open'
                     ? 'Opening Till...'
+                    : mode === 'cash'
+                    ? 'Recording...'
+                    : mode === 'handover'
+                    ? 'Handing Over...'
                     : 'Closing Till...'
                   : mode === 'open'
                   ? 'CLOCK IN!'
+                  : mode === 'cash'
+                  ? `RECORD ${MOVEMENT_TYPES.find(({ type }) => type === movementType)?.label.toUpperCase()}`
+                  : isAwaitingIncoming
+                  ? 'ACCEPT FLOAT & START SHIFT'
+                  : mode === 'handover'
+                  ? 'HAND OVER TILL'
                   : 'CLOSE TILL & END SHIFT'}
               </button>
 
@@ -663,6 +1066,10 @@ export const TillModal: React.FC<TillModalProps> = ({
                     placeholder={
                       mode === 'open'
                         ? 'Any notes about opening balance or shift start...'
+                        : mode === 'cash'
+                        ? 'Invoice number, who took the cash...'
+                        : mode === 'handover'
+                        ? 'Anything the next cashier should know...'
                         : 'Explain any discrepancies or notes about your shift...'
                     }
                     disabled={isProcessing}
@@ -670,7 +1077,7 @@ export const TillModal: React.FC<TillModalProps> = ({
                     rows={4}
                   />
                   <p className="text-xs text-muted-foreground mt-2">
-                    Optional: Add context about your {mode === 'open' ? 'opening balance' : 'closing counts'}
+                    Optional: Add context about your {mode === 'open' ? 'opening balance' : mode === 'cash' ? 'cash movement' : mode === 'handover' ? 'handover count' : 'closing counts'}
                   </p>
                 </div>
               )}
@@ -681,11 +1088,19 @@ export const TillModal: React.FC<TillModalProps> = ({
           <div className="px-6 py-4 bg-accent/10 border-t border-border">
             <p className="text-xs text-muted-foreground text-center">
               {user?.posId ? `Terminal: ${user.posId}` : 'No terminal selected'} • {new Date().toLocaleDateString()}
-              {mode === 'close' && currentSession && ` • Session: ${currentSession.id.substring(0, 8)}...`}
+              {mode !== 'open' && currentSession && ` • Session: ${currentSession.id.substring(0, 8)}...`}
             </p>
           </div>
         </div>
       </div>
+
+      <ManagerApprovalModal
+        isOpen={showVarianceApproval}
+        onClose={() => setShowVarianceApproval(false)}
+        onApprove={handleVarianceApproval}
+        operation="till_variance"
+        itemName={`${difference > 0 ? 'Over' : 'Short'} by ${currency} ${formatMoneyValue(Math.abs(difference))}`}
+      />
     </>
   );
 };
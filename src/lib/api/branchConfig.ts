@@ -14,7 +14,7 @@
  */
 
 import { apiClient } from '@/lib/utils/apiClient';
-import type { BranchConfig, POSConfig } from '@/types/pos';
+import type { BranchConfig, CashRoundingConfig, DiscountConfig, POSConfig } from '@/types/pos';
 
 export interface BranchConfigResponse {
   status: number;
@@ -28,6 +28,7 @@ export interface BranchConfigResponse {
       mode: 'inclusive' | 'exclusive';
       rate: number;
       vatNumber?: string;
+      classes?: Array<{ id: string; name: string; rate: number }>;
     };
     posConfig?: POSConfig;
   };
@@ -60,6 +61,7 @@ export interface UpdateBranchConfigRequest {
     cash?: {
       enabled?: boolean;
       taxRateOverride?: number | null;
+      rounding?: CashRoundingConfig;
     };
     card?: {
       enabled?: boolean;
@@ -71,6 +73,9 @@ export interface UpdateBranchConfigRequest {
       taxRateOverride?: number | null;
     };
   };
+
+  // Discount approval limits
+  discountConfig?: DiscountConfig;
 }
 
 /**
@@ -108,6 +113,13 @@ export async function getBranchConfig(
       enableTableService: result.posConfig?.enableTableService,
       receiptConfig: result.posConfig?.receiptConfig,
       paymentMethods: result.posConfig?.paymentMethods,
+      discountConfig: result.posConfig?.discountConfig,
+      priceOverrideConfig: result.posConfig?.priceOverrideConfig,
+      promotions: result.posConfig?.promotions,
+      voucherBatches: result.posConfig?.voucherBatches,
+      serviceCharge: result.posConfig?.serviceCharge,
+      tips: result.posConfig?.tips,
+      tillClose: result.posConfig?.tillClose,
     };
   } catch (error) {
     console.error('❌ [BRANCH CONFIG API] Failed to fetch configuration:', error);
@@ -153,6 +165,13 @@ export async function updateBranchConfig(
       enableTableService: result.posConfig?.enableTableService,
       receiptConfig: result.posConfig?.receiptConfig,
       paymentMethods: result.posConfig?.paymentMethods,
+      discountConfig: result.posConfig?.discountConfig,
+      priceOverrideConfig: result.posConfig?.priceOverrideConfig,
+      promotions: result.posConfig?.promotions,
+      voucherBatches: result.posConfig?.voucherBatches,
+      serviceCharge: result.posConfig?.serviceCharge,
+      tips: result.posConfig?.tips,
+      tillClose: result.posConfig?.tillClose,
     };
   } catch (error) {
     console.error('❌ [BRANCH CONFIG API] Failed to update configuration:', error);
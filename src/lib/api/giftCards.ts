@@ -0,0 +1,172 @@
+/**
+ * Gift Cards API Service
+ *
+ * PURPOSE: Sync the offline gift card / store credit ledger with the backend
+ * and look up cards issued on other terminals
+ *
+ * ENDPOINTS:
+ * - GET  /t/pos/gift-cards/:code  - Card type, status and balance
+ * - POST /t/pos/gift-cards/ledger - Ledger entries (issue, top-up, redeem, refund credit, reversal)
+ *
+ * HEADERS: x-tenant-id, Authorization, Content-Type: application/json
+ *
+ * LINKS WITH:
+ * - Gift Card Store: Pending ledger entries, synced balances
+ * - Sync Service: Retries pending entries with the order sync
+ */
+
+import type { GiftCardEntryType, GiftCardType } from '@/types/pos';
+import { getAuthToken } from './auth';
+
+export interface GiftCardAPI {
+  code: string;
+  type: GiftCardType;
+  balance: number;
+  status: 'active' | 'void';
+}
+
+export interface GetGiftCardResponse {
+  success: boolean;
+  card?: GiftCardAPI;
+  error?: string;
+  message?: string;
+}
+
+export interface GiftCardLedgerEntryAPI {
+  entryId: string;        // Local entry id (idempotency)
+  code: string;
+  cardType: GiftCardType;
+  type: GiftCardEntryType;
+  amount: number;         // + loads the card, - spends it
+  orderId?: string;
+  paymentId?: string;
+  cashierId?: string;
+  tillSessionId?: string;
+  createdAt: string;      // ISO timestamp
+}
+
+export interface SyncGiftCardLedgerResponse {
+  success: boolean;
+  balances?: Record<string, number>; // Backend balance per code after the entries were applied
+  error?: string;
+  message?: string;
+}
+
+/**
+ * Look up a card on the backend (issued on another terminal)
+ *
+ * @param code - Card code as printed / scanned
+ */
+export async function getGiftCard(code: string): Promise<GetGiftCardResponse> {
+  try {
+    const tenantId = process.env.NEXT_PUBLIC_TENANT_ID || 'extraction';
+    const token = getAuthToken();
+
+    if (!token) {
+      console.error('❌ [GIFT CARDS API] Missing authentication token');
+      return {
+        success: false,
+        error: 'No authentication token',
+        message: 'Please log in first',
+      };
+    }
+
+    // 🔄 Use Next.js API route proxy to avoid CORS issues
+    const response = await fetch(`/api/pos/gift-cards/${encodeURIComponent(code)}`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-tenant-id': tenantId,
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return {
+        success: false,
+        error: data.message || data.error || 'Gift card not found',
+        message: data.message || 'Unable to look up gift card',
+      };
+    }
+
+    const card = data.result || data.card || data;
+    return {
+      success: true,
+      card: {
+        code: card.code || code,
+        type: card.type === 'store_credit' ? 'store_credit' : 'gift_card',
+        balance: Number(card.balance) || 0,
+        status: card.status === 'void' ? 'void' : 'active'
+      }
+    };
+  } catch (error) {
+    console.error('❌ [GIFT CARDS API] Network error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Network error occurred',
+      message: 'Unable to connect to server. Please check your internet connection.',
+    };
+  }
+}
+
+/**
+ * Send pending ledger entries to the backend
+ *
+ * @param entries - Entries recorded offline, oldest first
+ */
+export async function syncGiftCardLedger(entries: GiftCardLedgerEntryAPI[]): Promise<SyncGiftCardLedgerResponse> {
+  try {
+    const tenantId = process.env.NEXT_PUBLIC_TENANT_ID || 'extraction';
+    const token = getAuthToken();
+
+    if (!token) {
+      console.error('❌ [GIFT CARDS API] Missing authentication token for ledger sync');
+      return {
+        success: false,
+        error: 'No authentication token',
+        message: 'Please log in first',
+      };
+    }
+
+    console.log('🎁 [GIFT CARDS API] Syncing ledger entries...', { count: entries.length });
+
+    const response = await fetch('/api/pos/gift-cards/ledger', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-tenant-id': tenantId,
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify({ entries }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      console.error('❌ [GIFT CARDS API] Failed to sync ledger:', {
+        status: response.status,
+        error: data.message || data.error
+      });
+      return {
+        success: false,
+        error: data.message || data.error || 'Failed to sync gift card ledger',
+        message: data.message || 'Unable to sync gift card ledger',
+      };
+    }
+
+    console.log('✅ [GIFT CARDS API] Ledger synced');
+    return {
+      success: true,
+      balances: data.result?.balances || data.balances,
+    };
+  } catch (error) {
+    console.error('❌ [GIFT CARDS API] Network error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Network error occurred',
+      message: 'Unable to connect to server. Please check your internet connection.',
+    };
+  }
+}
@@ -367,6 +367,7 @@ function transformBackendMenu(result: BackendMenuResponse['result']): any[] {
         image: undefined, // No image in current API response
         code: item.code,
         priceIncludesTax: item.priceIncludesTax,
+        taxClassId: item.metadata?.taxClass ?? item.metadata?.taxClassId ?? undefined,
         displayOrder: item.displayOrder,
         labels: item.labels,
         metadata: item.metadata,
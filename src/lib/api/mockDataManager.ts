@@ -1,5 +1,7 @@
 
 // Coffee Shop Mock Data Structure with Complete Modifier System
+import type { Promotion, VoucherBatch } from '@/types/pos';
+
 export const MOCK_DATA = {
   // Order time status configuration for OrderOverlay
   orderTimeConfig: {
@@ -518,6 +520,93 @@ export const MOCK_DATA = {
       minimumOrder: 300
     }
   ],
+
+  // Automatic promotions (used when branch config has none - see lib/utils/promotions.ts)
+  promotions: [
+    {
+      id: 'promo-001',
+      name: 'Latte + Croissant Combo',
+      type: 'combo',
+      priority: 30,
+      comboItems: [
+        { itemIds: ['item-003'] }, // Latte
+        { itemIds: ['item-009'] }  // Croissant
+      ],
+      comboPrice: 300
+    },
+    {
+      id: 'promo-002',
+      name: 'Pastry Deal',
+      type: 'buy_x_get_y',
+      priority: 20,
+      categories: ['Food & Snacks'],
+      buyQuantity: 2,
+      getQuantity: 1,
+      getDiscountPercent: 100
+    },
+    {
+      id: 'promo-003',
+      name: 'Happy Hour',
+      type: 'percentage_off',
+      priority: 10,
+      categories: ['Hot Beverages', 'Cold Beverages'],
+      schedule: { startTime: '15:00', endTime: '17:00' },
+      value: 20
+    },
+    {
+      id: 'promo-004',
+      name: 'Takeaway Dessert',
+      type: 'fixed_off',
+      priority: 5,
+      categories: ['Desserts'],
+      orderTypes: ['take-away'],
+      value: 50
+    }
+  ] as Promotion[],
+
+  // Voucher batches (used when branch config has none - see lib/utils/vouchers.ts)
+  voucherBatches: [
+    {
+      id: 'batch-001',
+      name: 'Welcome Discount',
+      type: 'percentage',
+      value: 10,
+      codes: ['WELCOME10'],
+      minimumOrder: 500,
+      validUntil: '2026-12-31',
+      usesPerCode: 0,     // Public code - unlimited
+      usesPerCustomer: 1  // Once per customer
+    },
+    {
+      id: 'batch-002',
+      name: 'Food Discount',
+      type: 'percentage',
+      value: 20,
+      codes: ['FOOD20'],
+      validUntil: '2026-12-31',
+      usesPerCode: 0,
+      totalUses: 200
+    },
+    {
+      id: 'batch-003',
+      name: 'Fixed Discount',
+      type: 'fixed',
+      value: 500,
+      codes: ['SAVE500'],
+      minimumOrder: 2000,
+      validUntil: '2026-12-31',
+      usesPerCode: 0
+    },
+    {
+      id: 'batch-004',
+      name: 'Service Recovery',
+      type: 'fixed',
+      value: 300,
+      codes: ['SORRY-7K2P', 'SORRY-Q9XM', 'SORRY-D4TB', 'SORRY-H6WN'],
+      validUntil: '2026-12-31',
+      exclusive: true     // Single-use, no other discounts on the order
+    }
+  ] as VoucherBatch[],
   
   // Additional mock data for loyalty and other features
   loyaltyCards: {
@@ -3,6 +3,7 @@
  *
  * PURPOSE: Place POS orders to backend
  * Endpoint: POST /t/pos/orders
+ * Refunds:  POST /t/pos/orders/:orderId/refunds
  *
  * FEATURES:
  * - Offline-first order placement
@@ -96,9 +97,47 @@ export interface PlaceOrderAPIRequest {
     menuItemId: string;
     quantity: number;
     notes?: string;
+    taxClassId?: string; // Tax class from menu metadata
+    taxRate?: number;    // Effective line tax rate (%)
+    taxAmount?: number;  // Tax charged on this line
+    discountAmount?: number; // Line discount (deducted before tax)
+    discountReason?: string; // Reason recorded for audit
+    promotionAmount?: number; // Automatic promotions (deducted before tax)
   }>;
-  paymentMethod: 'cash' | 'card' | 'online';  // NEW: Payment method (affects tax: cash=5%, card=16%)
+  discountAmount?: number;  // Order discount (voucher codes) - deducted after tax
+  voucherCodes?: string[];  // Voucher codes redeemed on this order
+  serviceChargeAmount?: number; // Automatic service charge (included in amountPaid)
+  tipAmount?: number;           // Tip added at payment (included in amountPaid)
+  surchargeAmount?: number;     // Payment method surcharge e.g. card fee (included in amountPaid)
+  surchargeLabel?: string;
+  roundingAdjustment?: number;  // Cash rounding +/- (included in amountPaid)
+  paymentMethod: 'cash' | 'card' | 'online' | 'gift_card' | 'split';  // NEW: Payment method (affects tax: cash=5%, card=16%) - 'split' for mixed tenders
   amountPaid: number;                          // NEW: Total amount paid by customer
+  payments?: PaymentTenderAPI[];               // 💳 Every tender taken (sums to amountPaid)
+  giftCardLoads?: Array<{                      // 🎁 Gift cards sold / topped up (not menu items, untaxed)
+    code: string;
+    kind: 'issue' | 'topup';
+    amount: number;
+  }>;
+}
+
+export interface PaymentTenderAPI {
+  method: 'cash' | 'card' | 'mobile' | 'gift_card';
+  amount: number;      // Applied to the order (cash: net of change)
+  tendered?: number;   // Cash handed over
+  change?: number;
+  reference?: string;  // Card last 4 / approval code
+  approvalCode?: string;
+  maskedPan?: string;
+  cardBrand?: string;
+  terminalTransactionId?: string;
+  giftCardCode?: string; // Gift card / store credit redeemed or credited
+  verification?: 'unverified' | 'verified'; // Online transfer reference check
+  verifiedBy?: string;
+  verifiedAt?: string;
+  cashierId?: string;
+  tillSessionId?: string;
+  paidAt: string;      // ISO timestamp
 }
 
 export interface PlaceOrderAPIResponse {
@@ -253,6 +292,98 @@ export async function placeOrder(request: PlaceOrderAPIRequest): Promise<PlaceOr
   }
 }
 
+// ↩️ Refund / void against a placed order
+export interface RefundOrderAPIRequest {
+  refundId: string;        // Local refund id (idempotency)
+  type: 'full' | 'partial';
+  isVoid?: boolean;
+  amount: number;          // Positive amount given back
+  reason: string;
+  approvedBy: string;      // Masked manager PIN
+  tillSessionId?: string;  // Till the refund was paid from
+  items?: Array<{
+    itemIndex: number;
+    name: string;
+    quantity: number;
+    amount: number;
+  }>;
+  tenders: PaymentTenderAPI[]; // Negative amounts
+}
+
+export interface RefundOrderAPIResponse {
+  success: boolean;
+  refundId?: string;
+  error?: string;
+  message?: string;
+}
+
+/**
+ * Send a refund to the backend
+ *
+ * @param orderId - Backend order id (OverlayOrder.backendOrderId)
+ * @param request - Refund amount, lines, tenders and approval
+ */
+export async function refundOrder(orderId: string, request: RefundOrderAPIRequest): Promise<RefundOrderAPIResponse> {
+  try {
+    const tenantId = process.env.NEXT_PUBLIC_TENANT_ID || 'extraction';
+    const token = getAuthToken();
+
+    if (!token) {
+      console.error('❌ [ORDERS API] Missing authentication token for refund');
+      return {
+        success: false,
+        error: 'No authentication token',
+        message: 'Please log in first',
+      };
+    }
+
+    console.log('↩️ [ORDERS API] Sending refund...', {
+      orderId,
+      refundId: request.refundId,
+      amount: request.amount,
+      type: request.type
+    });
+
+    // 🔄 Use Next.js API route proxy to avoid CORS issues
+    const response = await fetch(`/api/pos/orders/${orderId}/refund`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-tenant-id': tenantId,
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(request),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      console.error('❌ [ORDERS API] Failed to refund order:', {
+        status: response.status,
+        error: data.message || data.error
+      });
+      return {
+        success: false,
+        error: data.message || data.error || 'Failed to refund order',
+        message: data.message || 'Unable to refund order',
+      };
+    }
+
+    console.log('✅ [ORDERS API] Refund synced');
+    return {
+      success: true,
+      refundId: data.result?.refundId || data.result?.id || data.refundId || data.id,
+    };
+  } catch (error) {
+    console.error('❌ [ORDERS API] Network error during refund:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Network error occurred',
+      message: 'Unable to connect to server. Please check your internet connection.',
+    };
+  }
+}
+
 /**
  * Mock order placement for development/testing
  *
@@ -1,4 +1,6 @@
 import { APIResponse } from './index';
+import type { BankAccountInfo } from '@/types/pos';
+import { getBranchPaymentMethods } from '@/lib/utils/pricing';
 
 export interface PaymentMethod {
   id: string;
@@ -43,14 +45,7 @@ export interface PaymentResponse {
   reference?: string;
 }
 
-export interface OnlineAccountInfo {
-  accountNumber: string;
-  bankName: string;
-  accountTitle: string;
-  branchCode: string;
-  iban?: string;
-  swiftCode?: string;
-}
+export type OnlineAccountInfo = BankAccountInfo;
 
 // Mock payment methods
 const mockPaymentMethods: PaymentMethod[] = [
@@ -95,8 +90,17 @@ export const paymentAPI = {
     };
   },
 
-  // Get online account information
+  // Get online account information - branch account from config, mock account otherwise
   getOnlineAccountInfo: async (): Promise<APIResponse<OnlineAccountInfo>> => {
+    const branchAccount = getBranchPaymentMethods()?.mobile?.account;
+    if (branchAccount?.accountNumber) {
+      return {
+        success: true,
+        data: branchAccount,
+        message: 'Online account information retrieved successfully'
+      };
+    }
+
     await new Promise(resolve => setTimeout(resolve, 150));
     return {
       success: true,
@@ -105,34 +109,49 @@ export const paymentAPI = {
     };
   },
 
-  // Process payment
-  processPayment: async (_paymentRequest: PaymentRequest): Promise<APIResponse<PaymentResponse>> => {
-    await new Promise(resolve => setTimeout(resolve, 2000)); // Simulate processing time
-    
-    // Simulate payment processing
-    const isSuccess = Math.random() > 0.1; // 90% success rate
-    
-    if (isSuccess) {
-      const transactionId = `TXN${Date.now()}${Math.random().toString(36).substr(2, 9)}`;
-      
+  // Process payment - card payments go through the active card terminal (deterministic simulator by default)
+  processPayment: async (paymentRequest: PaymentRequest): Promise<APIResponse<PaymentResponse>> => {
+    if (paymentRequest.method.type === 'card') {
+      const { getPaymentTerminal } = await import('@/lib/services/paymentTerminal');
+      const result = await getPaymentTerminal().sale({
+        amount: paymentRequest.amount,
+        reference: paymentRequest.orderId
+      });
+
+      if (result.status !== 'approved') {
+        return {
+          success: false,
+          data: null,
+          message: result.message,
+          error: `Card ${result.status}`
+        };
+      }
+
       return {
         success: true,
         data: {
-          transactionId,
+          transactionId: result.transactionId || paymentRequest.orderId,
           status: 'success',
-          message: 'Payment processed successfully',
-          reference: transactionId
+          message: result.message,
+          reference: result.approvalCode
         },
         message: 'Payment completed successfully'
       };
-    } else {
-      return {
-        success: false,
-        data: null,
-        message: 'Payment failed - please try again',
-        error: 'Payment processing failed'
-      };
     }
+
+    await new Promise(resolve => setTimeout(resolve, 500)); // Simulate processing time
+    const transactionId = `TXN${Date.now()}${Math.random().toString(36).substr(2, 9)}`;
+
+    return {
+      success: true,
+      data: {
+        transactionId,
+        status: 'success',
+        message: 'Payment processed successfully',
+        reference: transactionId
+      },
+      message: 'Payment completed successfully'
+    };
   },
 
   // Process split payment
@@ -222,31 +241,29 @@ export const paymentAPI = {
     };
   },
 
-  // Refund payment
-  refundPayment: async (transactionId: string, _amount: number): Promise<APIResponse<PaymentResponse>> => {
-    await new Promise(resolve => setTimeout(resolve, 1500));
-    
-    // Simulate refund processing
-    const isSuccess = Math.random() > 0.2; // 80% success rate
-    
-    if (isSuccess) {
-      return {
-        success: true,
-        data: {
-          transactionId: `REF${transactionId}`,
-          status: 'success',
-          message: 'Refund processed successfully',
-          reference: `REF${transactionId}`
-        },
-        message: 'Refund completed successfully'
-      };
-    } else {
+  // Refund payment - through the active card terminal (terminal transaction id from the sale)
+  refundPayment: async (transactionId: string, amount: number): Promise<APIResponse<PaymentResponse>> => {
+    const { getPaymentTerminal } = await import('@/lib/services/paymentTerminal');
+    const result = await getPaymentTerminal().refund({ amount, reference: transactionId, transactionId });
+
+    if (result.status !== 'approved') {
       return {
         success: false,
         data: null,
-        message: 'Refund failed - please try again',
-        error: 'Refund processing failed'
+        message: result.message,
+        error: `Refund ${result.status}`
       };
     }
+
+    return {
+      success: true,
+      data: {
+        transactionId: result.transactionId || `REF${transactionId}`,
+        status: 'success',
+        message: result.message,
+        reference: result.approvalCode
+      },
+      message: 'Refund completed successfully'
+    };
   }
 };
@@ -0,0 +1,98 @@
+/**
+ * Price Overrides API Service
+ *
+ * PURPOSE: Sync the offline price override audit log with the backend
+ *
+ * ENDPOINTS:
+ * - POST /t/pos/price-overrides/audit - Audit entries (override, restore)
+ *
+ * HEADERS: x-tenant-id, Authorization, Content-Type: application/json
+ *
+ * LINKS WITH:
+ * - Price Override Audit Store: Pending audit entries
+ * - Sync Service: Retries pending entries with the order sync
+ */
+
+import type { PriceOverrideAuditEntry } from '@/types/pos';
+import { getAuthToken } from './auth';
+
+export interface PriceOverrideAuditEntryAPI {
+  entryId: string;        // Local entry id (idempotency)
+  action: PriceOverrideAuditEntry['action'];
+  businessDate: string;
+  orderId?: string;
+  slotId?: string;
+  menuItemId: string;
+  itemName: string;
+  quantity: number;
+  originalPrice: number;
+  price: number;
+  reason: string;
+  cashierId?: string;
+  approvedBy?: string;    // Masked manager PIN
+  tillSessionId?: string;
+  createdAt: string;      // ISO timestamp
+}
+
+export interface SyncPriceOverrideAuditResponse {
+  success: boolean;
+  error?: string;
+  message?: string;
+}
+
+/**
+ * Send pending audit entries to the backend
+ *
+ * @param entries - Entries recorded offline, oldest first
+ */
+export async function syncPriceOverrideAudit(entries: PriceOverrideAuditEntryAPI[]): Promise<SyncPriceOverrideAuditResponse> {
+  try {
+    const tenantId = process.env.NEXT_PUBLIC_TENANT_ID || 'extraction';
+    const token = getAuthToken();
+
+    if (!token) {
+      console.error('❌ [PRICE OVERRIDES API] Missing authentication token for audit sync');
+      return {
+        success: false,
+        error: 'No authentication token',
+        message: 'Please log in first',
+      };
+    }
+
+    console.log('💲 [PRICE OVERRIDES API] Syncing audit entries...', { count: entries.length });
+
+    const response = await fetch('/api/pos/price-overrides/audit', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-tenant-id': tenantId,
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify({ entries }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      console.error('❌ [PRICE OVERRIDES API] Failed to sync audit log:', {
+        status: response.status,
+        error: data.message || data.error
+      });
+      return {
+        success: false,
+        error: data.message || data.error || 'Failed to sync price override audit',
+        message: data.message || 'Unable to sync price override audit',
+      };
+    }
+
+    console.log('✅ [PRICE OVERRIDES API] Audit log synced');
+    return { success: true };
+  } catch (error) {
+    console.error('❌ [PRICE OVERRIDES API] Network error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Network error occurred',
+      message: 'Unable to connect to server. Please check your internet connection.',
+    };
+  }
+}
@@ -16,7 +16,7 @@
  * - Logout: Closes till when cashier logs out
  */
 
-import type { CashCounts } from '@/types/pos';
+import type { CashCounts, CashMovement, TillSession, TillShift } from '@/types/pos';
 import { getAuthToken } from './auth';
 
 export interface OpenTillRequest {
@@ -34,6 +34,33 @@ export interface OpenTillResponse {
   message?: string;
 }
 
+// 💵 Pay-in / pay-out / safe drop as sent with the till close
+export interface CashMovementAPI {
+  id: string;
+  type: CashMovement['type'];
+  amount: number;
+  reason: string;
+  category?: CashMovement['category'];
+  note?: string;
+  userId?: string;
+  userName?: string;
+  createdAt: string; // ISO
+}
+
+// 🔁 Cashier shift on the drawer (handover) as sent with the till close
+export interface TillShiftAPI {
+  userId: string;
+  userName?: string;
+  startedAt: string; // ISO
+  endedAt?: string;  // ISO
+  startingAmount: number;
+  countedAmount?: number;
+  expectedAmount?: number;
+  cashCounts?: CashCounts;
+  variance?: number;
+  notes?: string;
+}
+
 export interface CloseTillRequest {
   branchId: string;
   posId: string;
@@ -42,6 +69,91 @@ export interface CloseTillRequest {
   systemClosingAmount: number;
   cashCounts?: CashCounts;
   notes?: string;
+  serviceChargeTotal?: number; // Service charge collected in the session
+  tipTotal?: number;           // Tips collected in the session
+  roundingTotal?: number;      // Net cash rounding in the session (already in systemClosingAmount)
+  refundTotal?: number;        // Refunds paid out in the session (cash part already in systemClosingAmount)
+  payInTotal?: number;         // Cash movements (already in systemClosingAmount)
+  payOutTotal?: number;
+  safeDropTotal?: number;
+  cashMovements?: CashMovementAPI[]; // Every pay-in / pay-out / safe drop in the session
+  blindClose?: boolean;              // Cashier counted without seeing the expected amount
+  variance?: number;                 // declared - system (+ over / − short)
+  varianceApprovedBy?: string;       // Masked manager PIN (variance over the branch threshold)
+  varianceReason?: string;
+  shifts?: TillShiftAPI[];           // Cashiers on the drawer (more than one after a handover)
+}
+
+/**
+ * Cash movements in the shape the till close endpoint expects
+ */
+export function toCashMovementsAPI(movements: CashMovement[]): CashMovementAPI[] {
+  return movements.map(movement => ({
+    id: movement.id,
+    type: movement.type,
+    amount: movement.amount,
+    reason: movement.reason,
+    category: movement.category,
+    note: movement.note,
+    userId: movement.userId,
+    userName: movement.userName,
+    createdAt: new Date(movement.createdAt).toISOString()
+  }));
+}
+
+/**
+ * Cashier shifts in the shape the till close endpoint expects
+ */
+export function toTillShiftsAPI(shifts: TillShift[]): TillShiftAPI[] {
+  return shifts.map(shift => ({
+    userId: shift.userId,
+    userName: shift.userName,
+    startedAt: new Date(shift.startedAt).toISOString(),
+    endedAt: shift.endedAt ? new Date(shift.endedAt).toISOString() : undefined,
+    startingAmount: shift.startingAmount,
+    countedAmount: shift.countedAmount,
+    expectedAmount: shift.expectedAmount,
+    cashCounts: shift.cashCounts,
+    variance: shift.variance,
+    notes: shift.notes
+  }));
+}
+
+/**
+ * Close request rebuilt from a closed session (retrying a failed sync from till history)
+ */
+export function toCloseTillRequest(session: TillSession, movements: CashMovement[]): CloseTillRequest {
+  return {
+    posId: session.posId,
+    branchId: session.branchId,
+    tillSessionId: session.id,
+    declaredClosingAmount: session.declaredClosingAmount ?? 0,
+    systemClosingAmount: session.systemClosingAmount ?? 0,
+    cashCounts: session.closingCashCounts,
+    notes: session.closingNotes,
+    serviceChargeTotal: session.serviceChargeTotal,
+    tipTotal: session.tipTotal,
+    roundingTotal: session.roundingTotal,
+    refundTotal: session.refundTotal,
+    payInTotal: session.payInTotal,
+    payOutTotal: session.payOutTotal,
+    safeDropTotal: session.safeDropTotal,
+    cashMovements: movements.length > 0 ? toCashMovementsAPI(movements) : undefined,
+    blindClose: session.blindClose,
+    variance: session.closingVariance,
+    varianceApprovedBy: session.varianceApprovedBy,
+    varianceReason: session.varianceReason,
+    shifts: session.shifts ? toTillShiftsAPI(session.shifts) : undefined
+  };
+}
+
+/**
+ * Sessions opened in mock mode (local id, not a backend ObjectId) close with the mock API
+ */
+export function isMockTillSession(tillSessionId: string): boolean {
+  return tillSessionId.startsWith('till-') ||
+         tillSessionId.startsWith('mock-') ||
+         !/^[0-9a-fA-F]{24}$/.test(tillSessionId);
 }
 
 export interface CloseTillResponse {
@@ -255,7 +367,9 @@ export async function closeTill(request: CloseTillRequest): Promise<CloseTillRes
       declaredAmount: request.declaredClosingAmount,
       systemAmount: request.systemClosingAmount,
       hasCashCounts: !!request.cashCounts,
-      hasNotes: !!request.notes
+      hasNotes: !!request.notes,
+      variance: request.variance,
+      varianceApproved: !!request.varianceApprovedBy
     });
 
     // 🔍 DEBUG: Log complete request payload
@@ -0,0 +1,93 @@
+/**
+ * Vouchers API Service
+ *
+ * PURPOSE: Sync the offline voucher redemption ledger with the backend so
+ * usage limits match across terminals (released codes count again)
+ *
+ * ENDPOINTS:
+ * - POST /t/pos/vouchers/redemptions - Redemptions (redeemed, released)
+ *
+ * HEADERS: x-tenant-id, Authorization, Content-Type: application/json
+ *
+ * LINKS WITH:
+ * - Voucher Ledger Store: Pending redemptions
+ * - Sync Service: Retries pending redemptions with the order sync
+ */
+
+import type { VoucherRedemption } from '@/types/pos';
+import { getAuthToken } from './auth';
+
+export interface VoucherRedemptionAPI {
+  redemptionId: string;   // `${orderId}:${code}` (idempotency)
+  code: string;
+  batchId: string;
+  orderId: string;
+  customerPhone?: string;
+  amount: number;
+  status: VoucherRedemption['status'];
+  redeemedAt: string;     // ISO timestamp
+  updatedAt: string;      // ISO timestamp
+}
+
+export interface SyncVoucherRedemptionsResponse {
+  success: boolean;
+  error?: string;
+  message?: string;
+}
+
+/**
+ * Send pending redemptions (new and released) to the backend
+ *
+ * @param redemptions - Redemptions changed offline
+ */
+export async function syncVoucherRedemptions(redemptions: VoucherRedemptionAPI[]): Promise<SyncVoucherRedemptionsResponse> {
+  try {
+    const tenantId = process.env.NEXT_PUBLIC_TENANT_ID || 'extraction';
+    const token = getAuthToken();
+
+    if (!token) {
+      console.error('❌ [VOUCHERS API] Missing authentication token for redemption sync');
+      return {
+        success: false,
+        error: 'No authentication token',
+        message: 'Please log in first',
+      };
+    }
+
+    console.log('🎟️ [VOUCHERS API] Syncing redemptions...', { count: redemptions.length });
+
+    const response = await fetch('/api/pos/vouchers/redemptions', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-tenant-id': tenantId,
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify({ redemptions }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      console.error('❌ [VOUCHERS API] Failed to sync redemptions:', {
+        status: response.status,
+        error: data.message || data.error
+      });
+      return {
+        success: false,
+        error: data.message || data.error || 'Failed to sync voucher redemptions',
+        message: data.message || 'Unable to sync voucher redemptions',
+      };
+    }
+
+    console.log('✅ [VOUCHERS API] Redemptions synced');
+    return { success: true };
+  } catch (error) {
+    console.error('❌ [VOUCHERS API] Network error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Network error occurred',
+      message: 'Unable to connect to server. Please check your internet connection.',
+    };
+  }
+}
@@ -30,6 +30,7 @@ import { useMenuStore } from '@/lib/store/menu';
 import { useSafeSlot } from '@/lib/store/unified-integration-wrapper';
 import { useUnifiedSlotStore } from '@/lib/store/unified-slots';
 import { useOrderOverlayStore } from '@/lib/store/order-overlay';
+import { getPricingMode } from '@/lib/utils/itemPricing';
 
 // Menu management state interface
 interface MenuState {
@@ -41,7 +42,7 @@ interface MenuState {
   isModifierOpen: boolean;
   isEditing: boolean;
   editingItemId: string;
-  savedSelections: CartItemModifiers | null;
+  savedSelections: (CartItemModifiers & { quantity?: number; price?: number }) | null;
   isCartOpen: boolean;
   isSlotSelectorOpen: boolean;
   overlayMode: 'cart' | 'confirmation';
@@ -93,7 +94,7 @@ export const useMenuManagement = () => {
   const customer = useCustomer();
   const cartOrderId = useOrderId(); // Get current cart's order ID
   // Cart store for order ID access (needed for bulletproof draft saving)
-  const { setCurrentSlot, addItem, setOrderType, updateItemModifiers, updateQuantity, loadExistingOrder, clearCart } = useCartActions();
+  const { setCurrentSlot, addItem, setOrderType, updateItemModifiers, updateQuantity, setLineEntry, loadExistingOrder, clearCart } = useCartActions();
 
 
   // Unified slot store for direct access
@@ -180,7 +181,7 @@ export const useMenuManagement = () => {
         }));
 
         // 💡 SMART LOADING: Use mixed payment status for professional POS workflow
-        loadExistingOrder(orderItems, overlay.customer as CustomerInfo, overlay.orderType, 'mixed', overlay.id);
+        loadExistingOrder(orderItems, overlay.customer as CustomerInfo, overlay.orderType, 'mixed', overlay.id, { discount: overlay.discount, vouchers: overlay.vouchers });
 
         // Silent professional reload for performance
         return true;
@@ -288,7 +289,7 @@ export const useMenuManagement = () => {
               }
             }));
             // For payment mode, items are always unpaid (completing payment)
-            loadExistingOrder(orderItems, overlay.customer as CustomerInfo, overlay.orderType, 'unpaid', overlay.id);
+            loadExistingOrder(orderItems, overlay.customer as CustomerInfo, overlay.orderType, 'unpaid', overlay.id, { discount: overlay.discount, vouchers: overlay.vouchers });
             setTimeout(() => {
               updateState({
                 currentSlotInfo: {
@@ -335,7 +336,7 @@ export const useMenuManagement = () => {
                 notes: item.modifiers?.notes || undefined
               }
             }));
-            loadExistingOrder(orderItems, overlay.customer as CustomerInfo, overlay.orderType, 'unpaid', overlay.id);
+            loadExistingOrder(orderItems, overlay.customer as CustomerInfo, overlay.orderType, 'unpaid', overlay.id, { discount: overlay.discount, vouchers: overlay.vouchers });
             fetchCurrentSlotInfo(slot);
 
             // NO AUTO-OPEN: Cashier controls cart visibility
@@ -450,7 +451,7 @@ export const useMenuManagement = () => {
           originalOrderId: overlay.id
         }));
 
-        loadExistingOrder(orderItems, overlay.customer as CustomerInfo, overlay.orderType, 'mixed', overlay.id);
+        loadExistingOrder(orderItems, overlay.customer as CustomerInfo, overlay.orderType, 'mixed', overlay.id, { discount: overlay.discount, vouchers: overlay.vouchers });
       }
     }
 
@@ -487,6 +488,22 @@ export const useMenuManagement = () => {
       // Always update modifiers first
       updateItemModifiers(modifiedItem.id, modifiedItem.modifiers || {});
 
+      const pricingMode = getPricingMode(modifiedItem);
+
+      // ⚖️ WEIGHT: Re-enter the weight on the same line (no duplicates)
+      if (pricingMode === 'weight') {
+        setLineEntry(modifiedItem.id, { quantity: modifiedItem.quantity });
+        updateState({
+          isModifierOpen: false,
+          selectedItem: null,
+          isEditing: false,
+          editingItemId: '',
+          savedSelections: null
+        });
+        console.log('✅ [EDIT ITEM] Weight line updated successfully');
+        return;
+      }
+
       // Get desired quantity
       const desiredQty = Math.max(1, modifiedItem.quantity ?? 1);
       console.log('🔄 [EDIT ITEM] Desired quantity:', desiredQty);
@@ -494,6 +511,11 @@ export const useMenuManagement = () => {
       // Keep original item as qty 1 with updated modifiers
       updateQuantity(modifiedItem.id, 1);
 
+      // ⚖️ OPEN PRICE: Apply the re-entered price (duplicates below carry it too)
+      if (pricingMode === 'open') {
+        setLineEntry(modifiedItem.id, { price: modifiedItem.price });
+      }
+
       // Add duplicates as separate line items (same as swipe right behavior)
       if (desiredQty > 1) {
         console.log(`🔄 [EDIT ITEM] Adding ${desiredQty - 1} duplicate items`);
@@ -509,7 +531,12 @@ export const useMenuManagement = () => {
             image: (modifiedItem as MenuItem).image || '',
             available: true
           };
-          addItem(baseMenuItem, 1, modifiersClone, { keepSeparate: true });
+          addItem(
+            pricingMode === 'open' ? { ...baseMenuItem, price: modifiedItem.price } : baseMenuItem,
+            1,
+            modifiersClone,
+            { keepSeparate: true }
+          );
         }
       }
 
@@ -526,9 +553,10 @@ export const useMenuManagement = () => {
     } else {
       // Add new item - always keep separate lines and deep copy modifiers
       const modifiersClone = modifiedItem.modifiers ? JSON.parse(JSON.stringify(modifiedItem.modifiers)) : { variations: [], addOns: [] };
-      addItem(modifiedItem, 1, modifiersClone, { keepSeparate: true });
+      // ⚖️ Weight lines carry the entered weight as their quantity
+      addItem(modifiedItem, modifiedItem.quantity ?? 1, modifiersClone, { keepSeparate: true });
     }
-  }, [updateItemModifiers, updateQuantity, addItem, updateState, state.selectedItem]);
+  }, [updateItemModifiers, updateQuantity, setLineEntry, addItem, updateState, state.selectedItem]);
 
   const handleCartClick = useCallback(() => {
     // Simple toggle - cashier controls cart after initial auto-open
@@ -659,14 +687,20 @@ export const useMenuManagement = () => {
       category: item.category || 'food',
       image: item.image || '',
       available: item.available || true,
-      modifiers: item.modifiers
+      modifiers: item.modifiers,
+      pricingMode: item.pricingMode,
+      minPrice: item.minPrice,
+      maxPrice: item.maxPrice,
+      weightUnit: item.weightUnit
     };
 
     // 🔥 CRITICAL FIX: Include quantity in savedSelections
-    const savedSelections = item.modifiers ? {
+    // ⚖️ Open-price lines also pass their entered price (weight lines: quantity = weight)
+    const savedSelections = {
       ...item.modifiers,
-      quantity: item.quantity // CRITICAL: Pass quantity from cart item
-    } : { quantity: item.quantity };
+      quantity: item.quantity, // CRITICAL: Pass quantity from cart item
+      ...(item.pricingMode === 'open' && { price: item.price })
+    };
 
     console.log('🔍 [EDIT ITEM] Saved selections with quantity:', savedSelections);
 
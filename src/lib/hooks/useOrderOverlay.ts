@@ -48,9 +48,12 @@ export const useOrderOverlay = ({
     cartItems,
     subtotal,
     tax,
+    taxRate,
+    taxMode,
     total,
     discount,
     cartDiscount,
+    discounts,
     orderData: overlayOrder,
     isLoading,
     error
@@ -240,9 +243,13 @@ export const useOrderOverlay = ({
     cartItems,
     subtotal,
     tax,
+    taxRate,
+    taxMode,
     total,
     discount,
     cartDiscount,
+    discounts,
+    orderData: overlayOrder,
     orderMeta,
     roleLabel,
     orderTime,
@@ -9,6 +9,9 @@ import { useState, useEffect } from 'react';
 import { useOrderOverlayStore, type OverlayOrder } from '@/lib/store/order-overlay';
 import type { CartItem } from '@/lib/store/cart-new';
 import type { Slot } from '@/types/pos';
+import { getOrderDiscounts, type OrderDiscountEntry } from '@/lib/utils/discounts';
+import { sumMoney } from '@/lib/utils/money';
+import { calculateCartPricing, getBranchTaxConfig } from '@/lib/utils/pricing';
 
 interface UseOrderOverlayDataProps {
   slotId: string;
@@ -20,9 +23,12 @@ interface OrderOverlayData {
   cartItems: CartItem[];
   subtotal: number;
   tax: number;
+  taxRate: number; // Rate the order was priced at (%)
+  taxMode: 'inclusive' | 'exclusive';
   total: number;
   discount: number;
   cartDiscount: number;
+  discounts: OrderDiscountEntry[]; // Every discount the order used (audit)
   orderData: OverlayOrder | null;
   isLoading: boolean;
   error: string | null;
@@ -150,7 +156,8 @@ export const useOrderOverlayData = ({
     // Check if saved subtotal matches items sum (within tolerance)
     const subtotalDiff = Math.abs(savedSubtotal - itemsSum);
 
-    if (itemsSum > 0 && subtotalDiff > 0.01) {
+    // Orders priced by the pricing engine record taxMode - their subtotal is net of discounts/tax
+    if (!orderData.taxMode && itemsSum > 0 && subtotalDiff > 0.01) {
       // Subtotal doesn't match items! This is legacy bad calculation
       // Fix: Use items sum as subtotal, recalculate tax
       console.warn('🔧 [TOTALS FIX] Detected legacy bad subtotal, using items sum:', {
@@ -169,23 +176,33 @@ export const useOrderOverlayData = ({
       total = savedTotal;
     }
   } else {
-    // Calculate from cart items (fallback)
-    const itemsTotal = cartItems.reduce((sum, item) => sum + item.totalPrice, 0);
-    subtotal = itemsTotal;
-    tax = itemsTotal * 0.15; // 15% tax
-    total = subtotal + tax;
+    // Calculate from cart items with the pricing engine (fallback - branch tax config)
+    const pricing = calculateCartPricing(cartItems, { discount: orderData?.discount, serviceChargeRate: orderData?.serviceChargeRate });
+    subtotal = pricing.subtotal;
+    tax = pricing.tax;
+    total = pricing.total;
   }
 
-  const discount = 0; // TODO: Extract from overlay data when implemented
-  const cartDiscount = 0; // TODO: Extract from overlay data when implemented
+  // Orders priced before taxRate was recorded show the branch rate
+  const branchTax = getBranchTaxConfig();
+  const taxRate = orderData?.taxRate ?? branchTax.rate;
+  const taxMode = orderData?.taxMode ?? branchTax.mode;
+
+  // 🏷️ Discounts recorded on the order (line discounts + promotions, order discount/codes)
+  const discounts = orderData ? getOrderDiscounts(orderData) : [];
+  const discount = sumMoney(discounts.filter(entry => entry.kind === 'line' || entry.kind === 'promotion').map(entry => entry.amount));
+  const cartDiscount = orderData?.discount || 0;
 
   return {
     cartItems,
     subtotal,
     tax,
+    taxRate,
+    taxMode,
     total,
     discount,
     cartDiscount,
+    discounts,
     orderData,
     isLoading,
     error
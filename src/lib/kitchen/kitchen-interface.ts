@@ -8,10 +8,15 @@
  * Toggle in settings allows switching between modes
  */
 
+import type { Course, WeightUnit } from '@/types/pos';
+import { COURSE_LABELS, groupByCourse } from '@/lib/utils/coursing';
+import { formatQuantity, isSoldByWeight } from '@/lib/utils/itemPricing';
+
 export interface KitchenOrderItem {
   id: string;
   name: string;
   quantity: number;
+  unit?: WeightUnit; // ⚖️ Weight lines - quantity is the weight ("0.750 kg")
   modifiers?: {
     variations?: Array<{ name: string; }>;
     addOns?: Array<{ name: string; }>;
@@ -19,6 +24,8 @@ export interface KitchenOrderItem {
     notes?: string;
   };
   isNew?: boolean; // For additional items on existing orders
+  seat?: number;   // 🍽️ Seat at the table (dine-in)
+  course?: Course; // 🍽️ Tickets are grouped by course
 }
 
 export interface KitchenOrder {
@@ -32,6 +39,9 @@ export interface KitchenOrder {
   specialInstructions?: string;
   isAdditionalItems?: boolean; // True when printing only new items
   priority?: 'normal' | 'urgent';
+  note?: string; // Message for the kitchen about an order already sent (e.g. tables merged)
+  firedCourse?: Course;    // Ticket fires a course that was held
+  heldCourses?: Course[];  // Courses on hold - the kitchen waits for "fire course"
 }
 
 // Kitchen system modes
@@ -75,7 +85,11 @@ export class ReceiptKitchenSystem implements KitchenSystemInterface {
   }
 
   private generateKitchenReceipt(order: KitchenOrder): string {
-    const header = order.isAdditionalItems ? 'ADDITIONAL ITEMS' : 'NEW ORDER';
+    const header = order.note && order.items.length === 0
+      ? 'ORDER NOTE'
+      : order.firedCourse
+        ? `FIRE ${COURSE_LABELS[order.firedCourse].toUpperCase()}`
+        : order.isAdditionalItems ? 'ADDITIONAL ITEMS' : 'NEW ORDER';
 
     let receipt = `
 =====================================
@@ -90,36 +104,53 @@ ${order.priority === 'urgent' ? '🔥 URGENT ORDER' : ''}
 -------------------------------------
 `;
 
-    order.items.forEach((item, index) => {
-      receipt += `${index + 1}. ${item.name} x${item.quantity}${item.isNew ? ' (NEW)' : ''}\n`;
-
-      if (item.modifiers?.variations?.length) {
-        item.modifiers.variations.forEach(variation => {
-          receipt += `   - ${variation.name}\n`;
-        });
+    // 🍽️ Grouped by course (lines without a course first)
+    let index = 0;
+    groupByCourse(order.items).forEach(group => {
+      if (group.course) {
+        receipt += `--- ${COURSE_LABELS[group.course].toUpperCase()} ---\n`;
       }
 
-      if (item.modifiers?.addOns?.length) {
-        item.modifiers.addOns.forEach(addon => {
-          receipt += `   + ${addon.name}\n`;
-        });
-      }
+      group.items.forEach(item => {
+        index += 1;
+        receipt += `${index}. ${item.name} ${item.unit ? formatQuantity(item.quantity, item.unit) : `x${item.quantity}`}${item.seat !== undefined ? ` [S${item.seat}]` : ''}${item.isNew ? ' (NEW)' : ''}\n`;
 
-      if (item.modifiers?.specialInstructions) {
-        receipt += `   * ${item.modifiers.specialInstructions}\n`;
-      }
+        if (item.modifiers?.variations?.length) {
+          item.modifiers.variations.forEach(variation => {
+            receipt += `   - ${variation.name}\n`;
+          });
+        }
 
-      if (item.modifiers?.notes) {
-        receipt += `   Note: ${item.modifiers.notes}\n`;
-      }
+        if (item.modifiers?.addOns?.length) {
+          item.modifiers.addOns.forEach(addon => {
+            receipt += `   + ${addon.name}\n`;
+          });
+        }
+
+        if (item.modifiers?.specialInstructions) {
+          receipt += `   * ${item.modifiers.specialInstructions}\n`;
+        }
 
-      receipt += '\n';
+        if (item.modifiers?.notes) {
+          receipt += `   Note: ${item.modifiers.notes}\n`;
+        }
+
+        receipt += '\n';
+      });
     });
 
     if (order.specialInstructions) {
       receipt += `-------------------------------------\nSPECIAL INSTRUCTIONS:\n${order.specialInstructions}\n`;
     }
 
+    if (order.heldCourses?.length) {
+      receipt += `ON HOLD: ${order.heldCourses.map(course => COURSE_LABELS[course].toUpperCase()).join(', ')} - wait for fire\n`;
+    }
+
+    if (order.note) {
+      receipt += `>>> ${order.note}\n`;
+    }
+
     receipt += `=====================================\n`;
 
     return receipt;
@@ -187,13 +218,16 @@ export const convertCartToKitchenOrder = (
       id: item.uniqueId || item.id,
       name: item.name,
       quantity: item.quantity || 1,
+      unit: isSoldByWeight(item) ? item.weightUnit || 'kg' : undefined,
       modifiers: item.modifiers ? {
         variations: item.modifiers.variations || [],
         addOns: item.modifiers.addOns || [],
         specialInstructions: item.modifiers.specialInstructions,
         notes: item.modifiers.notes
       } : undefined,
-      isNew: onlyNewItems && !item.isPaid
+      isNew: onlyNewItems && !item.isPaid,
+      seat: item.seat,
+      course: item.course
     }));
 
   return {
@@ -14,6 +14,8 @@ import {
   KitchenSystemMode
 } from './kitchen-interface';
 import { useSettingsStore } from '@/lib/store/settings';
+import type { Course } from '@/types/pos';
+import { getHeldCourses, isHeldLine } from '@/lib/utils/coursing';
 
 class KitchenService {
   private kitchenSystem!: KitchenSystemInterface; // Will be initialized in constructor
@@ -60,8 +62,17 @@ class KitchenService {
     try {
       console.log('🍳 [KITCHEN SERVICE] Sending new order to kitchen');
 
+      // 🍽️ Held courses stay off the ticket until fired
+      const heldCourses = getHeldCourses(cartItems);
+      const itemsToSend = cartItems.filter(item => !isHeldLine(item));
+
+      if (itemsToSend.length === 0) {
+        console.log('ℹ️ [KITCHEN SERVICE] Every course is on hold - nothing to send yet');
+        return true;
+      }
+
       const kitchenOrder = convertCartToKitchenOrder(
-        cartItems,
+        itemsToSend,
         slotId,
         orderNumber,
         orderType,
@@ -69,6 +80,7 @@ class KitchenService {
         specialInstructions,
         false // All items for new order
       );
+      kitchenOrder.heldCourses = heldCourses.length > 0 ? heldCourses : undefined;
 
       const success = await this.kitchenSystem.sendToKitchen(kitchenOrder);
 
@@ -97,8 +109,8 @@ class KitchenService {
     try {
       console.log('🍳 [KITCHEN SERVICE] Sending additional items to kitchen');
 
-      // Filter only unpaid (new) items
-      const newItems = cartItems.filter(item => !item.isPaid);
+      // Filter only unpaid (new) items - held courses wait for "fire course"
+      const newItems = cartItems.filter(item => !item.isPaid && !isHeldLine(item));
 
       if (newItems.length === 0) {
         console.log('ℹ️ [KITCHEN SERVICE] No new items to send to kitchen');
@@ -106,7 +118,7 @@ class KitchenService {
       }
 
       const kitchenOrder = convertCartToKitchenOrder(
-        cartItems,
+        cartItems.filter(item => !isHeldLine(item)),
         slotId,
         orderNumber,
         orderType,
@@ -133,6 +145,72 @@ class KitchenService {
     }
   }
 
+  // Fire a held course - its lines go to the kitchen now
+  async fireCourse(
+    cartItems: any[],
+    course: Course,
+    slotId: string,
+    orderNumber: string,
+    orderType: 'dine-in' | 'take-away' | 'delivery',
+    customerName?: string
+  ): Promise<boolean> {
+    try {
+      console.log('🍳 [KITCHEN SERVICE] Firing course:', course);
+
+      const courseItems = cartItems.filter(item => item.course === course);
+      if (courseItems.length === 0) {
+        console.log('ℹ️ [KITCHEN SERVICE] No items in course to fire');
+        return true;
+      }
+
+      const kitchenOrder = convertCartToKitchenOrder(courseItems, slotId, orderNumber, orderType, customerName);
+      kitchenOrder.firedCourse = course;
+
+      const success = await this.kitchenSystem.sendToKitchen(kitchenOrder);
+
+      if (success) {
+        console.log(`✅ [KITCHEN SERVICE] Course fired successfully (${courseItems.length} items)`);
+      } else {
+        console.error('❌ [KITCHEN SERVICE] Failed to fire course');
+      }
+
+      return success;
+    } catch (error) {
+      console.error('❌ [KITCHEN SERVICE] Error firing course:', error);
+      return false;
+    }
+  }
+
+  // Send a note about an order the kitchen already has (e.g. tables merged)
+  async sendNote(
+    slotId: string,
+    orderNumber: string,
+    orderType: 'dine-in' | 'take-away' | 'delivery',
+    note: string
+  ): Promise<boolean> {
+    try {
+      console.log('🍳 [KITCHEN SERVICE] Sending note to kitchen:', note);
+
+      const kitchenOrder: KitchenOrder = {
+        ...convertCartToKitchenOrder([], slotId, orderNumber, orderType),
+        note
+      };
+
+      const success = await this.kitchenSystem.sendToKitchen(kitchenOrder);
+
+      if (success) {
+        console.log('✅ [KITCHEN SERVICE] Note sent successfully');
+      } else {
+        console.error('❌ [KITCHEN SERVICE] Failed to send note');
+      }
+
+      return success;
+    } catch (error) {
+      console.error('❌ [KITCHEN SERVICE] Error sending note:', error);
+      return false;
+    }
+  }
+
   // Get kitchen system status
   async getKitchenStatus(): Promise<'online' | 'offline' | 'error'> {
     try {
@@ -30,7 +30,8 @@
 
 import { useOrderOverlayStore } from '@/lib/store/order-overlay';
 import type { CartItem } from '@/lib/store/cart-new';
-import type { CustomerInfo, OrderType } from '@/types/pos';
+import type { AppliedPromotion, AppliedVoucher, CustomerInfo, OrderType, PaymentTransaction } from '@/types/pos';
+import { calculateCartPricing, getBranchTaxConfig, resolveTaxRate, type PricingPaymentMethod } from '@/lib/utils/pricing';
 
 export interface CartSyncParams {
   orderId: string;
@@ -41,8 +42,20 @@ export interface CartSyncParams {
   total: number;
   subtotal: number;
   tax: number;
+  taxRate?: number;        // Effective tax rate (%) - defaults to pricing engine rate for paymentMethod
+  promotions?: AppliedPromotion[]; // Automatic promotions (omit to keep the overlay's current list)
+  discount?: number;               // Order discount (voucher codes / manual) - omit to keep the overlay's
+  vouchers?: AppliedVoucher[];     // Voucher codes (omit to keep the overlay's current list)
+  serviceCharge?: number;          // Service charge amount - omit to keep the overlay's
+  serviceChargeRate?: number;
+  tip?: number;                    // Tip added at payment - omit to keep the overlay's
+  surcharge?: number;              // Payment method surcharge applied at payment - omit to keep the overlay's
+  surchargeLabel?: string;
+  roundingAdjustment?: number;     // Cash rounding applied at payment - omit to keep the overlay's
+  covers?: number;                 // Table covers when the order was priced
+  payments?: PaymentTransaction[]; // Tender ledger - omit to keep the overlay's
   paymentStatus?: 'paid' | 'unpaid';
-  paymentMethod?: string; // 'cash' | 'card' | 'online' | 'unpaid'
+  paymentMethod?: string; // 'cash' | 'card' | 'online' | 'split' | 'unpaid'
   status?: 'active' | 'completed';
   // 🎯 BACKEND SYNC REQUIRED FIELDS (from Postman collection)
   branchId?: string;       // Branch ID for backend sync
@@ -79,7 +92,15 @@ export const syncCartToOverlay = async (params: CartSyncParams): Promise<void> =
 
     const overlayStore = useOrderOverlayStore.getState();
 
-    const mappedItems = params.items.map(cartItem => ({
+    // 🧾 Record tax basis so receipts/sync reproduce the same figures
+    const taxConfig = getBranchTaxConfig();
+    const pricingMethod = ['cash', 'card', 'mobile', 'split'].includes(params.paymentMethod || '')
+      ? params.paymentMethod as PricingPaymentMethod
+      : undefined;
+    const taxRate = params.taxRate ?? resolveTaxRate(pricingMethod, taxConfig);
+    const linePricing = calculateCartPricing(params.items, { paymentMethod: pricingMethod, taxConfig });
+
+    const mappedItems = params.items.map((cartItem, index) => ({
       id: cartItem.id,
       name: cartItem.name,
       price: cartItem.price,
@@ -88,6 +109,14 @@ export const syncCartToOverlay = async (params: CartSyncParams): Promise<void> =
       totalPrice: cartItem.totalPrice,
       total: cartItem.totalPrice,
       category: cartItem.category,
+      priceIncludesTax: cartItem.priceIncludesTax,
+      // 🧾 Per-line tax for mixed-rate baskets (receipt breakdown + backend sync)
+      taxClassId: cartItem.taxClassId,
+      taxRate: linePricing.lines[index]?.taxRate,
+      taxAmount: linePricing.lines[index]?.tax,
+      lineDiscount: cartItem.lineDiscount,
+      priceOverride: cartItem.priceOverride,
+      promotionDiscount: cartItem.promotionDiscount,
       description: cartItem.description,
       image: cartItem.image,
       isPaid: cartItem.isPaid || false,
@@ -99,7 +128,19 @@ export const syncCartToOverlay = async (params: CartSyncParams): Promise<void> =
       // 🎯 CRITICAL: Preserve uniqueId for cart item editing (fixes modifier editing bug)
       uniqueId: cartItem.uniqueId,
       // 🎯 PROFESSIONAL: Preserve isModifierUpgrade flag (prevents editing upgrade items)
-      isModifierUpgrade: cartItem.isModifierUpgrade || false
+      isModifierUpgrade: cartItem.isModifierUpgrade || false,
+      // 🎁 Gift card sale / top-up (card loaded when the order is paid)
+      giftCard: cartItem.giftCard,
+      // ✂️ Shared line on a split check
+      splitShare: cartItem.splitShare,
+      // 🍽️ Seat / course (held courses wait for "fire course")
+      seat: cartItem.seat,
+      course: cartItem.course,
+      courseHeld: cartItem.courseHeld,
+      firedAt: cartItem.firedAt,
+      // ⚖️ Open-price / weight line (quantity = weight)
+      pricingMode: cartItem.pricingMode,
+      weightUnit: cartItem.weightUnit
     }));
 
     // 🔍 DEBUG: Log items AFTER mapping
@@ -122,6 +163,19 @@ export const syncCartToOverlay = async (params: CartSyncParams): Promise<void> =
       total: params.total,
       subtotal: params.subtotal,
       tax: params.tax,
+      taxRate,
+      taxMode: taxConfig.mode,
+      promotions: params.promotions,
+      discount: params.discount,
+      vouchers: params.vouchers,
+      serviceCharge: params.serviceCharge,
+      serviceChargeRate: params.serviceChargeRate,
+      tip: params.tip,
+      surcharge: params.surcharge,
+      surchargeLabel: params.surchargeLabel,
+      roundingAdjustment: params.roundingAdjustment,
+      covers: params.covers,
+      payments: params.payments,
       paymentStatus: params.paymentStatus || 'unpaid',
       paymentMethod: params.paymentMethod, // 🎯 CRITICAL: Persist payment method to overlay
       status: params.status || 'active',
@@ -0,0 +1,75 @@
+/**
+ * COURSING SERVICE - Fire Held Courses
+ *
+ * PURPOSE: Send a held course of a placed order to the kitchen ("fire course")
+ * and mark its lines as fired on the order.
+ *
+ * LINKS WITH:
+ * - Order Overlay (home): Fire buttons for the order's held courses
+ * - Kitchen Service: fireCourse ticket (header "FIRE <COURSE>")
+ * - Order Overlay Store: Lines lose courseHeld and get firedAt
+ * - Cart Store: A cached cart of the slot is updated so it doesn't hold the course again
+ *
+ * RULES:
+ * - Only lines of the course still on hold are fired
+ * - Lines are marked fired even when auto-send to kitchen is off (same as new orders)
+ */
+
+import type { Course } from '@/types/pos';
+import { useOrderOverlayStore } from '@/lib/store/order-overlay';
+import { useCartStore } from '@/lib/store/cart-new';
+import { useSettingsStore } from '@/lib/store/settings';
+import { kitchenService } from '@/lib/kitchen/kitchen-service';
+import { COURSE_LABELS } from '@/lib/utils/coursing';
+
+export interface FireCourseResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Fire one held course of an order
+ */
+export const fireCourse = async (orderId: string, course: Course): Promise<FireCourseResult> => {
+  const overlayStore = useOrderOverlayStore.getState();
+  const order = overlayStore.getByOrderId(orderId);
+  if (!order) return { success: false, error: 'Order not found' };
+
+  const heldItems = order.items.filter(item => item.course === course && item.courseHeld);
+  if (heldItems.length === 0) return { success: false, error: `${COURSE_LABELS[course]} is not on hold` };
+
+  try {
+    const kitchenSettings = useSettingsStore.getState().kitchen;
+    if (kitchenSettings.autoSendToKitchen && order.orderType !== 'draft') {
+      kitchenService.switchMode(kitchenSettings.mode);
+      const sent = await kitchenService.fireCourse(
+        heldItems,
+        course,
+        order.slotId,
+        order.id,
+        order.orderType,
+        order.customer?.name
+      );
+      if (!sent) return { success: false, error: 'Kitchen did not receive the course - try again' };
+    }
+
+    const firedAt = new Date().toISOString();
+    const fire = <T extends { course?: Course; courseHeld?: boolean; firedAt?: string }>(item: T): T =>
+      item.course === course && item.courseHeld ? { ...item, courseHeld: undefined, firedAt } : item;
+
+    await overlayStore.updateOverlay(order.id, { items: order.items.map(fire) });
+
+    // Keep a cart already loaded for this order in step
+    useCartStore.setState(state => {
+      const cart = state.carts[order.slotId];
+      if (!cart || cart.orderId !== order.id) return state;
+      return { carts: { ...state.carts, [order.slotId]: { ...cart, items: cart.items.map(fire) } } };
+    });
+
+    console.log('🔥 [COURSING] Course fired:', { orderId, course, items: heldItems.length });
+    return { success: true };
+  } catch (error) {
+    console.error('❌ [COURSING] Failed to fire course:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Fire course failed' };
+  }
+};
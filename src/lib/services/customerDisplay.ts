@@ -0,0 +1,79 @@
+/**
+ * CUSTOMER DISPLAY - Customer-Facing Screen Channel
+ *
+ * PURPOSE: Push what the customer should see (amount due, online transfer
+ * QR) from the cashier screen to the customer display page (/customer-display)
+ * opened on a second screen of the same device/browser.
+ *
+ * LINKS WITH:
+ * - Payment Overlay: Publishes the transfer QR while the Online tab is open
+ * - Customer Display Page: Subscribes and renders the current state
+ *
+ * RULES:
+ * - Same-origin only (BroadcastChannel) - no backend round trip
+ * - Last state is kept in localStorage so a display opened later catches up
+ * - `null` = idle screen
+ */
+
+import type { BankAccountInfo } from '@/types/pos';
+
+export type CustomerDisplayState = {
+  type: 'bank_transfer';
+  orderId: string;
+  amount: number;
+  account: BankAccountInfo;
+  qrPayload: string; // buildTransferQRPayload
+};
+
+const CHANNEL_NAME = 'pos-customer-display';
+const STORAGE_KEY = 'pos-customer-display-state';
+
+let channel: BroadcastChannel | null = null;
+
+const getChannel = (): BroadcastChannel | null => {
+  if (typeof window === 'undefined' || typeof BroadcastChannel === 'undefined') return null;
+  if (!channel) channel = new BroadcastChannel(CHANNEL_NAME);
+  return channel;
+};
+
+/**
+ * Show a state on the customer display (null = back to idle)
+ */
+export const publishCustomerDisplay = (state: CustomerDisplayState | null): void => {
+  try {
+    if (typeof window === 'undefined') return;
+    if (state) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+    getChannel()?.postMessage(state);
+  } catch (error) {
+    console.error('❌ [CUSTOMER DISPLAY] Failed to publish state:', error);
+  }
+};
+
+/**
+ * Current state (display page on load)
+ */
+export const getCustomerDisplayState = (): CustomerDisplayState | null => {
+  try {
+    if (typeof window === 'undefined') return null;
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) as CustomerDisplayState : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Listen for state changes - returns an unsubscribe function
+ */
+export const subscribeCustomerDisplay = (onChange: (state: CustomerDisplayState | null) => void): (() => void) => {
+  if (typeof window === 'undefined' || typeof BroadcastChannel === 'undefined') return () => {};
+
+  // Own channel instance - a BroadcastChannel does not receive its own messages
+  const listener = new BroadcastChannel(CHANNEL_NAME);
+  listener.onmessage = (event: MessageEvent<CustomerDisplayState | null>) => onChange(event.data);
+  return () => listener.close();
+};
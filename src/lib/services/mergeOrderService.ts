@@ -0,0 +1,301 @@
+/**
+ * MERGE ORDER SERVICE - Join Tables Into One Check
+ *
+ * PURPOSE: Fold the orders of one or more slots into a target slot's order
+ * (items, customer and tenders already taken), release the source slots and
+ * let the kitchen know. A merge can be undone until the order is paid.
+ *
+ * LINKS WITH:
+ * - MergeOrdersModal: Pick the tables to join, undo a merge
+ * - Order Overlay Store: `merges` (undo snapshots) and `history` on the merged order
+ * - Unified Slot Store: Source slots released through setSlotAvailable, covers follow the order
+ * - Cart Store: Cached carts of the slots involved are dropped (reloaded from the overlay)
+ * - Kitchen Service: Note that the tables were merged / separated again
+ *
+ * RULES:
+ * - Only open, unpaid orders merge (a paid order is already synced as its own sale)
+ * - Split checks are settled on their own and are not merged
+ * - The target keeps its customer unless it has none (then the first named source's)
+ * - Undo puts each source order back as it was - its slot must still be free
+ * - Tenders taken after the merge stay on the merged order
+ */
+
+import type { OrderHistoryEntry, OrderItem } from '@/types/pos';
+import { useOrderOverlayStore, type OrderMergeRecord, type OverlayOrder } from '@/lib/store/order-overlay';
+import { useUnifiedSlotStore } from '@/lib/store/unified-slots';
+import { useCartStore } from '@/lib/store/cart-new';
+import { useAuthStore } from '@/lib/store/auth';
+import { useSettingsStore } from '@/lib/store/settings';
+import { kitchenService } from '@/lib/kitchen/kitchen-service';
+import { applyLineTax, calculateCartPricing, resolveServiceChargeRate } from '@/lib/utils/pricing';
+import { sumMoney } from '@/lib/utils/money';
+
+export interface MergeCandidate {
+  slotId: string;
+  order: OverlayOrder;
+}
+
+export interface MergeResult {
+  success: boolean;
+  order?: OverlayOrder;
+  error?: string;
+}
+
+/**
+ * Orders that can be merged (open, unpaid, not a split check)
+ */
+export const isMergeable = (order: OverlayOrder | null | undefined): boolean =>
+  !!order && order.status !== 'completed' && order.paymentStatus !== 'paid' && order.checkNumber === undefined;
+
+/**
+ * Open orders on other slots of the same order type that can join the target
+ */
+export const getMergeCandidates = async (target: OverlayOrder): Promise<MergeCandidate[]> => {
+  const slots = Object.values(useUnifiedSlotStore.getState().slots)
+    .filter(slot => slot.id !== target.slotId && slot.orderType === target.orderType);
+
+  const candidates: MergeCandidate[] = [];
+  for (const slot of slots) {
+    const order = await useOrderOverlayStore.getState().getActiveOrderBySlot(slot.id);
+    if (order && isMergeable(order) && order.id !== target.id && order.items.length > 0) {
+      candidates.push({ slotId: slot.id, order });
+    }
+  }
+  return candidates;
+};
+
+const createHistoryEntry = (entry: Omit<OrderHistoryEntry, 'id' | 'at' | 'userId' | 'userName'>): OrderHistoryEntry => {
+  const user = useAuthStore.getState().user;
+  return {
+    ...entry,
+    id: `hist-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+    userId: user?.id,
+    userName: user?.name,
+    at: new Date().toISOString()
+  };
+};
+
+const describeOrders = (orders: OverlayOrder[]): string =>
+  orders.map(order => `${order.slotId} (#${order.id})`).join(', ');
+
+// Cached carts go stale once the order moves - the slot reloads from the overlay
+const dropCachedCarts = (slotIds: string[]) => {
+  useCartStore.setState(state => {
+    const carts = { ...state.carts };
+    slotIds.forEach(slotId => delete carts[slotId]);
+    return { carts };
+  });
+};
+
+const sendKitchenNote = async (order: OverlayOrder, note: string) => {
+  const kitchenSettings = useSettingsStore.getState().kitchen;
+  if (!kitchenSettings.autoSendToKitchen || order.orderType === 'draft') return;
+  kitchenService.switchMode(kitchenSettings.mode);
+  await kitchenService.sendNote(order.slotId, order.id, order.orderType, note);
+};
+
+/**
+ * Re-price the target with a new set of lines/tenders and save it
+ */
+const saveMergedOrder = async (
+  target: OverlayOrder,
+  changes: Pick<OverlayOrder, 'items' | 'payments' | 'customer' | 'covers' | 'vouchers'> & { discount: number }
+): Promise<OverlayOrder> => {
+  const serviceChargeRate = resolveServiceChargeRate(target.orderType, changes.covers);
+  const pricing = calculateCartPricing(changes.items, { discount: changes.discount, serviceChargeRate });
+
+  return useOrderOverlayStore.getState().upsertFromCart({
+    orderId: target.id,
+    slotId: target.slotId,
+    orderType: target.orderType,
+    items: applyLineTax(changes.items, pricing),
+    customer: changes.customer,
+    total: pricing.total,
+    subtotal: pricing.subtotal,
+    tax: pricing.tax,
+    taxRate: pricing.taxRate,
+    promotions: target.promotions,
+    discount: pricing.discount,
+    vouchers: changes.vouchers,
+    serviceCharge: pricing.serviceCharge,
+    serviceChargeRate: pricing.serviceChargeRate,
+    covers: changes.covers,
+    payments: changes.payments,
+    paymentMethod: target.paymentMethod,
+    paymentStatus: target.paymentStatus,
+    status: 'active',
+    specialInstructions: target.specialInstructions,
+    placedAt: target.placedAt,
+    branchId: target.branchId,
+    posId: target.posId,
+    tillSessionId: target.tillSessionId
+  });
+};
+
+/**
+ * Merge the source orders into the target order
+ */
+export const mergeOrders = async (targetOrderId: string, sourceOrderIds: string[]): Promise<MergeResult> => {
+  const overlayStore = useOrderOverlayStore.getState();
+  const slotStore = useUnifiedSlotStore.getState();
+  const target = overlayStore.getByOrderId(targetOrderId);
+
+  if (!target || !isMergeable(target)) return { success: false, error: 'Only open, unpaid orders can be merged' };
+  const sources = sourceOrderIds
+    .filter(id => id !== targetOrderId)
+    .map(id => overlayStore.getByOrderId(id));
+  if (sources.length === 0) return { success: false, error: 'Select at least one table to merge' };
+  if (!sources.every(isMergeable)) return { success: false, error: 'Only open, unpaid orders can be merged' };
+
+  try {
+    const mergedSources = sources as OverlayOrder[]; // isMergeable rules out missing orders
+    const stamp = Date.now();
+    const movedItems: OrderItem[] = mergedSources.flatMap(source => source.items.map((item, index) => ({
+      ...item,
+      uniqueId: item.uniqueId || `${source.id}-merged-${stamp}-${index}`,
+      originalOrderId: item.originalOrderId || source.id
+    })));
+    const movedPayments = mergedSources.flatMap(source => source.payments || []);
+    const sourceCovers = mergedSources.map(source => source.covers ?? slotStore.getSlot(source.slotId)?.customerCount ?? 0);
+    const targetCovers = target.covers ?? slotStore.getSlot(target.slotId)?.customerCount;
+    const covers = sourceCovers.reduce((sum, count) => sum + count, targetCovers ?? 0) || undefined;
+    const vouchers = [...(target.vouchers || [])];
+    mergedSources.flatMap(source => source.vouchers || [])
+      .forEach(voucher => { if (!vouchers.some(existing => existing.code === voucher.code)) vouchers.push(voucher); });
+
+    const record: OrderMergeRecord = {
+      id: `merge-${stamp}`,
+      sources: mergedSources.map((order, index) => ({
+        order,
+        slotStatus: slotStore.getSlot(order.slotId)?.status === 'processing' ? 'processing' : 'available',
+        covers: sourceCovers[index] || undefined
+      })),
+      itemIds: movedItems.map(item => item.uniqueId as string),
+      paymentIds: movedPayments.map(payment => payment.id),
+      previousCustomer: target.customer,
+      previousCovers: targetCovers,
+      mergedBy: useAuthStore.getState().user?.name,
+      mergedAt: new Date(stamp).toISOString()
+    };
+
+    await saveMergedOrder(target, {
+      items: [...target.items, ...movedItems],
+      payments: [...(target.payments || []), ...movedPayments],
+      customer: target.customer?.name ? target.customer : mergedSources.find(source => source.customer?.name)?.customer ?? target.customer,
+      covers,
+      vouchers,
+      discount: sumMoney([target.discount ?? 0, ...mergedSources.map(source => source.discount ?? 0)])
+    });
+    await overlayStore.updateOverlay(target.id, {
+      merges: [...(target.merges || []), record],
+      history: [
+        ...(target.history || []),
+        createHistoryEntry({
+          action: 'merged',
+          note: `Merged ${describeOrders(mergedSources)}`,
+          orderIds: mergedSources.map(source => source.id),
+          slotIds: mergedSources.map(source => source.slotId)
+        })
+      ]
+    });
+
+    // Source orders now live on the target - release their tables
+    for (const source of mergedSources) {
+      await overlayStore.removeOverlay(source.id);
+      await slotStore.setSlotAvailable(source.slotId);
+    }
+    if (covers !== undefined) await slotStore.setSlotCustomerCount(target.slotId, covers);
+    dropCachedCarts([target.slotId, ...mergedSources.map(source => source.slotId)]);
+
+    await sendKitchenNote(target, `TABLES MERGED: ${mergedSources.map(source => source.slotId).join(', ')} now served at ${target.slotId}`);
+
+    console.log('🔗 [MERGE] Orders merged:', {
+      target: target.id,
+      sources: mergedSources.map(source => source.id),
+      items: movedItems.length,
+      payments: movedPayments.length
+    });
+    return { success: true, order: useOrderOverlayStore.getState().getByOrderId(target.id) ?? undefined };
+  } catch (error) {
+    console.error('❌ [MERGE] Failed to merge orders:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Merge failed' };
+  }
+};
+
+/**
+ * Undo a merge - the source orders go back to their tables as they were
+ */
+export const undoMerge = async (targetOrderId: string, mergeId: string): Promise<MergeResult> => {
+  const overlayStore = useOrderOverlayStore.getState();
+  const slotStore = useUnifiedSlotStore.getState();
+  const target = overlayStore.getByOrderId(targetOrderId);
+  const record = target?.merges?.find(merge => merge.id === mergeId);
+
+  if (!target || !record) return { success: false, error: 'Merge not found' };
+  if (target.paymentStatus === 'paid' || target.status === 'completed') {
+    return { success: false, error: 'The order is already paid - the merge can no longer be undone' };
+  }
+
+  for (const { order } of record.sources) {
+    const slot = slotStore.getSlot(order.slotId);
+    const occupied = slot?.status !== 'available' || !!(await overlayStore.getActiveOrderBySlot(order.slotId));
+    if (!slot || occupied) return { success: false, error: `Table ${order.slotId} is in use - free it before undoing the merge` };
+  }
+
+  try {
+    const sourceOrders = record.sources.map(source => source.order);
+    const remainingVouchers = (target.vouchers || []).filter(voucher =>
+      !sourceOrders.some(order => order.vouchers?.some(sourceVoucher => sourceVoucher.code === voucher.code))
+      || target.merges?.some(merge => merge.id !== mergeId && merge.sources.some(source => source.order.vouchers?.some(v => v.code === voucher.code))));
+
+    await saveMergedOrder(target, {
+      items: target.items.filter(item => !record.itemIds.includes(item.uniqueId || '')),
+      payments: (target.payments || []).filter(payment => !record.paymentIds.includes(payment.id)),
+      customer: record.previousCustomer,
+      covers: record.previousCovers,
+      vouchers: remainingVouchers,
+      discount: Math.max(0, sumMoney([target.discount ?? 0, ...sourceOrders.map(order => -(order.discount ?? 0))]))
+    });
+    await overlayStore.updateOverlay(target.id, {
+      merges: (target.merges || []).filter(merge => merge.id !== mergeId),
+      history: [
+        ...(target.history || []),
+        createHistoryEntry({
+          action: 'merge_undone',
+          note: `Separated ${describeOrders(sourceOrders)}`,
+          orderIds: sourceOrders.map(order => order.id),
+          slotIds: sourceOrders.map(order => order.slotId)
+        })
+      ]
+    });
+
+    for (const { order, slotStatus, covers } of record.sources) {
+      await overlayStore.restoreOverlay({
+        ...order,
+        history: [
+          ...(order.history || []),
+          createHistoryEntry({
+            action: 'merge_undone',
+            note: `Separated from ${target.slotId} (#${target.id})`,
+            orderIds: [target.id],
+            slotIds: [target.slotId]
+          })
+        ]
+      });
+      if (slotStatus === 'processing') {
+        await slotStore.setSlotProcessing(order.slotId, { orderRefId: order.id, paymentMethod: 'unpaid', paymentStatus: 'unpaid' });
+      }
+      await slotStore.setSlotCustomerCount(order.slotId, covers);
+    }
+    await slotStore.setSlotCustomerCount(target.slotId, record.previousCovers);
+    dropCachedCarts([target.slotId, ...sourceOrders.map(order => order.slotId)]);
+
+    await sendKitchenNote(target, `TABLES SEPARATED: ${sourceOrders.map(order => order.slotId).join(', ')} no longer served at ${target.slotId}`);
+
+    console.log('↩️ [MERGE] Merge undone:', { target: target.id, restored: sourceOrders.map(order => order.id) });
+    return { success: true, order: useOrderOverlayStore.getState().getByOrderId(target.id) ?? undefined };
+  } catch (error) {
+    console.error('❌ [MERGE] Failed to undo merge:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Undo failed' };
+  }
+};
@@ -0,0 +1,269 @@
+/**
+ * PAYMENT TERMINAL - Pluggable Card Terminal Adapters
+ *
+ * PURPOSE: One interface for card terminals (sale, refund, void, status,
+ * cancel). Adapters report progress events ("insert card", "approved",
+ * "declined") so the card tab can show what the terminal is doing.
+ * Ships with a deterministic simulator served by /api/terminal/simulator.
+ * The simulator approves every normal charge, so it is only used when
+ * NEXT_PUBLIC_PAYMENT_TERMINAL=simulator - with no (or an unknown) terminal
+ * configured every card request fails with "terminal not configured".
+ *
+ * LINKS WITH:
+ * - Payment Overlay: Card tab charges the balance due through the active adapter
+ * - Refund Service: Card refunds go back through the terminal that took them
+ * - Payment Ledger: Approval code, masked PAN and terminal transaction id are stored on the tender
+ *
+ * SIMULATOR (outcome by the last two digits of the amount in minor units):
+ * - xx51 → declined (insufficient funds), xx54 → declined (expired card)
+ * - xx91 → timeout, xx99 → terminal disconnected
+ * - anything else → approved
+ *
+ * USAGE:
+ * ```typescript
+ * const terminal = getPaymentTerminal();
+ * const result = await terminal.sale({ amount: 1500, reference: '0001', onEvent: setTerminalEvent });
+ * if (result.status === 'approved') { ... result.approvalCode, result.maskedPan }
+ * ```
+ */
+
+import { toMinor } from '@/lib/utils/money';
+
+export type TerminalEventType =
+  | 'connecting'
+  | 'insert_card'
+  | 'processing'
+  | 'approved'
+  | 'declined'
+  | 'timeout'
+  | 'disconnected'
+  | 'cancelled'
+  | 'error';
+
+export interface TerminalEvent {
+  type: TerminalEventType;
+  message: string;
+  at: string; // ISO timestamp
+}
+
+export type TerminalResultStatus = 'approved' | 'declined' | 'timeout' | 'disconnected' | 'cancelled' | 'error';
+
+export interface TerminalResult {
+  status: TerminalResultStatus;
+  message: string;
+  amount: number;
+  transactionId?: string;
+  approvalCode?: string;
+  maskedPan?: string;
+  cardBrand?: string;
+}
+
+export interface TerminalSaleRequest {
+  amount: number;
+  reference: string; // Order id
+  onEvent?: (event: TerminalEvent) => void;
+}
+
+export interface TerminalRefundRequest extends TerminalSaleRequest {
+  transactionId?: string; // Original sale (unreferenced refund when missing)
+}
+
+export interface TerminalStatus {
+  connected: boolean;
+  busy: boolean;
+  model: string;
+  message?: string;
+}
+
+export interface PaymentTerminalAdapter {
+  id: string;
+  name: string;
+  sale: (request: TerminalSaleRequest) => Promise<TerminalResult>;
+  refund: (request: TerminalRefundRequest) => Promise<TerminalResult>;
+  void: (transactionId: string, request: TerminalSaleRequest) => Promise<TerminalResult>;
+  status: () => Promise<TerminalStatus>;
+  cancel: () => Promise<void>;
+}
+
+// Results that mean the card was never charged, but the terminal itself may be unusable
+export const isTerminalUnavailable = (status: TerminalResultStatus | TerminalEventType): boolean =>
+  status === 'timeout' || status === 'disconnected';
+
+const createEvent = (type: TerminalEventType, message: string): TerminalEvent => ({
+  type,
+  message,
+  at: new Date().toISOString()
+});
+
+const RESULT_MESSAGES: Record<TerminalResultStatus, string> = {
+  approved: 'Approved',
+  declined: 'Declined',
+  timeout: 'Terminal timed out - no response',
+  disconnected: 'Terminal disconnected',
+  cancelled: 'Cancelled on POS',
+  error: 'Terminal error'
+};
+
+/**
+ * Simulator adapter - talks to the local Next.js route, no hardware needed
+ */
+class SimulatorTerminalAdapter implements PaymentTerminalAdapter {
+  id = 'simulator';
+  name = 'Terminal Simulator';
+
+  private endpoint = '/api/terminal/simulator';
+  private timeoutMs = 45000;
+  private controller: AbortController | null = null;
+
+  private async request(
+    action: 'sale' | 'refund' | 'void' | 'status' | 'cancel',
+    body: Record<string, unknown> = {},
+    signal?: AbortSignal
+  ): Promise<Record<string, any>> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action, ...body }),
+      signal
+    });
+    return response.json();
+  }
+
+  private async transact(
+    action: 'sale' | 'refund' | 'void',
+    request: TerminalSaleRequest,
+    extra: Record<string, unknown> = {}
+  ): Promise<TerminalResult> {
+    const { amount, reference, onEvent } = request;
+    const emit = (type: TerminalEventType, message: string) => onEvent?.(createEvent(type, message));
+
+    this.controller = new AbortController();
+    const { signal } = this.controller;
+    let timedOut = false;
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      this.controller?.abort();
+    }, this.timeoutMs);
+
+    emit('insert_card', action === 'void' ? 'Voiding on terminal...' : 'Insert, tap or swipe card');
+    // Card read → authorizing (the route answers once the host has decided)
+    const processing = setTimeout(() => emit('processing', 'Authorizing...'), 1200);
+
+    try {
+      const data = await this.request(action, { amountMinor: toMinor(amount), reference, ...extra }, signal);
+      const status = (data.status || 'error') as TerminalResultStatus;
+      const result: TerminalResult = {
+        status,
+        message: data.message || RESULT_MESSAGES[status],
+        amount,
+        transactionId: data.transactionId,
+        approvalCode: data.approvalCode,
+        maskedPan: data.maskedPan,
+        cardBrand: data.cardBrand
+      };
+      emit(status, result.message);
+      return result;
+    } catch (error) {
+      // Abort = cancel from the POS or our own timeout; anything else = terminal unreachable
+      const status: TerminalResultStatus = signal.aborted ? (timedOut ? 'timeout' : 'cancelled') : 'disconnected';
+      if (!signal.aborted) {
+        console.error('❌ [PAYMENT TERMINAL] Simulator request failed:', error);
+      }
+      emit(status, RESULT_MESSAGES[status]);
+      return { status, message: RESULT_MESSAGES[status], amount };
+    } finally {
+      clearTimeout(timeout);
+      clearTimeout(processing);
+      this.controller = null;
+    }
+  }
+
+  sale(request: TerminalSaleRequest): Promise<TerminalResult> {
+    return this.transact('sale', request);
+  }
+
+  refund(request: TerminalRefundRequest): Promise<TerminalResult> {
+    return this.transact('refund', request, { transactionId: request.transactionId });
+  }
+
+  void(transactionId: string, request: TerminalSaleRequest): Promise<TerminalResult> {
+    return this.transact('void', request, { transactionId });
+  }
+
+  async status(): Promise<TerminalStatus> {
+    try {
+      const data = await this.request('status');
+      return {
+        connected: !!data.connected,
+        busy: !!data.busy,
+        model: data.model || this.name,
+        message: data.message
+      };
+    } catch {
+      return { connected: false, busy: false, model: this.name, message: RESULT_MESSAGES.disconnected };
+    }
+  }
+
+  async cancel(): Promise<void> {
+    try {
+      await this.request('cancel');
+    } catch (error) {
+      console.error('❌ [PAYMENT TERMINAL] Failed to cancel on simulator:', error);
+    }
+    this.controller?.abort();
+  }
+}
+
+/**
+ * Fallback when no terminal is configured - fails closed, never charges or approves
+ */
+class UnconfiguredTerminalAdapter implements PaymentTerminalAdapter {
+  id = 'unconfigured';
+  name = 'No Terminal';
+
+  private message = 'Card terminal not configured';
+
+  private async reject(request: TerminalSaleRequest): Promise<TerminalResult> {
+    console.error('❌ [PAYMENT TERMINAL] No terminal configured (NEXT_PUBLIC_PAYMENT_TERMINAL)');
+    request.onEvent?.(createEvent('error', this.message));
+    return { status: 'error', message: this.message, amount: request.amount };
+  }
+
+  sale(request: TerminalSaleRequest): Promise<TerminalResult> {
+    return this.reject(request);
+  }
+
+  refund(request: TerminalRefundRequest): Promise<TerminalResult> {
+    return this.reject(request);
+  }
+
+  void(_transactionId: string, request: TerminalSaleRequest): Promise<TerminalResult> {
+    return this.reject(request);
+  }
+
+  async status(): Promise<TerminalStatus> {
+    return { connected: false, busy: false, model: this.name, message: this.message };
+  }
+
+  async cancel(): Promise<void> {}
+}
+
+const unconfiguredTerminal = new UnconfiguredTerminalAdapter();
+
+// Registered adapters - hardware integrations register themselves by id
+const adapters: Record<string, PaymentTerminalAdapter> = {
+  simulator: new SimulatorTerminalAdapter()
+};
+
+export const registerPaymentTerminal = (adapter: PaymentTerminalAdapter): void => {
+  adapters[adapter.id] = adapter;
+  console.log('💳 [PAYMENT TERMINAL] Registered adapter:', adapter.id);
+};
+
+/**
+ * Active terminal (NEXT_PUBLIC_PAYMENT_TERMINAL - the simulator only when set explicitly)
+ */
+export const getPaymentTerminal = (): PaymentTerminalAdapter => {
+  const id = process.env.NEXT_PUBLIC_PAYMENT_TERMINAL;
+  return (id && adapters[id]) || unconfiguredTerminal;
+};
@@ -8,10 +8,20 @@
  * - Order Overlay Store: Gets order data from IndexedDB
  * - Auth Store: Gets cashier information
  * - Branch Settings: Gets branch information
+ * - Pricing Engine: Same tax breakdown as cart/payment screens
+ * - Refund Service: Refund/void receipts (negative tenders)
+ * - Report Service: X / Z reports (58mm or 80mm paper)
  */
 
 import type { OverlayOrder } from '@/lib/store/order-overlay';
-import type { OrderItem } from '@/types/pos';
+import type { CashMovement, OrderItem, OrderRefund, SalesReport, TillSession, WeightUnit } from '@/types/pos';
+import { useBranchConfigStore } from '@/lib/store/branchConfig';
+import { calculateCartPricing, getBranchServiceCharge, getBranchTaxConfig } from '@/lib/utils/pricing';
+import { multiplyMoney, roundMoney, subtractMoney, sumMoney } from '@/lib/utils/money';
+import { getAmountPaid, getBalanceDue } from '@/lib/utils/payments';
+import { formatTime } from '@/lib/utils/format';
+import { groupBySeat } from '@/lib/utils/coursing';
+import { formatQuantity, isSoldByWeight } from '@/lib/utils/itemPricing';
 
 export interface ReceiptData {
   format: 'thermal';
@@ -33,10 +43,39 @@ export interface ReceiptData {
       unitPrice: number;
       lineTotal: number;
       notes: string; // Variations and add-ons combined
+      discount: number; // Line discount (deducted before tax)
+      discountReason?: string;
+      seat?: number; // 🍽️ Seat at the table (dine-in)
+      unit?: WeightUnit; // ⚖️ Weight lines - quantity is the weight, unit price is per unit
     }>;
+    groupBySeat: boolean; // Items printed under a heading per seat
     subTotal: number;
     taxTotal: number;
-    discount: number;
+    taxBreakdown: Array<{
+      name: string;
+      rate: number;
+      net: number;
+      tax: number;
+    }>;
+    showTaxBreakdown: boolean;
+    promotions: Array<{
+      name: string;
+      description: string;
+      amount: number;
+    }>;
+    vouchers: Array<{
+      code: string;
+      name: string;
+      amount: number;
+    }>;
+    discount: number; // Line discounts + order discount
+    serviceCharge: number;
+    serviceChargeName: string;
+    serviceChargeRate: number;
+    tip: number;
+    surcharge: number; // Payment method surcharge e.g. card fee
+    surchargeLabel: string;
+    roundingAdjustment: number; // Cash rounding (+/-)
     grandTotal: number;
     currency: string;
     taxMode: 'exclusive' | 'inclusive';
@@ -44,6 +83,15 @@ export interface ReceiptData {
     paymentMethod: string;
     amountPaid: number;
     change: number;
+    payments: Array<{
+      method: string;
+      amount: number;
+      tendered?: number;
+      change?: number;
+      reference?: string;
+      approvalCode?: string; // Card terminal authorization
+    }>;
+    balanceDue: number; // Part-paid orders (0 when settled)
     receiptFooter: string;
     status: string;
   };
@@ -58,6 +106,7 @@ export interface BranchInfo {
   currency: string;
   taxMode: 'exclusive' | 'inclusive';
   taxRate: number;
+  showTaxBreakdown?: boolean; // ReceiptConfig.showTaxBreakdown - group tax by class
 }
 
 /**
@@ -68,33 +117,46 @@ export async function generateReceiptFromOrder(
   cashierName: string,
   branchInfo: BranchInfo,
   cashReceived?: number,
-  change?: number
+  change?: number,
+  options: { groupBySeat?: boolean } = {}
 ): Promise<ReceiptData> {
-  // Calculate subtotal from items
-  const subTotal = order.items.reduce((sum, item) => sum + item.total, 0);
-
-  // Calculate tax (backend uses exclusive tax)
-  const taxTotal = branchInfo.taxMode === 'exclusive'
-    ? Math.round(subTotal * (branchInfo.taxRate / 100) * 100) / 100
-    : 0;
+  // Price with the rate/mode recorded on the order (falls back to branch info)
+  const taxRate = order.taxRate ?? branchInfo.taxRate;
+  const taxMode = order.taxMode ?? branchInfo.taxMode;
+  const pricing = calculateCartPricing(order.items, {
+    discount: order.discount, // Order discount (voucher codes) comes off after tax
+    serviceChargeRate: order.serviceChargeRate,
+    tip: order.tip,
+    // 💳 Surcharge recorded at payment (card fee etc.)
+    surcharge: order.surcharge ? { type: 'fixed', value: order.surcharge, label: order.surchargeLabel } : null,
+    taxConfig: { ...getBranchTaxConfig(), mode: taxMode, rate: taxRate }
+  });
 
-  // Grand total
-  const grandTotal = Math.round((subTotal + taxTotal) * 100) / 100;
+  const subTotal = roundMoney(pricing.subtotal);
+  const taxTotal = roundMoney(pricing.tax);
+  // 🪙 Cash rounding recorded at payment (re-pricing above is unrounded)
+  const roundingAdjustment = roundMoney(order.roundingAdjustment || 0);
+  const grandTotal = sumMoney([pricing.total, roundingAdjustment]);
+  const payments = order.payments || [];
 
   // Format order date
   const orderDate = formatOrderDate(order.placedAt);
 
   // Transform items to receipt format
-  const items = order.items.map(item => {
+  const items = order.items.map((item, index) => {
     // Build notes from modifiers
     const notes = buildItemNotes(item);
 
     return {
       name: item.name,
       quantity: item.quantity,
-      unitPrice: item.price,
-      lineTotal: item.total,
-      notes
+      unitPrice: roundMoney(item.price),
+      lineTotal: roundMoney(item.total),
+      notes,
+      discount: pricing.lines[index]?.discount || 0,
+      discountReason: item.lineDiscount?.reason,
+      seat: item.seat,
+      unit: isSoldByWeight(item) ? item.weightUnit || 'kg' : undefined
     };
   });
 
@@ -111,16 +173,52 @@ export async function generateReceiptFromOrder(
     customerName: order.customer?.name || 'Guest',
     customerPhone: order.customer?.phone || '',
     items,
+    // 🍽️ Only when asked for and the order has seats
+    groupBySeat: !!options.groupBySeat && items.some(item => item.seat !== undefined),
     subTotal,
     taxTotal,
-    discount: 0, // No discount support yet
+    taxBreakdown: pricing.taxSummary.map(entry => ({
+      name: entry.name,
+      rate: entry.rate,
+      net: roundMoney(entry.net),
+      tax: roundMoney(entry.tax)
+    })),
+    showTaxBreakdown: branchInfo.showTaxBreakdown ?? false,
+    promotions: (order.promotions || []).map(promotion => ({
+      name: promotion.name,
+      description: promotion.description,
+      amount: roundMoney(promotion.amount)
+    })),
+    vouchers: (order.vouchers || []).map(voucher => ({
+      code: voucher.code,
+      name: voucher.name,
+      amount: roundMoney(voucher.amount)
+    })),
+    discount: sumMoney([pricing.lineDiscount, pricing.discount]),
+    serviceCharge: pricing.serviceCharge,
+    serviceChargeName: getBranchServiceCharge()?.name || 'Service Charge',
+    serviceChargeRate: pricing.serviceChargeRate,
+    tip: pricing.tip,
+    surcharge: pricing.surcharge,
+    surchargeLabel: order.surchargeLabel || 'Surcharge',
+    roundingAdjustment,
     grandTotal,
     currency: branchInfo.currency,
-    taxMode: branchInfo.taxMode,
-    taxRate: branchInfo.taxRate,
+    taxMode,
+    taxRate,
     paymentMethod: order.paymentMethod || 'cash',
-    amountPaid: cashReceived || grandTotal,
-    change: change || 0,
+    // 💳 Tender ledger when the order has one (every tender is printed)
+    amountPaid: payments.length > 0 ? getAmountPaid(payments) : cashReceived || grandTotal,
+    change: payments.length > 0 ? sumMoney(payments.map(payment => payment.change || 0)) : change || 0,
+    payments: payments.map(payment => ({
+      method: payment.method,
+      amount: payment.amount,
+      tendered: payment.tendered,
+      change: payment.change,
+      reference: payment.reference,
+      approvalCode: payment.approvalCode
+    })),
+    balanceDue: payments.length > 0 ? getBalanceDue(grandTotal, payments) : 0,
     receiptFooter: 'Thank you for your business!',
     status: order.status === 'completed' ? 'completed' : 'placed'
   };
@@ -135,6 +233,300 @@ export async function generateReceiptFromOrder(
   };
 }
 
+/**
+ * ↩️ Refund / void receipt for one refund on an order
+ */
+export function generateRefundReceipt(
+  order: OverlayOrder,
+  refund: OrderRefund,
+  branchInfo: BranchInfo
+): string {
+  const WIDTH = 42;
+  const line = '='.repeat(WIDTH);
+  const dashed = '-'.repeat(WIDTH);
+  const currency = branchInfo.currency;
+
+  let receipt = '';
+
+  // Header - Branch info (centered)
+  receipt += centerText(branchInfo.name, WIDTH) + '\n';
+  receipt += centerText(branchInfo.address, WIDTH) + '\n';
+  receipt += line + '\n';
+  receipt += centerText(refund.isVoid ? '*** VOID ***' : '*** REFUND ***', WIDTH) + '\n';
+  receipt += line + '\n';
+
+  // Refund info
+  receipt += `Order #: ${order.id}\n`;
+  receipt += `Refund Date: ${formatOrderDate(new Date(refund.createdAt))}\n`;
+  receipt += `Cashier: ${refund.cashierName || 'Cashier'}\n`;
+  receipt += `Customer: ${order.customer?.name || 'Guest'}\n`;
+  receipt += `Approved By: ${refund.approvedBy}\n`;
+  wrapText(`Reason: ${refund.reason}`, WIDTH).forEach(text => {
+    receipt += `${text}\n`;
+  });
+  receipt += dashed + '\n';
+
+  // Refunded lines (refund by amount has none)
+  if (refund.lines && refund.lines.length > 0) {
+    refund.lines.forEach(refundLine => {
+      const itemName = refundLine.name.length > WIDTH ? refundLine.name.substring(0, WIDTH - 3) + '...' : refundLine.name;
+      receipt += `${itemName}\n`;
+      receipt += rightText(`${refundLine.quantity} -${currency} ${formatPrice(refundLine.amount)}`, WIDTH) + '\n';
+    });
+    receipt += dashed + '\n';
+  }
+
+  receipt += rightText(`Original Total: ${currency} ${formatPrice(order.total)}`, WIDTH) + '\n';
+  receipt += line + '\n';
+  receipt += rightText(`REFUND: -${currency} ${formatPrice(refund.amount)}`, WIDTH) + '\n';
+  receipt += line + '\n';
+
+  // Tenders money went back to
+  refund.tenders.forEach(tender => {
+    const label = tender.method.charAt(0).toUpperCase() + tender.method.slice(1).replace('_', ' ');
+    const reference = tender.reference ? ` (${tender.reference})` : '';
+    receipt += rightText(`${label}${reference}: -${currency} ${formatPrice(Math.abs(tender.amount))}`, WIDTH) + '\n';
+    if (tender.approvalCode) {
+      receipt += rightText(`Auth Code: ${tender.approvalCode}`, WIDTH) + '\n';
+    }
+  });
+  if ((order.refundedAmount || 0) > refund.amount) {
+    receipt += rightText(`Total Refunded: ${currency} ${formatPrice(order.refundedAmount || 0)}`, WIDTH) + '\n';
+  }
+  receipt += line + '\n';
+
+  // Footer
+  receipt += '\n';
+  receipt += centerText('Customer Signature: ______________', WIDTH) + '\n';
+  receipt += '\n';
+  receipt += centerText('Powered by Tritech POS', WIDTH) + '\n';
+
+  return receipt;
+}
+
+// Characters per line for the receipt paper (ReceiptConfig.paperWidth)
+const REPORT_WIDTHS: Record<58 | 80, number> = { 58: 32, 80: 42 };
+
+// Line builders shared by the report slips (label left, amount right)
+const createSlipLines = (WIDTH: number, currency: string) => {
+  const dashed = '-'.repeat(WIDTH);
+  return {
+    line: '='.repeat(WIDTH),
+    amountLine: (label: string, amount: number) => {
+      const value = `${amount < 0 ? '-' : ''}${currency} ${formatPrice(Math.abs(amount))}`;
+      const space = Math.max(1, WIDTH - label.length - value.length);
+      return `${label.substring(0, WIDTH - value.length - 1)}${' '.repeat(space)}${value}\n`;
+    },
+    heading: (text: string) => `${dashed}\n${text}\n`
+  };
+};
+
+const tenderLabel = (method: string) =>
+  method === 'mobile' ? 'Online' : method.charAt(0).toUpperCase() + method.slice(1).replace('_', ' ');
+
+/**
+ * 📊 X / Z report slip (same thermal format as receipts)
+ */
+export function generateReportReceipt(
+  report: SalesReport,
+  branchInfo: BranchInfo,
+  paperWidth: 58 | 80 = getReceiptPaperWidth()
+): string {
+  const WIDTH = REPORT_WIDTHS[paperWidth];
+  const { line, amountLine, heading } = createSlipLines(WIDTH, branchInfo.currency);
+
+  let receipt = '';
+
+  // Header
+  receipt += centerText(branchInfo.name, WIDTH) + '\n';
+  receipt += centerText(branchInfo.address, WIDTH) + '\n';
+  receipt += line + '\n';
+  receipt += centerText(report.type === 'Z' ? `*** Z REPORT #${report.zNumber ?? ''} ***` : '*** X REPORT ***', WIDTH) + '\n';
+  receipt += centerText(report.type === 'Z' ? 'End of day - day closed' : 'Mid-shift - not a close', WIDTH) + '\n';
+  receipt += line + '\n';
+  receipt += `Business Day: ${report.businessDate}\n`;
+  receipt += `Printed: ${formatOrderDate(new Date(report.generatedAt))}\n`;
+  if (report.generatedBy) receipt += `By: ${report.generatedBy}\n`;
+  if (report.posId) receipt += `Terminal: ${report.posId}\n`;
+
+  // Sales
+  receipt += heading('SALES');
+  receipt += amountLine(`Gross Sales (${report.orderCount})`, report.grossSales);
+  receipt += amountLine('Discounts', -report.discounts);
+  receipt += amountLine('Net Sales', report.netSales);
+  if (report.serviceCharge !== 0) receipt += amountLine('Service Charge', report.serviceCharge);
+  if (report.surcharges !== 0) receipt += amountLine('Surcharges', report.surcharges);
+  if (report.tips !== 0) receipt += amountLine('Tips', report.tips);
+  if (report.cashRounding !== 0) receipt += amountLine('Cash Rounding', report.cashRounding);
+  receipt += amountLine('Takings', report.takings);
+  receipt += amountLine(`Refunds (${report.refunds.count})`, -report.refunds.amount);
+  receipt += amountLine(`Voids (${report.voids.count})`, -report.voids.amount);
+  receipt += amountLine('NET TAKINGS', report.netTakings);
+
+  // Tax by rate
+  receipt += heading('TAX');
+  report.taxByRate.forEach(entry => {
+    receipt += amountLine(`${entry.rate}% on ${formatPrice(entry.net)}`, entry.tax);
+  });
+  receipt += amountLine('Total Tax', report.taxTotal);
+
+  // Tenders
+  receipt += heading('TENDERS');
+  report.tenders.forEach(tender => {
+    receipt += amountLine(`${tenderLabel(tender.method)} (${tender.count})`, tender.amount);
+    if (tender.refunded > 0) receipt += amountLine('  Refunded', -tender.refunded);
+  });
+
+  // Orders by type
+  receipt += heading('ORDERS');
+  report.orderTypes.forEach(entry => {
+    receipt += amountLine(`${entry.orderType} (${entry.count})`, entry.total);
+  });
+
+  // Cash
+  receipt += heading(`CASH MOVEMENTS (${report.cashMovements.count})`);
+  receipt += amountLine('Pay In', report.cashMovements.payIns);
+  receipt += amountLine('Pay Out', -report.cashMovements.payOuts);
+  receipt += amountLine('Safe Drop', -report.cashMovements.safeDrops);
+
+  // Price overrides (audit log - reports taken before overrides existed have none)
+  if (report.priceOverrides?.count || report.priceOverrides?.restored) {
+    receipt += heading(`PRICE OVERRIDES (${report.priceOverrides.count})`);
+    report.priceOverrides.byReason.forEach(entry => {
+      receipt += amountLine(`${entry.reason} (${entry.count})`, -entry.amount);
+    });
+    receipt += amountLine('Total Overrides', -report.priceOverrides.amount);
+    if (report.priceOverrides.restored) receipt += `Restored to menu price: ${report.priceOverrides.restored}\n`;
+  }
+
+  // Cashiers (one per till shift - handover splits a drawer)
+  if (report.cashiers?.length) {
+    receipt += heading('CASHIERS');
+    report.cashiers.forEach(cashier => {
+      receipt += `${cashier.userName || cashier.userId} ${formatTime(cashier.startedAt)}-${cashier.endedAt ? formatTime(cashier.endedAt) : 'now'}\n`;
+      receipt += amountLine(`  Takings (${cashier.orderCount})`, cashier.takings);
+      cashier.tenders.forEach(tender => {
+        receipt += amountLine(`    ${tenderLabel(tender.method)}`, tender.amount);
+      });
+      if (cashier.refunds > 0) receipt += amountLine('  Refunds', -cashier.refunds);
+      if (cashier.variance !== undefined) receipt += amountLine('  Variance', cashier.variance);
+    });
+  }
+
+  receipt += heading('CASH DRAWER');
+  report.tills.forEach(till => {
+    receipt += `Till ${till.tillSessionId.substring(0, 8)} (${till.status})\n`;
+    receipt += amountLine('  Opening', till.openingAmount);
+    receipt += amountLine('  Expected', till.expectedCash);
+    if (till.declaredCash !== undefined) receipt += amountLine('  Declared', till.declaredCash);
+    if (till.variance !== undefined) receipt += amountLine('  Variance', till.variance);
+  });
+  receipt += amountLine('Expected Cash', report.expectedCash);
+  if (report.declaredCash !== undefined) receipt += amountLine('Declared Cash', report.declaredCash);
+  if (report.cashVariance !== undefined) receipt += amountLine('Variance', report.cashVariance);
+  receipt += line + '\n';
+
+  // Footer
+  receipt += '\n';
+  receipt += centerText('Powered by Tritech POS', WIDTH) + '\n';
+
+  return receipt;
+}
+
+/**
+ * 🏦 Till close report for one session (reprinted from till history)
+ */
+export function generateTillCloseReceipt(
+  session: TillSession,
+  movements: CashMovement[],
+  orders: OverlayOrder[],
+  branchInfo: BranchInfo,
+  paperWidth: 58 | 80 = getReceiptPaperWidth()
+): string {
+  const WIDTH = REPORT_WIDTHS[paperWidth];
+  const { line, amountLine, heading } = createSlipLines(WIDTH, branchInfo.currency);
+  const countLines = (counts: Record<string, number>) => Object.entries(counts)
+    .filter(([, count]) => count > 0)
+    .sort(([a], [b]) => Number(b) - Number(a))
+    .map(([denomination, count]) => amountLine(`  ${denomination} x ${count}`, multiplyMoney(Number(denomination), count)))
+    .join('');
+
+  let receipt = '';
+
+  // Header
+  receipt += centerText(branchInfo.name, WIDTH) + '\n';
+  receipt += centerText(branchInfo.address, WIDTH) + '\n';
+  receipt += line + '\n';
+  receipt += centerText('*** TILL CLOSE REPORT ***', WIDTH) + '\n';
+  receipt += centerText('REPRINT', WIDTH) + '\n';
+  receipt += line + '\n';
+  receipt += `Session: ${session.id}\n`;
+  receipt += `Terminal: ${session.posId}\n`;
+  receipt += `Opened: ${formatOrderDate(new Date(session.openedAt))}\n`;
+  if (session.closedAt) receipt += `Closed: ${formatOrderDate(new Date(session.closedAt))}\n`;
+  receipt += `Printed: ${formatOrderDate(new Date())}\n`;
+  if (session.blindClose) receipt += 'Blind close\n';
+
+  // Cashiers
+  if (session.shifts?.length) {
+    receipt += heading('CASHIERS');
+    session.shifts.forEach(shift => {
+      receipt += `${shift.userName || shift.userId} ${formatTime(shift.startedAt)}-${shift.endedAt ? formatTime(shift.endedAt) : 'open'}\n`;
+      receipt += amountLine('  Float', shift.startingAmount);
+      if (shift.countedAmount !== undefined) receipt += amountLine('  Counted', shift.countedAmount);
+      if (shift.variance !== undefined) receipt += amountLine('  Variance', shift.variance);
+    });
+  }
+
+  // Opening
+  receipt += heading('OPENING');
+  receipt += amountLine('Opening Amount', session.openingAmount);
+  if (session.openingCashCounts) receipt += countLines(session.openingCashCounts);
+
+  // Sales in the session
+  receipt += heading(`ORDERS (${orders.length})`);
+  receipt += amountLine('Takings', sumMoney(orders.map(order => order.total)));
+  if (session.serviceChargeTotal) receipt += amountLine('Service Charge', session.serviceChargeTotal);
+  if (session.tipTotal) receipt += amountLine('Tips', session.tipTotal);
+  if (session.roundingTotal) receipt += amountLine('Cash Rounding', session.roundingTotal);
+  if (session.refundTotal) receipt += amountLine('Refunds', -session.refundTotal);
+
+  // Cash movements
+  if (movements.length > 0) {
+    receipt += heading(`CASH MOVEMENTS (${movements.length})`);
+    movements.forEach(movement => {
+      const label = movement.type === 'pay_in' ? 'Pay In' : movement.type === 'pay_out' ? 'Pay Out' : 'Safe Drop';
+      receipt += amountLine(`${label} ${movement.reason}`, movement.type === 'pay_in' ? movement.amount : -movement.amount);
+    });
+  }
+
+  // Closing
+  receipt += heading('CLOSING');
+  if (session.systemClosingAmount !== undefined) receipt += amountLine('Expected', session.systemClosingAmount);
+  if (session.declaredClosingAmount !== undefined) receipt += amountLine('Declared', session.declaredClosingAmount);
+  if (session.closingVariance !== undefined) receipt += amountLine('Variance', session.closingVariance);
+  if (session.varianceApprovedBy) receipt += `Approved: ${session.varianceApprovedBy}\n`;
+  if (session.varianceReason) receipt += `Reason: ${session.varianceReason}\n`;
+  if (session.closingCashCounts) receipt += countLines(session.closingCashCounts);
+  if (session.closingNotes) receipt += `Note: ${session.closingNotes}\n`;
+  receipt += line + '\n';
+
+  // Footer
+  receipt += '\n';
+  receipt += centerText('Powered by Tritech POS', WIDTH) + '\n';
+
+  return receipt;
+}
+
+/**
+ * Receipt paper width from branch receipt config (58mm or 80mm)
+ */
+export function getReceiptPaperWidth(): 58 | 80 {
+  const config = useBranchConfigStore.getState().config;
+  const receiptConfig = config?.receiptConfig ?? config?.posConfig?.receiptConfig;
+  return receiptConfig?.paperWidth === 58 ? 58 : 80;
+}
+
 /**
  * Build item notes from modifiers (variations + add-ons)
  */
@@ -238,51 +630,123 @@ function generateThermalReceipt(data: ReceiptData['data']): string {
   receipt += 'Item              Qty      Price      Total\n';
   receipt += dashed + '\n';
 
-  // Items
-  data.items.forEach(item => {
-    // Truncate long item names to prevent wrapping
-    const itemName = item.name.length > WIDTH ? item.name.substring(0, WIDTH - 3) + '...' : item.name;
-    receipt += `${itemName}\n`;
-
-    // Quantity, price, total (second line, right-aligned with proper spacing)
-    // Format the values with consistent width
-    const qty = String(item.quantity);
-    const price = `${data.currency} ${formatPrice(item.unitPrice)}`;
-    const total = `${data.currency} ${formatPrice(item.lineTotal)}`;
-
-    // Build the line with proper spacing (right-aligned)
-    // Format: "                    1 PKR 899.00 PKR 899.00"
-    const itemLine = rightText(`${qty} ${price} ${total}`, WIDTH);
-    receipt += itemLine + '\n';
-
-    // Notes (if any) - wrap long notes
-    if (item.notes) {
-      const notePrefix = '  Note: ';
-      const maxNoteWidth = WIDTH - notePrefix.length;
-      const wrappedNotes = wrapText(item.notes, maxNoteWidth);
-      wrappedNotes.forEach((line, index) => {
-        if (index === 0) {
-          receipt += `${notePrefix}${line}\n`;
-        } else {
-          receipt += `  ${' '.repeat(notePrefix.length - 2)}${line}\n`;
-        }
-      });
+  // Items (grouped per seat when asked for - shared lines under "TABLE")
+  const itemGroups = data.groupBySeat ? groupBySeat(data.items) : [{ seat: undefined, items: data.items }];
+  itemGroups.forEach(group => {
+    if (data.groupBySeat) {
+      receipt += `${group.seat !== undefined ? `SEAT ${group.seat}` : 'TABLE'}\n`;
     }
+    group.items.forEach(item => {
+      // Truncate long item names to prevent wrapping
+      const itemName = item.name.length > WIDTH ? item.name.substring(0, WIDTH - 3) + '...' : item.name;
+      receipt += `${itemName}\n`;
+
+      // Quantity, price, total (second line, right-aligned with proper spacing)
+      // Format the values with consistent width
+      // ⚖️ Weight lines: "0.750 kg PKR 1200.00/kg PKR 900.00"
+      const qty = formatQuantity(item.quantity, item.unit);
+      const price = `${data.currency} ${formatPrice(item.unitPrice)}${item.unit ? `/${item.unit}` : ''}`;
+      const total = `${data.currency} ${formatPrice(item.lineTotal)}`;
+
+      // Build the line with proper spacing (right-aligned)
+      // Format: "                    1 PKR 899.00 PKR 899.00"
+      const itemLine = rightText(`${qty} ${price} ${total}`, WIDTH);
+      receipt += itemLine + '\n';
+
+      // Notes (if any) - wrap long notes
+      if (item.notes) {
+        const notePrefix = '  Note: ';
+        const maxNoteWidth = WIDTH - notePrefix.length;
+        const wrappedNotes = wrapText(item.notes, maxNoteWidth);
+        wrappedNotes.forEach((line, index) => {
+          if (index === 0) {
+            receipt += `${notePrefix}${line}\n`;
+          } else {
+            receipt += `  ${' '.repeat(notePrefix.length - 2)}${line}\n`;
+          }
+        });
+      }
+
+      // Line discount
+      if (item.discount > 0) {
+        const reason = item.discountReason ? ` (${item.discountReason})` : '';
+        receipt += rightText(`Discount${reason}: -${data.currency} ${formatPrice(item.discount)}`, WIDTH) + '\n';
+      }
+    });
   });
 
   receipt += dashed + '\n';
 
   // Totals (right-aligned)
+  data.promotions.forEach(promotion => {
+    receipt += rightText(`${promotion.name}: -${data.currency} ${formatPrice(promotion.amount)}`, WIDTH) + '\n';
+    wrapText(promotion.description, WIDTH - 2).forEach(text => {
+      receipt += rightText(text, WIDTH) + '\n';
+    });
+  });
+  // Voucher codes are listed after tax (they come off the order total)
+  const voucherTotal = sumMoney(data.vouchers.map(voucher => voucher.amount));
+  const otherDiscounts = subtractMoney(data.discount, voucherTotal);
+  if (otherDiscounts > 0) {
+    receipt += rightText(`Discounts: -${data.currency} ${formatPrice(otherDiscounts)}`, WIDTH) + '\n';
+  }
   receipt += rightText(`Subtotal: ${data.currency} ${formatPrice(data.subTotal)}`, WIDTH) + '\n';
+  if (data.serviceCharge > 0) {
+    receipt += rightText(`${data.serviceChargeName} (${data.serviceChargeRate}%): ${data.currency} ${formatPrice(data.serviceCharge)}`, WIDTH) + '\n';
+  }
 
-  if (data.taxRate > 0) {
-    receipt += rightText(`Tax (${data.taxRate}%): ${data.currency} ${formatPrice(data.taxTotal)}`, WIDTH) + '\n';
+  const inclLabel = data.taxMode === 'inclusive' ? ' incl.' : '';
+  if (data.showTaxBreakdown && data.taxBreakdown.length > 0) {
+    // Grouped tax summary (one line per tax class/rate)
+    data.taxBreakdown.forEach(entry => {
+      receipt += rightText(`${entry.name}${inclLabel} (${entry.rate}%) on ${formatPrice(entry.net)}: ${data.currency} ${formatPrice(entry.tax)}`, WIDTH) + '\n';
+    });
+    if (data.taxBreakdown.length > 1) {
+      receipt += rightText(`Total Tax: ${data.currency} ${formatPrice(data.taxTotal)}`, WIDTH) + '\n';
+    }
+  } else if (data.taxTotal > 0) {
+    const taxLabel = data.taxBreakdown.length > 1 ? `Tax${inclLabel}` : `Tax${inclLabel} (${data.taxRate}%)`;
+    receipt += rightText(`${taxLabel}: ${data.currency} ${formatPrice(data.taxTotal)}`, WIDTH) + '\n';
+  }
+
+  data.vouchers.forEach(voucher => {
+    receipt += rightText(`${voucher.name} (${voucher.code}): -${data.currency} ${formatPrice(voucher.amount)}`, WIDTH) + '\n';
+  });
+  if (data.tip > 0) {
+    receipt += rightText(`Tip: ${data.currency} ${formatPrice(data.tip)}`, WIDTH) + '\n';
+  }
+  if (data.surcharge > 0) {
+    receipt += rightText(`${data.surchargeLabel}: ${data.currency} ${formatPrice(data.surcharge)}`, WIDTH) + '\n';
+  }
+  if (data.roundingAdjustment !== 0) {
+    const sign = data.roundingAdjustment > 0 ? '+' : '-';
+    receipt += rightText(`Cash Rounding: ${sign}${data.currency} ${formatPrice(Math.abs(data.roundingAdjustment))}`, WIDTH) + '\n';
   }
 
   receipt += line + '\n';
   receipt += rightText(`TOTAL: ${data.currency} ${formatPrice(data.grandTotal)}`, WIDTH) + '\n';
   receipt += line + '\n';
 
+  // Tenders (payment ledger)
+  if (data.payments.length > 0) {
+    data.payments.forEach(payment => {
+      const label = payment.method.charAt(0).toUpperCase() + payment.method.slice(1).replace('_', ' ');
+      const reference = payment.reference ? ` (${payment.reference})` : '';
+      receipt += rightText(`${label}${reference}: ${data.currency} ${formatPrice(payment.amount)}`, WIDTH) + '\n';
+      if (payment.tendered !== undefined && payment.change) {
+        receipt += rightText(`Tendered ${formatPrice(payment.tendered)} / Change ${formatPrice(payment.change)}`, WIDTH) + '\n';
+      }
+      if (payment.approvalCode) {
+        receipt += rightText(`Auth Code: ${payment.approvalCode}`, WIDTH) + '\n';
+      }
+    });
+    if (data.balanceDue > 0) {
+      receipt += rightText(`Paid: ${data.currency} ${formatPrice(data.amountPaid)}`, WIDTH) + '\n';
+      receipt += rightText(`BALANCE DUE: ${data.currency} ${formatPrice(data.balanceDue)}`, WIDTH) + '\n';
+    }
+    receipt += line + '\n';
+  }
+
   // Footer
   receipt += '\n';
   receipt += centerText(data.receiptFooter, WIDTH) + '\n';
@@ -293,7 +757,8 @@ function generateThermalReceipt(data: ReceiptData['data']): string {
 }
 
 /**
- * Format price with 2 decimal places
+ * Format price with 2 decimal places (backend receipt format).
+ * Values are already rounded to currency precision via roundMoney.
  */
 function formatPrice(price: number): string {
   return price.toFixed(2);
@@ -346,21 +811,23 @@ function wrapText(text: string, width: number): string[] {
 }
 
 /**
- * Get branch info from environment or settings
- * TODO: Load from settings/branch API in production
+ * Get branch info from branch config (environment variables as fallback)
  */
 export function getBranchInfo(): BranchInfo {
-  // In production, this would come from backend or settings
-  // For now, use environment variables or defaults
+  const config = useBranchConfigStore.getState().config;
+  const taxConfig = getBranchTaxConfig();
+  const receiptConfig = config?.receiptConfig ?? config?.posConfig?.receiptConfig;
+
   return {
-    name: process.env.NEXT_PUBLIC_BRANCH_NAME || 'POS Branch',
+    name: config?.branchName || process.env.NEXT_PUBLIC_BRANCH_NAME || 'POS Branch',
     address: process.env.NEXT_PUBLIC_BRANCH_ADDRESS || 'Branch Address',
     phone: process.env.NEXT_PUBLIC_BRANCH_PHONE || '',
     email: process.env.NEXT_PUBLIC_BRANCH_EMAIL || '',
-    vatNumber: process.env.NEXT_PUBLIC_VAT_NUMBER || '',
-    currency: 'PKR',
-    taxMode: 'exclusive',
-    taxRate: 5 // 5% tax
+    vatNumber: taxConfig.vatNumber || process.env.NEXT_PUBLIC_VAT_NUMBER || '',
+    currency: config?.currency || 'PKR',
+    taxMode: taxConfig.mode,
+    taxRate: taxConfig.rate,
+    showTaxBreakdown: receiptConfig?.showTaxBreakdown ?? false
   };
 }
 
@@ -368,12 +835,12 @@ export function getBranchInfo(): BranchInfo {
  * Print receipt content in new window
  * Uses sessionStorage to avoid URI encoding issues with special characters
  */
-export function printReceiptContent(receiptContent: string, orderNumber: string): void {
+export function printReceiptContent(receiptContent: string, orderNumber: string, paperWidth?: 58 | 80): void {
   // Store receipt content in sessionStorage (avoids URL encoding issues)
   const receiptKey = `receipt-${orderNumber}-${Date.now()}`;
   sessionStorage.setItem(receiptKey, receiptContent);
 
-  // Open print page in new tab with just the receipt key
-  const printUrl = `/print-receipt?key=${receiptKey}`;
+  // Open print page in new tab with just the receipt key (+ paper width when not the 80mm default)
+  const printUrl = `/print-receipt?key=${receiptKey}${paperWidth === 58 ? '&width=58' : ''}`;
   window.open(printUrl, '_blank');
 }
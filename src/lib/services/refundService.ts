@@ -0,0 +1,430 @@
+/**
+ * REFUND SERVICE - Refunds and Voids After Payment
+ *
+ * PURPOSE: Give money back on a paid order - all of it, some lines, or a
+ * fixed amount - to the original tender(s) or as cash. Every refund is
+ * recorded on the order with negative transactions against the current
+ * till session, then synced to the backend.
+ *
+ * LINKS WITH:
+ * - Orders Page (RefundModal): Builds the request, manager approves with a reason
+ * - Order Overlay Store: `refunds`, `refundedAmount`, `refundStatus`
+ * - Till Store: Cash refunds come out of the expected drawer amount
+ * - Voucher Ledger: A void releases the order's voucher redemptions
+ * - Gift Card Store: Store credit / gift card refunds credit a card, a full refund / void takes back loaded cards
+ * - Orders API: POST /t/pos/orders/:orderId/refunds (sync service retries)
+ * - Receipt Service: Refund receipt
+ * - Payment Terminal: Card tenders taken on the terminal are refunded through it
+ *
+ * RULES:
+ * - Refundable = amount paid - already refunded (never more than was taken)
+ * - Line refunds share what was paid for goods (total minus tip) by line total,
+ *   so promotions, vouchers and service charge come back pro rata
+ * - 'original' refunds the latest tenders first, each capped at what it paid
+ * - 'store_credit' loads the whole amount onto a store credit card (new code unless one is given)
+ * - Gift card sale lines are refunded only with the whole order, which reverses the card
+ *   loads; line and amount refunds leave them out
+ * - A card declined on the terminal after earlier cards were refunded records just
+ *   the approved cards (partial refund) and reports the decline
+ * - Requires an open till (refund tenders belong to a TillSession) on a day without a Z report
+ */
+
+import type { OrderRefund, PaymentTransaction, RefundDestination, RefundLine, TenderMethod } from '@/types/pos';
+import { useOrderOverlayStore, type OverlayOrder } from '@/lib/store/order-overlay';
+import { useAuthStore } from '@/lib/store/auth';
+import { getBusinessDate, useTillStore } from '@/lib/store/till';
+import { refundOrder } from '@/lib/api/orders';
+import { calculateCartPricing, getBranchTaxConfig } from '@/lib/utils/pricing';
+import { allocateMoney, compareMoney, multiplyMoney, roundMoney, subtractMoney, sumMoney, toMinor, fromMinor } from '@/lib/utils/money';
+import { createPaymentTransaction, getAmountPaid, toBackendPayments } from '@/lib/utils/payments';
+import { getPaymentTerminal, type TerminalResult } from '@/lib/services/paymentTerminal';
+import { generateGiftCardCode, normalizeGiftCardCode, useGiftCardStore } from '@/lib/store/gift-cards';
+
+export type RefundMode = 'full' | 'lines' | 'amount';
+
+export interface RefundableLine {
+  itemIndex: number;
+  name: string;
+  quantity: number;          // Units not refunded yet
+  orderedQuantity: number;
+  amount: number;            // Paid amount not refunded yet for this line
+}
+
+export interface ProcessRefundParams {
+  orderId: string;
+  mode: RefundMode;
+  lines?: Array<{ itemIndex: number; quantity: number }>; // mode 'lines'
+  amount?: number;                                         // mode 'amount'
+  destination: RefundDestination;
+  storeCreditCode?: string;                                // destination 'store_credit' - existing card to credit
+  reason: string;
+  approvedBy: string; // Masked manager PIN
+  isVoid?: boolean;   // Full void - releases vouchers and frees the slot
+}
+
+export interface ProcessRefundResult {
+  success: boolean;
+  refund?: OrderRefund;
+  order?: OverlayOrder;
+  error?: string;
+}
+
+/**
+ * What the customer actually paid (ledger, or the total of a legacy paid order)
+ */
+export const getPaidAmount = (order: OverlayOrder): number => {
+  if (order.payments?.length) return getAmountPaid(order.payments);
+  return order.paymentStatus === 'paid' ? roundMoney(order.total) : 0;
+};
+
+/**
+ * Amount that can still be refunded
+ */
+export const getRefundableAmount = (order: OverlayOrder): number => {
+  return Math.max(0, subtractMoney(getPaidAmount(order), order.refundedAmount || 0));
+};
+
+/**
+ * Paid share of each line, net of earlier line refunds
+ */
+export const getRefundableLines = (order: OverlayOrder): RefundableLine[] => {
+  // Same pricing as the receipt (rate/mode recorded on the order)
+  const taxConfig = getBranchTaxConfig();
+  const pricing = calculateCartPricing(order.items, {
+    discount: order.discount,
+    serviceChargeRate: order.serviceChargeRate,
+    taxConfig: { ...taxConfig, mode: order.taxMode ?? taxConfig.mode, rate: order.taxRate ?? taxConfig.rate }
+  });
+
+  // Goods paid for = everything paid minus the tip (tips are not line revenue)
+  const goodsPaid = Math.max(0, subtractMoney(getPaidAmount(order), order.tip || 0));
+  const lineShares = allocateMoney(goodsPaid, order.items.map((_, index) => pricing.lines[index]?.gross || 0));
+  const refundedLines = (order.refunds || []).flatMap(refund => refund.lines || []);
+
+  return order.items.map((item, index) => {
+    const previous = refundedLines.filter(line => line.itemIndex === index);
+    return {
+      itemIndex: index,
+      name: item.name,
+      orderedQuantity: item.quantity,
+      quantity: Math.max(0, item.quantity - previous.reduce((sum, line) => sum + line.quantity, 0)),
+      amount: Math.max(0, subtractMoney(lineShares[index] || 0, sumMoney(previous.map(line => line.amount))))
+    };
+  });
+};
+
+/**
+ * Refund lines for the selected quantities (last units take the exact remainder)
+ */
+export const calculateLineRefund = (
+  order: OverlayOrder,
+  selections: Array<{ itemIndex: number; quantity: number }>
+): RefundLine[] => {
+  const refundable = getRefundableLines(order);
+
+  return selections
+    .filter(selection => selection.quantity > 0)
+    .map(selection => {
+      const line = refundable[selection.itemIndex];
+      if (!line) return null;
+
+      const quantity = Math.min(selection.quantity, line.quantity);
+      const amount = quantity === line.quantity
+        ? line.amount
+        : multiplyMoney(line.amount, quantity / line.quantity);
+
+      return { itemIndex: line.itemIndex, name: line.name, quantity, amount };
+    })
+    .filter((line): line is RefundLine => line !== null && line.quantity > 0);
+};
+
+// Order-level method → ledger tender method (legacy orders without a ledger)
+const toTenderMethod = (paymentMethod?: string): TenderMethod => {
+  if (paymentMethod === 'card') return 'card';
+  if (paymentMethod === 'online' || paymentMethod === 'mobile') return 'mobile';
+  return 'cash';
+};
+
+/**
+ * Negative tenders for a refund amount
+ */
+export const allocateRefundTenders = (
+  order: OverlayOrder,
+  amount: number,
+  destination: RefundDestination,
+  tillSessionId: string,
+  storeCreditCode?: string
+): PaymentTransaction[] => {
+  if (destination === 'cash') {
+    return [createPaymentTransaction({ method: 'cash', amount: -amount, reference: 'Refund', tillSessionId })];
+  }
+
+  // 🎁 Store credit - the whole amount goes onto one card
+  if (destination === 'store_credit') {
+    const giftCardCode = storeCreditCode ? normalizeGiftCardCode(storeCreditCode) : generateGiftCardCode();
+    return [createPaymentTransaction({ method: 'gift_card', amount: -amount, reference: `Store Credit ${giftCardCode}`, tillSessionId, giftCardCode })];
+  }
+
+  const sources: PaymentTransaction[] = order.payments?.length
+    ? order.payments
+    : [{ id: `legacy-${order.id}`, method: toTenderMethod(order.paymentMethod), amount: getPaidAmount(order), createdAt: new Date(order.placedAt).toISOString() }];
+  const previousTenders = (order.refunds || []).flatMap(refund => refund.tenders);
+
+  const tenders: PaymentTransaction[] = [];
+  let remainingMinor = toMinor(amount);
+
+  // Latest tender first (e.g. the card that settled a part-paid order)
+  [...sources].reverse().forEach(source => {
+    if (remainingMinor <= 0) return;
+    const alreadyRefunded = -sumMoney(previousTenders.filter(tender => tender.refundOf === source.id).map(tender => tender.amount));
+    const availableMinor = toMinor(subtractMoney(source.amount, alreadyRefunded));
+    const takeMinor = Math.min(remainingMinor, availableMinor);
+    if (takeMinor <= 0) return;
+
+    tenders.push({
+      ...createPaymentTransaction({ method: source.method, amount: -fromMinor(takeMinor), reference: source.reference, tillSessionId, giftCardCode: source.giftCardCode }),
+      refundOf: source.id
+    });
+    remainingMinor -= takeMinor;
+  });
+
+  // Anything the original tenders can't take (should not happen) goes back as cash
+  if (remainingMinor > 0) {
+    tenders.push(createPaymentTransaction({ method: 'cash', amount: -fromMinor(remainingMinor), reference: 'Refund', tillSessionId }));
+  }
+
+  return tenders;
+};
+
+/**
+ * Validate, record and sync a refund
+ */
+export async function processRefund(params: ProcessRefundParams): Promise<ProcessRefundResult> {
+  try {
+    const overlayStore = useOrderOverlayStore.getState();
+    let order = overlayStore.getByOrderId(params.orderId);
+    if (!order) {
+      await overlayStore.loadAll();
+      order = useOrderOverlayStore.getState().getByOrderId(params.orderId);
+    }
+    if (!order) {
+      return { success: false, error: 'Order not found' };
+    }
+
+    const tillSession = useTillStore.getState().currentSession;
+    if (!tillSession || tillSession.status !== 'open') {
+      return { success: false, error: 'Open the till before refunding' };
+    }
+    const zReport = await useTillStore.getState().getZReportForDate(getBusinessDate());
+    if (zReport) {
+      return { success: false, error: `Business day ${zReport.businessDate} is closed (Z #${zReport.zNumber})` };
+    }
+
+    const refundable = getRefundableAmount(order);
+    if (refundable <= 0) {
+      return { success: false, error: 'Nothing left to refund on this order' };
+    }
+
+    // 💰 Amount + lines for the selected mode
+    let lines: RefundLine[] | undefined;
+    let amount: number;
+    if (params.mode === 'full') {
+      lines = calculateLineRefund(order, getRefundableLines(order).map(line => ({ itemIndex: line.itemIndex, quantity: line.quantity })));
+      amount = refundable;
+    } else if (params.mode === 'lines') {
+      lines = calculateLineRefund(order, params.lines || []);
+      amount = sumMoney(lines.map(line => line.amount));
+    } else {
+      amount = roundMoney(params.amount || 0);
+    }
+
+    if (amount <= 0) {
+      return { success: false, error: 'Select items or enter an amount to refund' };
+    }
+
+    // 🎁 Gift card loads only come back with the whole order (the load is reversed) - never as cash on their own
+    if (params.mode === 'lines' && lines?.some(line => order!.items[line.itemIndex]?.giftCard)) {
+      return { success: false, error: 'Gift card lines can only be refunded with the whole order (the card load is reversed)' };
+    }
+    if (params.mode === 'amount') {
+      const giftCardValue = sumMoney(getRefundableLines(order)
+        .filter(line => order!.items[line.itemIndex]?.giftCard)
+        .map(line => line.amount));
+      const maxAmount = Math.max(0, subtractMoney(refundable, giftCardValue));
+      if (giftCardValue > 0 && compareMoney(amount, maxAmount) > 0) {
+        return { success: false, error: `Gift card loads can't be refunded by amount - at most ${maxAmount} can be refunded` };
+      }
+    }
+    if (compareMoney(amount, refundable) > 0) {
+      return { success: false, error: `Refund exceeds the refundable amount (${refundable})` };
+    }
+    if (!params.reason.trim()) {
+      return { success: false, error: 'A reason is required' };
+    }
+
+    // 💳 Card money goes back through the terminal that took it (before anything is recorded)
+    const allocated = allocateRefundTenders(order, amount, params.destination, tillSession.id, params.storeCreditCode);
+    const approvedOnTerminal: PaymentTransaction[] = [];
+    let declined: TerminalResult | null = null;
+    for (const tender of allocated) {
+      const source = order.payments?.find(payment => payment.id === tender.refundOf);
+      if (tender.method !== 'card' || !source?.terminalTransactionId) continue;
+
+      const result = await getPaymentTerminal().refund({
+        amount: Math.abs(tender.amount),
+        reference: order.id,
+        transactionId: source.terminalTransactionId
+      });
+      if (result.status !== 'approved') {
+        declined = result;
+        break;
+      }
+      Object.assign(tender, {
+        approvalCode: result.approvalCode,
+        maskedPan: result.maskedPan || source.maskedPan,
+        cardBrand: result.cardBrand || source.cardBrand,
+        terminalTransactionId: result.transactionId
+      });
+      approvedOnTerminal.push(tender);
+    }
+
+    if (declined && approvedOnTerminal.length === 0) {
+      return { success: false, error: `Card refund not approved: ${declined.message}` };
+    }
+
+    // ⚠️ A later card was declined - the cards already refunded are recorded as a partial refund
+    // (the customer has that money back, so the ledger and the till must show it)
+    const tenders = declined ? approvedOnTerminal : allocated;
+    const recordedAmount = declined ? -sumMoney(tenders.map(tender => tender.amount)) : amount;
+    const isVoid = !declined && params.isVoid;
+    if (declined) {
+      console.error('❌ [REFUND] Card refund declined after earlier terminal refunds - recording the approved part:', {
+        orderId: order.id,
+        recordedAmount,
+        requested: amount
+      });
+    }
+
+    const user = useAuthStore.getState().user;
+    const refund: OrderRefund = {
+      id: `ref-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      orderId: order.id,
+      type: compareMoney(recordedAmount, refundable) === 0 ? 'full' : 'partial',
+      isVoid: isVoid || undefined,
+      lines: declined ? undefined : lines,
+      amount: recordedAmount,
+      destination: params.destination,
+      tenders,
+      reason: declined ? `${params.reason.trim()} (card refund declined - approved cards only)` : params.reason.trim(),
+      approvedBy: params.approvedBy,
+      cashierId: user?.id,
+      cashierName: user?.name,
+      tillSessionId: tillSession.id,
+      createdAt: new Date().toISOString(),
+      syncStatus: 'pending'
+    };
+
+    const refundStatus: OverlayOrder['refundStatus'] = isVoid
+      ? 'voided'
+      : refund.type === 'full' ? 'refunded' : 'partial';
+
+    const updated = await overlayStore.addRefund(order.id, refund, refundStatus);
+    if (!updated) {
+      return { success: false, error: 'Failed to save refund' };
+    }
+
+    // 🎁 Gift card tenders go back onto the card (store credit creates it)
+    const giftCardTenders = tenders.filter(tender => tender.method === 'gift_card' && tender.giftCardCode);
+    for (const tender of giftCardTenders) {
+      const credited = await useGiftCardStore.getState().creditRefund({
+        code: tender.giftCardCode!,
+        amount: -tender.amount,
+        orderId: order.id,
+        paymentId: tender.id,
+        tillSessionId: tillSession.id,
+        type: params.destination === 'store_credit' ? 'store_credit' : 'gift_card'
+      });
+      if (!credited.success) {
+        console.error('❌ [REFUND] Failed to credit gift card - reconcile manually:', tender.giftCardCode, credited.error);
+      }
+    }
+
+    // 🎁 Whole order back: the cards it loaded are taken back too (refund or void)
+    if (params.mode === 'full' && !declined) {
+      await useGiftCardStore.getState().reverseOrderLoads(order.id, tillSession.id);
+    }
+
+    // 🎟️ Void: vouchers can be used again, slot is freed if the order is still on it
+    if (isVoid) {
+      const { useVoucherLedgerStore } = await import('@/lib/store/voucher-ledger');
+      await useVoucherLedgerStore.getState().releaseRedemptions(order.id);
+
+      const { useUnifiedSlotStore } = await import('@/lib/store/unified-slots');
+      const slotStore = useUnifiedSlotStore.getState();
+      if (slotStore.getSlot(order.slotId)?.orderRefId === order.id) {
+        await slotStore.setSlotAvailable(order.slotId);
+      }
+      if (updated.status !== 'completed') {
+        await overlayStore.markOrderCompleted(order.id);
+      }
+    }
+
+    console.log('✅ [REFUND] Refund recorded:', {
+      orderId: order.id,
+      amount: recordedAmount,
+      type: refund.type,
+      destination: refund.destination,
+      isVoid: !!isVoid
+    });
+
+    // 🔄 Sync now if possible - otherwise the sync service retries
+    if (typeof navigator !== 'undefined' && navigator.onLine && updated.backendOrderId) {
+      await syncRefund(updated, refund);
+    }
+
+    const savedOrder = useOrderOverlayStore.getState().getByOrderId(order.id) || updated;
+    if (declined) {
+      return {
+        success: false,
+        refund,
+        order: savedOrder,
+        error: `Card refund not approved: ${declined.message}. ${recordedAmount} already refunded to card was recorded as a partial refund`
+      };
+    }
+    return { success: true, refund, order: savedOrder };
+  } catch (error) {
+    console.error('❌ [REFUND] Failed to process refund:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Refund failed' };
+  }
+}
+
+/**
+ * Send one refund to the backend and record the result
+ */
+export async function syncRefund(order: OverlayOrder, refund: OrderRefund): Promise<boolean> {
+  if (!order.backendOrderId) {
+    console.log('⏳ [REFUND] Order not on backend yet - refund will sync later:', order.id);
+    return false;
+  }
+
+  const overlayStore = useOrderOverlayStore.getState();
+  const result = await refundOrder(order.backendOrderId, {
+    refundId: refund.id,
+    type: refund.type,
+    isVoid: refund.isVoid,
+    amount: refund.amount,
+    reason: refund.reason,
+    approvedBy: refund.approvedBy,
+    tillSessionId: refund.tillSessionId,
+    items: refund.lines,
+    tenders: toBackendPayments(refund.tenders)
+  });
+
+  if (result.success) {
+    await overlayStore.markRefundSynced(order.id, refund.id, result.refundId);
+    return true;
+  }
+
+  await overlayStore.markRefundSyncFailed(order.id, refund.id);
+  return false;
+}
@@ -0,0 +1,288 @@
+/**
+ * REPORT SERVICE - X and Z Reports
+ *
+ * PURPOSE: Sales summary for a business day, built locally from the order
+ * overlays (OrderOverlayDB) and till sessions (TillDB) so it works offline.
+ * An X report is a mid-shift snapshot; a Z report is the end-of-day report
+ * that gets a sequential Z number and locks its business day.
+ *
+ * LINKS WITH:
+ * - Order Overlay Store: Paid orders, tender ledgers, refunds/voids
+ * - Till Store: Sessions, cash movements, expected drawer amount, Z records
+ * - Price Override Audit Store: Price overrides made on the day, per reason code
+ * - Pricing Engine: Tax by rate (same re-pricing as the receipt)
+ * - Receipt Service: generateReportReceipt prints at 58mm / 80mm
+ * - SalesReportModal: View, print and run reports
+ *
+ * RULES:
+ * - Business day = OverlayOrder.orderDate (YYYY-MM-DD); refunds, voids and cash
+ *   movements count on the day they happened
+ * - Sales figures are tax-exclusive; takings, refunds and tenders are money moved
+ * - Voids are reported apart from refunds (both come off net takings)
+ * - Per cashier = per till shift: tenders and refunds taken on the drawer
+ *   between the shift's start and its handover / close
+ * - Price overrides count on the day they were made (audit log, placed or not)
+ * - One Z report per business day - once taken the day is locked
+ * - A Z report needs every till opened that day closed (declared cash + variance)
+ */
+
+import type { OrderType, SalesReport, SalesReportType, TillSession, TillShift, ZReportRecord } from '@/types/pos';
+import { useOrderOverlayStore } from '@/lib/store/order-overlay';
+import { getBusinessDate, getCashMovementTotals, getTillShifts, useTillStore } from '@/lib/store/till';
+import { useAuthStore } from '@/lib/store/auth';
+import { usePriceOverrideAuditStore } from '@/lib/store/price-override-audit';
+import { calculateCartPricing, getBranchTaxConfig } from '@/lib/utils/pricing';
+import { multiplyMoney, roundMoney, subtractMoney, sumMoney } from '@/lib/utils/money';
+
+// Orders without a ledger were paid in full by their payment method ('online' = transfer)
+const toTenderMethod = (paymentMethod?: string): string =>
+  !paymentMethod || paymentMethod === 'online' ? 'mobile' : paymentMethod;
+
+// Timestamp falls in a cashier's shift (open shift runs until now)
+const isInShift = (shift: TillShift, timestamp: Date | string): boolean => {
+  const time = new Date(timestamp).getTime();
+  return time >= new Date(shift.startedAt).getTime() && (!shift.endedAt || time < new Date(shift.endedAt).getTime());
+};
+
+const addTo = <K extends string>(totals: Map<K, { count: number; amount: number }>, key: K, amount: number) => {
+  const entry = totals.get(key) || { count: 0, amount: 0 };
+  totals.set(key, { count: entry.count + 1, amount: sumMoney([entry.amount, amount]) });
+};
+
+/**
+ * Build an X or Z report for a business day (no side effects)
+ */
+export async function generateSalesReport(
+  type: SalesReportType,
+  businessDate: string = getBusinessDate()
+): Promise<SalesReport> {
+  const overlayStore = useOrderOverlayStore.getState();
+  await overlayStore.loadAll();
+  const allOrders = Object.values(useOrderOverlayStore.getState().overlays);
+  const orders = allOrders.filter(order => order.orderDate === businessDate && order.paymentStatus === 'paid');
+
+  // 🧾 Sales + tax by rate (re-priced with the rate/mode recorded on each order)
+  const taxByRate = new Map<number, { net: number; tax: number }>();
+  let grossSales = 0;
+  let discounts = 0;
+  let taxTotal = 0;
+  orders.forEach(order => {
+    const taxConfig = getBranchTaxConfig();
+    const pricing = calculateCartPricing(order.items, {
+      discount: order.discount,
+      serviceChargeRate: order.serviceChargeRate,
+      tip: order.tip,
+      surcharge: null,
+      taxConfig: { ...taxConfig, mode: order.taxMode ?? taxConfig.mode, rate: order.taxRate ?? taxConfig.rate }
+    });
+    grossSales = sumMoney([grossSales, pricing.subtotal, pricing.lineDiscount, pricing.promotionDiscount]);
+    discounts = sumMoney([discounts, pricing.lineDiscount, pricing.promotionDiscount, pricing.discount]);
+    taxTotal = sumMoney([taxTotal, pricing.tax]);
+    pricing.taxSummary.forEach(entry => {
+      const group = taxByRate.get(entry.rate) || { net: 0, tax: 0 };
+      taxByRate.set(entry.rate, { net: sumMoney([group.net, entry.net]), tax: sumMoney([group.tax, entry.tax]) });
+    });
+  });
+
+  // 💳 Tenders taken (ledger, or the whole total for orders without one)
+  const tenders = new Map<string, { count: number; amount: number; refunded: number }>();
+  const addTender = (method: string, amount: number, refunded = false) => {
+    const entry = tenders.get(method) || { count: 0, amount: 0, refunded: 0 };
+    tenders.set(method, refunded
+      ? { ...entry, refunded: sumMoney([entry.refunded, Math.abs(amount)]) }
+      : { ...entry, count: entry.count + 1, amount: sumMoney([entry.amount, amount]) });
+  };
+  orders.forEach(order => {
+    if (order.payments?.length) {
+      order.payments.filter(payment => !payment.refundOf).forEach(payment => addTender(payment.method, payment.amount));
+    } else {
+      addTender(toTenderMethod(order.paymentMethod), order.total);
+    }
+  });
+
+  // ↩️ Refunds and voids made on this day (any order)
+  const refunds = allOrders
+    .flatMap(order => order.refunds || [])
+    .filter(refund => getBusinessDate(refund.createdAt) === businessDate);
+  refunds.forEach(refund => refund.tenders.forEach(tender => addTender(tender.method, tender.amount, true)));
+  const voided = refunds.filter(refund => refund.isVoid);
+  const refunded = refunds.filter(refund => !refund.isVoid);
+
+  // 🍽️ Orders by type
+  const orderTypes = new Map<OrderType, { count: number; amount: number }>();
+  orders.forEach(order => addTo(orderTypes, order.orderType, order.total));
+
+  // 🏦 Till sessions opened on this day + their cash movements
+  const tillStore = useTillStore.getState();
+  const sessions = (await tillStore.getSessions()).filter(session => getBusinessDate(session.openedAt) === businessDate);
+  const sessionIds = new Set(sessions.map(session => session.id));
+  const dayMovements = (await tillStore.getAllCashMovements()).filter(movement => sessionIds.has(movement.tillSessionId));
+  const movements = getCashMovementTotals(dayMovements);
+  const tills = await Promise.all(sessions.map(async (session: TillSession) => {
+    const isCurrent = session.status === 'open' && tillStore.currentSession?.id === session.id;
+    const expectedCash = isCurrent
+      ? await tillStore.getExpectedTillAmount()
+      : session.systemClosingAmount ?? session.openingAmount;
+    const declaredCash = session.status === 'closed' ? session.declaredClosingAmount : undefined;
+    return {
+      tillSessionId: session.id,
+      userId: session.userId,
+      status: session.status,
+      openingAmount: session.openingAmount,
+      expectedCash,
+      declaredCash,
+      variance: declaredCash !== undefined ? subtractMoney(declaredCash, expectedCash) : undefined
+    };
+  }));
+  // 🔁 Per cashier: each shift on each drawer (a handover splits the session)
+  const cashiers = sessions.flatMap(session => getTillShifts(session).map(shift => {
+    const shiftTenders = new Map<string, number>();
+    const shiftOrders = new Set<string>();
+    orders.forEach(order => {
+      if (order.payments?.length) {
+        order.payments
+          .filter(payment => !payment.refundOf && payment.tillSessionId === session.id && isInShift(shift, payment.createdAt))
+          .forEach(payment => {
+            shiftOrders.add(order.id);
+            shiftTenders.set(payment.method, sumMoney([shiftTenders.get(payment.method) || 0, payment.amount]));
+          });
+      } else if (order.tillSessionId === session.id && isInShift(shift, order.updatedAt)) {
+        const method = toTenderMethod(order.paymentMethod);
+        shiftOrders.add(order.id);
+        shiftTenders.set(method, sumMoney([shiftTenders.get(method) || 0, order.total]));
+      }
+    });
+    const shiftRefunds = refunds
+      .flatMap(refund => refund.tenders)
+      .filter(tender => tender.tillSessionId === session.id && isInShift(shift, tender.createdAt));
+    return {
+      userId: shift.userId,
+      userName: shift.userName,
+      tillSessionId: session.id,
+      startedAt: new Date(shift.startedAt).toISOString(),
+      endedAt: shift.endedAt ? new Date(shift.endedAt).toISOString() : undefined,
+      orderCount: shiftOrders.size,
+      takings: sumMoney(Array.from(shiftTenders.values())),
+      tenders: Array.from(shiftTenders.entries()).map(([method, amount]) => ({ method, amount })),
+      refunds: -sumMoney(shiftRefunds.map(tender => tender.amount)),
+      variance: shift.variance
+    };
+  }));
+
+  // 💲 Price overrides from the audit log (value taken off the menu price)
+  const overrideEntries = await usePriceOverrideAuditStore.getState().getEntriesForDate(businessDate);
+  const overrides = overrideEntries.filter(entry => entry.action === 'override');
+  const overridesByReason = new Map<string, { count: number; amount: number }>();
+  overrides.forEach(entry => {
+    addTo(overridesByReason, entry.reason, multiplyMoney(subtractMoney(entry.originalPrice, entry.price), entry.quantity));
+  });
+
+  const allClosed = tills.length > 0 && tills.every(till => till.declaredCash !== undefined);
+  const expectedCash = sumMoney(tills.map(till => till.expectedCash));
+  const declaredCash = allClosed ? sumMoney(tills.map(till => till.declaredCash || 0)) : undefined;
+
+  const takings = sumMoney(orders.map(order => order.total));
+  const refundTotal = sumMoney(refunded.map(refund => refund.amount));
+  const voidTotal = sumMoney(voided.map(refund => refund.amount));
+  const user = useAuthStore.getState().user;
+
+  const report: SalesReport = {
+    type,
+    businessDate,
+    generatedAt: new Date().toISOString(),
+    generatedBy: user?.name,
+    posId: user?.posId,
+    orderCount: orders.length,
+    grossSales,
+    discounts,
+    netSales: subtractMoney(grossSales, discounts),
+    serviceCharge: sumMoney(orders.map(order => order.serviceCharge || 0)),
+    tips: sumMoney(orders.map(order => order.tip || 0)),
+    surcharges: sumMoney(orders.map(order => order.surcharge || 0)),
+    cashRounding: sumMoney(orders.map(order => order.roundingAdjustment || 0)),
+    taxTotal,
+    taxByRate: Array.from(taxByRate.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([rate, group]) => ({ rate, net: roundMoney(group.net), tax: roundMoney(group.tax) })),
+    takings,
+    refunds: { count: refunded.length, amount: refundTotal },
+    voids: { count: voided.length, amount: voidTotal },
+    priceOverrides: {
+      count: overrides.length,
+      amount: sumMoney(Array.from(overridesByReason.values()).map(entry => entry.amount)),
+      restored: overrideEntries.length - overrides.length,
+      byReason: Array.from(overridesByReason.entries()).map(([reason, entry]) => ({ reason, ...entry }))
+    },
+    netTakings: subtractMoney(takings, sumMoney([refundTotal, voidTotal])),
+    tenders: Array.from(tenders.entries()).map(([method, entry]) => ({ method, ...entry })),
+    orderTypes: Array.from(orderTypes.entries()).map(([orderType, entry]) => ({ orderType, count: entry.count, total: entry.amount })),
+    cashMovements: {
+      count: dayMovements.length,
+      payIns: movements.payIns,
+      payOuts: movements.payOuts,
+      safeDrops: movements.safeDrops
+    },
+    tills,
+    cashiers,
+    expectedCash,
+    declaredCash,
+    cashVariance: declaredCash !== undefined ? subtractMoney(declaredCash, expectedCash) : undefined
+  };
+
+  console.log(`📊 [REPORTS] ${type} report for ${businessDate}:`, {
+    orders: report.orderCount,
+    netSales: report.netSales,
+    netTakings: report.netTakings
+  });
+  return report;
+}
+
+/**
+ * End of day: Z report with the next Z number - locks the business day
+ */
+export async function runZReport(closedBy?: string, note?: string): Promise<{ success: boolean; record?: ZReportRecord; error?: string }> {
+  try {
+    const businessDate = getBusinessDate();
+    const tillStore = useTillStore.getState();
+
+    const existing = await tillStore.getZReportForDate(businessDate);
+    if (existing) {
+      return { success: false, error: `Business day ${businessDate} already has Z #${existing.zNumber}` };
+    }
+
+    // 🏦 Drawers still open would have no declared cash / variance and be locked out of the day
+    const openTills = (await tillStore.getSessions()).filter(session =>
+      session.status === 'open' && getBusinessDate(session.openedAt) === businessDate
+    );
+    if (openTills.length > 0) {
+      const names = openTills.map(session => {
+        const cashier = getTillShifts(session).slice(-1)[0]?.userName;
+        return `POS ${session.posId}${cashier ? ` (${cashier})` : ''}`;
+      });
+      return { success: false, error: `Close the open tills before the Z report: ${names.join(', ')}` };
+    }
+
+    const report = await generateSalesReport('Z', businessDate);
+    const record = await tillStore.saveZReport({
+      businessDate,
+      posId: report.posId,
+      closedBy,
+      note,
+      closedAt: new Date(),
+      report
+    });
+
+    console.log('🔒 [REPORTS] Business day locked:', businessDate, 'Z #' + record.zNumber);
+    return { success: true, record };
+  } catch (error) {
+    console.error('❌ [REPORTS] Z report failed:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Z report failed' };
+  }
+}
+
+/**
+ * Z report that locked a business day (null = day still open)
+ */
+export async function getBusinessDayLock(businessDate: string = getBusinessDate()): Promise<ZReportRecord | null> {
+  return useTillStore.getState().getZReportForDate(businessDate);
+}
@@ -0,0 +1,181 @@
+/**
+ * SPLIT CHECK SERVICE - One Order Into Separate Checks
+ *
+ * PURPOSE: Save a split built on the split screen - every check becomes its
+ * own OverlayOrder on the same slot, so each one is tendered, printed and
+ * synced on its own.
+ *
+ * LINKS WITH:
+ * - SplitCheckModal: Builds the checks (lib/utils/splitCheck)
+ * - Order Overlay Store: checkNumber / splitFromOrderId, getSlotChecks
+ * - Pricing Engine: Each check is priced on its own lines (tax, service charge)
+ * - Payment Overlay: Paying a check hands the slot to the next open check
+ *
+ * RULES:
+ * - Check 1 keeps the original order id, its payments, paid lines and voucher codes
+ *   (codes are re-priced on check 1's lines)
+ * - A manual order discount is shared across the checks in proportion to what each costs
+ * - Promotions follow their lines; a split is refused when check 1 would cost less
+ *   than what is already paid
+ * - Checks 2..n get new order numbers and link back to the first order split on the slot
+ * - Splitting a check again numbers the new checks after the slot's existing ones
+ */
+
+import type { AppliedPromotion, AppliedVoucher, OrderItem } from '@/types/pos';
+import { useOrderOverlayStore, type OverlayOrder } from '@/lib/store/order-overlay';
+import { useAuthStore } from '@/lib/store/auth';
+import { generateOrderNumber } from '@/lib/utils/posUtils';
+import { applyLineTax, calculateCartPricing, type PricingBreakdown } from '@/lib/utils/pricing';
+import { validateChecks } from '@/lib/utils/splitCheck';
+import { priceVouchers } from '@/lib/utils/vouchers';
+import { getAmountPaid } from '@/lib/utils/payments';
+import { allocateMoney, compareMoney, sumMoney } from '@/lib/utils/money';
+import { formatCurrency } from '@/lib/utils/format';
+
+export interface SplitOrderResult {
+  success: boolean;
+  checks?: OverlayOrder[]; // Saved checks, check 1 first
+  error?: string;
+}
+
+export interface PricedCheck {
+  items: OrderItem[];
+  pricing: PricingBreakdown;
+  promotions: AppliedPromotion[];
+  vouchers: AppliedVoucher[];
+}
+
+/**
+ * Promotions on a check's lines (shared lines carry their part of the promotion)
+ */
+const getCheckPromotions = (promotions: AppliedPromotion[] = [], items: OrderItem[]): AppliedPromotion[] =>
+  promotions
+    .map(promotion => {
+      const lines = items.filter(item => item.uniqueId && promotion.lineIds.some(lineId =>
+        item.uniqueId === lineId || item.uniqueId!.startsWith(`${lineId}-split-`)
+      ));
+      return {
+        ...promotion,
+        lineIds: lines.map(line => line.uniqueId!),
+        amount: sumMoney(lines.map(line => line.promotionDiscount || 0))
+      };
+    })
+    .filter(promotion => promotion.lineIds.length > 0);
+
+/**
+ * Price every check - voucher codes re-priced on check 1, a manual discount shared by what each check costs
+ */
+export const priceChecks = (order: OverlayOrder, checks: OrderItem[][]): PricedCheck[] => {
+  const serviceChargeRate = order.serviceChargeRate;
+  // 🎁 Gift card sales are stored value - codes never discount them (same base as the cart)
+  const vouchers = order.vouchers?.length
+    ? priceVouchers(order.vouchers, calculateCartPricing(checks[0].filter(item => !item.giftCard)).total)
+    : [];
+  const discounts = vouchers.length > 0
+    ? checks.map((_items, index) => index === 0 ? sumMoney(vouchers.map(voucher => voucher.amount)) : 0)
+    : allocateMoney(order.discount ?? 0, checks.map(items => calculateCartPricing(items, { serviceChargeRate }).total));
+
+  return checks.map((items, index) => ({
+    items,
+    pricing: calculateCartPricing(items, { discount: discounts[index], serviceChargeRate }),
+    promotions: getCheckPromotions(order.promotions, items),
+    vouchers: index === 0 ? vouchers : []
+  }));
+};
+
+/**
+ * Save a priced check as an overlay
+ */
+const saveCheck = async (
+  order: OverlayOrder,
+  check: PricedCheck,
+  params: { orderId: string; checkNumber: number; splitFromOrderId?: string; keepOrderLevel: boolean }
+): Promise<OverlayOrder> => {
+  const { pricing } = check;
+  const user = useAuthStore.getState().user;
+
+  return useOrderOverlayStore.getState().upsertFromCart({
+    orderId: params.orderId,
+    slotId: order.slotId,
+    orderType: order.orderType,
+    items: applyLineTax(check.items, pricing),
+    customer: order.customer,
+    total: pricing.total,
+    subtotal: pricing.subtotal,
+    tax: pricing.tax,
+    taxRate: pricing.taxRate,
+    promotions: check.promotions,
+    discount: pricing.discount,
+    vouchers: check.vouchers,
+    serviceCharge: pricing.serviceCharge,
+    serviceChargeRate: pricing.serviceChargeRate,
+    covers: order.covers,
+    checkNumber: params.checkNumber,
+    splitFromOrderId: params.splitFromOrderId,
+    payments: params.keepOrderLevel ? order.payments : [],
+    paymentMethod: params.keepOrderLevel ? order.paymentMethod : undefined,
+    paymentStatus: params.keepOrderLevel ? order.paymentStatus : 'unpaid',
+    status: 'active',
+    specialInstructions: order.specialInstructions,
+    placedAt: params.keepOrderLevel ? order.placedAt : new Date(),
+    branchId: order.branchId || user?.branchId,
+    posId: order.posId || user?.posId,
+    tillSessionId: order.tillSessionId
+  });
+};
+
+/**
+ * Split an order into checks (index 0 stays on the order, the rest become new orders)
+ */
+export const splitOrder = async (orderId: string, checks: OrderItem[][]): Promise<SplitOrderResult> => {
+  const order = useOrderOverlayStore.getState().getByOrderId(orderId);
+  if (!order) return { success: false, error: 'Order not found' };
+  if (order.status === 'completed') return { success: false, error: 'Order is already completed' };
+
+  const error = validateChecks(checks);
+  if (error) return { success: false, error };
+
+  // 💳 Payments stay on check 1 - it can't end up costing less than what is already paid
+  const priced = priceChecks(order, checks);
+  const amountPaid = getAmountPaid(order.payments);
+  if (compareMoney(amountPaid, priced[0].pricing.total) > 0) {
+    return {
+      success: false,
+      error: `Check 1 holds the payments (${formatCurrency(amountPaid)}) - leave at least that much on it (now ${formatCurrency(priced[0].pricing.total)})`
+    };
+  }
+
+  try {
+    const existingChecks = await useOrderOverlayStore.getState().getSlotChecks(order.slotId);
+    const rootOrderId = order.splitFromOrderId ?? order.id;
+    const firstNumber = order.checkNumber ?? 1;
+    let nextNumber = Math.max(firstNumber, ...existingChecks.map(check => check.checkNumber ?? 0)) + 1;
+
+    const saved: OverlayOrder[] = [];
+    saved.push(await saveCheck(order, priced[0], {
+      orderId: order.id,
+      checkNumber: firstNumber,
+      splitFromOrderId: order.splitFromOrderId,
+      keepOrderLevel: true
+    }));
+
+    for (const check of priced.slice(1)) {
+      saved.push(await saveCheck(order, check, {
+        orderId: generateOrderNumber(),
+        checkNumber: nextNumber++,
+        splitFromOrderId: rootOrderId,
+        keepOrderLevel: false
+      }));
+    }
+
+    console.log('✂️ [SPLIT CHECK] Order split:', {
+      orderId,
+      slotId: order.slotId,
+      checks: saved.map(check => `#${check.checkNumber} ${check.id} ${check.total}`)
+    });
+    return { success: true, checks: saved };
+  } catch (splitError) {
+    console.error('❌ [SPLIT CHECK] Failed to split order:', splitError);
+    return { success: false, error: splitError instanceof Error ? splitError.message : 'Split failed' };
+  }
+};
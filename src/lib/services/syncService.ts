@@ -7,12 +7,21 @@
  * - Automatic online/offline detection
  * - Background sync every 30 seconds when online
  * - Retry failed syncs with exponential backoff
+ * - Refunds sync after their order (they need the backend order id)
+ * - Gift card ledger entries sync on their own endpoint every run
+ * - Price override audit entries sync on their own endpoint every run
+ * - Voucher redemptions still pending (e.g. released by a void) sync every run
  */
 
 import { create } from 'zustand';
 import { useOrderOverlayStore } from '@/lib/store/order-overlay';
+import { useVoucherLedgerStore } from '@/lib/store/voucher-ledger';
+import { useGiftCardStore } from '@/lib/store/gift-cards';
+import { usePriceOverrideAuditStore } from '@/lib/store/price-override-audit';
 import { getCurrentDeviceId } from '@/lib/utils/posUtils';
 import { logger } from '@/lib/utils/logger';
+import { getAmountPaid, toBackendPayments } from '@/lib/utils/payments';
+import { syncRefund } from '@/lib/services/refundService';
 
 interface SyncConfig {
   apiBaseUrl: string;
@@ -85,6 +94,10 @@ class POSSyncService {
 
       if (pendingOrders.length === 0) {
         console.log('✅ [SYNC] No pending orders to sync');
+        await this.syncPendingRefunds();
+        await this.syncGiftCardLedger();
+        await this.syncPriceOverrideAudit();
+        await this.syncVoucherRedemptions();
         syncStatus.setSyncing(false);
         return { success: 0, failed: 0 };
       }
@@ -100,6 +113,7 @@ class POSSyncService {
           const success = await this.syncSingleOrder(order);
           if (success) {
             await overlayStore.markOrderSynced(order.id);
+            await useVoucherLedgerStore.getState().markOrderRedemptionsSynced(order.id);
             successCount++;
           } else {
             const attempts = (order.syncAttempts || 0) + 1;
@@ -117,6 +131,11 @@ class POSSyncService {
         await new Promise(resolve => setTimeout(resolve, 100));
       }
 
+      await this.syncPendingRefunds();
+      await this.syncGiftCardLedger();
+      await this.syncPriceOverrideAudit();
+      await this.syncVoucherRedemptions();
+
       console.log(`✅ [SYNC] Sync complete: ${successCount} success, ${failedCount} failed`);
       syncStatus.setLastSyncTime(new Date());
       await this.updateSyncCounts();
@@ -129,6 +148,65 @@ class POSSyncService {
     }
   }
 
+  /**
+   * ↩️ Sync refunds recorded offline (only once their order is on the backend)
+   */
+  private async syncPendingRefunds(): Promise<void> {
+    const pendingRefunds = await useOrderOverlayStore.getState().getPendingSyncRefunds();
+    if (pendingRefunds.length === 0) return;
+
+    console.log(`📤 [SYNC] Found ${pendingRefunds.length} refunds to sync`);
+    for (const { order, refund } of pendingRefunds) {
+      try {
+        await syncRefund(order, refund);
+      } catch (error) {
+        console.error(`❌ [SYNC] Error syncing refund ${refund.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Push gift card / store credit ledger entries recorded offline
+   */
+  private async syncGiftCardLedger(): Promise<void> {
+    try {
+      const result = await useGiftCardStore.getState().syncPendingEntries();
+      if (result.success || result.failed) {
+        console.log(`🎁 [SYNC] Gift card ledger: ${result.success} synced, ${result.failed} failed`);
+      }
+    } catch (error) {
+      console.error('❌ [SYNC] Error syncing gift card ledger:', error);
+    }
+  }
+
+  /**
+   * Push price override audit entries recorded offline
+   */
+  private async syncPriceOverrideAudit(): Promise<void> {
+    try {
+      const result = await usePriceOverrideAuditStore.getState().syncPendingEntries();
+      if (result.success || result.failed) {
+        console.log(`💲 [SYNC] Price override audit: ${result.success} synced, ${result.failed} failed`);
+      }
+    } catch (error) {
+      console.error('❌ [SYNC] Error syncing price override audit:', error);
+    }
+  }
+
+  /**
+   * Push voucher redemptions still pending (released codes, orders not synced yet)
+   */
+  private async syncVoucherRedemptions(): Promise<void> {
+    try {
+      const result = await useVoucherLedgerStore.getState().syncPendingRedemptions();
+      if (result.success || result.failed) {
+        console.log(`🎟️ [SYNC] Voucher redemptions: ${result.success} synced, ${result.failed} failed`);
+      }
+    } catch (error) {
+      console.error('❌ [SYNC] Error syncing voucher redemptions:', error);
+    }
+  }
+
   /**
    * Update sync counts in status store
    * Call this whenever orders are created/paid to keep UI in sync
@@ -210,7 +288,7 @@ class POSSyncService {
             tillSessionId: order.tillSessionId,
             customerName: order.customer?.name || 'Walk-in',
             notes: order.specialInstructions || order.customer?.specialInstructions,
-            items: order.items?.map((item: any) => ({
+            items: order.items?.filter((item: any) => !item.giftCard).map((item: any) => ({
               menuItemId: item.id,
               quantity: item.quantity,
               notes: [
@@ -218,8 +296,39 @@ class POSSyncService {
                 item.modifiers?.notes,
                 item.modifiers?.variations?.map((v: any) => v.name).join(', '),
                 item.modifiers?.addOns?.map((a: any) => a.name).join(', ')
-              ].filter(Boolean).join(' | ') || undefined
-            })) || []
+              ].filter(Boolean).join(' | ') || undefined,
+              // 🧾 Per-line tax recorded by pricing engine at order time
+              taxClassId: item.taxClassId,
+              taxRate: item.taxRate,
+              taxAmount: item.taxAmount,
+              discountAmount: item.lineDiscount?.amount,
+              discountReason: item.lineDiscount?.reason,
+              // 💲 Cashier price override (audit entries sync separately)
+              priceOverride: item.priceOverride ? {
+                originalPrice: item.priceOverride.originalPrice,
+                price: item.priceOverride.price,
+                reason: item.priceOverride.reason,
+                approvedBy: item.priceOverride.approvedBy
+              } : undefined,
+              promotionAmount: item.promotionDiscount
+            })) || [],
+            // 🎁 Gift cards sold / topped up (stored value, not menu items)
+            giftCardLoads: order.items?.some((item: any) => item.giftCard)
+              ? order.items.filter((item: any) => item.giftCard).map((item: any) => ({ code: item.giftCard.code, kind: item.giftCard.kind, amount: item.total }))
+              : undefined,
+            // 🎟️ Order discount + voucher codes (redemptions sync with the order)
+            discountAmount: order.discount || undefined,
+            voucherCodes: order.vouchers?.length ? order.vouchers.map((voucher: any) => voucher.code) : undefined,
+            // 🍽️ Service charge + tip (totalled separately in till close-out)
+            serviceChargeAmount: order.serviceCharge || undefined,
+            tipAmount: order.tip || undefined,
+            surchargeAmount: order.surcharge || undefined,
+            surchargeLabel: order.surcharge ? order.surchargeLabel : undefined,
+            roundingAdjustment: order.roundingAdjustment || undefined,
+            // 💳 Tender ledger (orders without one were paid in full by their payment method)
+            paymentMethod: order.paymentMethod,
+            amountPaid: order.payments?.length ? getAmountPaid(order.payments) : order.total,
+            payments: order.payments?.length ? toBackendPayments(order.payments) : undefined
           })
         });
 
@@ -26,6 +26,7 @@ export interface AuthStore {
   // Actions
   login: (credentials: { email: string; password: string }) => Promise<void>;
   loginWithPin: (employeeId: string, pin: string, role: 'cashier' | 'manager' | 'waiter') => Promise<void>;
+  handoverLogin: (employeeId: string, pin: string) => Promise<{ success: boolean; user?: User; error?: string }>; // Till handover
   refreshUser: () => Promise<void>; // Fetch fresh user data from ME API
   logout: () => void;
   clearError: () => void;
@@ -179,6 +180,41 @@ export const useAuthStore = create<AuthStore>()(
         }
       },
 
+      // 🔁 Incoming cashier on a shared till - a failed PIN keeps the outgoing cashier signed in
+      handoverLogin: async (employeeId: string, pin: string) => {
+        const currentUser = get().user;
+        try {
+          const enableMock = process.env.NEXT_PUBLIC_ENABLE_MOCK_DATA === 'true';
+          console.log('🔐 [AUTH STORE] Handover login...', { employeeId, enableMock });
+
+          const response = enableMock
+            ? await loginWithPinMock(employeeId, pin, 'cashier')
+            : await loginWithPin(employeeId, pin, 'cashier');
+
+          if (!response.success || !response.token || !response.user) {
+            return { success: false, error: response.error || response.message || 'Authentication failed' };
+          }
+          if (currentUser?.branchId && response.user.branchId && response.user.branchId !== currentUser.branchId) {
+            return { success: false, error: 'Cashier belongs to a different branch' };
+          }
+
+          setAuthToken(response.token);
+          const user: User = {
+            ...response.user,
+            branchId: response.user.branchId || currentUser?.branchId,
+            branchName: currentUser?.branchName,
+            posId: response.user.posId || currentUser?.posId // Same terminal, same drawer
+          };
+          set({ user, token: response.token, isAuthenticated: true, error: null });
+
+          console.log('✅ [AUTH STORE] Handover login successful:', { from: currentUser?.id, to: user.id });
+          return { success: true, user };
+        } catch (error) {
+          console.error('❌ [AUTH STORE] Handover login error:', error);
+          return { success: false, error: error instanceof Error ? error.message : 'Login failed' };
+        }
+      },
+
       refreshUser: async () => {
         console.log('🔄 [AUTH STORE] Refreshing user data from ME API...');
 
@@ -11,9 +11,15 @@
 
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
-import { MenuItem, CartItemModifiers, CustomerInfo, OrderType } from '@/types/pos';
+import { MenuItem, CartItemModifiers, CustomerInfo, OrderType, LineDiscount, PriceOverride, AppliedPromotion, AppliedVoucher, SplitShare, Course } from '@/types/pos';
 import { discardOrderNumber, generateOrderNumber } from '@/lib/utils/posUtils';
 import { syncCartToOverlay, removeOrderOverlay } from '@/lib/services/cartSyncService';
+import { calculateCartPricing, applyLineTax, resolveServiceChargeRate } from '@/lib/utils/pricing';
+import { evaluatePromotions } from '@/lib/utils/promotions';
+import { allowsLineDiscounts, allowsPromotions, priceVouchers } from '@/lib/utils/vouchers';
+import { useUnifiedSlotStore } from '@/lib/store/unified-slots';
+import { multiplyMoney, subtractMoney, sumMoney } from '@/lib/utils/money';
+import { needsPriceEntry, roundWeight } from '@/lib/utils/itemPricing';
 
 // Core interfaces
 export interface CartItem extends MenuItem {
@@ -31,6 +37,28 @@ export interface CartItem extends MenuItem {
 
   // 🎯 PROFESSIONAL: Modifier upgrade items (non-editable)
   isModifierUpgrade?: boolean; // True if this is a differential charge item (cannot be edited directly)
+
+  // 🧾 Per-line tax from pricing engine (recalculated on every cart change)
+  taxRate?: number;
+  taxAmount?: number;
+
+  // 🏷️ Cashier line discount (amount recalculated by pricing engine on every cart change)
+  lineDiscount?: LineDiscount;
+
+  // 💲 Cashier price override (price = overridden price, original kept for audit)
+  priceOverride?: PriceOverride;
+
+  // 🎁 Automatic promotion amount on this line (set by promotions engine)
+  promotionDiscount?: number;
+
+  // ✂️ Part of a line shared across split checks
+  splitShare?: SplitShare;
+
+  // 🍽️ Seat / course (dine-in) - held courses wait for "fire course" (lib/utils/coursing)
+  seat?: number;
+  course?: Course;
+  courseHeld?: boolean;
+  firedAt?: string;
 }
 
 export interface CartState {
@@ -43,6 +71,10 @@ export interface CartState {
   orderType: OrderType | null;
   slotId: string | null;
   orderId: string | null; // BULLETPROOF: Single source of truth for order ID
+  promotions?: AppliedPromotion[]; // Automatic promotions applied on last cart change
+  vouchers?: AppliedVoucher[];     // Voucher codes - re-priced on every cart change, their sum is `discount`
+  serviceCharge?: number;          // Automatic service charge (order type + covers), included in `total`
+  serviceChargeRate?: number;
 }
 
 export interface CartStore {
@@ -60,8 +92,16 @@ export interface CartStore {
   setOrderType: (orderType: string) => void;
   setCustomer: (customer: CustomerInfo) => void;
   applyDiscount: (discount: number) => void;
+  applyItemDiscount: (uniqueId: string, lineDiscount: LineDiscount | null) => void; // null removes the discount
+  overrideItemPrice: (uniqueId: string, priceOverride: PriceOverride | null) => void; // null restores the menu price
+  applyVoucher: (voucher: AppliedVoucher) => void; // Validated code (see lib/utils/vouchers)
+  removeVoucher: (code: string) => void;
+  setCovers: (covers: number | undefined) => void; // Table covers (slot customerCount) - drives service charge
+  setItemCoursing: (uniqueId: string, coursing: { seat?: number; course?: Course }) => void; // undefined clears
+  setCourseHold: (course: Course, held: boolean) => void; // Hold / release every unfired line of a course
+  setLineEntry: (uniqueId: string, entry: { price?: number; quantity?: number }) => void; // Open-price / weight line re-entered
   setOrderId: (orderId: string) => void; // BULLETPROOF: Set order ID for cart
-  loadExistingOrder: (orderItems: any[], customer?: CustomerInfo, orderType?: OrderType, paymentStatus?: 'paid' | 'unpaid' | 'mixed', orderId?: string) => void;
+  loadExistingOrder: (orderItems: any[], customer?: CustomerInfo, orderType?: OrderType, paymentStatus?: 'paid' | 'unpaid' | 'mixed', orderId?: string, pricing?: { discount?: number; vouchers?: AppliedVoucher[] }) => void;
 
   // Getters
   getCurrentCart: () => CartState;
@@ -70,20 +110,110 @@ export interface CartStore {
   getCartTotal: () => number;
 }
 
-// Helper function to calculate item price
+// Helper function to calculate item price (exact - summed in currency minor units)
 const calculateItemPrice = (item: MenuItem, modifiers: CartItemModifiers): number => {
-  let price = item.price;
-  
-  // Add modifier prices
-  if (modifiers.variations && modifiers.variations.length > 0) {
-    price += modifiers.variations.reduce((sum, mod) => sum + (mod.price || 0), 0);
-  }
-  
-  if (modifiers.addOns && modifiers.addOns.length > 0) {
-    price += modifiers.addOns.reduce((sum, mod) => sum + (mod.price || 0), 0);
+  return sumMoney([
+    item.price,
+    // Add modifier prices
+    ...(modifiers.variations || []).map(mod => mod.price || 0),
+    ...(modifiers.addOns || []).map(mod => mod.price || 0)
+  ]);
+};
+
+// 🍽️ Seat / course changes don't re-price - the cart's totals are synced as they are
+const syncCoursingToOverlay = (slotId: string, cart: CartState) => {
+  if (!cart.orderId || cart.items.length === 0) return;
+  syncCartToOverlay({
+    orderId: cart.orderId,
+    slotId,
+    orderType: cart.orderType || 'dine-in',
+    items: cart.items,
+    customer: cart.customer,
+    total: cart.total,
+    subtotal: cart.subtotal,
+    tax: cart.tax,
+    promotions: cart.promotions,
+    discount: cart.discount,
+    vouchers: cart.vouchers,
+    serviceCharge: cart.serviceCharge,
+    serviceChargeRate: cart.serviceChargeRate,
+    paymentStatus: 'unpaid',
+    status: 'active'
+  }).catch(error => {
+    console.error('❌ [CART] Sync failed for seat / course change:', error);
+  });
+};
+
+// Promotions only apply to unpaid lines without a cashier discount (paid lines keep what they paid)
+const isPromotionEligible = (item: CartItem): boolean =>
+  !item.isPaid && !item.isModifierUpgrade && !item.lineDiscount && !item.giftCard;
+
+// Helper function to calculate cart totals via the pricing engine (branch tax config)
+// Re-evaluates automatic promotions, voucher amounts and the service charge (order
+// type + the slot's covers), then returns items with per-line tax (rate/amount) so
+// mixed-rate baskets stay itemised
+const calculateCartTotals = (
+  items: CartItem[],
+  discount: number,
+  orderType?: OrderType | null,
+  vouchers: AppliedVoucher[] = [],
+  slotId?: string | null
+): {
+  items: CartItem[];
+  subtotal: number;
+  tax: number;
+  total: number;
+  promotions: AppliedPromotion[];
+  discount: number;
+  vouchers?: AppliedVoucher[];
+  serviceCharge: number;
+  serviceChargeRate: number;
+} => {
+  // 🎟️ Stacking: codes that don't combine with promotions switch them off
+  const promotionsAllowed = allowsPromotions(vouchers);
+  const promotionResult = evaluatePromotions(
+    (promotionsAllowed ? items.filter(isPromotionEligible) : []).map(item => ({
+      id: item.uniqueId,
+      itemId: item.id,
+      name: item.name,
+      category: item.category,
+      quantity: item.quantity,
+      lineTotal: item.totalPrice
+    })),
+    { orderType }
+  );
+
+  const promotedItems = items.map(item => {
+    if (item.isPaid) return item;
+    const promotionDiscount = isPromotionEligible(item) ? promotionResult.lineDiscounts[item.uniqueId] : undefined;
+    return { ...item, promotionDiscount: promotionDiscount || undefined };
+  });
+
+  // Voucher amounts follow the order total (percentage codes, minimum order)
+  let orderDiscount = discount;
+  let pricedVouchers: AppliedVoucher[] | undefined;
+  if (vouchers.length > 0) {
+    // 🎁 Gift card sales are stored value - codes never discount them
+    pricedVouchers = priceVouchers(vouchers, calculateCartPricing(promotedItems.filter(item => !item.giftCard)).total);
+    orderDiscount = sumMoney(pricedVouchers.map(voucher => voucher.amount));
   }
-  
-  return price;
+
+  // 🍽️ Service charge: per order type, only from the configured cover count
+  const covers = slotId ? useUnifiedSlotStore.getState().slots[slotId]?.customerCount : undefined;
+  const serviceChargeRate = resolveServiceChargeRate(orderType, covers);
+
+  const pricing = calculateCartPricing(promotedItems, { discount: orderDiscount, serviceChargeRate });
+  return {
+    items: applyLineTax(promotedItems, pricing),
+    subtotal: pricing.subtotal,
+    tax: pricing.tax,
+    total: pricing.total,
+    promotions: promotionResult.applied,
+    discount: orderDiscount,
+    vouchers: pricedVouchers,
+    serviceCharge: pricing.serviceCharge,
+    serviceChargeRate: pricing.serviceChargeRate
+  };
 };
 
 // Helper function to generate unique ID
@@ -133,7 +263,7 @@ export const useCartStore = create<CartStore>()(
 
       const uniqueId = generateUniqueId(item);
       const itemPrice = calculateItemPrice(item, modifiers);
-      const totalPrice = itemPrice * quantity;
+      const totalPrice = multiplyMoney(itemPrice, quantity);
 
       const newItem: CartItem = {
         ...item,
@@ -145,29 +275,31 @@ export const useCartStore = create<CartStore>()(
 
       set((state) => {
         const currentCart = state.carts[state.currentSlotId!];
+        // Overridden, discounted and split-share lines keep their own pricing - a repeat goes on a new line
         const existingItemIndex = currentCart.items.findIndex(
           cartItem => cartItem.id === item.id &&
-          JSON.stringify(cartItem.modifiers) === JSON.stringify(modifiers)
+          JSON.stringify(cartItem.modifiers) === JSON.stringify(modifiers) &&
+          !cartItem.priceOverride && !cartItem.lineDiscount && !cartItem.splitShare
         );
 
         let newItems: CartItem[];
-        const shouldMerge = !options?.keepSeparate;
+        // ⚖️ Open-price / weight lines each keep their own entered price or weight
+        const shouldMerge = !options?.keepSeparate && !needsPriceEntry(item);
         if (existingItemIndex >= 0 && shouldMerge) {
-          // Update existing item quantity
+          // Update existing item quantity (priced from the line's own unit price)
+          const existingItem = currentCart.items[existingItemIndex];
           newItems = [...currentCart.items];
           newItems[existingItemIndex] = {
-            ...newItems[existingItemIndex],
-            quantity: newItems[existingItemIndex].quantity + quantity,
-            totalPrice: itemPrice * (newItems[existingItemIndex].quantity + quantity)
+            ...existingItem,
+            quantity: existingItem.quantity + quantity,
+            totalPrice: multiplyMoney(calculateItemPrice(existingItem, modifiers), existingItem.quantity + quantity)
           };
         } else {
           // Add new item
           newItems = [...currentCart.items, newItem];
         }
 
-        const subtotal = newItems.reduce((sum, cartItem) => sum + cartItem.totalPrice, 0);
-        const tax = subtotal * 0.1;
-        const total = subtotal + tax - currentCart.discount;
+        const { items: pricedItems, subtotal, tax, total, promotions, discount, vouchers, serviceCharge, serviceChargeRate } = calculateCartTotals(newItems, currentCart.discount, currentCart.orderType, currentCart.vouchers, state.currentSlotId);
 
         // Fast synchronous order ID generation - existing orders keep their ID
         let orderId = currentCart.orderId;
@@ -177,10 +309,15 @@ export const useCartStore = create<CartStore>()(
 
         const updatedCart = {
           ...currentCart,
-          items: newItems,
+          items: pricedItems,
           subtotal,
           tax,
           total,
+          promotions,
+          discount,
+          vouchers,
+          serviceCharge,
+          serviceChargeRate,
           orderId
         };
 
@@ -190,11 +327,16 @@ export const useCartStore = create<CartStore>()(
             orderId,
             slotId: state.currentSlotId!,
             orderType: currentCart.orderType || 'dine-in',
-            items: newItems,
+            items: pricedItems,
             customer: currentCart.customer,
             total,
             subtotal,
             tax,
+            promotions,
+            discount,
+            vouchers,
+            serviceCharge,
+            serviceChargeRate,
             paymentStatus: 'unpaid',
             status: 'active'
           }).catch(error => {
@@ -219,16 +361,19 @@ export const useCartStore = create<CartStore>()(
         const currentCart = state.carts[state.currentSlotId!];
         const newItems = currentCart.items.filter(item => item.uniqueId !== uniqueId);
 
-        const subtotal = newItems.reduce((sum, cartItem) => sum + cartItem.totalPrice, 0);
-        const tax = subtotal * 0.1;
-        const total = subtotal + tax - currentCart.discount;
+        const { items: pricedItems, subtotal, tax, total, promotions, discount, vouchers, serviceCharge, serviceChargeRate } = calculateCartTotals(newItems, currentCart.discount, currentCart.orderType, currentCart.vouchers, state.currentSlotId);
 
         const newCart: CartState = {
           ...currentCart,
-          items: newItems,
+          items: pricedItems,
           subtotal,
           tax,
-          total
+          total,
+          promotions,
+          discount,
+          vouchers,
+          serviceCharge,
+          serviceChargeRate
         };
 
         // ⚡ PHASE 1: Use centralized sync service
@@ -245,11 +390,16 @@ export const useCartStore = create<CartStore>()(
               orderId,
               slotId: state.currentSlotId!,
               orderType: currentCart.orderType || 'dine-in',
-              items: newItems,
+              items: pricedItems,
               customer: currentCart.customer,
               total,
               subtotal,
               tax,
+              promotions,
+              discount,
+              vouchers,
+              serviceCharge,
+              serviceChargeRate,
               paymentStatus: 'unpaid',
               status: 'active'
             }).catch(error => {
@@ -275,20 +425,23 @@ export const useCartStore = create<CartStore>()(
         const currentCart = state.carts[state.currentSlotId!];
         const newItems = currentCart.items.map(item =>
           item.uniqueId === uniqueId
-            ? { ...item, quantity, totalPrice: (item.totalPrice / item.quantity) * quantity }
+            ? { ...item, quantity, totalPrice: multiplyMoney(item.totalPrice / item.quantity, quantity) }
             : item
         );
 
-        const subtotal = newItems.reduce((sum, cartItem) => sum + cartItem.totalPrice, 0);
-        const tax = subtotal * 0.1;
-        const total = subtotal + tax - currentCart.discount;
+        const { items: pricedItems, subtotal, tax, total, promotions, discount, vouchers, serviceCharge, serviceChargeRate } = calculateCartTotals(newItems, currentCart.discount, currentCart.orderType, currentCart.vouchers, state.currentSlotId);
 
         const newCart: CartState = {
           ...currentCart,
-          items: newItems,
+          items: pricedItems,
           subtotal,
           tax,
-          total
+          total,
+          promotions,
+          discount,
+          vouchers,
+          serviceCharge,
+          serviceChargeRate
         };
 
         // ⚡ PHASE 1: Use centralized sync service
@@ -298,11 +451,16 @@ export const useCartStore = create<CartStore>()(
             orderId,
             slotId: state.currentSlotId!,
             orderType: currentCart.orderType || 'dine-in',
-            items: newItems,
+            items: pricedItems,
             customer: currentCart.customer,
             total,
             subtotal,
             tax,
+            promotions,
+            discount,
+            vouchers,
+            serviceCharge,
+            serviceChargeRate,
             paymentStatus: 'unpaid',
             status: 'active'
           }).catch(error => {
@@ -363,7 +521,7 @@ export const useCartStore = create<CartStore>()(
           // PAID ITEM EDIT: Calculate only the price difference
           const originalPrice = targetItem.originalPaidPrice / targetItem.quantity; // Per unit original price
           const newPrice = calculateItemPrice(targetItem, modifiers);
-          const priceDifference = newPrice - originalPrice;
+          const priceDifference = subtractMoney(newPrice, originalPrice);
 
           console.log('💰 [PAID ITEM EDIT]', {
             item: targetItem.name,
@@ -393,12 +551,12 @@ export const useCartStore = create<CartStore>()(
 
               const originalVariationPrice = targetItem.originalPaidModifiers?.variations?.[0]?.price || 0;
               const newVariationPrice = modifiers.variations?.[0]?.price || 0;
-              const variationPriceDiff = newVariationPrice - originalVariationPrice;
+              const variationPriceDiff = subtractMoney(newVariationPrice, originalVariationPrice);
 
               const updatedUpgradeItem: CartItem = {
                 ...existingUpgradeItem,
                 price: priceDifference,
-                totalPrice: priceDifference * targetItem.quantity,
+                totalPrice: multiplyMoney(priceDifference, targetItem.quantity),
                 modifiers: {
                   // Variations: Show new variation with adjusted price (differential)
                   variations: modifiers.variations?.map(v => ({
@@ -430,9 +588,7 @@ export const useCartStore = create<CartStore>()(
                 return item; // Paid item stays untouched
               });
 
-              const subtotal = newItems.reduce((sum, cartItem) => sum + cartItem.totalPrice, 0);
-              const tax = subtotal * 0.1;
-              const total = subtotal + tax - currentCart.discount;
+              const { items: pricedItems, subtotal, tax, total, promotions, discount, vouchers, serviceCharge, serviceChargeRate } = calculateCartTotals(newItems, currentCart.discount, currentCart.orderType, currentCart.vouchers, state.currentSlotId);
 
               // Sync to overlay
               const orderId = currentCart.orderId;
@@ -441,11 +597,16 @@ export const useCartStore = create<CartStore>()(
                   orderId,
                   slotId: state.currentSlotId!,
                   orderType: currentCart.orderType || 'dine-in',
-                  items: newItems,
+                  items: pricedItems,
                   customer: currentCart.customer,
                   total,
                   subtotal,
                   tax,
+                  promotions,
+                  discount,
+                  vouchers,
+                  serviceCharge,
+                  serviceChargeRate,
                   paymentStatus: 'unpaid',
                   status: 'active'
                 }).catch(error => {
@@ -458,10 +619,15 @@ export const useCartStore = create<CartStore>()(
                   ...state.carts,
                   [state.currentSlotId!]: {
                     ...currentCart,
-                    items: newItems,
+                    items: pricedItems,
                     subtotal,
                     tax,
-                    total
+                    total,
+                    promotions,
+                    discount,
+                    vouchers,
+                    serviceCharge,
+                    serviceChargeRate
                   }
                 }
               };
@@ -475,7 +641,7 @@ export const useCartStore = create<CartStore>()(
             // 🎯 PROFESSIONAL: Calculate TRUE differential like Square/Clover
             const originalVariationPrice = targetItem.originalPaidModifiers?.variations?.[0]?.price || 0;
             const newVariationPrice = modifiers.variations?.[0]?.price || 0;
-            const variationPriceDiff = newVariationPrice - originalVariationPrice;
+            const variationPriceDiff = subtractMoney(newVariationPrice, originalVariationPrice);
 
             const differenceItem: CartItem = {
               uniqueId: generateUniqueId(targetItem),
@@ -484,7 +650,7 @@ export const useCartStore = create<CartStore>()(
               description: targetItem.description,
               price: priceDifference,
               quantity: targetItem.quantity,
-              totalPrice: priceDifference * targetItem.quantity,
+              totalPrice: multiplyMoney(priceDifference, targetItem.quantity),
               category: targetItem.category,
               image: targetItem.image,
               available: targetItem.available,
@@ -519,9 +685,7 @@ export const useCartStore = create<CartStore>()(
             // Upgrade item shows the differential (what changed)
             const newItems = [...currentCart.items, differenceItem];
 
-            const subtotal = newItems.reduce((sum, cartItem) => sum + cartItem.totalPrice, 0);
-            const tax = subtotal * 0.1;
-            const total = subtotal + tax - currentCart.discount;
+            const { items: pricedItems, subtotal, tax, total, promotions, discount, vouchers, serviceCharge, serviceChargeRate } = calculateCartTotals(newItems, currentCart.discount, currentCart.orderType, currentCart.vouchers, state.currentSlotId);
 
             // ⚡ PHASE 1: Use centralized sync service
             const orderId = currentCart.orderId;
@@ -530,11 +694,16 @@ export const useCartStore = create<CartStore>()(
                 orderId,
                 slotId: state.currentSlotId!,
                 orderType: currentCart.orderType || 'dine-in',
-                items: newItems,
+                items: pricedItems,
                 customer: currentCart.customer,
                 total,
                 subtotal,
                 tax,
+                promotions,
+                discount,
+                vouchers,
+                serviceCharge,
+                serviceChargeRate,
                 paymentStatus: 'unpaid',
                 status: 'active'
               }).catch(error => {
@@ -547,10 +716,15 @@ export const useCartStore = create<CartStore>()(
                 ...state.carts,
                 [state.currentSlotId!]: {
                   ...currentCart,
-                  items: newItems,
+                  items: pricedItems,
                   subtotal,
                   tax,
-                  total
+                  total,
+                  promotions,
+                  discount,
+                  vouchers,
+                  serviceCharge,
+                  serviceChargeRate
                 }
               }
             };
@@ -569,14 +743,14 @@ export const useCartStore = create<CartStore>()(
 
             const originalVariationPrice = targetItem.originalPaidModifiers?.variations?.[0]?.price || 0;
             const newVariationPrice = modifiers.variations?.[0]?.price || 0;
-            const variationPriceDiff = newVariationPrice - originalVariationPrice;
+            const variationPriceDiff = subtractMoney(newVariationPrice, originalVariationPrice);
 
             if (existingUpgradeItem) {
               // Update existing upgrade item
               const updatedUpgradeItem: CartItem = {
                 ...existingUpgradeItem,
                 price: priceDifference,
-                totalPrice: priceDifference * targetItem.quantity,
+                totalPrice: multiplyMoney(priceDifference, targetItem.quantity),
                 modifiers: {
                   variations: modifiers.variations?.map(v => ({
                     ...v,
@@ -600,9 +774,7 @@ export const useCartStore = create<CartStore>()(
                 return item;
               });
 
-              const subtotal = newItems.reduce((sum, cartItem) => sum + cartItem.totalPrice, 0);
-              const tax = subtotal * 0.1;
-              const total = subtotal + tax - currentCart.discount;
+              const { items: pricedItems, subtotal, tax, total, promotions, discount, vouchers, serviceCharge, serviceChargeRate } = calculateCartTotals(newItems, currentCart.discount, currentCart.orderType, currentCart.vouchers, state.currentSlotId);
 
               const orderId = currentCart.orderId;
               if (orderId && newItems.length > 0) {
@@ -610,11 +782,16 @@ export const useCartStore = create<CartStore>()(
                   orderId,
                   slotId: state.currentSlotId!,
                   orderType: currentCart.orderType || 'dine-in',
-                  items: newItems,
+                  items: pricedItems,
                   customer: currentCart.customer,
                   total,
                   subtotal,
                   tax,
+                  promotions,
+                  discount,
+                  vouchers,
+                  serviceCharge,
+                  serviceChargeRate,
                   paymentStatus: 'unpaid',
                   status: 'active'
                 }).catch(error => {
@@ -627,10 +804,15 @@ export const useCartStore = create<CartStore>()(
                   ...state.carts,
                   [state.currentSlotId!]: {
                     ...currentCart,
-                    items: newItems,
+                    items: pricedItems,
                     subtotal,
                     tax,
-                    total
+                    total,
+                    promotions,
+                    discount,
+                    vouchers,
+                    serviceCharge,
+                    serviceChargeRate
                   }
                 }
               };
@@ -643,7 +825,7 @@ export const useCartStore = create<CartStore>()(
                 description: targetItem.description,
                 price: priceDifference,
                 quantity: targetItem.quantity,
-                totalPrice: priceDifference * targetItem.quantity,
+                totalPrice: multiplyMoney(priceDifference, targetItem.quantity),
                 category: targetItem.category,
                 image: targetItem.image,
                 available: targetItem.available,
@@ -669,9 +851,7 @@ export const useCartStore = create<CartStore>()(
               };
 
               const newItems = [...currentCart.items, differenceItem];
-              const subtotal = newItems.reduce((sum, cartItem) => sum + cartItem.totalPrice, 0);
-              const tax = subtotal * 0.1;
-              const total = subtotal + tax - currentCart.discount;
+              const { items: pricedItems, subtotal, tax, total, promotions, discount, vouchers, serviceCharge, serviceChargeRate } = calculateCartTotals(newItems, currentCart.discount, currentCart.orderType, currentCart.vouchers, state.currentSlotId);
 
               const orderId = currentCart.orderId;
               if (orderId && newItems.length > 0) {
@@ -679,11 +859,16 @@ export const useCartStore = create<CartStore>()(
                   orderId,
                   slotId: state.currentSlotId!,
                   orderType: currentCart.orderType || 'dine-in',
-                  items: newItems,
+                  items: pricedItems,
                   customer: currentCart.customer,
                   total,
                   subtotal,
                   tax,
+                  promotions,
+                  discount,
+                  vouchers,
+                  serviceCharge,
+                  serviceChargeRate,
                   paymentStatus: 'unpaid',
                   status: 'active'
                 }).catch(error => {
@@ -696,10 +881,15 @@ export const useCartStore = create<CartStore>()(
                   ...state.carts,
                   [state.currentSlotId!]: {
                     ...currentCart,
-                    items: newItems,
+                    items: pricedItems,
                     subtotal,
                     tax,
-                    total
+                    total,
+                    promotions,
+                    discount,
+                    vouchers,
+                    serviceCharge,
+                    serviceChargeRate
                   }
                 }
               };
@@ -709,16 +899,14 @@ export const useCartStore = create<CartStore>()(
           // UNPAID ITEM: Standard modifier update with full price recalculation
           const newItemPrice = calculateItemPrice(targetItem, modifiers);
           const unitPrice = newItemPrice;
-          const newTotalPrice = unitPrice * targetItem.quantity;
+          const newTotalPrice = multiplyMoney(unitPrice, targetItem.quantity);
 
           const updatedItem = { ...targetItem, modifiers, totalPrice: newTotalPrice };
           const newItems = currentCart.items.map(item =>
             item.uniqueId === uniqueId ? updatedItem : item
           );
 
-          const subtotal = newItems.reduce((sum, cartItem) => sum + cartItem.totalPrice, 0);
-          const tax = subtotal * 0.1;
-          const total = subtotal + tax - currentCart.discount;
+          const { items: pricedItems, subtotal, tax, total, promotions, discount, vouchers, serviceCharge, serviceChargeRate } = calculateCartTotals(newItems, currentCart.discount, currentCart.orderType, currentCart.vouchers, state.currentSlotId);
 
           // ⚡ PHASE 1: Use centralized sync service
           const orderId = currentCart.orderId;
@@ -727,11 +915,16 @@ export const useCartStore = create<CartStore>()(
               orderId,
               slotId: state.currentSlotId!,
               orderType: currentCart.orderType || 'dine-in',
-              items: newItems,
+              items: pricedItems,
               customer: currentCart.customer,
               total,
               subtotal,
               tax,
+              promotions,
+              discount,
+              vouchers,
+              serviceCharge,
+              serviceChargeRate,
               paymentStatus: 'unpaid',
               status: 'active'
             }).catch(error => {
@@ -744,10 +937,15 @@ export const useCartStore = create<CartStore>()(
               ...state.carts,
               [state.currentSlotId!]: {
                 ...currentCart,
-                items: newItems,
+                items: pricedItems,
                 subtotal,
                 tax,
-                total
+                total,
+                promotions,
+                discount,
+                vouchers,
+                serviceCharge,
+                serviceChargeRate
               }
             }
           };
@@ -792,15 +990,42 @@ export const useCartStore = create<CartStore>()(
       const state = get();
       if (!state.currentSlotId) return;
       
-      set((state) => ({
-        carts: {
-          ...state.carts,
-          [state.currentSlotId!]: {
-            ...state.carts[state.currentSlotId!],
-            orderType: orderType as OrderType
-          }
+      set((state) => {
+        const currentCart = state.carts[state.currentSlotId!];
+        if (!currentCart || currentCart.items.length === 0) {
+          return {
+            carts: {
+              ...state.carts,
+              [state.currentSlotId!]: {
+                ...currentCart,
+                orderType: orderType as OrderType
+              }
+            }
+          };
         }
-      }));
+
+        // 🎁 Order-type promotions: re-price when the order type changes
+        const { items: pricedItems, subtotal, tax, total, promotions, discount, vouchers, serviceCharge, serviceChargeRate } = calculateCartTotals(currentCart.items, currentCart.discount, orderType as OrderType, currentCart.vouchers, state.currentSlotId);
+
+        return {
+          carts: {
+            ...state.carts,
+            [state.currentSlotId!]: {
+              ...currentCart,
+              orderType: orderType as OrderType,
+              items: pricedItems,
+              subtotal,
+              tax,
+              total,
+              promotions,
+              discount,
+              vouchers,
+              serviceCharge,
+              serviceChargeRate
+            }
+          }
+        };
+      });
     },
     
     setCustomer: (customer: CustomerInfo) => {
@@ -840,14 +1065,16 @@ export const useCartStore = create<CartStore>()(
       
       set((state) => {
         const currentCart = state.carts[state.currentSlotId!];
-        const total = currentCart.subtotal + currentCart.tax - discount;
+        // Voucher codes stay applied - with codes on the cart their sum remains the discount
+        const { total, discount: appliedDiscount, vouchers } = calculateCartTotals(currentCart.items, discount, currentCart.orderType, currentCart.vouchers || [], state.currentSlotId);
         
         return {
           carts: {
             ...state.carts,
             [state.currentSlotId!]: {
               ...currentCart,
-              discount,
+              discount: appliedDiscount,
+              vouchers,
               total
             }
           }
@@ -855,7 +1082,491 @@ export const useCartStore = create<CartStore>()(
       });
     },
 
-    loadExistingOrder: (orderItems: any[], customer?: CustomerInfo, orderType?: OrderType, paymentStatus?: 'paid' | 'unpaid' | 'mixed', orderId?: string) => {
+    overrideItemPrice: (uniqueId: string, priceOverride: PriceOverride | null) => {
+      const state = get();
+      if (!state.currentSlotId) return;
+
+      set((state) => {
+        const currentCart = state.carts[state.currentSlotId!];
+        const targetItem = currentCart?.items.find(item => item.uniqueId === uniqueId);
+
+        // 🎯 CRITICAL: Paid items are locked - overrides only apply to unpaid lines
+        if (!targetItem || targetItem.isPaid) {
+          console.warn('⚠️ [CART] Cannot override price (item not found or already paid):', uniqueId);
+          return state;
+        }
+
+        // Restoring puts the line back to the price it had before the first override
+        const price = priceOverride ? priceOverride.price : targetItem.priceOverride?.originalPrice ?? targetItem.price;
+        const newItems = currentCart.items.map(item =>
+          item.uniqueId === uniqueId
+            ? {
+                ...item,
+                price,
+                priceOverride: priceOverride || undefined,
+                totalPrice: multiplyMoney(calculateItemPrice({ ...item, price }, item.modifiers), item.quantity)
+              }
+            : item
+        );
+
+        const { items: pricedItems, subtotal, tax, total, promotions, discount, vouchers, serviceCharge, serviceChargeRate } = calculateCartTotals(newItems, currentCart.discount, currentCart.orderType, currentCart.vouchers, state.currentSlotId);
+
+        console.log('💲 [CART] Price', priceOverride ? 'overridden' : 'restored', {
+          item: targetItem.name,
+          originalPrice: priceOverride?.originalPrice ?? price,
+          price,
+          reason: priceOverride?.reason
+        });
+
+        const orderId = currentCart.orderId;
+        if (orderId && newItems.length > 0) {
+          syncCartToOverlay({
+            orderId,
+            slotId: state.currentSlotId!,
+            orderType: currentCart.orderType || 'dine-in',
+            items: pricedItems,
+            customer: currentCart.customer,
+            total,
+            subtotal,
+            tax,
+            promotions,
+            discount,
+            vouchers,
+            serviceCharge,
+            serviceChargeRate,
+            paymentStatus: 'unpaid',
+            status: 'active'
+          }).catch(error => {
+            console.error('❌ [CART] Sync failed in overrideItemPrice:', error);
+          });
+        }
+
+        return {
+          carts: {
+            ...state.carts,
+            [state.currentSlotId!]: {
+              ...currentCart,
+              items: pricedItems,
+              subtotal,
+              tax,
+              total,
+              promotions,
+              discount,
+              vouchers,
+              serviceCharge,
+              serviceChargeRate
+            }
+          }
+        };
+      });
+    },
+
+    applyItemDiscount: (uniqueId: string, lineDiscount: LineDiscount | null) => {
+      const state = get();
+      if (!state.currentSlotId) return;
+
+      set((state) => {
+        const currentCart = state.carts[state.currentSlotId!];
+        const targetItem = currentCart.items.find(item => item.uniqueId === uniqueId);
+
+        // 🎯 CRITICAL: Paid items are locked - discounts only apply to unpaid lines
+        if (!targetItem || targetItem.isPaid) {
+          console.warn('⚠️ [CART] Cannot discount item (not found or already paid):', uniqueId);
+          return state;
+        }
+
+        // 🎟️ Stacking: some voucher codes don't combine with line discounts
+        if (lineDiscount && !allowsLineDiscounts(currentCart.vouchers)) {
+          console.warn('⚠️ [CART] Line discount not allowed with applied voucher code:', uniqueId);
+          return state;
+        }
+
+        const newItems = currentCart.items.map(item =>
+          item.uniqueId === uniqueId
+            ? { ...item, lineDiscount: lineDiscount || undefined }
+            : item
+        );
+
+        const { items: pricedItems, subtotal, tax, total, promotions, discount, vouchers, serviceCharge, serviceChargeRate } = calculateCartTotals(newItems, currentCart.discount, currentCart.orderType, currentCart.vouchers, state.currentSlotId);
+
+        console.log('🏷️ [CART] Line discount', lineDiscount ? 'applied' : 'removed', {
+          item: targetItem.name,
+          type: lineDiscount?.type,
+          value: lineDiscount?.value,
+          reason: lineDiscount?.reason
+        });
+
+        const orderId = currentCart.orderId;
+        if (orderId && newItems.length > 0) {
+          syncCartToOverlay({
+            orderId,
+            slotId: state.currentSlotId!,
+            orderType: currentCart.orderType || 'dine-in',
+            items: pricedItems,
+            customer: currentCart.customer,
+            total,
+            subtotal,
+            tax,
+            promotions,
+            discount,
+            vouchers,
+            serviceCharge,
+            serviceChargeRate,
+            paymentStatus: 'unpaid',
+            status: 'active'
+          }).catch(error => {
+            console.error('❌ [CART] Sync failed in applyItemDiscount:', error);
+          });
+        }
+
+        return {
+          carts: {
+            ...state.carts,
+            [state.currentSlotId!]: {
+              ...currentCart,
+              items: pricedItems,
+              subtotal,
+              tax,
+              total,
+              promotions,
+              discount,
+              vouchers,
+              serviceCharge,
+              serviceChargeRate
+            }
+          }
+        };
+      });
+    },
+
+    applyVoucher: (voucher: AppliedVoucher) => {
+      const state = get();
+      if (!state.currentSlotId) return;
+
+      set((state) => {
+        const currentCart = state.carts[state.currentSlotId!];
+        if (!currentCart || currentCart.vouchers?.some(applied => applied.code === voucher.code)) {
+          return state;
+        }
+
+        const { items: pricedItems, subtotal, tax, total, promotions, discount, vouchers, serviceCharge, serviceChargeRate } = calculateCartTotals(
+          currentCart.items,
+          currentCart.discount,
+          currentCart.orderType,
+          [...(currentCart.vouchers || []), voucher],
+          state.currentSlotId
+        );
+
+        console.log('🎟️ [CART] Voucher applied:', voucher.code, { amount: discount });
+
+        const orderId = currentCart.orderId;
+        if (orderId && pricedItems.length > 0) {
+          syncCartToOverlay({
+            orderId,
+            slotId: state.currentSlotId!,
+            orderType: currentCart.orderType || 'dine-in',
+            items: pricedItems,
+            customer: currentCart.customer,
+            total,
+            subtotal,
+            tax,
+            promotions,
+            discount,
+            vouchers,
+            serviceCharge,
+            serviceChargeRate,
+            paymentStatus: 'unpaid',
+            status: 'active'
+          }).catch(error => {
+            console.error('❌ [CART] Sync failed in applyVoucher:', error);
+          });
+        }
+
+        return {
+          carts: {
+            ...state.carts,
+            [state.currentSlotId!]: {
+              ...currentCart,
+              items: pricedItems,
+              subtotal,
+              tax,
+              total,
+              promotions,
+              discount,
+              vouchers,
+              serviceCharge,
+              serviceChargeRate
+            }
+          }
+        };
+      });
+    },
+
+    removeVoucher: (code: string) => {
+      const state = get();
+      if (!state.currentSlotId) return;
+
+      set((state) => {
+        const currentCart = state.carts[state.currentSlotId!];
+        if (!currentCart?.vouchers?.some(applied => applied.code === code)) {
+          return state;
+        }
+
+        const remaining = currentCart.vouchers.filter(applied => applied.code !== code);
+        const { items: pricedItems, subtotal, tax, total, promotions, discount, vouchers, serviceCharge, serviceChargeRate } = calculateCartTotals(
+          currentCart.items,
+          0, // Order discount came from the codes
+          currentCart.orderType,
+          remaining,
+          state.currentSlotId
+        );
+
+        console.log('🎟️ [CART] Voucher removed:', code);
+
+        const orderId = currentCart.orderId;
+        if (orderId && pricedItems.length > 0) {
+          syncCartToOverlay({
+            orderId,
+            slotId: state.currentSlotId!,
+            orderType: currentCart.orderType || 'dine-in',
+            items: pricedItems,
+            customer: currentCart.customer,
+            total,
+            subtotal,
+            tax,
+            promotions,
+            discount,
+            vouchers: vouchers || [],
+            serviceCharge,
+            serviceChargeRate,
+            paymentStatus: 'unpaid',
+            status: 'active'
+          }).catch(error => {
+            console.error('❌ [CART] Sync failed in removeVoucher:', error);
+          });
+        }
+
+        return {
+          carts: {
+            ...state.carts,
+            [state.currentSlotId!]: {
+              ...currentCart,
+              items: pricedItems,
+              subtotal,
+              tax,
+              total,
+              promotions,
+              discount,
+              vouchers,
+              serviceCharge,
+              serviceChargeRate
+            }
+          }
+        };
+      });
+    },
+
+    setCovers: (covers: number | undefined) => {
+      const state = get();
+      if (!state.currentSlotId) return;
+
+      // 👥 Covers live on the slot (customerCount) - slot state updates synchronously
+      useUnifiedSlotStore.getState().setSlotCustomerCount(state.currentSlotId, covers).catch(error => {
+        console.error('❌ [CART] Failed to save covers:', error);
+      });
+
+      set((state) => {
+        const currentCart = state.carts[state.currentSlotId!];
+        if (!currentCart) return state;
+
+        const { items: pricedItems, subtotal, tax, total, promotions, discount, vouchers, serviceCharge, serviceChargeRate } = calculateCartTotals(currentCart.items, currentCart.discount, currentCart.orderType, currentCart.vouchers, state.currentSlotId);
+
+        console.log('👥 [CART] Covers set:', covers, { serviceChargeRate, serviceCharge });
+
+        const orderId = currentCart.orderId;
+        if (orderId && pricedItems.length > 0) {
+          syncCartToOverlay({
+            orderId,
+            slotId: state.currentSlotId!,
+            orderType: currentCart.orderType || 'dine-in',
+            items: pricedItems,
+            customer: currentCart.customer,
+            total,
+            subtotal,
+            tax,
+            promotions,
+            discount,
+            vouchers: vouchers || [],
+            serviceCharge,
+            serviceChargeRate,
+            covers: covers || 0,
+            paymentStatus: 'unpaid',
+            status: 'active'
+          }).catch(error => {
+            console.error('❌ [CART] Sync failed in setCovers:', error);
+          });
+        }
+
+        return {
+          carts: {
+            ...state.carts,
+            [state.currentSlotId!]: {
+              ...currentCart,
+              items: pricedItems,
+              subtotal,
+              tax,
+              total,
+              promotions,
+              discount,
+              vouchers,
+              serviceCharge,
+              serviceChargeRate
+            }
+          }
+        };
+      });
+    },
+
+    setItemCoursing: (uniqueId: string, coursing: { seat?: number; course?: Course }) => {
+      const state = get();
+      if (!state.currentSlotId) return;
+
+      set((state) => {
+        const currentCart = state.carts[state.currentSlotId!];
+        const targetItem = currentCart?.items.find(item => item.uniqueId === uniqueId);
+
+        // 🎯 CRITICAL: Paid lines are already with the kitchen - seat / course stay as sent
+        if (!targetItem || targetItem.isPaid) {
+          console.warn('⚠️ [CART] Cannot change seat / course (not found or already paid):', uniqueId);
+          return state;
+        }
+
+        // A line moved into a held course waits with it
+        const courseHeld = !!coursing.course && currentCart.items.some(item =>
+          item.uniqueId !== uniqueId && item.course === coursing.course && item.courseHeld);
+        const updatedCart = {
+          ...currentCart,
+          items: currentCart.items.map(item =>
+            item.uniqueId === uniqueId
+              ? { ...item, seat: coursing.seat, course: coursing.course, courseHeld: courseHeld || undefined }
+              : item
+          )
+        };
+
+        console.log('🍽️ [CART] Seat / course set:', { item: targetItem.name, ...coursing, courseHeld });
+        syncCoursingToOverlay(state.currentSlotId!, updatedCart);
+
+        return {
+          carts: {
+            ...state.carts,
+            [state.currentSlotId!]: updatedCart
+          }
+        };
+      });
+    },
+
+    setCourseHold: (course: Course, held: boolean) => {
+      const state = get();
+      if (!state.currentSlotId) return;
+
+      set((state) => {
+        const currentCart = state.carts[state.currentSlotId!];
+        if (!currentCart) return state;
+
+        // Fired or paid lines have already gone to the kitchen
+        const updatedCart = {
+          ...currentCart,
+          items: currentCart.items.map(item =>
+            item.course === course && !item.isPaid && !item.firedAt
+              ? { ...item, courseHeld: held || undefined }
+              : item
+          )
+        };
+
+        console.log(`🍽️ [CART] Course ${course} ${held ? 'held' : 'released'}`);
+        syncCoursingToOverlay(state.currentSlotId!, updatedCart);
+
+        return {
+          carts: {
+            ...state.carts,
+            [state.currentSlotId!]: updatedCart
+          }
+        };
+      });
+    },
+
+    setLineEntry: (uniqueId: string, entry: { price?: number; quantity?: number }) => {
+      const state = get();
+      if (!state.currentSlotId) return;
+
+      set((state) => {
+        const currentCart = state.carts[state.currentSlotId!];
+        const targetItem = currentCart?.items.find(item => item.uniqueId === uniqueId);
+
+        // 🎯 CRITICAL: Paid lines keep the price / weight they were paid at
+        if (!targetItem || targetItem.isPaid) {
+          console.warn('⚠️ [CART] Cannot re-enter line (not found or already paid):', uniqueId);
+          return state;
+        }
+
+        const price = entry.price ?? targetItem.price;
+        const quantity = entry.quantity !== undefined ? roundWeight(entry.quantity) : targetItem.quantity;
+        if (price <= 0 || quantity <= 0) return state;
+
+        const newItems = currentCart.items.map(item =>
+          item.uniqueId === uniqueId
+            ? { ...item, price, quantity, totalPrice: multiplyMoney(calculateItemPrice({ ...item, price }, item.modifiers), quantity) }
+            : item
+        );
+
+        const { items: pricedItems, subtotal, tax, total, promotions, discount, vouchers, serviceCharge, serviceChargeRate } = calculateCartTotals(newItems, currentCart.discount, currentCart.orderType, currentCart.vouchers, state.currentSlotId);
+
+        console.log('⚖️ [CART] Line re-entered:', { item: targetItem.name, price, quantity });
+
+        const orderId = currentCart.orderId;
+        if (orderId && newItems.length > 0) {
+          syncCartToOverlay({
+            orderId,
+            slotId: state.currentSlotId!,
+            orderType: currentCart.orderType || 'dine-in',
+            items: pricedItems,
+            customer: currentCart.customer,
+            total,
+            subtotal,
+            tax,
+            promotions,
+            discount,
+            vouchers,
+            serviceCharge,
+            serviceChargeRate,
+            paymentStatus: 'unpaid',
+            status: 'active'
+          }).catch(error => {
+            console.error('❌ [CART] Sync failed in setLineEntry:', error);
+          });
+        }
+
+        return {
+          carts: {
+            ...state.carts,
+            [state.currentSlotId!]: {
+              ...currentCart,
+              items: pricedItems,
+              subtotal,
+              tax,
+              total,
+              promotions,
+              discount,
+              vouchers,
+              serviceCharge,
+              serviceChargeRate
+            }
+          }
+        };
+      });
+    },
+
+    loadExistingOrder: (orderItems: any[], customer?: CustomerInfo, orderType?: OrderType, paymentStatus?: 'paid' | 'unpaid' | 'mixed', orderId?: string, pricing?: { discount?: number; vouchers?: AppliedVoucher[] }) => {
       const state = get();
       if (!state.currentSlotId) {
         console.error('❌ [CART] Cannot load existing order: No current slot ID');
@@ -891,9 +1602,14 @@ export const useCartStore = create<CartStore>()(
             quantity,
             totalPrice: typeof item.total === 'number' ? item.total :
                        typeof item.totalPrice === 'number' ? item.totalPrice :
-                       (typeof item.price === 'number' ? item.price * quantity : 0),
+                       (typeof item.price === 'number' ? multiplyMoney(item.price, quantity) : 0),
             category: item.category || 'food',
             available: true,
+            priceIncludesTax: item.priceIncludesTax,
+            taxClassId: item.taxClassId,
+            lineDiscount: item.lineDiscount,
+            priceOverride: item.priceOverride,
+            promotionDiscount: item.promotionDiscount,
             modifiers: {
               variations: item.modifiers?.variations || [],
               addOns: item.modifiers?.addOns || [],
@@ -911,7 +1627,7 @@ export const useCartStore = create<CartStore>()(
               ((paymentStatus === 'mixed' ? item.isPaid : paymentStatus === 'paid') ?
               (typeof item.total === 'number' ? item.total :
                typeof item.totalPrice === 'number' ? item.totalPrice :
-               (typeof item.price === 'number' ? item.price * quantity : 0)) : undefined),
+               (typeof item.price === 'number' ? multiplyMoney(item.price, quantity) : 0)) : undefined),
             // 🎯 CRITICAL: Load originalPaidModifiers from overlay if it exists, otherwise use current modifiers
             originalPaidModifiers: item.originalPaidModifiers !== undefined ? item.originalPaidModifiers :
               ((paymentStatus === 'mixed' ? item.isPaid : paymentStatus === 'paid') ? {
@@ -922,7 +1638,15 @@ export const useCartStore = create<CartStore>()(
             } : undefined),
             // 🎯 PROFESSIONAL: Preserve isModifierUpgrade flag (prevents editing upgrade items)
             // BULLETPROOF: If name contains "(modifier upgrade)", force true regardless of stored value
-            isModifierUpgrade: item.name.includes('(modifier upgrade)') ? true : (item.isModifierUpgrade || false)
+            isModifierUpgrade: item.name.includes('(modifier upgrade)') ? true : (item.isModifierUpgrade || false),
+            giftCard: item.giftCard,
+            splitShare: item.splitShare,
+            seat: item.seat,
+            course: item.course,
+            courseHeld: item.courseHeld,
+            firedAt: item.firedAt,
+            pricingMode: item.pricingMode,
+            weightUnit: item.weightUnit
           };
 
           // 🔍 DEBUG: Log modifier upgrade flag explicitly
@@ -942,9 +1666,8 @@ export const useCartStore = create<CartStore>()(
         });
 
         // Calculate totals with proper validation
-        const subtotal = cartItems.reduce((sum, item) => sum + (item.totalPrice || 0), 0);
-        const tax = subtotal * 0.15; // Using 15% tax as per system standard
-        const total = subtotal + tax;
+        // Voucher codes / manual discount of the saved order are re-applied to the reloaded items
+        const { items: pricedItems, subtotal, tax, total, promotions, discount, vouchers, serviceCharge, serviceChargeRate } = calculateCartTotals(cartItems, pricing?.discount || 0, orderType, pricing?.vouchers || [], state.currentSlotId);
 
         console.log('💰 [CART TOTALS]', {
           subtotal: subtotal.toFixed(2),
@@ -955,12 +1678,16 @@ export const useCartStore = create<CartStore>()(
 
         // BACKEND-READY: Structure data for API integration
         const cartData = {
-          items: cartItems,
+          items: pricedItems,
           subtotal,
           tax,
           total,
+          promotions,
+          serviceCharge,
+          serviceChargeRate,
           customer: customer || null,
-          discount: 0,
+          discount,
+          vouchers,
           orderType: orderType || null,
           slotId: state.currentSlotId,
           orderId: orderId || null, // BULLETPROOF: Set order ID from existing order
@@ -1059,6 +1786,28 @@ export const useDiscount = () => useCartStore(state =>
   state.currentSlotId ? state.carts[state.currentSlotId]?.discount || 0 : 0
 );
 
+// Stable empty list - avoids re-renders when the cart has no promotions
+const NO_PROMOTIONS: AppliedPromotion[] = [];
+
+export const useCartPromotions = () => useCartStore(state =>
+  state.currentSlotId ? state.carts[state.currentSlotId]?.promotions || NO_PROMOTIONS : NO_PROMOTIONS
+);
+
+// Stable empty list - avoids re-renders when the cart has no voucher codes
+const NO_VOUCHERS: AppliedVoucher[] = [];
+
+export const useCartVouchers = () => useCartStore(state =>
+  state.currentSlotId ? state.carts[state.currentSlotId]?.vouchers || NO_VOUCHERS : NO_VOUCHERS
+);
+
+export const useCartServiceCharge = () => useCartStore(state =>
+  state.currentSlotId ? state.carts[state.currentSlotId]?.serviceCharge || 0 : 0
+);
+
+export const useCartServiceChargeRate = () => useCartStore(state =>
+  state.currentSlotId ? state.carts[state.currentSlotId]?.serviceChargeRate || 0 : 0
+);
+
 // Actions
 export const useCartActions = () => useCartStore(state => ({
   setCurrentSlot: state.setCurrentSlot,
@@ -1070,6 +1819,14 @@ export const useCartActions = () => useCartStore(state => ({
   setOrderType: state.setOrderType,
   setCustomer: state.setCustomer,
   applyDiscount: state.applyDiscount,
+  applyItemDiscount: state.applyItemDiscount,
+  overrideItemPrice: state.overrideItemPrice,
+  applyVoucher: state.applyVoucher,
+  removeVoucher: state.removeVoucher,
+  setCovers: state.setCovers,
+  setItemCoursing: state.setItemCoursing,
+  setCourseHold: state.setCourseHold,
+  setLineEntry: state.setLineEntry,
   setOrderId: state.setOrderId,
   loadExistingOrder: state.loadExistingOrder
 }));
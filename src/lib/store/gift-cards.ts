@@ -0,0 +1,334 @@
+/**
+ * GIFT CARD STORE - Offline Gift Card / Store Credit Ledger
+ *
+ * ARCHITECTURE:
+ * - Every movement of value (issue, top-up, redeem, refund credit, reversal)
+ *   is a ledger entry in IndexedDB, written before the money changes hands
+ * - Balance = balance last confirmed by the backend + entries not synced yet,
+ *   so a card cannot be spent twice while offline on this terminal
+ * - Entries sync to POST /t/pos/gift-cards/ledger (sync service retries);
+ *   cards issued elsewhere are looked up on the backend when online
+ *
+ * CARD LIFECYCLE:
+ * 1. Sold: gift card line added to the cart (code printed on the card / QR)
+ * 2. Loaded: order paid - issue / top-up entry recorded
+ * 3. Spent: redeemed as a tender in the payment overlay (partial balance allowed)
+ * 4. Credited: refunds paid back to the card or as new store credit
+ *
+ * INTEGRATION:
+ * - Payment Overlay: Gift card tender, loads cards when the order is paid
+ * - GiftCardModal: Sell, top up, check balance (code or QR)
+ * - Refund Service: Store credit refunds, voids reverse unspent loads
+ * - Sync Service: Pushes pending entries
+ */
+
+import { create } from 'zustand';
+import Dexie, { Table } from 'dexie';
+import type { GiftCard, GiftCardLedgerEntry, GiftCardLine, GiftCardType } from '@/types/pos';
+import { getGiftCard, syncGiftCardLedger } from '@/lib/api/giftCards';
+import { useAuthStore } from '@/lib/store/auth';
+import { compareMoney, roundMoney, subtractMoney, sumMoney } from '@/lib/utils/money';
+
+class GiftCardDB extends Dexie {
+  cards!: Table<GiftCard, string>;
+  entries!: Table<GiftCardLedgerEntry, string>;
+
+  constructor() {
+    super('GiftCardDB');
+    this.version(1).stores({
+      cards: 'code, type, status, issuedOrderId',
+      entries: 'id, code, type, orderId, paymentId, syncStatus'
+    });
+  }
+}
+
+// Initialize DB only on client-side
+let db: GiftCardDB | null = null;
+
+const getDB = (): GiftCardDB | null => {
+  if (typeof window === 'undefined') return null;
+  if (!db) {
+    db = new GiftCardDB();
+  }
+  return db;
+};
+
+// No 0/O/1/I - codes are read out and typed by hand
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/**
+ * New card code, e.g. GC-7KQ2-M9XD
+ */
+export const generateGiftCardCode = (): string => {
+  const block = () => Array.from({ length: 4 }, () => CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)]).join('');
+  return `GC-${block()}-${block()}`;
+};
+
+export const normalizeGiftCardCode = (code: string): string => code.trim().toUpperCase();
+
+// Printed cards carry the bare code in their QR (no JSON wrapper)
+export const isGiftCardCode = (value: string): boolean => /^GC-[A-Z0-9]{4}-[A-Z0-9]{4}$/.test(normalizeGiftCardCode(value));
+
+// Receipts / tender references never show the whole code
+export const maskGiftCardCode = (code: string): string => `****${code.slice(-4)}`;
+
+export interface GiftCardBalance {
+  card: GiftCard;
+  balance: number;
+  pending: number; // Part of the balance not confirmed by the backend yet
+}
+
+export interface GiftCardResult {
+  success: boolean;
+  balance?: number;
+  error?: string;
+}
+
+interface GiftCardStore {
+  // Card + balance (backend checked when online; null when unknown)
+  lookup: (code: string) => Promise<GiftCardBalance | null>;
+  // Load the cards sold / topped up on a paid order (idempotent per order + code)
+  loadOrderCards: (orderId: string, lines: Array<{ giftCard: GiftCardLine; amount: number }>, tillSessionId?: string) => Promise<void>;
+  // Spend from a card as a tender (fails when the balance is short)
+  redeem: (params: { code: string; amount: number; orderId: string; paymentId: string; tillSessionId?: string }) => Promise<GiftCardResult>;
+  // Pay a refund onto a card (unknown codes become new store credit)
+  creditRefund: (params: { code: string; amount: number; orderId: string; paymentId: string; tillSessionId?: string; type?: GiftCardType }) => Promise<GiftCardResult>;
+  // Voided sale: take back whatever is still unspent on the cards it loaded
+  reverseOrderLoads: (orderId: string, tillSessionId?: string) => Promise<void>;
+  getPendingSyncEntries: () => Promise<GiftCardLedgerEntry[]>;
+  syncPendingEntries: () => Promise<{ success: number; failed: number }>;
+}
+
+const createEntry = (
+  entry: Omit<GiftCardLedgerEntry, 'cashierId' | 'createdAt' | 'syncStatus'>
+): GiftCardLedgerEntry => ({
+  ...entry,
+  amount: roundMoney(entry.amount),
+  cashierId: useAuthStore.getState().user?.id,
+  createdAt: new Date(),
+  syncStatus: 'pending'
+});
+
+const createCard = (code: string, type: GiftCardType, issuedOrderId?: string): GiftCard => ({
+  code,
+  type,
+  syncedBalance: 0,
+  issuedOrderId,
+  issuedBy: useAuthStore.getState().user?.id,
+  status: 'active',
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+// Confirmed balance + everything this terminal has not synced yet
+const readBalance = async (database: GiftCardDB, card: GiftCard): Promise<GiftCardBalance> => {
+  const pendingEntries = await database.entries
+    .where('code')
+    .equals(card.code)
+    .and(entry => entry.syncStatus === 'pending')
+    .toArray();
+  const pending = sumMoney(pendingEntries.map(entry => entry.amount));
+  return { card, balance: sumMoney([card.syncedBalance, pending]), pending };
+};
+
+export const useGiftCardStore = create<GiftCardStore>((_set, get) => ({
+  lookup: async (rawCode) => {
+    const database = getDB();
+    if (!database) return null;
+
+    const code = normalizeGiftCardCode(rawCode);
+    try {
+      let card = await database.cards.get(code);
+
+      // 🔄 Online: backend knows about spending on other terminals
+      if (typeof navigator !== 'undefined' && navigator.onLine) {
+        const result = await getGiftCard(code);
+        if (result.success && result.card) {
+          card = {
+            ...(card || createCard(code, result.card.type)),
+            type: result.card.type,
+            status: result.card.status,
+            syncedBalance: roundMoney(result.card.balance),
+            updatedAt: new Date()
+          };
+          await database.cards.put(card);
+        }
+      }
+
+      return card ? await readBalance(database, card) : null;
+    } catch (error) {
+      console.error('❌ [GIFT CARDS] Failed to look up card:', error);
+      return null;
+    }
+  },
+
+  loadOrderCards: async (orderId, lines, tillSessionId) => {
+    const database = getDB();
+    if (!database || lines.length === 0) return;
+
+    try {
+      await database.transaction('rw', database.cards, database.entries, async () => {
+        for (const { giftCard, amount } of lines) {
+          const code = normalizeGiftCardCode(giftCard.code);
+          if (!await database.cards.get(code)) {
+            await database.cards.put(createCard(code, 'gift_card', orderId));
+          }
+
+          // Same order + card = same entry (re-saving a paid order does not load twice)
+          const id = `${orderId}:${code}:${giftCard.kind}`;
+          if (await database.entries.get(id)) continue;
+
+          await database.entries.put(createEntry({ id, code, type: giftCard.kind, amount, orderId, tillSessionId }));
+        }
+      });
+      console.log('✅ [GIFT CARDS] Cards loaded for order', orderId, lines.map(line => `${line.giftCard.kind} ${maskGiftCardCode(line.giftCard.code)} ${line.amount}`));
+    } catch (error) {
+      console.error('❌ [GIFT CARDS] Failed to load cards for order:', error);
+    }
+  },
+
+  redeem: async ({ code: rawCode, amount, orderId, paymentId, tillSessionId }) => {
+    const database = getDB();
+    if (!database) return { success: false, error: 'Gift cards are not available' };
+
+    const code = normalizeGiftCardCode(rawCode);
+    try {
+      return await database.transaction('rw', database.cards, database.entries, async () => {
+        const card = await database.cards.get(code);
+        if (!card) return { success: false, error: 'Gift card not found' };
+        if (card.status !== 'active') return { success: false, error: 'Gift card is not active' };
+
+        const { balance } = await readBalance(database, card);
+        if (amount <= 0 || compareMoney(amount, balance) > 0) {
+          return { success: false, balance, error: `Insufficient balance (${balance})` };
+        }
+
+        await database.entries.put(createEntry({ id: paymentId, code, type: 'redeem', amount: -amount, orderId, paymentId, tillSessionId }));
+        console.log('✅ [GIFT CARDS] Redeemed', amount, 'from', maskGiftCardCode(code), 'for order', orderId);
+        return { success: true, balance: subtractMoney(balance, amount) };
+      });
+    } catch (error) {
+      console.error('❌ [GIFT CARDS] Failed to redeem card:', error);
+      return { success: false, error: 'Failed to redeem gift card' };
+    }
+  },
+
+  creditRefund: async ({ code: rawCode, amount, orderId, paymentId, tillSessionId, type = 'store_credit' }) => {
+    const database = getDB();
+    if (!database) return { success: false, error: 'Gift cards are not available' };
+
+    const code = normalizeGiftCardCode(rawCode);
+    try {
+      return await database.transaction('rw', database.cards, database.entries, async () => {
+        let card = await database.cards.get(code);
+        if (!card) {
+          card = createCard(code, type, orderId);
+          await database.cards.put(card);
+        }
+
+        await database.entries.put(createEntry({ id: paymentId, code, type: 'refund_credit', amount, orderId, paymentId, tillSessionId }));
+        const { balance } = await readBalance(database, card);
+        console.log('✅ [GIFT CARDS] Refund credited', amount, 'to', maskGiftCardCode(code), 'for order', orderId);
+        return { success: true, balance };
+      });
+    } catch (error) {
+      console.error('❌ [GIFT CARDS] Failed to credit refund:', error);
+      return { success: false, error: 'Failed to credit gift card' };
+    }
+  },
+
+  reverseOrderLoads: async (orderId, tillSessionId) => {
+    const database = getDB();
+    if (!database) return;
+
+    try {
+      await database.transaction('rw', database.cards, database.entries, async () => {
+        const loads = await database.entries
+          .where('orderId')
+          .equals(orderId)
+          .and(entry => entry.type === 'issue' || entry.type === 'topup')
+          .toArray();
+
+        for (const load of loads) {
+          const id = `${orderId}:${load.code}:reversal:${load.type}`;
+          const card = await database.cards.get(load.code);
+          if (!card || await database.entries.get(id)) continue;
+
+          // Value already spent stays spent - only the remainder comes off
+          const { balance } = await readBalance(database, card);
+          const amount = Math.min(load.amount, Math.max(0, balance));
+          if (amount <= 0) continue;
+
+          await database.entries.put(createEntry({ id, code: load.code, type: 'reversal', amount: -amount, orderId, tillSessionId }));
+          console.log('↩️ [GIFT CARDS] Reversed', amount, 'on', maskGiftCardCode(load.code), 'for voided order', orderId);
+        }
+      });
+    } catch (error) {
+      console.error('❌ [GIFT CARDS] Failed to reverse order loads:', error);
+    }
+  },
+
+  getPendingSyncEntries: async () => {
+    const database = getDB();
+    if (!database) return [];
+
+    try {
+      const entries = await database.entries.where('syncStatus').equals('pending').toArray();
+      return entries.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+    } catch (error) {
+      console.error('❌ [GIFT CARDS] Failed to get pending entries:', error);
+      return [];
+    }
+  },
+
+  syncPendingEntries: async () => {
+    const database = getDB();
+    const entries = await get().getPendingSyncEntries();
+    if (!database || entries.length === 0) return { success: 0, failed: 0 };
+
+    try {
+      const cards = await database.cards.bulkGet(Array.from(new Set(entries.map(entry => entry.code))));
+      const cardTypes = new Map(cards.filter((card): card is GiftCard => !!card).map(card => [card.code, card.type]));
+
+      const result = await syncGiftCardLedger(entries.map(entry => ({
+        entryId: entry.id,
+        code: entry.code,
+        cardType: cardTypes.get(entry.code) || 'gift_card',
+        type: entry.type,
+        amount: entry.amount,
+        orderId: entry.orderId,
+        paymentId: entry.paymentId,
+        cashierId: entry.cashierId,
+        tillSessionId: entry.tillSessionId,
+        createdAt: new Date(entry.createdAt).toISOString()
+      })));
+
+      if (!result.success) {
+        return { success: 0, failed: entries.length };
+      }
+
+      // Synced entries move into the confirmed balance
+      await database.transaction('rw', database.cards, database.entries, async () => {
+        for (const [code, type] of Array.from(cardTypes.entries())) {
+          const card = await database.cards.get(code);
+          if (!card) continue;
+          const synced = sumMoney(entries.filter(entry => entry.code === code).map(entry => entry.amount));
+          const backendBalance = result.balances?.[code];
+          await database.cards.put({
+            ...card,
+            type,
+            syncedBalance: typeof backendBalance === 'number' ? roundMoney(backendBalance) : sumMoney([card.syncedBalance, synced]),
+            updatedAt: new Date()
+          });
+        }
+        await database.entries.bulkPut(entries.map(entry => ({ ...entry, syncStatus: 'synced' as const })));
+      });
+
+      console.log('✅ [GIFT CARDS] Synced', entries.length, 'ledger entries');
+      return { success: entries.length, failed: 0 };
+    } catch (error) {
+      console.error('❌ [GIFT CARDS] Failed to sync ledger:', error);
+      return { success: 0, failed: entries.length };
+    }
+  }
+}));
@@ -12,6 +12,22 @@
  * 3. Placed Paid: slot=processing, overlay=active+paid+items (order placed and paid)
  * 4. Completed: slot=available, overlay=completed (order finished, shows in orders page)
  *
+ * PAYMENTS:
+ * - Every tender is a PaymentTransaction in `payments` (cash, card, mobile)
+ * - Part-paid orders stay unpaid with amountPaid/balanceDue until settled
+ * - Refunds/voids are kept in `refunds` (negative tenders) - they never reopen the balance
+ * - Online transfers stay 'unverified' until a manager checks the reference (verifyPayment)
+ *
+ * SPLIT CHECKS:
+ * - A split order becomes one overlay per check on the same slot (checkNumber 1..n)
+ * - Check 1 keeps the original order id (and its payments); the rest link back via splitFromOrderId
+ * - Each check is tendered, printed and synced as its own order (getSlotChecks lists the open ones)
+ *
+ * MERGES:
+ * - Joined tables fold their orders into one (lib/services/mergeOrderService)
+ * - The merged order keeps each source order as it was in `merges` so the merge can be undone until payment
+ * - `history` records every merge / undo on the order
+ *
  * SLOT REUSE:
  * - Same slot can have multiple orders over time (one active, rest completed)
  * - getActiveOrderBySlot returns MOST RECENT active order only
@@ -20,21 +36,46 @@
 
 import { create } from 'zustand';
 import Dexie, { Table } from 'dexie';
-import type { CustomerInfo, OrderItem, OrderType } from '@/types/pos';
+import type { AppliedPromotion, AppliedVoucher, CustomerInfo, OrderHistoryEntry, OrderItem, OrderRefund, OrderType, PaymentTransaction } from '@/types/pos';
+import { roundMoney, sumMoney } from '@/lib/utils/money';
+import { getAmountPaid, getBalanceDue, getUnverifiedTransfers } from '@/lib/utils/payments';
 
 export interface OverlayOrder {
   id: string; // order id / order number
   slotId: string;
   orderType: OrderType;
   totalPrice?: number;
-  paymentMethod?: string; // 'cash' | 'card' | 'online' | 'unpaid'
-  paymentStatus?: 'paid' | 'unpaid';
+  paymentMethod?: string; // 'cash' | 'card' | 'online' | 'split' | 'unpaid'
+  paymentStatus?: 'paid' | 'unpaid'; // Partly paid orders stay 'unpaid' with a balanceDue
   status?: 'active' | 'completed'; // Order lifecycle status - completed orders never load in cart
   customer: CustomerInfo;
   items: OrderItem[];
+  // 💰 Amounts are stored in major units rounded to currency precision (money.ts)
   total: number;
   subtotal?: number;
   tax?: number;
+  taxRate?: number; // Effective tax rate (%) used by pricing engine
+  taxMode?: 'inclusive' | 'exclusive'; // Branch tax mode at time of pricing
+  promotions?: AppliedPromotion[]; // Automatic promotions (explained on receipt)
+  discount?: number;               // Order discount (after tax) - sum of voucher codes or manual amount
+  vouchers?: AppliedVoucher[];     // Voucher codes used (redemptions in voucher ledger)
+  serviceCharge?: number;          // Automatic service charge (included in total)
+  serviceChargeRate?: number;
+  tip?: number;                    // Tip added at payment (included in total)
+  surcharge?: number;              // Payment method surcharge e.g. card fee (included in total)
+  surchargeLabel?: string;
+  roundingAdjustment?: number;     // Cash rounding (+/-, included in total)
+  covers?: number;                 // Table covers (slot customerCount)
+  checkNumber?: number;            // ✂️ Split check number on the slot (1 = original order)
+  splitFromOrderId?: string;       // ✂️ Order this check was split from (checks 2..n)
+  payments?: PaymentTransaction[]; // 💳 Tender ledger (lib/utils/payments)
+  amountPaid?: number;             // Sum of payments
+  balanceDue?: number;             // total - amountPaid (0 when settled)
+  refunds?: OrderRefund[];         // ↩️ Refunds/voids (lib/services/refundService)
+  refundedAmount?: number;         // Sum of refunds
+  refundStatus?: 'partial' | 'refunded' | 'voided';
+  merges?: OrderMergeRecord[];     // 🔗 Orders folded into this one (undoable until paid)
+  history?: OrderHistoryEntry[];   // 📜 Merges / undos made on this order
   specialInstructions?: string;
   placedAt: Date;
   updatedAt: Date;
@@ -52,6 +93,22 @@ export interface OverlayOrder {
   orderDate?: string; // YYYY-MM-DD for daily grouping and cleanup
 }
 
+// 🔗 One merge into an order - source orders kept as they were so the merge can be undone
+export interface OrderMergeRecord {
+  id: string;
+  sources: Array<{
+    order: OverlayOrder;            // Source order before the merge (restored on undo)
+    slotStatus: 'available' | 'processing'; // Draft table or placed order
+    covers?: number;
+  }>;
+  itemIds: string[];                // uniqueIds of the lines brought in
+  paymentIds: string[];             // Tenders brought in
+  previousCustomer: CustomerInfo;   // This order's customer before the merge
+  previousCovers?: number;
+  mergedBy?: string;
+  mergedAt: string;                 // ISO timestamp
+}
+
 class OrderOverlayDB extends Dexie {
   overlays!: Table<OverlayOrder, string>;
 
@@ -135,18 +192,47 @@ interface OrderOverlayStore {
     placedAt?: Date;
     subtotal?: number;
     tax?: number;
+    taxRate?: number;
+    taxMode?: 'inclusive' | 'exclusive';
+    promotions?: AppliedPromotion[];
+    discount?: number;
+    vouchers?: AppliedVoucher[];
+    serviceCharge?: number;
+    serviceChargeRate?: number;
+    tip?: number;
+    surcharge?: number;
+    surchargeLabel?: string;
+    roundingAdjustment?: number;
+    covers?: number;
+    checkNumber?: number;
+    splitFromOrderId?: string;
+    payments?: PaymentTransaction[];
     // 🎯 BACKEND SYNC REQUIRED FIELDS (from Postman collection)
     branchId?: string;       // Branch ID for backend sync
     posId?: string;          // POS terminal ID for backend sync
     tillSessionId?: string;  // Till session ID for backend sync
   }) => Promise<OverlayOrder>;
 
+  // 💳 Record a tender against an order (partial payments keep the order unpaid)
+  addPayment: (orderId: string, payment: PaymentTransaction) => Promise<OverlayOrder | null>;
+  // 🏦 Online transfers waiting for a manager to check the reference
+  getUnverifiedTransfers: () => Promise<Array<{ order: OverlayOrder; payment: PaymentTransaction }>>;
+  verifyPayment: (orderId: string, paymentId: string, verifiedBy: string, note?: string) => Promise<OverlayOrder | null>;
+
+  // ↩️ Record a refund/void against a paid order
+  addRefund: (orderId: string, refund: OrderRefund, refundStatus: OverlayOrder['refundStatus']) => Promise<OverlayOrder | null>;
+  markRefundSynced: (orderId: string, refundId: string, backendRefundId?: string) => Promise<void>;
+  markRefundSyncFailed: (orderId: string, refundId: string) => Promise<void>;
+  getPendingSyncRefunds: () => Promise<Array<{ order: OverlayOrder; refund: OrderRefund }>>; // Refunds whose order is on the backend
+
   updateOverlay: (orderId: string, updates: Partial<OverlayOrder>) => Promise<void>;
+  restoreOverlay: (order: OverlayOrder) => Promise<void>; // Put back an order exactly as it was (merge undo)
   markOrderCompleted: (orderId: string) => Promise<void>;
   removeOverlay: (orderId: string) => Promise<void>;
   clearSlotCache: (slotId: string) => void;
   getActiveOrderBySlot: (slotId: string) => Promise<OverlayOrder | null>;
   getOrderForEditing: (slotId: string) => Promise<OverlayOrder | null>; // For editing: gets ANY order for slot
+  getSlotChecks: (slotId: string) => Promise<OverlayOrder[]>; // ✂️ Open split checks on a slot (by check number)
   clearLegacyOrders: () => Promise<void>; // Clean up old 8-digit order IDs
   cleanupOrphanedActiveOrders: () => Promise<void>; // Clean up orphaned active orders
 
@@ -318,6 +404,24 @@ export const useOrderOverlayStore = create<OrderOverlayStore>((set, get) => ({
     }
   },
 
+  getSlotChecks: async (slotId: string) => {
+    try {
+      const stored = await getDB()?.overlays.where('slotId').equals(slotId).toArray() || [];
+      // In-memory copies are newer than IndexedDB while a save is in flight
+      const merged = new Map(stored.map(order => [order.id, order]));
+      Object.values(get().overlays)
+        .filter(order => order.slotId === slotId)
+        .forEach(order => merged.set(order.id, order));
+
+      return Array.from(merged.values())
+        .filter(order => order.checkNumber !== undefined && order.status !== 'completed')
+        .sort((a, b) => (a.checkNumber ?? 0) - (b.checkNumber ?? 0));
+    } catch (error) {
+      console.error('❌ [OVERLAY DB] Failed to load split checks:', error);
+      return [];
+    }
+  },
+
   upsertFromCart: async (params) => {
     const now = new Date();
     const today = now.toISOString().split('T')[0]; // YYYY-MM-DD
@@ -346,6 +450,8 @@ export const useOrderOverlayStore = create<OrderOverlayStore>((set, get) => ({
       syncStatus = existingOverlay?.syncStatus || 'pending';
     }
 
+    const payments = params.payments ?? existingOverlay?.payments ?? [];
+
     const overlay: OverlayOrder = {
       id: params.orderId,
       slotId: params.slotId,
@@ -355,9 +461,28 @@ export const useOrderOverlayStore = create<OrderOverlayStore>((set, get) => ({
       status: params.status || 'active', // Use provided status or default to active
       customer: params.customer,
       items: params.items,
-      total: params.total,
-      subtotal: params.subtotal,
-      tax: params.tax,
+      total: roundMoney(params.total),
+      subtotal: params.subtotal !== undefined ? roundMoney(params.subtotal) : undefined,
+      tax: params.tax !== undefined ? roundMoney(params.tax) : undefined,
+      taxRate: params.taxRate ?? existingOverlay?.taxRate,
+      taxMode: params.taxMode ?? existingOverlay?.taxMode,
+      promotions: params.promotions ?? existingOverlay?.promotions,
+      discount: params.discount !== undefined ? roundMoney(params.discount) : existingOverlay?.discount,
+      vouchers: params.vouchers ?? existingOverlay?.vouchers,
+      serviceCharge: params.serviceCharge !== undefined ? roundMoney(params.serviceCharge) : existingOverlay?.serviceCharge,
+      serviceChargeRate: params.serviceChargeRate ?? existingOverlay?.serviceChargeRate,
+      tip: params.tip !== undefined ? roundMoney(params.tip) : existingOverlay?.tip,
+      surcharge: params.surcharge !== undefined ? roundMoney(params.surcharge) : existingOverlay?.surcharge,
+      surchargeLabel: params.surcharge !== undefined ? params.surchargeLabel : existingOverlay?.surchargeLabel,
+      roundingAdjustment: params.roundingAdjustment !== undefined ? roundMoney(params.roundingAdjustment) : existingOverlay?.roundingAdjustment,
+      covers: params.covers ?? existingOverlay?.covers,
+      checkNumber: params.checkNumber ?? existingOverlay?.checkNumber,
+      splitFromOrderId: params.splitFromOrderId ?? existingOverlay?.splitFromOrderId,
+      merges: existingOverlay?.merges,
+      history: existingOverlay?.history,
+      payments,
+      amountPaid: getAmountPaid(payments),
+      balanceDue: getBalanceDue(params.total, payments),
       specialInstructions: params.specialInstructions,
       placedAt: params.placedAt || now,
       updatedAt: now,
@@ -397,6 +522,143 @@ export const useOrderOverlayStore = create<OrderOverlayStore>((set, get) => ({
     return overlay;
   },
 
+  addPayment: async (orderId, payment) => {
+    const existing = get().overlays[orderId];
+    if (!existing) {
+      console.warn('⚠️ [ORDER OVERLAY] Cannot record payment - order not found:', orderId);
+      return null;
+    }
+
+    const payments = [...(existing.payments || []), payment];
+    const updated: OverlayOrder = {
+      ...existing,
+      payments,
+      amountPaid: getAmountPaid(payments),
+      balanceDue: getBalanceDue(existing.total, payments),
+      updatedAt: new Date()
+    };
+    set(state => ({ overlays: { ...state.overlays, [orderId]: updated } }));
+    await saveOverlayToDB(updated);
+
+    console.log('💳 [ORDER OVERLAY] Payment recorded:', orderId, {
+      method: payment.method,
+      amount: payment.amount,
+      balanceDue: updated.balanceDue
+    });
+    return updated;
+  },
+
+  getUnverifiedTransfers: async () => {
+    try {
+      const orders = await getDB()?.overlays.toArray();
+      if (!orders) return [];
+
+      return orders
+        .flatMap(order => getUnverifiedTransfers(order.payments).map(payment => ({ order, payment })))
+        .sort((a, b) => a.payment.createdAt.localeCompare(b.payment.createdAt));
+    } catch (error) {
+      console.error('❌ [ORDER OVERLAY] Error fetching unverified transfers:', error);
+      return [];
+    }
+  },
+
+  verifyPayment: async (orderId, paymentId, verifiedBy, note) => {
+    const existing = get().overlays[orderId] || await getDB()?.overlays.get(orderId);
+    if (!existing?.payments?.some(payment => payment.id === paymentId)) {
+      console.warn('⚠️ [ORDER OVERLAY] Cannot verify payment - not found:', orderId, paymentId);
+      return null;
+    }
+
+    const updated: OverlayOrder = {
+      ...existing,
+      payments: existing.payments.map(payment =>
+        payment.id === paymentId
+          ? { ...payment, verification: 'verified', verifiedBy, verifiedAt: new Date().toISOString(), verificationNote: note }
+          : payment
+      ),
+      updatedAt: new Date()
+    };
+    set(state => ({ overlays: { ...state.overlays, [orderId]: updated } }));
+    await saveOverlayToDB(updated);
+    console.log('✅ [ORDER OVERLAY] Online transfer verified:', orderId, paymentId);
+    return updated;
+  },
+
+  addRefund: async (orderId, refund, refundStatus) => {
+    const existing = get().overlays[orderId] || await getDB()?.overlays.get(orderId);
+    if (!existing) {
+      console.warn('⚠️ [ORDER OVERLAY] Cannot record refund - order not found:', orderId);
+      return null;
+    }
+
+    const refunds = [...(existing.refunds || []), refund];
+    const updated: OverlayOrder = {
+      ...existing,
+      refunds,
+      refundedAmount: sumMoney(refunds.map(entry => entry.amount)),
+      refundStatus,
+      updatedAt: new Date()
+    };
+    set(state => ({ overlays: { ...state.overlays, [orderId]: updated } }));
+    await saveOverlayToDB(updated);
+
+    console.log('↩️ [ORDER OVERLAY] Refund recorded:', orderId, {
+      amount: refund.amount,
+      destination: refund.destination,
+      refundStatus
+    });
+    return updated;
+  },
+
+  markRefundSynced: async (orderId, refundId, backendRefundId) => {
+    const existing = get().overlays[orderId] || await getDB()?.overlays.get(orderId);
+    if (!existing?.refunds) return;
+
+    const updated: OverlayOrder = {
+      ...existing,
+      refunds: existing.refunds.map(refund =>
+        refund.id === refundId ? { ...refund, syncStatus: 'synced', backendRefundId } : refund
+      ),
+      updatedAt: new Date()
+    };
+    set(state => ({ overlays: { ...state.overlays, [orderId]: updated } }));
+    await saveOverlayToDB(updated);
+    console.log('✅ [SYNC SUCCESS] Refund marked as synced:', refundId);
+  },
+
+  markRefundSyncFailed: async (orderId, refundId) => {
+    const existing = get().overlays[orderId] || await getDB()?.overlays.get(orderId);
+    if (!existing?.refunds) return;
+
+    const updated: OverlayOrder = {
+      ...existing,
+      refunds: existing.refunds.map(refund =>
+        refund.id === refundId ? { ...refund, syncStatus: 'failed' } : refund
+      ),
+      updatedAt: new Date()
+    };
+    set(state => ({ overlays: { ...state.overlays, [orderId]: updated } }));
+    await saveOverlayToDB(updated);
+    console.log('❌ [SYNC FAILED] Refund sync failed:', refundId);
+  },
+
+  getPendingSyncRefunds: async () => {
+    try {
+      const orders = await getDB()?.overlays.toArray();
+      if (!orders) return [];
+
+      // Refunds can only reach the backend once their order has a backend id
+      return orders
+        .filter(order => order.backendOrderId && order.refunds?.length)
+        .flatMap(order => (order.refunds || [])
+          .filter(refund => refund.syncStatus !== 'synced')
+          .map(refund => ({ order, refund })));
+    } catch (error) {
+      console.error('❌ [PENDING SYNC] Error fetching pending refunds:', error);
+      return [];
+    }
+  },
+
   updateOverlay: async (orderId, updates) => {
     const existing = get().overlays[orderId];
     if (!existing) return;
@@ -405,6 +667,12 @@ export const useOrderOverlayStore = create<OrderOverlayStore>((set, get) => ({
     await saveOverlayToDB(updated);
   },
 
+  restoreOverlay: async (order) => {
+    const restored: OverlayOrder = { ...order, updatedAt: new Date() };
+    set(state => ({ overlays: { ...state.overlays, [restored.id]: restored } }));
+    await saveOverlayToDB(restored);
+  },
+
   // Mark order as completed - for OrderOverlay completion
   markOrderCompleted: async (orderId: string) => {
     // Try in-memory first
@@ -559,6 +827,11 @@ export const useOrderOverlayStore = create<OrderOverlayStore>((set, get) => ({
           }
         }
 
+        // ✂️ Split checks share the slot - only the check being paid is its orderRefId
+        if (order.checkNumber !== undefined && order.items?.length) {
+          return false;
+        }
+
         // If slot is processing but has DIFFERENT orderRefId, this overlay is orphaned
         if (slot.status === 'processing' && slot.orderRefId && slot.orderRefId !== order.id) {
           console.log(`🧹 [CLEANUP] Order ${order.id} orphaned: slot ${order.slotId} is processing different order (${slot.orderRefId})`);
@@ -0,0 +1,159 @@
+/**
+ * PRICE OVERRIDE AUDIT STORE - Offline Price Override Log
+ *
+ * ARCHITECTURE:
+ * - Every cashier price override (and every restore to the menu price) is
+ *   written to IndexedDB when it is made, with reason code, cashier and approver
+ * - Entries sync to POST /t/pos/price-overrides/audit (sync service retries)
+ * - X / Z reports total the entries of their business day
+ *
+ * ENTRY LIFECYCLE:
+ * 1. Recorded: price changed on a cart line (pending sync)
+ * 2. Synced: accepted by the backend
+ *
+ * INTEGRATION:
+ * - Cart Overlay: Records overrides from the PriceOverrideModal
+ * - Report Service: Override count / amount per reason in X and Z reports
+ * - Sync Service: Pushes pending entries
+ */
+
+import { create } from 'zustand';
+import Dexie, { Table } from 'dexie';
+import type { PriceOverrideAuditEntry } from '@/types/pos';
+import { syncPriceOverrideAudit } from '@/lib/api/priceOverrides';
+import { useAuthStore } from '@/lib/store/auth';
+import { getBusinessDate, useTillStore } from '@/lib/store/till';
+import { roundMoney } from '@/lib/utils/money';
+
+class PriceOverrideAuditDB extends Dexie {
+  entries!: Table<PriceOverrideAuditEntry, string>;
+
+  constructor() {
+    super('PriceOverrideAuditDB');
+    this.version(1).stores({
+      entries: 'id, businessDate, orderId, lineId, syncStatus, createdAt'
+    });
+  }
+}
+
+// Initialize DB only on client-side
+let db: PriceOverrideAuditDB | null = null;
+
+const getDB = (): PriceOverrideAuditDB | null => {
+  if (typeof window === 'undefined') return null;
+  if (!db) {
+    db = new PriceOverrideAuditDB();
+  }
+  return db;
+};
+
+export type PriceOverrideAuditInput = Omit<
+  PriceOverrideAuditEntry,
+  'id' | 'businessDate' | 'cashierId' | 'cashierName' | 'tillSessionId' | 'createdAt' | 'syncStatus'
+>;
+
+interface PriceOverrideAuditStore {
+  // Log an override / restore (cashier, till and business day filled in)
+  recordEntry: (entry: PriceOverrideAuditInput) => Promise<PriceOverrideAuditEntry | null>;
+  getEntriesForDate: (businessDate: string) => Promise<PriceOverrideAuditEntry[]>;
+  getPendingSyncEntries: () => Promise<PriceOverrideAuditEntry[]>;
+  syncPendingEntries: () => Promise<{ success: number; failed: number }>;
+}
+
+export const usePriceOverrideAuditStore = create<PriceOverrideAuditStore>((_set, get) => ({
+  recordEntry: async (input) => {
+    const database = getDB();
+    if (!database) return null;
+
+    const user = useAuthStore.getState().user;
+    const now = new Date();
+    const entry: PriceOverrideAuditEntry = {
+      ...input,
+      id: `PO-${now.getTime()}-${input.lineId}`,
+      businessDate: getBusinessDate(now),
+      originalPrice: roundMoney(input.originalPrice),
+      price: roundMoney(input.price),
+      cashierId: user?.id,
+      cashierName: user?.name,
+      tillSessionId: useTillStore.getState().currentSession?.id,
+      createdAt: now,
+      syncStatus: 'pending'
+    };
+
+    try {
+      await database.entries.put(entry);
+      console.log('💲 [PRICE OVERRIDE AUDIT] Recorded', entry.action, 'for', entry.itemName, {
+        originalPrice: entry.originalPrice,
+        price: entry.price,
+        reason: entry.reason
+      });
+      return entry;
+    } catch (error) {
+      console.error('❌ [PRICE OVERRIDE AUDIT] Failed to record entry:', error);
+      return null;
+    }
+  },
+
+  getEntriesForDate: async (businessDate) => {
+    const database = getDB();
+    if (!database) return [];
+
+    try {
+      return await database.entries.where('businessDate').equals(businessDate).sortBy('createdAt');
+    } catch (error) {
+      console.error('❌ [PRICE OVERRIDE AUDIT] Failed to get entries:', error);
+      return [];
+    }
+  },
+
+  getPendingSyncEntries: async () => {
+    const database = getDB();
+    if (!database) return [];
+
+    try {
+      const entries = await database.entries.where('syncStatus').equals('pending').toArray();
+      return entries.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+    } catch (error) {
+      console.error('❌ [PRICE OVERRIDE AUDIT] Failed to get pending entries:', error);
+      return [];
+    }
+  },
+
+  syncPendingEntries: async () => {
+    const database = getDB();
+    const entries = await get().getPendingSyncEntries();
+    if (!database || entries.length === 0) return { success: 0, failed: 0 };
+
+    try {
+      const result = await syncPriceOverrideAudit(entries.map(entry => ({
+        entryId: entry.id,
+        action: entry.action,
+        businessDate: entry.businessDate,
+        orderId: entry.orderId,
+        slotId: entry.slotId,
+        menuItemId: entry.itemId,
+        itemName: entry.itemName,
+        quantity: entry.quantity,
+        originalPrice: entry.originalPrice,
+        price: entry.price,
+        reason: entry.reason,
+        cashierId: entry.cashierId,
+        approvedBy: entry.approvedBy,
+        tillSessionId: entry.tillSessionId,
+        createdAt: new Date(entry.createdAt).toISOString()
+      })));
+
+      if (!result.success) {
+        return { success: 0, failed: entries.length };
+      }
+
+      await database.entries.bulkPut(entries.map(entry => ({ ...entry, syncStatus: 'synced' as const })));
+
+      console.log('✅ [PRICE OVERRIDE AUDIT] Synced', entries.length, 'audit entries');
+      return { success: entries.length, failed: 0 };
+    } catch (error) {
+      console.error('❌ [PRICE OVERRIDE AUDIT] Failed to sync audit log:', error);
+      return { success: 0, failed: entries.length };
+    }
+  }
+}));
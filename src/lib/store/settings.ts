@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
+import type { CashDenominations } from '@/types/pos';
 
 export type Currency = 'PKR' | 'USD' | 'EUR' | 'GBP';
 export type TileSize = 'small' | 'medium' | 'large';
@@ -11,13 +12,26 @@ export interface CurrencyConfig {
   symbol: string;
   position: 'before' | 'after';
   decimalPlaces: number;
+  denominations: CashDenominations; // Default note/coin set (branch cash config can override)
 }
 
 export const CURRENCY_CONFIGS: Record<Currency, CurrencyConfig> = {
-  PKR: { symbol: 'Rs.', position: 'before', decimalPlaces: 0 },
-  USD: { symbol: '$', position: 'before', decimalPlaces: 2 },
-  EUR: { symbol: '€', position: 'before', decimalPlaces: 2 },
-  GBP: { symbol: '£', position: 'before', decimalPlaces: 2 },
+  PKR: {
+    symbol: 'Rs.', position: 'before', decimalPlaces: 0,
+    denominations: { notes: [5000, 1000, 500, 100, 50, 20, 10], coins: [5, 2, 1] }
+  },
+  USD: {
+    symbol: '$', position: 'before', decimalPlaces: 2,
+    denominations: { notes: [100, 50, 20, 10, 5, 1], coins: [0.25, 0.1, 0.05, 0.01] }
+  },
+  EUR: {
+    symbol: '€', position: 'before', decimalPlaces: 2,
+    denominations: { notes: [500, 200, 100, 50, 20, 10, 5], coins: [2, 1, 0.5, 0.2, 0.1, 0.05, 0.02, 0.01] }
+  },
+  GBP: {
+    symbol: '£', position: 'before', decimalPlaces: 2,
+    denominations: { notes: [50, 20, 10, 5], coins: [2, 1, 0.5, 0.2, 0.1, 0.05, 0.02, 0.01] }
+  },
 };
 
 export interface SettingsStore {
@@ -15,21 +15,60 @@
  * INTEGRATION:
  * - Clock In: Opens till with cash counting
  * - Clock Out/Logout: Closes till with cash reconciliation
+ *   (service charge and tips are totalled separately for payout; the cash
+ *   rounding total explains the difference to the unrounded cash sales)
+ * - Payment Ledger: Expected cash counts only the cash tenders of split/part-paid orders
+ * - Refunds: Cash refunds paid from this till come out of the expected amount
+ * - Cash Movements: Pay-ins add to the expected amount, pay-outs and safe drops
+ *   come out of it (recorded offline, synced with the till close)
+ * - Handover: Cashiers change on an open drawer - the outgoing cashier counts,
+ *   the incoming one accepts that count as their float; each stretch is a
+ *   TillShift on the session (synced with the till close)
+ * - Blind Close: Branch config can hide the expected amount while counting; a
+ *   variance over the branch threshold needs a manager (approver + reason stored)
+ * - Z Reports: A Z report locks its business day - no till can open and no
+ *   cash can move on a locked day (lib/services/reportService)
  * - Auth Store: Tracks current POS terminal
  */
 
 import { create } from 'zustand';
 import Dexie, { Table } from 'dexie';
-import type { TillSession, CashCounts, TillStatus } from '@/types/pos';
+import type {
+  TillSession,
+  TillShift,
+  CashCounts,
+  TillStatus,
+  CashMovement,
+  CashMovementType,
+  PayOutCategory,
+  TillCloseConfig,
+  ZReportRecord
+} from '@/types/pos';
+import { allocateMoney, compareMoney, formatMoneyValue, getActiveCurrency, roundMoney, subtractMoney, sumMoney } from '@/lib/utils/money';
+import { getAmountPaid, getCashTendered } from '@/lib/utils/payments';
+import { useBranchConfigStore } from '@/lib/store/branchConfig';
 
 class TillDB extends Dexie {
   sessions!: Table<TillSession, string>;
+  movements!: Table<CashMovement, string>;
+  zReports!: Table<ZReportRecord, number>;
 
   constructor() {
     super('TillDB');
     this.version(1).stores({
       sessions: 'id, posId, userId, status, syncStatus, openedAt'
     });
+    // v2: Cash movements (pay-in / pay-out / safe drop)
+    this.version(2).stores({
+      sessions: 'id, posId, userId, status, syncStatus, openedAt',
+      movements: 'id, tillSessionId, type, syncStatus, createdAt'
+    });
+    // v3: Z reports (one per business day)
+    this.version(3).stores({
+      sessions: 'id, posId, userId, status, syncStatus, openedAt',
+      movements: 'id, tillSessionId, type, syncStatus, createdAt',
+      zReports: 'zNumber, businessDate'
+    });
   }
 }
 
@@ -79,18 +118,45 @@ async function closeTillInDB(sessionId: string, closeData: {
   systemClosingAmount: number;
   closingCashCounts?: CashCounts;
   closingNotes?: string;
-}): Promise<void> {
+  serviceChargeTotal?: number;
+  tipTotal?: number;
+  roundingTotal?: number;
+  refundTotal?: number;
+  payInTotal?: number;
+  payOutTotal?: number;
+  safeDropTotal?: number;
+  blindClose?: boolean;
+  varianceApprovedBy?: string;
+  varianceReason?: string;
+}): Promise<TillSession | null> {
   const database = getDB();
-  if (!database) return;
+  if (!database) return null;
 
   try {
     const session = await database.sessions.get(sessionId);
     if (session) {
       session.status = 'closed';
-      session.declaredClosingAmount = closeData.declaredClosingAmount;
-      session.systemClosingAmount = closeData.systemClosingAmount;
+      session.declaredClosingAmount = roundMoney(closeData.declaredClosingAmount);
+      session.systemClosingAmount = roundMoney(closeData.systemClosingAmount);
       session.closingCashCounts = closeData.closingCashCounts;
       session.closingNotes = closeData.closingNotes;
+      session.serviceChargeTotal = closeData.serviceChargeTotal !== undefined ? roundMoney(closeData.serviceChargeTotal) : undefined;
+      session.tipTotal = closeData.tipTotal !== undefined ? roundMoney(closeData.tipTotal) : undefined;
+      session.roundingTotal = closeData.roundingTotal !== undefined ? roundMoney(closeData.roundingTotal) : undefined;
+      session.refundTotal = closeData.refundTotal !== undefined ? roundMoney(closeData.refundTotal) : undefined;
+      session.payInTotal = closeData.payInTotal !== undefined ? roundMoney(closeData.payInTotal) : undefined;
+      session.payOutTotal = closeData.payOutTotal !== undefined ? roundMoney(closeData.payOutTotal) : undefined;
+      session.safeDropTotal = closeData.safeDropTotal !== undefined ? roundMoney(closeData.safeDropTotal) : undefined;
+      session.shifts = endLastShift(getTillShifts(session), {
+        countedAmount: closeData.declaredClosingAmount,
+        expectedAmount: closeData.systemClosingAmount,
+        cashCounts: closeData.closingCashCounts,
+        notes: closeData.closingNotes
+      });
+      session.blindClose = closeData.blindClose;
+      session.closingVariance = subtractMoney(closeData.declaredClosingAmount, closeData.systemClosingAmount);
+      session.varianceApprovedBy = closeData.varianceApprovedBy;
+      session.varianceReason = closeData.varianceReason;
       session.closedAt = new Date();
       session.updatedAt = new Date();
       session.syncStatus = 'pending'; // Mark for sync
@@ -98,8 +164,10 @@ async function closeTillInDB(sessionId: string, closeData: {
       await database.sessions.put(session);
       console.log('✅ [TILL DB] Closed till session:', sessionId);
     }
+    return session || null;
   } catch (error) {
     console.error('❌ [TILL DB] Failed to close till:', error);
+    return null;
   }
 }
 
@@ -118,11 +186,206 @@ async function getPendingSyncSessions(): Promise<TillSession[]> {
   }
 }
 
+async function saveCashMovementToDB(movement: CashMovement): Promise<void> {
+  const database = getDB();
+  if (!database) return;
+
+  try {
+    await database.movements.put(movement);
+    console.log('✅ [TILL DB] Saved cash movement:', movement.type, movement.amount);
+  } catch (error) {
+    console.error('❌ [TILL DB] Failed to save cash movement:', error);
+    throw error;
+  }
+}
+
+async function getCashMovementsFromDB(tillSessionId: string): Promise<CashMovement[]> {
+  const database = getDB();
+  if (!database) return [];
+
+  try {
+    const movements = await database.movements.where('tillSessionId').equals(tillSessionId).toArray();
+    return movements.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  } catch (error) {
+    console.error('❌ [TILL DB] Failed to get cash movements:', error);
+    return [];
+  }
+}
+
+async function markCashMovementsSyncedInDB(tillSessionId: string): Promise<void> {
+  const database = getDB();
+  if (!database) return;
+
+  try {
+    await database.movements.where('tillSessionId').equals(tillSessionId).modify({ syncStatus: 'synced' });
+  } catch (error) {
+    console.error('❌ [TILL DB] Failed to mark cash movements synced:', error);
+  }
+}
+
+async function updateSessionSyncStatusInDB(sessionId: string, syncStatus: TillSession['syncStatus']): Promise<void> {
+  const database = getDB();
+  if (!database) return;
+
+  try {
+    await database.sessions.update(sessionId, {
+      syncStatus,
+      syncedAt: syncStatus === 'synced' ? new Date() : undefined,
+      updatedAt: new Date()
+    });
+  } catch (error) {
+    console.error('❌ [TILL DB] Failed to update till sync status:', error);
+  }
+}
+
+async function getSessionsFromDB(): Promise<TillSession[]> {
+  const database = getDB();
+  if (!database) return [];
+
+  try {
+    return await database.sessions.toArray();
+  } catch (error) {
+    console.error('❌ [TILL DB] Failed to get till sessions:', error);
+    return [];
+  }
+}
+
+async function getAllCashMovementsFromDB(): Promise<CashMovement[]> {
+  const database = getDB();
+  if (!database) return [];
+
+  try {
+    return await database.movements.toArray();
+  } catch (error) {
+    console.error('❌ [TILL DB] Failed to get cash movements:', error);
+    return [];
+  }
+}
+
+async function getZReportsFromDB(): Promise<ZReportRecord[]> {
+  const database = getDB();
+  if (!database) return [];
+
+  try {
+    return await database.zReports.orderBy('zNumber').toArray();
+  } catch (error) {
+    console.error('❌ [TILL DB] Failed to get Z reports:', error);
+    return [];
+  }
+}
+
+/**
+ * Business day key for a timestamp (same key as OverlayOrder.orderDate)
+ */
+export const getBusinessDate = (date: Date | string = new Date()): string => {
+  return new Date(date).toISOString().split('T')[0]; // YYYY-MM-DD
+};
+
+/**
+ * Branch till close-out rules (flattened field first, then posConfig)
+ */
+export const getTillCloseConfig = (): TillCloseConfig => {
+  const config = useBranchConfigStore.getState().config;
+  return { blindClose: false, ...(config?.tillClose ?? config?.posConfig?.tillClose) };
+};
+
+/**
+ * Over/short beyond the branch threshold (no threshold = never needs sign-off)
+ */
+export const isVarianceOverThreshold = (variance: number, config: TillCloseConfig = getTillCloseConfig()): boolean => {
+  if (typeof config.varianceThreshold !== 'number' || config.varianceThreshold < 0) return false;
+  return compareMoney(Math.abs(variance), config.varianceThreshold) > 0;
+};
+
+/**
+ * Cashier shifts on a session (sessions opened before handover get one shift for the opener)
+ */
+export const getTillShifts = (session: TillSession): TillShift[] => {
+  if (session.shifts?.length) return session.shifts;
+  const isClosed = session.status === 'closed' && session.declaredClosingAmount !== undefined;
+  return [{
+    id: `${session.id}-1`,
+    userId: session.userId,
+    startedAt: session.openedAt,
+    startingAmount: session.openingAmount,
+    startingExpected: session.openingAmount,
+    endedAt: isClosed ? session.closedAt : undefined,
+    countedAmount: isClosed ? session.declaredClosingAmount : undefined,
+    expectedAmount: isClosed ? session.systemClosingAmount : undefined,
+    variance: isClosed ? subtractMoney(session.declaredClosingAmount || 0, session.systemClosingAmount || 0) : undefined
+  }];
+};
+
+// End the open shift with its count - the variance is only what changed during the shift
+const endLastShift = (shifts: TillShift[], end: {
+  countedAmount: number;
+  expectedAmount: number;
+  cashCounts?: CashCounts;
+  notes?: string;
+}): TillShift[] => {
+  const last = shifts[shifts.length - 1];
+  const countedAmount = roundMoney(end.countedAmount);
+  const expectedAmount = roundMoney(end.expectedAmount);
+  return [...shifts.slice(0, -1), {
+    ...last,
+    endedAt: new Date(),
+    countedAmount,
+    expectedAmount,
+    cashCounts: end.cashCounts,
+    notes: end.notes,
+    variance: subtractMoney(subtractMoney(countedAmount, last.startingAmount), subtractMoney(expectedAmount, last.startingExpected))
+  }];
+};
+
+// Pay-out reasons shown in the till screen
+export const PAY_OUT_CATEGORIES: Record<PayOutCategory, string> = {
+  supplier: 'Supplier',
+  petty_cash: 'Petty Cash',
+  staff: 'Staff',
+  maintenance: 'Maintenance',
+  other: 'Other'
+};
+
+export interface CashMovementTotals {
+  payIns: number;
+  payOuts: number;
+  safeDrops: number;
+  net: number; // Effect on the drawer (pay-ins - pay-outs - safe drops)
+}
+
+/**
+ * Totals per movement type (amounts are stored positive)
+ */
+export const getCashMovementTotals = (movements: CashMovement[]): CashMovementTotals => {
+  const totalOf = (type: CashMovementType) => sumMoney(movements.filter(movement => movement.type === type).map(movement => movement.amount));
+  const payIns = totalOf('pay_in');
+  const payOuts = totalOf('pay_out');
+  const safeDrops = totalOf('safe_drop');
+  return { payIns, payOuts, safeDrops, net: subtractMoney(payIns, sumMoney([payOuts, safeDrops])) };
+};
+
+// Service charge, tips, cash rounding and refunds in a till session (close-out)
+export interface TillCloseOutTotals {
+  serviceCharge: number;
+  tips: number;
+  cashTips: number; // Tips taken in cash - already in the drawer (part of expected amount)
+  cardTips: number;
+  cashRounding: number; // Net cash rounding (+/-) - already in the cash order totals
+  refunds: number;      // Refunds paid out of this session (all tenders, positive)
+  cashRefunds: number;  // Cash refunds - already taken out of the expected amount
+  payIns: number;       // Cash movements - already in the expected amount
+  payOuts: number;
+  safeDrops: number;
+}
+
 // Zustand Store
 interface TillStore {
   // Current active till session
   currentSession: TillSession | null;
 
+  // Pay-ins / pay-outs / safe drops of the current session
+  cashMovements: CashMovement[];
+
   // Loading states
   isLoading: boolean;
   isOpening: boolean;
@@ -137,14 +400,57 @@ interface TillStore {
     openingCashCounts?: CashCounts;
     openingNotes?: string;
     tillSessionId?: string; // Optional: Use backend tillSessionId if available
+    userName?: string;
   }) => Promise<void>;
 
+  handoverTill: (params: {
+    countedAmount: number;      // Outgoing cashier's count = incoming cashier's float
+    expectedAmount: number;
+    cashCounts?: CashCounts;
+    notes?: string;
+    incomingUserId: string;
+    incomingUserName?: string;
+  }) => Promise<TillSession>;
+
   closeTill: (params: {
     declaredClosingAmount: number;
     systemClosingAmount: number;
     closingCashCounts?: CashCounts;
     closingNotes?: string;
-  }) => Promise<void>;
+    serviceChargeTotal?: number;
+    tipTotal?: number;
+    roundingTotal?: number;
+    refundTotal?: number;
+    payInTotal?: number;
+    payOutTotal?: number;
+    safeDropTotal?: number;
+    blindClose?: boolean;
+    varianceApprovedBy?: string; // Required when the variance is over the branch threshold
+    varianceReason?: string;
+  }) => Promise<TillSession | null>; // Closed session (shifts ended) for the backend sync
+
+  recordCashMovement: (params: {
+    type: CashMovementType;
+    amount: number;
+    reason: string;
+    category?: PayOutCategory;
+    note?: string;
+    userId?: string;
+    userName?: string;
+  }) => Promise<CashMovement>;
+
+  markCashMovementsSynced: (tillSessionId: string) => Promise<void>;
+
+  markSessionSyncStatus: (tillSessionId: string, syncStatus: TillSession['syncStatus']) => Promise<void>;
+
+  retrySessionSync: (tillSessionId: string) => Promise<{ success: boolean; error?: string }>; // Closed sessions (till history)
+
+  // Report data (X / Z reports)
+  getSessions: () => Promise<TillSession[]>;
+  getAllCashMovements: () => Promise<CashMovement[]>;
+  getZReports: () => Promise<ZReportRecord[]>;
+  getZReportForDate: (businessDate: string) => Promise<ZReportRecord | null>;
+  saveZReport: (record: Omit<ZReportRecord, 'zNumber'>) => Promise<ZReportRecord>;
 
   loadActiveTill: (posId: string) => Promise<void>;
 
@@ -154,6 +460,8 @@ interface TillStore {
 
   getExpectedTillAmount: () => Promise<number>;
 
+  getCloseOutTotals: () => Promise<TillCloseOutTotals>;
+
   syncPendingSessions: () => Promise<void>;
 
   // Internal
@@ -163,6 +471,7 @@ interface TillStore {
 
 export const useTillStore = create<TillStore>((set, get) => ({
   currentSession: null,
+  cashMovements: [],
   isLoading: false,
   isOpening: false,
   isClosing: false,
@@ -197,9 +506,17 @@ export const useTillStore = create<TillStore>((set, get) => ({
 
     console.log('📦 [TILL] Total overlays in memory:', allOverlays.length);
 
-    // Only count SYNCED cash orders (not pending)
+    // 💳 Orders with a payment ledger: only the cash tenders taken in this till session
+    // (split and part-paid orders put just their cash part in the drawer)
+    const ledgerCash = allOverlays
+      .filter(order => order.payments?.length)
+      .map(order => getCashTendered(order.payments, currentSession.id));
+
+    // Orders without a ledger: only count SYNCED cash orders (not pending)
     // Pending orders will be synced by next cashier in their shift
     const cashOrders = allOverlays.filter(order => {
+      if (order.payments?.length) return false;
+
       const match = order.tillSessionId === currentSession.id &&
                     order.paymentStatus === 'paid' &&
                     order.paymentMethod === 'cash' &&
@@ -219,29 +536,97 @@ export const useTillStore = create<TillStore>((set, get) => ({
       return match;
     });
 
-    console.log('💵 [TILL] Cash orders for this till:', cashOrders.length);
+    console.log('💵 [TILL] Cash orders for this till:', cashOrders.length, '+ ledger orders:', ledgerCash.length);
+
+    // ↩️ Cash refunds paid out of this till (negative tenders, whatever till took the sale)
+    const cashRefunds = getCashTendered(
+      allOverlays.flatMap(order => (order.refunds || []).flatMap(refund => refund.tenders)),
+      currentSession.id
+    );
+
+    // Sum up all cash taken (exact, in currency minor units)
+    const totalCashSales = sumMoney([
+      ...cashOrders.map(order => order.total || order.totalPrice || 0),
+      ...ledgerCash
+    ]);
+    // 💵 Pay-ins / pay-outs / safe drops recorded in this session
+    const movements = getCashMovementTotals(await getCashMovementsFromDB(currentSession.id));
 
-    // Sum up all cash order totals
-    const totalCashSales = cashOrders.reduce((sum, order) => {
-      const orderTotal = order.total || order.totalPrice || 0;
-      return sum + orderTotal;
-    }, 0);
+    const expectedTotal = sumMoney([currentSession.openingAmount, totalCashSales, cashRefunds, movements.net]);
 
     console.log('💰 [TILL] Calculation:', {
       openingAmount: currentSession.openingAmount,
       cashSales: totalCashSales,
-      expectedTotal: currentSession.openingAmount + totalCashSales
+      cashRefunds,
+      payIns: movements.payIns,
+      payOuts: movements.payOuts,
+      safeDrops: movements.safeDrops,
+      expectedTotal
     });
 
-    // Expected till = opening amount + cash sales
-    return currentSession.openingAmount + totalCashSales;
+    // Expected till = opening amount + cash sales - cash refunds + pay-ins - pay-outs - safe drops
+    return expectedTotal;
+  },
+
+  getCloseOutTotals: async () => {
+    const totals: TillCloseOutTotals = { serviceCharge: 0, tips: 0, cashTips: 0, cardTips: 0, cashRounding: 0, refunds: 0, cashRefunds: 0, payIns: 0, payOuts: 0, safeDrops: 0 };
+    const { currentSession } = get();
+    if (!currentSession || currentSession.status !== 'open') return totals;
+
+    // Import order overlay store dynamically to avoid circular deps
+    const { useOrderOverlayStore } = await import('./order-overlay');
+    const overlayStore = useOrderOverlayStore.getState();
+    await overlayStore.loadAll?.();
+
+    // Same orders as the expected amount: paid orders with a ledger tender taken in this session
+    // (orders without a ledger: the order's own till session, synced only)
+    const paidOrders = Object.values(overlayStore.overlays).filter(order => {
+      if (order.paymentStatus !== 'paid') return false;
+      if (order.payments?.length) {
+        return order.payments.some(payment => payment.tillSessionId === currentSession.id);
+      }
+      return order.tillSessionId === currentSession.id && order.syncStatus === 'synced';
+    });
+
+    totals.serviceCharge = sumMoney(paidOrders.map(order => order.serviceCharge || 0));
+    totals.tips = sumMoney(paidOrders.map(order => order.tip || 0));
+    // 💵 Cash part of each tip follows the order's cash tenders in this session (split tenders share it)
+    totals.cashTips = sumMoney(paidOrders.map(order => {
+      if (!order.tip) return 0;
+      if (!order.payments?.length) return order.paymentMethod === 'cash' ? order.tip : 0;
+      const cash = getCashTendered(order.payments, currentSession.id);
+      return allocateMoney(order.tip, [cash, subtractMoney(getAmountPaid(order.payments), cash)])[0];
+    }));
+    totals.cardTips = subtractMoney(totals.tips, totals.cashTips);
+    // Rounding only comes with cash - orders with a cash tender taken in this session
+    totals.cashRounding = sumMoney(paidOrders
+      .filter(order => order.payments?.length
+        ? order.payments.some(payment => payment.method === 'cash' && payment.tillSessionId === currentSession.id)
+        : order.paymentMethod === 'cash')
+      .map(order => order.roundingAdjustment || 0));
+
+    // Refund tenders paid from this session (stored negative)
+    const refundTenders = Object.values(overlayStore.overlays)
+      .flatMap(order => (order.refunds || []).flatMap(refund => refund.tenders))
+      .filter(tender => tender.tillSessionId === currentSession.id);
+    totals.refunds = -sumMoney(refundTenders.map(tender => tender.amount));
+    totals.cashRefunds = -getCashTendered(refundTenders, currentSession.id);
+
+    const movements = getCashMovementTotals(await getCashMovementsFromDB(currentSession.id));
+    totals.payIns = movements.payIns;
+    totals.payOuts = movements.payOuts;
+    totals.safeDrops = movements.safeDrops;
+
+    console.log('🍽️ [TILL] Close-out totals:', totals);
+    return totals;
   },
 
   loadActiveTill: async (posId: string) => {
     set({ isLoading: true });
     try {
       const session = await getActiveTillFromDB(posId);
-      set({ currentSession: session, isLoading: false });
+      const cashMovements = session ? await getCashMovementsFromDB(session.id) : [];
+      set({ currentSession: session, cashMovements, isLoading: false });
       console.log('🏦 [TILL STORE] Loaded active till:', session?.id || 'none');
     } catch (error) {
       console.error('❌ [TILL STORE] Failed to load active till:', error);
@@ -278,7 +663,7 @@ export const useTillStore = create<TillStore>((set, get) => ({
         branchId: user.branchId,
         userId: user.id,
         status: 'open',
-        openingAmount: backendSession.openingAmount,
+        openingAmount: roundMoney(backendSession.openingAmount),
         openingCashCounts: backendSession.openingCashCounts,
         openingNotes: backendSession.openingNotes,
         openedAt: new Date(backendSession.openedAt),
@@ -288,7 +673,7 @@ export const useTillStore = create<TillStore>((set, get) => ({
       };
 
       await saveTillToDB(tillSession);
-      set({ currentSession: tillSession });
+      set({ currentSession: tillSession, cashMovements: await getCashMovementsFromDB(tillSession.id) });
 
       console.log('✅ [TILL STORE] Backend till synced to IndexedDB:', tillSession.id);
       return true;
@@ -312,10 +697,18 @@ export const useTillStore = create<TillStore>((set, get) => ({
         branchId: params.branchId,
         userId: params.userId,
         status: 'open',
-        openingAmount: params.openingAmount,
+        openingAmount: roundMoney(params.openingAmount),
         openingCashCounts: params.openingCashCounts,
         openingNotes: params.openingNotes,
         openedAt: new Date(),
+        shifts: [{
+          id: `${tillSessionId}-1`,
+          userId: params.userId,
+          userName: params.userName,
+          startedAt: new Date(),
+          startingAmount: roundMoney(params.openingAmount),
+          startingExpected: roundMoney(params.openingAmount)
+        }],
         // Mark as synced if we got ID from backend, pending otherwise
         syncStatus: params.tillSessionId ? 'synced' : 'pending',
         createdAt: new Date(),
@@ -323,7 +716,7 @@ export const useTillStore = create<TillStore>((set, get) => ({
       };
 
       await saveTillToDB(session);
-      set({ currentSession: session, isOpening: false });
+      set({ currentSession: session, cashMovements: [], isOpening: false });
       console.log('✅ [TILL STORE] Opened till session:', session.id);
       console.log('🔑 [TILL STORE] Till ID source:', params.tillSessionId ? 'BACKEND (real)' : 'LOCAL (mock)');
 
@@ -336,20 +729,68 @@ export const useTillStore = create<TillStore>((set, get) => ({
     }
   },
 
+  handoverTill: async (params) => {
+    const { currentSession } = get();
+    if (!currentSession || currentSession.status !== 'open') {
+      throw new Error('No active till session to hand over');
+    }
+    if (!(params.countedAmount >= 0)) {
+      throw new Error('Enter the counted amount');
+    }
+
+    const shifts = getTillShifts(currentSession);
+    if (shifts[shifts.length - 1].userId === params.incomingUserId) {
+      throw new Error('Hand over to a different cashier');
+    }
+
+    const countedAmount = roundMoney(params.countedAmount);
+    const session: TillSession = {
+      ...currentSession,
+      shifts: [
+        ...endLastShift(shifts, params),
+        {
+          id: `${currentSession.id}-${shifts.length + 1}`,
+          userId: params.incomingUserId,
+          userName: params.incomingUserName,
+          startedAt: new Date(),
+          startingAmount: countedAmount,
+          startingExpected: roundMoney(params.expectedAmount)
+        }
+      ],
+      updatedAt: new Date()
+    };
+
+    await saveTillToDB(session);
+    set({ currentSession: session });
+    console.log('🔁 [TILL STORE] Till handed over:', {
+      tillSessionId: session.id,
+      from: shifts[shifts.length - 1].userId,
+      to: params.incomingUserId,
+      float: countedAmount
+    });
+    return session;
+  },
+
   closeTill: async (params) => {
     const { currentSession } = get();
     if (!currentSession) {
       throw new Error('No active till session to close');
     }
 
+    const variance = subtractMoney(params.declaredClosingAmount, params.systemClosingAmount);
+    if (isVarianceOverThreshold(variance) && (!params.varianceApprovedBy || !params.varianceReason?.trim())) {
+      throw new Error('Till variance is over the branch limit - manager approval required');
+    }
+
     set({ isClosing: true });
     try {
-      await closeTillInDB(currentSession.id, params);
-      set({ currentSession: null, isClosing: false });
+      const closedSession = await closeTillInDB(currentSession.id, params);
+      set({ currentSession: null, cashMovements: [], isClosing: false });
       console.log('✅ [TILL STORE] Closed till session:', currentSession.id);
 
       // TODO: Sync to backend when online
       // get().syncPendingSessions();
+      return closedSession;
     } catch (error) {
       console.error('❌ [TILL STORE] Failed to close till:', error);
       set({ isClosing: false });
@@ -357,6 +798,137 @@ export const useTillStore = create<TillStore>((set, get) => ({
     }
   },
 
+  recordCashMovement: async (params) => {
+    const { currentSession } = get();
+    if (!currentSession || currentSession.status !== 'open') {
+      throw new Error('No active till session');
+    }
+    const zReport = await get().getZReportForDate(getBusinessDate());
+    if (zReport) {
+      throw new Error(`Business day ${zReport.businessDate} is closed (Z #${zReport.zNumber})`);
+    }
+
+    const amount = roundMoney(params.amount);
+    const reason = params.reason.trim();
+    if (!(amount > 0)) {
+      throw new Error('Enter an amount greater than zero');
+    }
+    if (!reason) {
+      throw new Error('A reason is required');
+    }
+
+    // Pay-outs and safe drops cannot take more than the drawer should hold
+    if (params.type !== 'pay_in') {
+      const expected = await get().getExpectedTillAmount();
+      if (compareMoney(amount, expected) > 0) {
+        throw new Error(`Only ${getActiveCurrency()} ${formatMoneyValue(expected)} is expected in the drawer`);
+      }
+    }
+
+    const movement: CashMovement = {
+      id: `cm-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      tillSessionId: currentSession.id,
+      type: params.type,
+      amount,
+      reason,
+      category: params.type === 'pay_out' ? params.category || 'other' : undefined,
+      note: params.note?.trim() || undefined,
+      userId: params.userId,
+      userName: params.userName,
+      createdAt: new Date(),
+      syncStatus: 'pending'
+    };
+
+    await saveCashMovementToDB(movement);
+    set(state => ({ cashMovements: [...state.cashMovements, movement] }));
+    console.log('✅ [TILL STORE] Recorded cash movement:', movement.type, movement.amount, movement.reason);
+    return movement;
+  },
+
+  markCashMovementsSynced: async (tillSessionId) => {
+    await markCashMovementsSyncedInDB(tillSessionId);
+    console.log('✅ [TILL STORE] Cash movements synced for session:', tillSessionId);
+  },
+
+  markSessionSyncStatus: async (tillSessionId, syncStatus) => {
+    await updateSessionSyncStatusInDB(tillSessionId, syncStatus);
+    console.log(`🔄 [TILL STORE] Session ${tillSessionId} sync status:`, syncStatus);
+  },
+
+  retrySessionSync: async (tillSessionId) => {
+    const database = getDB();
+    const session = database ? await database.sessions.get(tillSessionId) : undefined;
+    if (!session || session.status !== 'closed') {
+      return { success: false, error: 'Only closed till sessions can be synced' };
+    }
+    if (session.syncStatus === 'synced') {
+      return { success: true };
+    }
+
+    try {
+      // Dynamic import to avoid circular dependencies
+      const { closeTill, closeTillMock, isMockTillSession, toCloseTillRequest } = await import('../api/till');
+      const request = toCloseTillRequest(session, await getCashMovementsFromDB(session.id));
+      const enableMock = process.env.NEXT_PUBLIC_ENABLE_MOCK_DATA === 'true' || isMockTillSession(session.id);
+      const response = enableMock ? await closeTillMock(request) : await closeTill(request);
+
+      if (!response.success) {
+        await updateSessionSyncStatusInDB(session.id, 'failed');
+        return { success: false, error: response.message || response.error || 'Till sync failed' };
+      }
+
+      await updateSessionSyncStatusInDB(session.id, 'synced');
+      await markCashMovementsSyncedInDB(session.id);
+      console.log('✅ [TILL STORE] Till session synced on retry:', session.id);
+      return { success: true };
+    } catch (error) {
+      console.error('❌ [TILL STORE] Till sync retry failed:', error);
+      await updateSessionSyncStatusInDB(session.id, 'failed');
+      return { success: false, error: error instanceof Error ? error.message : 'Till sync failed' };
+    }
+  },
+
+  getSessions: async () => getSessionsFromDB(),
+
+  getAllCashMovements: async () => getAllCashMovementsFromDB(),
+
+  getZReports: async () => getZReportsFromDB(),
+
+  getZReportForDate: async (businessDate) => {
+    const database = getDB();
+    if (!database) return null;
+
+    try {
+      return (await database.zReports.where('businessDate').equals(businessDate).first()) || null;
+    } catch (error) {
+      console.error('❌ [TILL DB] Failed to get Z report:', error);
+      return null;
+    }
+  },
+
+  saveZReport: async (record) => {
+    const database = getDB();
+    if (!database) {
+      throw new Error('Z reports need a browser database');
+    }
+
+    // Sequential Z number + one Z per business day, in one transaction
+    const saved = await database.transaction('rw', database.zReports, async () => {
+      const existing = await database.zReports.where('businessDate').equals(record.businessDate).first();
+      if (existing) {
+        throw new Error(`Business day ${record.businessDate} already has Z #${existing.zNumber}`);
+      }
+      const last = await database.zReports.orderBy('zNumber').last();
+      const zNumber = (last?.zNumber || 0) + 1;
+      const zReport: ZReportRecord = { ...record, zNumber, report: { ...record.report, zNumber } };
+      await database.zReports.add(zReport);
+      return zReport;
+    });
+
+    console.log('✅ [TILL STORE] Z report saved:', saved.zNumber, saved.businessDate);
+    return saved;
+  },
+
   syncPendingSessions: async () => {
     try {
       const pendingSessions = await getPendingSyncSessions();
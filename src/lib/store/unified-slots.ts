@@ -33,6 +33,7 @@ interface UnifiedSlotStore {
   }) => Promise<void>;
   setSlotAvailable: (slotId: string) => Promise<void>;
   setSlotCompleted: (slotId: string) => Promise<void>;
+  setSlotCustomerCount: (slotId: string, customerCount: number | undefined) => Promise<void>; // Covers (dine-in)
 
   // Management
   createDynamicSlot: (orderType: OrderType) => Promise<UnifiedSlot>;
@@ -377,6 +378,7 @@ export const useUnifiedSlotStore = create<UnifiedSlotStore>((set, get) => ({
       elapsedTime: undefined,
       timeStatus: undefined,
       orderRefId: undefined, // Clear order reference - slot becomes truly empty
+      customerCount: undefined, // Covers belong to the order that just left
       updatedAt: new Date()
     };
 
@@ -401,6 +403,25 @@ export const useUnifiedSlotStore = create<UnifiedSlotStore>((set, get) => ({
     // Silent slot completion for performance
   },
 
+  setSlotCustomerCount: async (slotId: string, customerCount: number | undefined) => {
+    const { slots } = get();
+    const existingSlot = slots[slotId];
+
+    if (!existingSlot) {
+      console.warn('⚠️ [UNIFIED] Slot not found for customer count:', slotId);
+      return;
+    }
+
+    const updatedSlot: UnifiedSlot = {
+      ...existingSlot,
+      customerCount: customerCount && customerCount > 0 ? Math.floor(customerCount) : undefined,
+      updatedAt: new Date()
+    };
+
+    set({ slots: { ...slots, [slotId]: updatedSlot } });
+    await saveSlotToDB(updatedSlot);
+  },
+
   createDynamicSlot: async (orderType: OrderType) => {
     const { slots } = get();
     const existingSlots = Object.values(slots).filter(s => s.orderType === orderType);
@@ -680,6 +701,7 @@ export const useUnifiedSlotStore = create<UnifiedSlotStore>((set, get) => ({
             startTime: undefined,
             elapsedTime: undefined,
             timeStatus: undefined,
+            customerCount: sourceSlot.customerCount, // ⬅️ Covers move with the order
             updatedAt: now
           },
           [sourceSlotId]: {
@@ -691,6 +713,7 @@ export const useUnifiedSlotStore = create<UnifiedSlotStore>((set, get) => ({
             startTime: undefined,
             elapsedTime: undefined,
             timeStatus: undefined,
+            customerCount: undefined,
             updatedAt: now
           }
         }
@@ -0,0 +1,226 @@
+/**
+ * VOUCHER LEDGER STORE - Offline Voucher Redemption Ledger
+ *
+ * ARCHITECTURE:
+ * - Every voucher code used on a placed order is written to IndexedDB
+ * - Usage limits (per code, per customer, per batch) are checked against this
+ *   ledger so single-use codes cannot be reused while offline
+ * - Redemptions sync with their order (syncService marks them synced); pending
+ *   ones (released codes, orders not synced yet) are also pushed to
+ *   POST /t/pos/vouchers/redemptions every sync run
+ *
+ * REDEMPTION LIFECYCLE:
+ * 1. Redeemed: order placed with the code (pending sync)
+ * 2. Synced: order (with its voucher codes) accepted by the backend
+ * 3. Released: code removed from the order or order voided - no longer counts
+ *
+ * INTEGRATION:
+ * - Payment Overlay: Records redemptions when an order is placed
+ * - Voucher Rules (lib/utils/vouchers): Usage counts for validation
+ * - Sync Service: Marks redemptions synced after the order syncs, pushes pending ones
+ */
+
+import { create } from 'zustand';
+import Dexie, { Table } from 'dexie';
+import type { AppliedVoucher, VoucherRedemption } from '@/types/pos';
+import { roundMoney } from '@/lib/utils/money';
+import { syncVoucherRedemptions } from '@/lib/api/vouchers';
+
+class VoucherLedgerDB extends Dexie {
+  redemptions!: Table<VoucherRedemption, string>;
+
+  constructor() {
+    super('VoucherLedgerDB');
+    this.version(1).stores({
+      redemptions: 'id, code, batchId, orderId, customerPhone, status, syncStatus'
+    });
+  }
+}
+
+// Initialize DB only on client-side
+let db: VoucherLedgerDB | null = null;
+
+const getDB = (): VoucherLedgerDB | null => {
+  if (typeof window === 'undefined') return null;
+  if (!db) {
+    db = new VoucherLedgerDB();
+  }
+  return db;
+};
+
+export interface VoucherUsage {
+  code: number;      // Active redemptions of this code
+  batch: number;     // Active redemptions across the batch
+  customer: number;  // Active redemptions of the batch by this customer
+  codeSynced: number;  // Of `code`, already synced to the backend
+  batchSynced: number; // Of `batch`, already synced to the backend
+}
+
+interface VoucherLedgerStore {
+  // Record the vouchers used on an order (codes no longer on the order are released)
+  recordRedemptions: (orderId: string, vouchers: AppliedVoucher[], customerPhone?: string) => Promise<void>;
+  // Release every redemption of an order (order voided/cancelled)
+  releaseRedemptions: (orderId: string) => Promise<void>;
+  // Usage counts for validation (excludeOrderId: the order being edited)
+  getUsage: (params: { code: string; batchId: string; customerPhone?: string; excludeOrderId?: string }) => Promise<VoucherUsage>;
+  getOrderRedemptions: (orderId: string) => Promise<VoucherRedemption[]>;
+  getPendingSyncRedemptions: () => Promise<VoucherRedemption[]>;
+  markOrderRedemptionsSynced: (orderId: string) => Promise<void>;
+  syncPendingRedemptions: () => Promise<{ success: number; failed: number }>;
+}
+
+export const useVoucherLedgerStore = create<VoucherLedgerStore>((_set, get) => ({
+  recordRedemptions: async (orderId, vouchers, customerPhone) => {
+    const database = getDB();
+    if (!database) return;
+
+    try {
+      const now = new Date();
+      const existing = await database.redemptions.where('orderId').equals(orderId).toArray();
+      const codes = vouchers.map(voucher => voucher.code);
+
+      const redeemed: VoucherRedemption[] = vouchers.map(voucher => {
+        const previous = existing.find(entry => entry.code === voucher.code);
+        return {
+          id: `${orderId}:${voucher.code}`,
+          code: voucher.code,
+          batchId: voucher.batchId,
+          orderId,
+          customerPhone: customerPhone || previous?.customerPhone,
+          amount: roundMoney(voucher.amount),
+          status: 'redeemed',
+          // Unchanged synced redemptions stay synced
+          syncStatus: previous?.status === 'redeemed' && previous.syncStatus === 'synced' && previous.amount === roundMoney(voucher.amount)
+            ? 'synced'
+            : 'pending',
+          redeemedAt: previous?.redeemedAt || now,
+          updatedAt: now
+        };
+      });
+
+      const released: VoucherRedemption[] = existing
+        .filter(entry => entry.status === 'redeemed' && !codes.includes(entry.code))
+        .map(entry => ({ ...entry, status: 'released', syncStatus: 'pending', updatedAt: now }));
+
+      await database.redemptions.bulkPut([...redeemed, ...released]);
+      console.log('✅ [VOUCHER LEDGER] Recorded redemptions for order', orderId, {
+        redeemed: codes,
+        released: released.map(entry => entry.code)
+      });
+    } catch (error) {
+      console.error('❌ [VOUCHER LEDGER] Failed to record redemptions:', error);
+    }
+  },
+
+  releaseRedemptions: async (orderId) => {
+    await useVoucherLedgerStore.getState().recordRedemptions(orderId, []);
+  },
+
+  getUsage: async ({ code, batchId, customerPhone, excludeOrderId }) => {
+    const usage: VoucherUsage = { code: 0, batch: 0, customer: 0, codeSynced: 0, batchSynced: 0 };
+    const database = getDB();
+    if (!database) return usage;
+
+    try {
+      const entries = await database.redemptions
+        .where('batchId')
+        .equals(batchId)
+        .and(entry => entry.status === 'redeemed' && entry.orderId !== excludeOrderId)
+        .toArray();
+
+      entries.forEach(entry => {
+        const synced = entry.syncStatus === 'synced';
+        usage.batch++;
+        if (synced) usage.batchSynced++;
+        if (entry.code === code) {
+          usage.code++;
+          if (synced) usage.codeSynced++;
+        }
+        if (customerPhone && entry.customerPhone === customerPhone) usage.customer++;
+      });
+    } catch (error) {
+      console.error('❌ [VOUCHER LEDGER] Failed to read usage:', error);
+    }
+
+    return usage;
+  },
+
+  getOrderRedemptions: async (orderId) => {
+    const database = getDB();
+    if (!database) return [];
+
+    try {
+      return await database.redemptions.where('orderId').equals(orderId).toArray();
+    } catch (error) {
+      console.error('❌ [VOUCHER LEDGER] Failed to get order redemptions:', error);
+      return [];
+    }
+  },
+
+  getPendingSyncRedemptions: async () => {
+    const database = getDB();
+    if (!database) return [];
+
+    try {
+      return await database.redemptions.where('syncStatus').equals('pending').toArray();
+    } catch (error) {
+      console.error('❌ [VOUCHER LEDGER] Failed to get pending redemptions:', error);
+      return [];
+    }
+  },
+
+  markOrderRedemptionsSynced: async (orderId) => {
+    const database = getDB();
+    if (!database) return;
+
+    try {
+      await database.redemptions
+        .where('orderId')
+        .equals(orderId)
+        .modify({ syncStatus: 'synced', updatedAt: new Date() });
+      console.log('✅ [VOUCHER LEDGER] Redemptions synced for order', orderId);
+    } catch (error) {
+      console.error('❌ [VOUCHER LEDGER] Failed to mark redemptions synced:', error);
+    }
+  },
+
+  syncPendingRedemptions: async () => {
+    const database = getDB();
+    const redemptions = await get().getPendingSyncRedemptions();
+    if (!database || redemptions.length === 0) return { success: 0, failed: 0 };
+
+    try {
+      const result = await syncVoucherRedemptions(redemptions.map(redemption => ({
+        redemptionId: redemption.id,
+        code: redemption.code,
+        batchId: redemption.batchId,
+        orderId: redemption.orderId,
+        customerPhone: redemption.customerPhone,
+        amount: redemption.amount,
+        status: redemption.status,
+        redeemedAt: new Date(redemption.redeemedAt).toISOString(),
+        updatedAt: new Date(redemption.updatedAt).toISOString()
+      })));
+
+      if (!result.success) {
+        return { success: 0, failed: redemptions.length };
+      }
+
+      // Only what was sent - a code changed meanwhile stays pending
+      await database.transaction('rw', database.redemptions, async () => {
+        for (const redemption of redemptions) {
+          const current = await database.redemptions.get(redemption.id);
+          if (current && current.status === redemption.status && current.amount === redemption.amount) {
+            await database.redemptions.update(redemption.id, { syncStatus: 'synced' });
+          }
+        }
+      });
+
+      console.log('✅ [VOUCHER LEDGER] Synced', redemptions.length, 'redemptions');
+      return { success: redemptions.length, failed: 0 };
+    } catch (error) {
+      console.error('❌ [VOUCHER LEDGER] Failed to sync redemptions:', error);
+      return { success: 0, failed: redemptions.length };
+    }
+  }
+}));
@@ -0,0 +1,108 @@
+/**
+ * Cash Utilities - Notes, Coins, Quick Tender and Change
+ *
+ * PURPOSE: One denomination set per currency, shared by the cash payment
+ * tab (quick-tender buttons, change breakdown) and till counting.
+ *
+ * LINKS WITH:
+ * - Settings Store: CURRENCY_CONFIGS.denominations (default set per currency)
+ * - Branch Config: paymentMethods.cash.denominations overrides the set
+ * - CashPaymentTab: Quick tender + change by note/coin
+ * - TillModal: Cash counting rows
+ *
+ * RULES:
+ * - All amounts are major units; calculations run in minor units (money.ts)
+ * - Quick tender only suggests notes (nobody pays 1270 with a pile of coins)
+ * - Change is broken down greedily, largest note first
+ */
+
+import { CURRENCY_CONFIGS, type Currency } from '@/lib/store/settings';
+import type { CashDenominations } from '@/types/pos';
+import { fromMinor, getActiveCurrency, toMinor } from '@/lib/utils/money';
+import { getBranchPaymentMethods } from '@/lib/utils/pricing';
+
+export interface ChangeBreakdownLine {
+  value: number;  // Note/coin value
+  count: number;
+  isCoin: boolean;
+}
+
+const sortDescending = (values: number[] = []): number[] =>
+  Array.from(new Set(values.filter(value => value > 0))).sort((a, b) => b - a);
+
+/**
+ * Notes and coins for the active currency (branch override first)
+ */
+export const getCashDenominations = (currency: Currency = getActiveCurrency()): CashDenominations => {
+  const override = getBranchPaymentMethods()?.cash?.denominations;
+  const denominations = override?.notes?.length ? override : CURRENCY_CONFIGS[currency]?.denominations;
+  return {
+    notes: sortDescending(denominations?.notes),
+    coins: sortDescending(denominations?.coins)
+  };
+};
+
+/**
+ * Every denomination, largest first (till counting)
+ */
+export const getAllDenominations = (denominations: CashDenominations = getCashDenominations()): number[] => {
+  return sortDescending([...denominations.notes, ...denominations.coins]);
+};
+
+/**
+ * Short button label: 5000 → "5K", 0.25 → "0.25"
+ */
+export const formatDenomination = (value: number): string => {
+  if (value >= 1000 && value % 1000 === 0) return `${value / 1000}K`;
+  return value % 1 === 0 ? value.toString() : value.toFixed(2);
+};
+
+/**
+ * Amounts a customer is likely to hand over for `amountDue`:
+ * the due amount rounded up to each note, smallest first
+ */
+export const getQuickTenderAmounts = (
+  amountDue: number,
+  denominations: CashDenominations = getCashDenominations(),
+  limit: number = 4
+): number[] => {
+  const dueMinor = toMinor(amountDue);
+  if (dueMinor <= 0) return [];
+
+  const suggestions = new Set<number>();
+  denominations.notes.forEach(note => {
+    const noteMinor = toMinor(note);
+    if (noteMinor <= 0) return;
+    const tenderMinor = Math.ceil(dueMinor / noteMinor) * noteMinor;
+    if (tenderMinor > dueMinor) suggestions.add(tenderMinor);
+  });
+
+  return Array.from(suggestions)
+    .sort((a, b) => a - b)
+    .slice(0, limit)
+    .map(minor => fromMinor(minor));
+};
+
+/**
+ * Change to hand back, by note and coin (largest first).
+ * `remainder` is anything smaller than the smallest coin.
+ */
+export const getChangeBreakdown = (
+  change: number,
+  denominations: CashDenominations = getCashDenominations()
+): { lines: ChangeBreakdownLine[]; remainder: number } => {
+  let remainingMinor = toMinor(change);
+  const coins = new Set(denominations.coins);
+  const lines: ChangeBreakdownLine[] = [];
+
+  getAllDenominations(denominations).forEach(value => {
+    const valueMinor = toMinor(value);
+    if (remainingMinor <= 0 || valueMinor <= 0) return;
+    const count = Math.floor(remainingMinor / valueMinor);
+    if (count === 0) return;
+    lines.push({ value, count, isCoin: coins.has(value) });
+    remainingMinor -= count * valueMinor;
+  });
+
+  return { lines, remainder: fromMinor(Math.max(0, remainingMinor)) };
+};
@@ -0,0 +1,77 @@
+/**
+ * Coursing Rules (Seats + Courses)
+ *
+ * PURPOSE: Dine-in lines carry a seat number and a course (starter, main,
+ * dessert). A course can be held - its lines stay off the kitchen ticket until
+ * someone fires the course.
+ *
+ * LINKS WITH:
+ * - Cart Store: setItemCoursing / setCourseHold tag the lines
+ * - Kitchen Service: New orders skip held lines, fireCourse sends them later
+ * - Kitchen tickets: Grouped by course
+ * - Receipt Service: Customer receipt can be grouped by seat
+ *
+ * RULES:
+ * - Paid lines keep their seat / course (already sent to the kitchen)
+ * - Holding is per course: every unfired line of the course is held together
+ * - A line moved into a held course is held too
+ */
+
+import type { Course } from '@/types/pos';
+
+// Kitchen order of courses
+export const COURSES: Course[] = ['starter', 'main', 'dessert'];
+
+export const COURSE_LABELS: Record<Course, string> = {
+  starter: 'Starter',
+  main: 'Main',
+  dessert: 'Dessert'
+};
+
+// Seats offered when the table has no covers set
+export const DEFAULT_SEAT_COUNT = 4;
+
+interface CoursedLine {
+  seat?: number;
+  course?: Course;
+  courseHeld?: boolean;
+}
+
+/**
+ * Lines still waiting for their course to be fired
+ */
+export const isHeldLine = (item: CoursedLine): boolean => !!item.course && !!item.courseHeld;
+
+/**
+ * Courses with lines on hold, in kitchen order
+ */
+export const getHeldCourses = (items: CoursedLine[]): Course[] =>
+  COURSES.filter(course => items.some(item => item.course === course && item.courseHeld));
+
+/**
+ * Group lines by course (kitchen order) - lines without a course come first
+ */
+export const groupByCourse = <T extends CoursedLine>(items: T[]): Array<{ course?: Course; items: T[] }> =>
+  [undefined, ...COURSES]
+    .map(course => ({ course, items: items.filter(item => item.course === course) }))
+    .filter(group => group.items.length > 0);
+
+/**
+ * Group lines by seat (seat order) - lines without a seat (shared / table) come last
+ */
+export const groupBySeat = <T extends CoursedLine>(items: T[]): Array<{ seat?: number; items: T[] }> => {
+  const seats = Array.from(new Set(items.map(item => item.seat).filter((seat): seat is number => seat !== undefined)))
+    .sort((a, b) => a - b);
+  return [...seats, undefined]
+    .map(seat => ({ seat, items: items.filter(item => item.seat === seat) }))
+    .filter(group => group.items.length > 0);
+};
+
+/**
+ * Short tag for a line, e.g. "S2 • Main (held)"
+ */
+export const formatCoursing = (item: CoursedLine): string =>
+  [
+    item.seat !== undefined ? `S${item.seat}` : '',
+    item.course ? `${COURSE_LABELS[item.course]}${item.courseHeld ? ' (held)' : ''}` : ''
+  ].filter(Boolean).join(' • ');
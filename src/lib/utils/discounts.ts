@@ -0,0 +1,118 @@
+/**
+ * Line Discount Rules & Discount Audit
+ *
+ * PURPOSE: Branch limits for cashier line-item discounts. Decides which
+ * discounts a cashier can apply directly and which need manager approval.
+ * Also lists every discount an order used (orders page audit).
+ *
+ * LINKS WITH:
+ * - Branch Config Store: `discountConfig` (approval limits + reasons)
+ * - Pricing Engine: calculateLineDiscount (amount the line is reduced by)
+ * - LineDiscountModal: Cashier UI (percentage/fixed + reason)
+ * - ManagerApprovalModal: Approval for discounts above the limit
+ * - Order Overlay Store: Line discounts, promotions and voucher codes per order
+ */
+
+import type { DiscountConfig, LineDiscount } from '@/types/pos';
+import type { OverlayOrder } from '@/lib/store/order-overlay';
+import { useBranchConfigStore } from '@/lib/store/branchConfig';
+import { calculateLineDiscount } from '@/lib/utils/pricing';
+import { compareMoney, subtractMoney, sumMoney } from '@/lib/utils/money';
+
+// Used when the branch has not configured discount limits
+export const DEFAULT_DISCOUNT_CONFIG: DiscountConfig = {
+  lineApprovalPercent: 20,
+  reasons: [
+    'Customer complaint',
+    'Staff meal',
+    'Loyal customer',
+    'Damaged item',
+    'Price match'
+  ]
+};
+
+/**
+ * Get branch discount configuration (flattened field first, then posConfig)
+ */
+export const getBranchDiscountConfig = (): DiscountConfig => {
+  const config = useBranchConfigStore.getState().config;
+  const discountConfig = config?.discountConfig ?? config?.posConfig?.discountConfig;
+
+  return {
+    ...DEFAULT_DISCOUNT_CONFIG,
+    ...discountConfig,
+    reasons: discountConfig?.reasons?.length ? discountConfig.reasons : DEFAULT_DISCOUNT_CONFIG.reasons
+  };
+};
+
+/**
+ * Check whether a line discount is above the branch limit (needs manager approval)
+ */
+export const requiresLineDiscountApproval = (
+  lineTotal: number,
+  discount: Pick<LineDiscount, 'type' | 'value'>,
+  config: DiscountConfig = getBranchDiscountConfig()
+): boolean => {
+  const amount = calculateLineDiscount(lineTotal, discount);
+  if (amount <= 0) return false;
+
+  const percent = lineTotal > 0 ? (amount / lineTotal) * 100 : 100;
+  if (typeof config.lineApprovalPercent === 'number' && percent > config.lineApprovalPercent) {
+    return true;
+  }
+
+  if (typeof config.lineApprovalAmount === 'number' && compareMoney(amount, config.lineApprovalAmount) > 0) {
+    return true;
+  }
+
+  return false;
+};
+
+export interface OrderDiscountEntry {
+  kind: 'line' | 'promotion' | 'voucher' | 'manual';
+  label: string;
+  detail?: string; // Reason, code, who applied/approved
+  amount: number;
+}
+
+/**
+ * Every discount an order used - line discounts, promotions, voucher codes, manual
+ */
+export const getOrderDiscounts = (
+  order: Pick<OverlayOrder, 'items' | 'promotions' | 'vouchers' | 'discount'>
+): OrderDiscountEntry[] => {
+  const entries: OrderDiscountEntry[] = [];
+
+  order.items.forEach(item => {
+    if (!item.lineDiscount || item.lineDiscount.amount <= 0) return;
+    const { type, value, reason, appliedBy, approvedBy } = item.lineDiscount;
+    entries.push({
+      kind: 'line',
+      label: `${item.name} (${type === 'percentage' ? `${value}%` : 'fixed'})`,
+      detail: [reason, appliedBy && `by ${appliedBy}`, approvedBy && `approved ${approvedBy}`].filter(Boolean).join(' • '),
+      amount: item.lineDiscount.amount
+    });
+  });
+
+  (order.promotions || []).forEach(promotion => {
+    entries.push({ kind: 'promotion', label: promotion.name, detail: promotion.description, amount: promotion.amount });
+  });
+
+  const vouchers = order.vouchers || [];
+  vouchers.forEach(voucher => {
+    entries.push({
+      kind: 'voucher',
+      label: voucher.name,
+      detail: [`Code ${voucher.code}`, voucher.appliedBy && `by ${voucher.appliedBy}`].filter(Boolean).join(' • '),
+      amount: voucher.amount
+    });
+  });
+
+  // Order discount not covered by codes (manual amount)
+  const manual = subtractMoney(order.discount || 0, sumMoney(vouchers.map(voucher => voucher.amount)));
+  if (manual > 0) {
+    entries.push({ kind: 'manual', label: 'Order discount', amount: manual });
+  }
+
+  return entries.filter(entry => entry.amount > 0);
+};
@@ -0,0 +1,71 @@
+/**
+ * Item Pricing Modes (Fixed / Open Price / Weight)
+ *
+ * PURPOSE: Menu items sold at a price entered at the till (market-price
+ * specials) or by weight (bakery by the kg). Open-price lines keep the entered
+ * price as the line's unit price; weight lines keep the unit price and carry
+ * the weight as a fractional quantity.
+ *
+ * LINKS WITH:
+ * - Item Modifier: Price / weight entry step before the item goes to the cart
+ * - Cart Store: setLineEntry re-prices an open-price or weight line
+ * - Receipt Service + Kitchen tickets: formatQuantity ("0.750 kg")
+ *
+ * RULES:
+ * - Open prices must be above 0 and inside the item's min/max when set
+ * - Weights are kept to 3 decimals and must be above 0
+ * - Weight lines are never merged with other lines of the same item
+ */
+
+import type { ItemPricingMode, WeightUnit } from '@/types/pos';
+import { formatCurrency } from '@/lib/utils/format';
+
+// Grams on a kg scale (0.001 kg)
+export const WEIGHT_DECIMALS = 3;
+
+interface PricedItem {
+  pricingMode?: ItemPricingMode;
+  minPrice?: number;
+  maxPrice?: number;
+  weightUnit?: WeightUnit;
+}
+
+export const getPricingMode = (item: PricedItem): ItemPricingMode => item.pricingMode ?? 'fixed';
+
+/**
+ * Items that need a price or weight entered at the till
+ */
+export const needsPriceEntry = (item: PricedItem): boolean => getPricingMode(item) !== 'fixed';
+
+export const isSoldByWeight = (item: PricedItem): boolean => getPricingMode(item) === 'weight';
+
+export const roundWeight = (weight: number): number =>
+  Math.round(weight * 10 ** WEIGHT_DECIMALS) / 10 ** WEIGHT_DECIMALS;
+
+/**
+ * Check an entered open price - returns an error message, null when valid
+ */
+export const validateOpenPrice = (item: PricedItem, price: number): string | null => {
+  if (!(price > 0)) return 'Enter a price';
+  if (item.minPrice !== undefined && price < item.minPrice) return `Price must be at least ${formatCurrency(item.minPrice)}`;
+  if (item.maxPrice !== undefined && price > item.maxPrice) return `Price cannot be more than ${formatCurrency(item.maxPrice)}`;
+  return null;
+};
+
+/**
+ * Check an entered weight - returns an error message, null when valid
+ */
+export const validateWeight = (weight: number): string | null =>
+  roundWeight(weight) > 0 ? null : 'Enter a weight';
+
+/**
+ * Quantity as printed on a line - "0.750 kg" for weight lines, "2" otherwise
+ */
+export const formatQuantity = (quantity: number, unit?: WeightUnit): string =>
+  unit ? `${quantity.toFixed(WEIGHT_DECIMALS)} ${unit}` : String(quantity);
+
+/**
+ * Unit price with its unit - "Rs. 1,200/kg"
+ */
+export const formatUnitPrice = (price: number, unit?: WeightUnit): string =>
+  `${formatCurrency(price)}${unit ? `/${unit}` : ''}`;
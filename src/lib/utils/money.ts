@@ -0,0 +1,193 @@
+/**
+ * Money Utilities - Integer Minor-Unit Arithmetic
+ *
+ * PURPOSE: Exact money math for cart, payments, till and receipts.
+ * Amounts are converted to integer minor units (paisa/cents) for every
+ * calculation and converted back to major units only for storage/display,
+ * so totals never drift (no 0.1 + 0.2 problems, no tolerance checks).
+ *
+ * LINKS WITH:
+ * - Settings Store: CURRENCY_CONFIGS.decimalPlaces (PKR 0, USD/EUR/GBP 2)
+ * - Branch Config Store: Branch currency (falls back to settings currency)
+ * - Pricing Engine: Line/tax rounding
+ * - Cart Store, Order Overlay Store, Till Store, Receipt Service
+ *
+ * USAGE:
+ * ```typescript
+ * sumMoney([0.1, 0.2]);            // 0.3 (USD) - exact
+ * multiplyMoney(899.5, 3);          // 2699 (PKR rounds to whole rupees)
+ * splitMoney(100, 3);               // [33.34, 33.33, 33.33] (USD)
+ * isSameAmount(paid, total);        // exact comparison in minor units
+ * roundToIncrement(1237, 5);        // 1235 (cash rounding)
+ * ```
+ */
+
+import { CURRENCY_CONFIGS, useSettingsStore, type Currency } from '@/lib/store/settings';
+import { useBranchConfigStore } from '@/lib/store/branchConfig';
+
+// Integer amount in the currency's smallest unit (paisa, cents)
+export type MinorUnits = number;
+
+/**
+ * Resolve active currency: branch config first, then user settings
+ */
+export const getActiveCurrency = (): Currency => {
+  const branchCurrency = useBranchConfigStore.getState().config?.currency?.toUpperCase();
+  if (branchCurrency && branchCurrency in CURRENCY_CONFIGS) {
+    return branchCurrency as Currency;
+  }
+  return useSettingsStore.getState().currency || 'PKR';
+};
+
+/**
+ * Decimal places for a currency (defaults to active currency)
+ */
+export const getCurrencyDecimalPlaces = (currency: Currency = getActiveCurrency()): number => {
+  return CURRENCY_CONFIGS[currency]?.decimalPlaces ?? 2;
+};
+
+const getFactor = (currency?: Currency): number => Math.pow(10, getCurrencyDecimalPlaces(currency));
+
+/**
+ * Convert major amount (e.g. 12.34) to integer minor units (e.g. 1234)
+ */
+export const toMinor = (amount: number, currency?: Currency): MinorUnits => {
+  if (!Number.isFinite(amount)) return 0;
+  const factor = getFactor(currency);
+  // toFixed guards against binary representation errors (1.005 * 100 = 100.49999...)
+  return Math.round(Number((amount * factor).toFixed(6)));
+};
+
+/**
+ * Convert integer minor units back to a major amount
+ */
+export const fromMinor = (minor: MinorUnits, currency?: Currency): number => {
+  return Math.round(minor) / getFactor(currency);
+};
+
+/**
+ * Round an amount to the currency's precision
+ */
+export const roundMoney = (amount: number, currency?: Currency): number => {
+  return fromMinor(toMinor(amount, currency), currency);
+};
+
+/**
+ * Sum amounts exactly
+ */
+export const sumMoney = (amounts: number[], currency?: Currency): number => {
+  const minor = amounts.reduce((sum, amount) => sum + toMinor(amount, currency), 0);
+  return fromMinor(minor, currency);
+};
+
+/**
+ * a - b, exactly
+ */
+export const subtractMoney = (a: number, b: number, currency?: Currency): number => {
+  return fromMinor(toMinor(a, currency) - toMinor(b, currency), currency);
+};
+
+/**
+ * Multiply an amount by a quantity/factor, rounded to currency precision
+ */
+export const multiplyMoney = (amount: number, factor: number, currency?: Currency): number => {
+  return fromMinor(Math.round(toMinor(amount, currency) * factor), currency);
+};
+
+/**
+ * Percentage of an amount (rate in %), rounded to currency precision
+ */
+export const percentOfMoney = (amount: number, ratePercent: number, currency?: Currency): number => {
+  return multiplyMoney(amount, ratePercent / 100, currency);
+};
+
+/**
+ * Split an amount into `parts` shares that add up exactly.
+ * Remainder minor units go to the first shares.
+ */
+export const splitMoney = (amount: number, parts: number, currency?: Currency): number[] => {
+  if (parts <= 0) return [];
+  const totalMinor = toMinor(amount, currency);
+  const base = Math.floor(totalMinor / parts);
+  const remainder = totalMinor - base * parts;
+
+  return Array.from({ length: parts }, (_, index) =>
+    fromMinor(base + (index < remainder ? 1 : 0), currency)
+  );
+};
+
+/**
+ * Allocate an amount across weights (e.g. line totals) so the shares add up exactly.
+ * Remainder minor units go to the largest fractional shares.
+ */
+export const allocateMoney = (amount: number, weights: number[], currency?: Currency): number[] => {
+  const totalWeight = weights.reduce((sum, weight) => sum + Math.max(0, weight), 0);
+  if (weights.length === 0 || totalWeight <= 0) return weights.map(() => 0);
+
+  const totalMinor = toMinor(amount, currency);
+  const exact = weights.map(weight => (totalMinor * Math.max(0, weight)) / totalWeight);
+  const shares = exact.map(Math.floor);
+  let remainder = totalMinor - shares.reduce((sum, share) => sum + share, 0);
+
+  exact
+    .map((value, index) => ({ index, fraction: value - Math.floor(value) }))
+    .sort((a, b) => b.fraction - a.fraction)
+    .forEach(({ index }) => {
+      if (remainder > 0) {
+        shares[index] += 1;
+        remainder -= 1;
+      }
+    });
+
+  return shares.map(share => fromMinor(share, currency));
+};
+
+/**
+ * Round an amount to a multiple of `increment` (e.g. 5 rupees for cash tender).
+ * 'nearest' rounds halves up, 'down' truncates, 'bankers' rounds halves to even.
+ */
+export const roundToIncrement = (
+  amount: number,
+  increment: number,
+  mode: 'nearest' | 'down' | 'bankers' = 'nearest',
+  currency?: Currency
+): number => {
+  const minor = toMinor(amount, currency);
+  const step = toMinor(increment, currency);
+  if (step <= 0) return fromMinor(minor, currency);
+
+  const units = minor / step;
+  const lower = Math.floor(units);
+  const remainder = minor - lower * step;
+  let rounded = lower;
+
+  if (mode === 'nearest') {
+    rounded = remainder * 2 >= step ? lower + 1 : lower;
+  } else if (mode === 'bankers') {
+    if (remainder * 2 > step) rounded = lower + 1;
+    else if (remainder * 2 === step) rounded = lower % 2 === 0 ? lower : lower + 1;
+  }
+
+  return fromMinor(rounded * step, currency);
+};
+
+/**
+ * Exact comparison at currency precision
+ */
+export const isSameAmount = (a: number, b: number, currency?: Currency): boolean => {
+  return toMinor(a, currency) === toMinor(b, currency);
+};
+
+/**
+ * Compare at currency precision: negative if a < b, 0 if equal, positive if a > b
+ */
+export const compareMoney = (a: number, b: number, currency?: Currency): number => {
+  return toMinor(a, currency) - toMinor(b, currency);
+};
+
+/**
+ * Format amount as plain number string at currency precision (receipts)
+ */
+export const formatMoneyValue = (amount: number, currency?: Currency): string => {
+  return roundMoney(amount, currency).toFixed(getCurrencyDecimalPlaces(currency));
+};
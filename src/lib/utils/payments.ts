@@ -0,0 +1,170 @@
+/**
+ * Payment Ledger - Tenders Taken Against an Order
+ *
+ * PURPOSE: Each order keeps a list of PaymentTransaction records (method,
+ * amount, reference, cashier, till session) instead of a single payment
+ * method string. Orders can be paid in parts - the balance due is the order
+ * total minus everything taken so far.
+ *
+ * LINKS WITH:
+ * - Payment Overlay: Records a transaction per tender (partial cash, card, split shares)
+ * - Order Overlay Store: `payments`, `amountPaid`, `balanceDue` per order
+ * - Sync Service / Orders API: Tenders sent to the backend
+ * - Till Store: Expected drawer amount counts cash tenders only
+ * - Receipt Service: One line per tender
+ *
+ * RULES:
+ * - `amount` is what the tender paid off; cash change is recorded separately
+ * - An order paid with more than one method reports paymentMethod 'split'
+ * - Amounts use money.ts so the balance reaches exactly zero
+ * - A method fee (card fee) is charged only on the part its tender pays and is
+ *   kept on that tender (`surcharge`, included in `amount`)
+ * - Online transfers need the customer's transaction reference and stay
+ *   'unverified' until a manager checks them against the bank statement
+ */
+
+import type { BankAccountInfo, BankTransferQRData, PaymentSurchargeConfig, PaymentTransaction, TenderMethod } from '@/types/pos';
+import type { PaymentTenderAPI } from '@/lib/api/orders';
+import { useAuthStore } from '@/lib/store/auth';
+import { getActiveCurrency, roundMoney, subtractMoney, sumMoney } from '@/lib/utils/money';
+import { getPaymentSurcharge } from '@/lib/utils/pricing';
+
+// Ledger ids are created up front when another ledger has to reference the tender (gift card redemptions)
+export const createPaymentId = (): string => `pay-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Build a transaction for the current cashier (till session from the till store,
+ * card fields from the payment terminal)
+ */
+export const createPaymentTransaction = (params: {
+  id?: string;
+  method: TenderMethod;
+  amount: number;
+  tendered?: number;
+  change?: number;
+  surcharge?: number;
+  reference?: string;
+  tillSessionId?: string;
+  approvalCode?: string;
+  maskedPan?: string;
+  cardBrand?: string;
+  terminalTransactionId?: string;
+  giftCardCode?: string;
+  verification?: PaymentTransaction['verification'];
+}): PaymentTransaction => {
+  const user = useAuthStore.getState().user;
+
+  return {
+    id: params.id || createPaymentId(),
+    method: params.method,
+    amount: roundMoney(params.amount),
+    tendered: params.tendered !== undefined ? roundMoney(params.tendered) : undefined,
+    change: params.change ? roundMoney(params.change) : undefined,
+    surcharge: params.surcharge ? roundMoney(params.surcharge) : undefined,
+    reference: params.reference,
+    cashierId: user?.id,
+    cashierName: user?.name,
+    tillSessionId: params.tillSessionId,
+    approvalCode: params.approvalCode,
+    maskedPan: params.maskedPan,
+    cardBrand: params.cardBrand,
+    terminalTransactionId: params.terminalTransactionId,
+    giftCardCode: params.giftCardCode,
+    verification: params.verification,
+    createdAt: new Date().toISOString()
+  };
+};
+
+/**
+ * Total applied to the order so far
+ */
+export const getAmountPaid = (payments: PaymentTransaction[] = []): number => {
+  return sumMoney(payments.map(payment => payment.amount));
+};
+
+/**
+ * What is still owed (never negative)
+ */
+export const getBalanceDue = (total: number, payments: PaymentTransaction[] = []): number => {
+  return Math.max(0, subtractMoney(total, getAmountPaid(payments)));
+};
+
+/**
+ * Order-level payment method: the only method used, or 'split' for mixed tenders
+ */
+export const resolvePaymentMethod = (payments: PaymentTransaction[] = []): TenderMethod | 'split' | undefined => {
+  const methods = Array.from(new Set(payments.map(payment => payment.method)));
+  if (methods.length === 0) return undefined;
+  return methods.length === 1 ? methods[0] : 'split';
+};
+
+/**
+ * Method fees taken with the tenders - the order's surcharge line (a cash part is never card-surcharged)
+ */
+export const getLedgerSurcharge = (payments: PaymentTransaction[] = []): PaymentSurchargeConfig | null => {
+  const surcharged = payments.filter(payment => payment.surcharge);
+  if (surcharged.length === 0) return null;
+
+  const method = surcharged[0].method;
+  return {
+    type: 'fixed',
+    value: sumMoney(surcharged.map(payment => payment.surcharge || 0)),
+    label: getPaymentSurcharge(method === 'gift_card' ? undefined : method)?.label
+  };
+};
+
+/**
+ * Cash that stayed in the drawer (optionally for one till session)
+ */
+export const getCashTendered = (payments: PaymentTransaction[] = [], tillSessionId?: string): number => {
+  return sumMoney(payments
+    .filter(payment => payment.method === 'cash' && (!tillSessionId || payment.tillSessionId === tillSessionId))
+    .map(payment => payment.amount));
+};
+
+/**
+ * Tenders in the backend order format
+ */
+export const toBackendPayments = (payments: PaymentTransaction[] = []): PaymentTenderAPI[] => {
+  return payments.map(payment => ({
+    method: payment.method,
+    amount: payment.amount,
+    tendered: payment.tendered,
+    change: payment.change,
+    reference: payment.reference,
+    approvalCode: payment.approvalCode,
+    maskedPan: payment.maskedPan,
+    cardBrand: payment.cardBrand,
+    terminalTransactionId: payment.terminalTransactionId,
+    giftCardCode: payment.giftCardCode,
+    verification: payment.verification,
+    verifiedBy: payment.verifiedBy,
+    verifiedAt: payment.verifiedAt,
+    cashierId: payment.cashierId,
+    tillSessionId: payment.tillSessionId,
+    paidAt: payment.createdAt
+  }));
+};
+
+/**
+ * Online transfers whose reference has not been checked yet
+ */
+export const getUnverifiedTransfers = (payments: PaymentTransaction[] = []): PaymentTransaction[] => {
+  return payments.filter(payment => payment.method === 'mobile' && payment.amount > 0 && payment.verification === 'unverified');
+};
+
+/**
+ * 🏦 Payment QR content for an online transfer (same { type, data } JSON as our other QR codes)
+ */
+export const buildTransferQRPayload = (account: BankAccountInfo, amount: number, reference: string): string => {
+  const data: BankTransferQRData = {
+    accountTitle: account.accountTitle,
+    bankName: account.bankName,
+    accountNumber: account.accountNumber,
+    iban: account.iban,
+    amount: roundMoney(amount),
+    currency: getActiveCurrency(),
+    reference
+  };
+  return JSON.stringify({ type: 'bank_transfer', data });
+};
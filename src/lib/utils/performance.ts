@@ -57,27 +57,8 @@ export const findItemById = <T extends { id: string }>(items: T[], id: string):
   return items.find(item => item.id === id);
 };
 
-// Memoized tax calculation
-const taxCache = new Map<number, number>();
-
-export const calculateTax = (subtotal: number, rate: number = 0.15): number => {
-  if (taxCache.has(subtotal)) {
-    return taxCache.get(subtotal)!;
-  }
-  
-  const tax = Math.round(subtotal * rate);
-  taxCache.set(subtotal, tax);
-  
-  // Limit cache size
-  if (taxCache.size > 1000) {
-    const firstKey = taxCache.keys().next().value;
-    if (firstKey !== undefined) {
-      taxCache.delete(firstKey);
-    }
-  }
-  
-  return tax;
-};
+// Tax calculation lives in the pricing engine (branch tax config, inclusive/exclusive)
+export { calculateTax } from '@/lib/utils/pricing';
 
 // Optimized string operations
 export const normalizeString = (str: string): string => {
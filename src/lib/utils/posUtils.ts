@@ -1,4 +1,5 @@
 import { CartItem } from '@/lib/store/cart-new';
+import { multiplyMoney, sumMoney } from '@/lib/utils/money';
 
 // Define the modifiers type locally since it's not exported from cart store
 interface CartItemModifiers {
@@ -15,19 +16,14 @@ export const calculateItemTotal = (
   quantity: number,
   modifiers?: CartItemModifiers
 ): number => {
-  let totalPrice = basePrice;
-  
-  // Add variation costs
-  if (modifiers?.variations) {
-    totalPrice += modifiers.variations.reduce((sum: number, mod: any) => sum + mod.price, 0);
-  }
-  
-  // Add add-on costs
-  if (modifiers?.addOns) {
-    totalPrice += modifiers.addOns.reduce((sum: number, mod: any) => sum + mod.price, 0);
-  }
-  
-  return totalPrice * quantity;
+  // Sum base + variation + add-on costs in currency minor units (exact)
+  const unitPrice = sumMoney([
+    basePrice,
+    ...(modifiers?.variations || []).map(mod => mod.price),
+    ...(modifiers?.addOns || []).map(mod => mod.price)
+  ]);
+
+  return multiplyMoney(unitPrice, quantity);
 };
 
 // BULLETPROOF: Sequential order number generation without throttling interference
@@ -229,11 +225,9 @@ export const sortItemsByPriority = <T extends { available: boolean; name: string
 };
 
 /**
- * Calculate tax amount
+ * Calculate tax amount - delegates to pricing engine (branch tax config)
  */
-export const calculateTax = (subtotal: number, taxRate: number = 0.15): number => {
-  return Math.round(subtotal * taxRate);
-};
+export { calculateTax } from '@/lib/utils/pricing';
 
 /**
  * Debounce function for search inputs
@@ -0,0 +1,84 @@
+/**
+ * Price Override Rules
+ *
+ * PURPOSE: Branch rules for cashier price overrides on a cart line (e.g. to
+ * match a printed flyer). Decides which overrides a cashier can make directly
+ * and which need manager approval, and offers the branch's reason codes.
+ *
+ * LINKS WITH:
+ * - Branch Config Store: `priceOverrideConfig` (approval limits + reason codes)
+ * - Cart Store: overrideItemPrice (line keeps original + overridden price)
+ * - PriceOverrideModal: Cashier UI (new price + reason code)
+ * - ManagerApprovalModal: Approval for overrides above the limit
+ * - Price Override Audit Store: Every override is logged and synced
+ *
+ * RULES:
+ * - Paid lines, gift cards, modifier upgrades and open-price lines can't be overridden
+ * - The override replaces the unit price - add-ons, quantity and line discounts apply on top
+ * - Price increases and decreases are both checked against the limits
+ */
+
+import type { ItemPricingMode, PriceOverrideConfig } from '@/types/pos';
+import { useBranchConfigStore } from '@/lib/store/branchConfig';
+import { compareMoney, subtractMoney } from '@/lib/utils/money';
+import { getPricingMode } from '@/lib/utils/itemPricing';
+
+// Used when the branch has not configured price overrides
+export const DEFAULT_PRICE_OVERRIDE_CONFIG: PriceOverrideConfig = {
+  approvalPercent: 10,
+  reasons: [
+    'Flyer price',
+    'Price match',
+    'Shelf price mismatch',
+    'Damaged item',
+    'Manager special'
+  ]
+};
+
+/**
+ * Get branch price override configuration (flattened field first, then posConfig)
+ */
+export const getBranchPriceOverrideConfig = (): PriceOverrideConfig => {
+  const config = useBranchConfigStore.getState().config;
+  const overrideConfig = config?.priceOverrideConfig ?? config?.posConfig?.priceOverrideConfig;
+
+  return {
+    ...DEFAULT_PRICE_OVERRIDE_CONFIG,
+    ...overrideConfig,
+    reasons: overrideConfig?.reasons?.length ? overrideConfig.reasons : DEFAULT_PRICE_OVERRIDE_CONFIG.reasons
+  };
+};
+
+/**
+ * Check whether a line's price can be overridden at all
+ */
+export const canOverridePrice = (item: {
+  isPaid?: boolean;
+  isModifierUpgrade?: boolean;
+  giftCard?: unknown;
+  pricingMode?: ItemPricingMode;
+}): boolean =>
+  !item.isPaid && !item.isModifierUpgrade && !item.giftCard && getPricingMode(item) !== 'open';
+
+/**
+ * Check whether a price change is above the branch limit (needs manager approval)
+ */
+export const requiresPriceOverrideApproval = (
+  originalPrice: number,
+  price: number,
+  config: PriceOverrideConfig = getBranchPriceOverrideConfig()
+): boolean => {
+  const change = Math.abs(subtractMoney(originalPrice, price));
+  if (change <= 0) return false;
+
+  const percent = originalPrice > 0 ? (change / originalPrice) * 100 : 100;
+  if (typeof config.approvalPercent === 'number' && percent > config.approvalPercent) {
+    return true;
+  }
+
+  if (typeof config.approvalAmount === 'number' && compareMoney(change, config.approvalAmount) > 0) {
+    return true;
+  }
+
+  return false;
+};
@@ -0,0 +1,527 @@
+/**
+ * Pricing & Tax Engine
+ *
+ * PURPOSE: Single source of truth for order pricing. Turns cart lines into an
+ * itemised breakdown (net, tax, gross per line + order totals) using the branch
+ * tax configuration instead of hard-coded rates.
+ *
+ * LINKS WITH:
+ * - Branch Config Store: Reads `tax` (rate + inclusive/exclusive mode),
+ *   per-payment-method `taxRateOverride`, `serviceCharge` and `tips`
+ * - Cart Store (cart-new): Recalculates cart subtotal/tax/total on every mutation
+ * - Payment Overlay: Re-prices the order for the selected payment method
+ * - CartTotals / CartOverlay: Displays the breakdown
+ * - Receipt Service: Prints the same figures the cashier saw
+ * - Cart Sync Service: Persists the breakdown to order overlays for backend sync
+ *
+ * RULES:
+ * - Tax rates are percentages (16 = 16%)
+ * - Exclusive mode: menu price is net, tax is added on top
+ * - Inclusive mode: menu price already contains tax, tax is extracted from it
+ * - `priceIncludesTax` on a menu item (from backend) wins over the branch mode
+ * - Payment method `taxRateOverride` replaces the branch rate when set
+ * - Items with a tax class (menu metadata) use the class rate; classes are
+ *   fixed-rate and not affected by payment method overrides
+ * - Line discounts (cashier, per item) and automatic promotions (see
+ *   promotions.ts) are deducted from the line before tax
+ * - Service charge is a percentage of the subtotal (after line discounts and
+ *   promotions); it and the tip are only taxed when branch config says so, at
+ *   the standard rate
+ * - Stored value lines (gift card sale / top-up) are never taxed and are
+ *   left out of the service charge base
+ * - Order discount is deducted after tax (matches existing cart behaviour) and
+ *   never takes the total below zero
+ * - Payment method `surcharge` (e.g. card fee) is added after discounts as its
+ *   own untaxed line - a percentage of the order total or a fixed amount
+ * - Cash tender only: the final total is rounded per `paymentMethods.cash.rounding`
+ *   (the difference is reported as `roundingAdjustment`)
+ * - Every line is rounded to currency precision and totals are summed in
+ *   integer minor units (see money.ts) so lines always add up to the total
+ */
+
+import type { TaxConfig, TaxClass, PaymentMethodConfig, PaymentMethodsConfig, PaymentSurchargeConfig, LineDiscount, GiftCardLine, OrderType, ServiceChargeConfig, TipConfig, CashRoundingConfig } from '@/types/pos';
+import { useBranchConfigStore } from '@/lib/store/branchConfig';
+import { percentOfMoney, roundMoney, roundToIncrement, subtractMoney, sumMoney } from '@/lib/utils/money';
+
+export type PricingPaymentMethod = 'cash' | 'card' | 'mobile' | 'split';
+
+export type TaxMode = TaxConfig['mode'];
+
+// Lines without a tax class are grouped under the branch standard rate
+export const STANDARD_TAX_CLASS_ID = 'standard';
+
+// Tax summary group for gift card sales / top-ups (stored value is not taxed)
+export const STORED_VALUE_TAX_CLASS_ID = 'stored-value';
+
+// Tax summary groups for taxable service charge / tip
+export const SERVICE_CHARGE_LINE_ID = 'service-charge';
+export const TIP_LINE_ID = 'tip';
+
+// Fallback when the branch has not configured tax yet
+export const DEFAULT_TAX_CONFIG: TaxConfig = {
+  mode: 'exclusive',
+  rate: 16
+};
+
+export interface PricingLineInput {
+  id: string;
+  lineTotal: number;          // Unit price (with modifiers) x quantity, as entered on the menu
+  quantity?: number;
+  priceIncludesTax?: boolean; // Per-item override from backend menu
+  taxClassId?: string;        // Tax class from backend menu metadata
+  discount?: Pick<LineDiscount, 'type' | 'value'>; // Line discount (applied before tax)
+  promotionDiscount?: number; // Automatic promotion amount (applied before tax)
+  storedValue?: boolean;      // Gift card sale / top-up (untaxed, no service charge)
+}
+
+export interface PricingLine {
+  id: string;
+  quantity: number;
+  taxRate: number;
+  taxClassId: string;
+  taxClassName: string;
+  priceIncludesTax: boolean;
+  discount: number;  // Line discount amount (deducted before tax)
+  promotion: number; // Promotion amount (deducted before tax)
+  net: number;       // Line amount excluding tax (after discounts)
+  tax: number;       // Tax for this line
+  gross: number;     // Line amount including tax (after discounts)
+}
+
+export interface TaxSummaryEntry {
+  taxClassId: string;
+  name: string;
+  rate: number;
+  net: number; // Taxable amount in this group
+  tax: number;
+}
+
+export interface PricingBreakdown {
+  lines: PricingLine[];
+  taxSummary: TaxSummaryEntry[]; // Tax grouped by class + rate (receipt breakdown)
+  subtotal: number; // Sum of net line amounts (after line discounts + promotions)
+  tax: number;
+  lineDiscount: number;      // Sum of line discounts (already deducted from subtotal/tax)
+  promotionDiscount: number; // Sum of promotions (already deducted from subtotal/tax)
+  discount: number;          // Order discount
+  serviceCharge: number;     // Service charge amount (net)
+  serviceChargeRate: number;
+  tip: number;               // Tip amount (net)
+  surcharge: number;         // Payment method surcharge (untaxed)
+  surchargeLabel?: string;
+  roundingAdjustment: number; // Cash rounding (+/-), already in total
+  total: number;        // subtotal + serviceCharge + tip + tax - discount + surcharge + roundingAdjustment
+  taxRate: number;  // Standard rate (after payment method override)
+  taxMode: TaxMode;
+  paymentMethod?: PricingPaymentMethod;
+}
+
+export interface PricingOptions {
+  discount?: number;
+  paymentMethod?: PricingPaymentMethod;
+  taxConfig?: TaxConfig;                     // Defaults to branch config
+  paymentMethods?: PaymentMethodsConfig;     // Defaults to branch config
+  serviceChargeRate?: number;                // % of subtotal (see resolveServiceChargeRate)
+  tip?: number;
+  serviceChargeConfig?: ServiceChargeConfig; // Defaults to branch config (taxability)
+  tipConfig?: TipConfig;                     // Defaults to branch config (taxability)
+  cashRounding?: CashRoundingConfig | null;  // Cash tender rounding - defaults to branch config (null = off)
+  surcharge?: PaymentSurchargeConfig | null; // Payment method surcharge - defaults to branch config (null = none)
+}
+
+const SURCHARGE_LABELS: Record<keyof PaymentMethodsConfig, string> = {
+  cash: 'Cash Fee',
+  card: 'Card Fee',
+  mobile: 'Online Fee',
+  giftCard: 'Gift Card Fee'
+};
+
+/**
+ * Get branch tax configuration (falls back to DEFAULT_TAX_CONFIG)
+ */
+export const getBranchTaxConfig = (): TaxConfig => {
+  const config = useBranchConfigStore.getState().config;
+  const tax = config?.tax;
+
+  if (!tax || typeof tax.rate !== 'number') {
+    return DEFAULT_TAX_CONFIG;
+  }
+
+  return {
+    ...tax,
+    mode: tax.mode === 'inclusive' ? 'inclusive' : 'exclusive'
+  };
+};
+
+/**
+ * Get branch payment methods config (flattened field first, then posConfig)
+ */
+export const getBranchPaymentMethods = (): PaymentMethodsConfig | undefined => {
+  const config = useBranchConfigStore.getState().config;
+  return config?.paymentMethods ?? config?.posConfig?.paymentMethods;
+};
+
+/**
+ * Get branch service charge config (flattened field first, then posConfig)
+ */
+export const getBranchServiceCharge = (): ServiceChargeConfig | undefined => {
+  const config = useBranchConfigStore.getState().config;
+  return config?.serviceCharge ?? config?.posConfig?.serviceCharge;
+};
+
+/**
+ * Get branch tip config (tips are enabled and untaxed unless configured otherwise)
+ */
+export const getBranchTipConfig = (): TipConfig => {
+  const config = useBranchConfigStore.getState().config;
+  return { enabled: true, taxable: false, ...(config?.tips ?? config?.posConfig?.tips) };
+};
+
+/**
+ * Config for one payment method (split is settled in cash)
+ */
+export const getPaymentMethodConfig = (
+  paymentMethod: PricingPaymentMethod | undefined,
+  paymentMethods: PaymentMethodsConfig | undefined = getBranchPaymentMethods()
+): PaymentMethodConfig | undefined => {
+  if (!paymentMethod) return undefined;
+  return paymentMethods?.[paymentMethod === 'split' ? 'cash' : paymentMethod];
+};
+
+/**
+ * Methods are on unless the branch switches them off
+ */
+export const isPaymentMethodEnabled = (
+  method: keyof PaymentMethodsConfig,
+  paymentMethods: PaymentMethodsConfig | undefined = getBranchPaymentMethods()
+): boolean => {
+  return paymentMethods?.[method]?.enabled ?? true;
+};
+
+/**
+ * Message when a tender is below the method's minimum (null when allowed)
+ */
+export const checkPaymentMinimum = (
+  method: keyof PaymentMethodsConfig,
+  amount: number,
+  paymentMethods: PaymentMethodsConfig | undefined = getBranchPaymentMethods(),
+  formatAmount: (value: number) => string = value => value.toString()
+): string | null => {
+  const minAmount = paymentMethods?.[method]?.minAmount;
+  if (!minAmount || !(minAmount > 0) || roundMoney(amount) >= roundMoney(minAmount)) return null;
+  const name = method === 'mobile' ? 'Online transfer' : method === 'giftCard' ? 'Gift card' : method.charAt(0).toUpperCase() + method.slice(1);
+  return `${name} payments must be at least ${formatAmount(minAmount)}`;
+};
+
+/**
+ * Payment method surcharge rule (split tenders are not surcharged)
+ */
+export const getPaymentSurcharge = (
+  paymentMethod: PricingPaymentMethod | undefined,
+  paymentMethods: PaymentMethodsConfig | undefined = getBranchPaymentMethods()
+): PaymentSurchargeConfig | undefined => {
+  if (!paymentMethod || paymentMethod === 'split') return undefined;
+  const surcharge = paymentMethods?.[paymentMethod]?.surcharge;
+  if (!surcharge || !(surcharge.value > 0)) return undefined;
+  return { ...surcharge, label: surcharge.label || SURCHARGE_LABELS[paymentMethod] };
+};
+
+/**
+ * Method fee on the part of the order one tender pays (mixed tenders: only that part is surcharged)
+ */
+export const getTenderSurcharge = (
+  paymentMethod: PricingPaymentMethod | undefined,
+  amount: number,
+  paymentMethods: PaymentMethodsConfig | undefined = getBranchPaymentMethods()
+): number => {
+  const surcharge = getPaymentSurcharge(paymentMethod, paymentMethods);
+  if (!surcharge || amount <= 0) return 0;
+  return surcharge.type === 'percentage' ? percentOfMoney(amount, surcharge.value) : roundMoney(surcharge.value);
+};
+
+/**
+ * Get branch cash rounding rules (undefined when not configured or disabled)
+ */
+export const getBranchCashRounding = (
+  paymentMethods: PaymentMethodsConfig | undefined = getBranchPaymentMethods()
+): CashRoundingConfig | undefined => {
+  const rounding = paymentMethods?.cash?.rounding;
+  return rounding?.enabled && rounding.increment > 0 ? rounding : undefined;
+};
+
+/**
+ * Round a cash total per branch rules - returns the amount to collect and the adjustment
+ */
+export const applyCashRounding = (
+  amount: number,
+  rounding: CashRoundingConfig | null | undefined = getBranchCashRounding()
+): { total: number; adjustment: number } => {
+  if (!rounding?.enabled || !(rounding.increment > 0)) {
+    return { total: roundMoney(amount), adjustment: 0 };
+  }
+
+  const total = roundToIncrement(amount, rounding.increment, rounding.mode);
+  return { total, adjustment: subtractMoney(total, amount) };
+};
+
+/**
+ * Resolve the service charge rate for an order (0 when it doesn't apply).
+ * Unknown cover count never meets a minimum.
+ */
+export const resolveServiceChargeRate = (
+  orderType?: OrderType | null,
+  covers?: number,
+  serviceCharge: ServiceChargeConfig | undefined = getBranchServiceCharge()
+): number => {
+  if (!serviceCharge?.enabled || !orderType) return 0;
+
+  const rate = serviceCharge.rates?.[orderType] ?? 0;
+  if (!(rate > 0)) return 0;
+  if (serviceCharge.minCovers && !((covers ?? 0) >= serviceCharge.minCovers)) return 0;
+
+  return rate;
+};
+
+/**
+ * Resolve the effective tax rate for a payment method.
+ * Split payments use the cash rate (cash is the settlement method for the remainder).
+ */
+export const resolveTaxRate = (
+  paymentMethod?: PricingPaymentMethod,
+  taxConfig: TaxConfig = getBranchTaxConfig(),
+  paymentMethods: PaymentMethodsConfig | undefined = getBranchPaymentMethods()
+): number => {
+  if (!paymentMethod) return taxConfig.rate;
+
+  const methodKey = paymentMethod === 'split' ? 'cash' : paymentMethod;
+  const override = paymentMethods?.[methodKey]?.taxRateOverride;
+
+  return typeof override === 'number' ? override : taxConfig.rate;
+};
+
+/**
+ * Find a configured tax class by id (undefined when unknown or not configured)
+ */
+export const findTaxClass = (
+  taxClassId: string | undefined,
+  taxConfig: TaxConfig = getBranchTaxConfig()
+): TaxClass | undefined => {
+  if (!taxClassId) return undefined;
+  return taxConfig.classes?.find(taxClass => taxClass.id === taxClassId);
+};
+
+/**
+ * Group priced lines into a tax summary (one entry per class + rate)
+ */
+export const summarizeTax = (lines: PricingLine[]): TaxSummaryEntry[] => {
+  const groups = new Map<string, TaxSummaryEntry>();
+
+  lines.forEach(line => {
+    const key = `${line.taxClassId}:${line.taxRate}`;
+    const entry = groups.get(key) || {
+      taxClassId: line.taxClassId,
+      name: line.taxClassName,
+      rate: line.taxRate,
+      net: 0,
+      tax: 0
+    };
+    entry.net = sumMoney([entry.net, line.net]);
+    entry.tax = sumMoney([entry.tax, line.tax]);
+    groups.set(key, entry);
+  });
+
+  return Array.from(groups.values());
+};
+
+/**
+ * Split a single amount into net/tax/gross for the given rate and mode
+ */
+export const splitTax = (
+  amount: number,
+  ratePercent: number,
+  includesTax: boolean
+): { net: number; tax: number; gross: number } => {
+  const rate = ratePercent / 100;
+
+  if (includesTax) {
+    const gross = roundMoney(amount);
+    const net = roundMoney(gross / (1 + rate));
+    return { net, tax: subtractMoney(gross, net), gross };
+  }
+
+  const net = roundMoney(amount);
+  const tax = percentOfMoney(net, ratePercent);
+  return { net, tax, gross: sumMoney([net, tax]) };
+};
+
+/**
+ * Resolve a line discount to an amount (never more than the line itself)
+ */
+export const calculateLineDiscount = (
+  lineTotal: number,
+  discount?: Pick<LineDiscount, 'type' | 'value'>
+): number => {
+  if (!discount || !(discount.value > 0) || !(lineTotal > 0)) return 0;
+
+  const amount = discount.type === 'percentage'
+    ? percentOfMoney(lineTotal, Math.min(discount.value, 100))
+    : roundMoney(discount.value);
+
+  return Math.min(amount, roundMoney(lineTotal));
+};
+
+/**
+ * Calculate tax for an amount using branch config (or explicit rate/mode)
+ */
+export const calculateTax = (
+  amount: number,
+  ratePercent: number = getBranchTaxConfig().rate,
+  mode: TaxMode = getBranchTaxConfig().mode
+): number => {
+  return splitTax(amount, ratePercent, mode === 'inclusive').tax;
+};
+
+/**
+ * Price a set of lines and return an itemised breakdown
+ */
+export const calculatePricing = (
+  lines: PricingLineInput[],
+  options: PricingOptions = {}
+): PricingBreakdown => {
+  const taxConfig = options.taxConfig ?? getBranchTaxConfig();
+  const paymentMethods = options.paymentMethods ?? getBranchPaymentMethods();
+  const taxRate = resolveTaxRate(options.paymentMethod, taxConfig, paymentMethods);
+  const surchargeRule = options.surcharge === undefined ? getPaymentSurcharge(options.paymentMethod, paymentMethods) : options.surcharge;
+  const discount = roundMoney(options.discount ?? 0);
+
+  const pricedLines: PricingLine[] = lines.map(line => {
+    const priceIncludesTax = line.priceIncludesTax ?? taxConfig.mode === 'inclusive';
+    const taxClass = findTaxClass(line.taxClassId, taxConfig);
+    const lineRate = line.storedValue ? 0 : taxClass ? taxClass.rate : taxRate;
+    const lineDiscount = calculateLineDiscount(line.lineTotal || 0, line.discount);
+    const afterDiscount = subtractMoney(line.lineTotal || 0, lineDiscount);
+    const promotion = Math.min(roundMoney(line.promotionDiscount ?? 0), afterDiscount);
+    const { net, tax, gross } = splitTax(subtractMoney(afterDiscount, promotion), lineRate, priceIncludesTax);
+
+    return {
+      id: line.id,
+      quantity: line.quantity ?? 1,
+      taxRate: lineRate,
+      taxClassId: line.storedValue ? STORED_VALUE_TAX_CLASS_ID : taxClass?.id || STANDARD_TAX_CLASS_ID,
+      taxClassName: line.storedValue ? 'Gift Cards' : taxClass?.name || 'Tax',
+      priceIncludesTax,
+      discount: lineDiscount,
+      promotion,
+      net,
+      tax,
+      gross
+    };
+  });
+
+  const subtotal = sumMoney(pricedLines.map(line => line.net));
+
+  // 🍽️ Service charge + tip: outside the item lines, taxed at the standard rate only when configured
+  const serviceChargeRate = Math.max(0, options.serviceChargeRate ?? 0);
+  const serviceChargeBase = sumMoney(pricedLines.filter((_line, index) => !lines[index].storedValue).map(line => line.net));
+  const serviceCharge = percentOfMoney(serviceChargeBase, serviceChargeRate);
+  const tip = Math.max(0, roundMoney(options.tip ?? 0));
+  const serviceChargeTaxable = (options.serviceChargeConfig ?? getBranchServiceCharge())?.taxable === true;
+  const tipTaxable = (options.tipConfig ?? getBranchTipConfig()).taxable === true;
+
+  const chargeLines: PricingLine[] = [
+    { id: SERVICE_CHARGE_LINE_ID, amount: serviceCharge, taxable: serviceChargeTaxable },
+    { id: TIP_LINE_ID, amount: tip, taxable: tipTaxable }
+  ]
+    .filter(charge => charge.amount > 0 && charge.taxable)
+    .map(charge => {
+      const chargeTax = percentOfMoney(charge.amount, taxRate);
+      return {
+        id: charge.id,
+        quantity: 1,
+        taxRate,
+        taxClassId: STANDARD_TAX_CLASS_ID,
+        taxClassName: 'Tax',
+        priceIncludesTax: false,
+        discount: 0,
+        promotion: 0,
+        net: charge.amount,
+        tax: chargeTax,
+        gross: sumMoney([charge.amount, chargeTax])
+      };
+    });
+
+  const tax = sumMoney([...pricedLines, ...chargeLines].map(line => line.tax));
+
+  // 💳 Method surcharge on what the order costs (after discounts)
+  const orderTotal = Math.max(0, subtractMoney(sumMoney([subtotal, serviceCharge, tip, tax]), discount));
+  const surcharge = !surchargeRule || orderTotal <= 0 ? 0 : surchargeRule.type === 'percentage'
+    ? percentOfMoney(orderTotal, surchargeRule.value)
+    : roundMoney(surchargeRule.value);
+
+  // 🪙 Cash tender: round what the customer hands over (no small coins)
+  const unroundedTotal = sumMoney([orderTotal, surcharge]);
+  const { total, adjustment: roundingAdjustment } = options.paymentMethod === 'cash'
+    ? applyCashRounding(unroundedTotal, options.cashRounding === undefined ? getBranchCashRounding(paymentMethods) : options.cashRounding)
+    : { total: unroundedTotal, adjustment: 0 };
+
+  return {
+    lines: pricedLines,
+    taxSummary: summarizeTax([...pricedLines, ...chargeLines]),
+    subtotal,
+    tax,
+    lineDiscount: sumMoney(pricedLines.map(line => line.discount)),
+    promotionDiscount: sumMoney(pricedLines.map(line => line.promotion)),
+    discount,
+    serviceCharge,
+    serviceChargeRate,
+    tip,
+    surcharge,
+    surchargeLabel: surcharge > 0 ? surchargeRule?.label : undefined,
+    roundingAdjustment,
+    total,
+    taxRate,
+    taxMode: taxConfig.mode,
+    paymentMethod: options.paymentMethod
+  };
+};
+
+/**
+ * Price cart items (anything with totalPrice/quantity) - convenience wrapper
+ */
+export const calculateCartPricing = (
+  items: Array<{ uniqueId?: string; id: string; totalPrice?: number; total?: number; quantity?: number; priceIncludesTax?: boolean; taxClassId?: string; lineDiscount?: LineDiscount; promotionDiscount?: number; giftCard?: GiftCardLine }>,
+  options: PricingOptions = {}
+): PricingBreakdown => {
+  return calculatePricing(
+    items.map(item => ({
+      id: item.uniqueId || item.id,
+      lineTotal: item.totalPrice ?? item.total ?? 0,
+      quantity: item.quantity,
+      priceIncludesTax: item.priceIncludesTax,
+      taxClassId: item.taxClassId,
+      discount: item.lineDiscount,
+      promotionDiscount: item.promotionDiscount,
+      storedValue: !!item.giftCard
+    })),
+    options
+  );
+};
+
+/**
+ * Attach per-line tax (rate + amount) from a breakdown to the items it was computed from.
+ * Line discount amounts are refreshed too (percentage discounts follow quantity changes).
+ * Lines are matched by position - breakdown must come from the same items array.
+ */
+export const applyLineTax = <T extends { lineDiscount?: LineDiscount }>(
+  items: T[],
+  breakdown: PricingBreakdown
+): Array<T & { taxRate: number; taxAmount: number }> => {
+  return items.map((item, index) => ({
+    ...item,
+    taxRate: breakdown.lines[index]?.taxRate ?? breakdown.taxRate,
+    taxAmount: breakdown.lines[index]?.tax ?? 0,
+    ...(item.lineDiscount && {
+      lineDiscount: { ...item.lineDiscount, amount: breakdown.lines[index]?.discount ?? 0 }
+    })
+  }));
+};
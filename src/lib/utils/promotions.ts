@@ -0,0 +1,343 @@
+/**
+ * Promotions Engine
+ *
+ * PURPOSE: Rule-based automatic promotions - buy X get Y, combos at a fixed
+ * price, time-boxed percentage deals (happy hour) and order-type deals.
+ * The cart store evaluates the rules on every change; the resulting per-line
+ * amounts are deducted by the pricing engine before tax.
+ *
+ * LINKS WITH:
+ * - Branch Config Store: `promotions` rules + branch `timezone`
+ * - Mock Data Manager: Demo rules when mock data is enabled and branch has none
+ * - Cart Store (cart-new): Evaluates on every cart mutation
+ * - Pricing Engine: Line `promotionDiscount` (deducted before tax)
+ * - CartTotals / Receipt Service: Explained promotion lines
+ *
+ * RULES:
+ * - Promotions run by priority (highest first); each item unit is used by one promotion only
+ * - Paid lines, modifier upgrade lines and lines with a cashier discount are not eligible
+ * - Schedules are evaluated in the branch timezone
+ */
+
+import type { Promotion, PromotionSchedule, AppliedPromotion, OrderType } from '@/types/pos';
+import { useBranchConfigStore } from '@/lib/store/branchConfig';
+import { MOCK_DATA } from '@/lib/api/mockDataManager';
+import { allocateMoney, formatMoneyValue, percentOfMoney, splitMoney, subtractMoney, sumMoney } from '@/lib/utils/money';
+
+export const DEFAULT_TIMEZONE = 'Asia/Karachi';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface PromotionLineInput {
+  id: string;        // Cart line id (uniqueId)
+  itemId: string;    // Menu item id
+  name: string;
+  category?: string;
+  quantity: number;
+  lineTotal: number;
+}
+
+export interface PromotionContext {
+  orderType?: OrderType | null;
+  now?: Date;
+  timezone?: string;          // Defaults to branch timezone
+  promotions?: Promotion[];   // Defaults to branch promotions
+}
+
+export interface PromotionResult {
+  applied: AppliedPromotion[];
+  lineDiscounts: Record<string, number>; // Line id -> promotion discount
+  total: number;
+}
+
+// One unit of a cart line (promotions work per unit, e.g. "3rd croissant free")
+interface PromotionUnit {
+  lineId: string;
+  itemId: string;
+  name: string;
+  category?: string;
+  price: number;
+  used: boolean;
+}
+
+type UnitDiscount = { unit: PromotionUnit; amount: number };
+
+/**
+ * Get promotion rules (branch config first, then mock set when mock data is enabled)
+ */
+export const getBranchPromotions = (): Promotion[] => {
+  const config = useBranchConfigStore.getState().config;
+  const promotions = config?.promotions ?? config?.posConfig?.promotions;
+  if (promotions) return promotions;
+
+  return process.env.NEXT_PUBLIC_ENABLE_MOCK_DATA === 'true' ? MOCK_DATA.promotions : [];
+};
+
+/**
+ * Get branch timezone (falls back to DEFAULT_TIMEZONE)
+ */
+export const getBranchTimezone = (): string => {
+  return useBranchConfigStore.getState().config?.timezone || DEFAULT_TIMEZONE;
+};
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+/**
+ * Day, minutes since midnight and YYYY-MM-DD date in the given timezone
+ */
+const getLocalTime = (now: Date, timezone: string): { day: number; minutes: number; date: string } => {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      weekday: 'short',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false
+    }).formatToParts(now);
+    const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+
+    return {
+      day: WEEKDAYS.indexOf(part('weekday')),
+      minutes: (parseInt(part('hour'), 10) % 24) * 60 + parseInt(part('minute'), 10), // Some engines print midnight as 24
+      date: `${part('year')}-${part('month')}-${part('day')}`
+    };
+  } catch (error) {
+    console.warn('⚠️ [PROMOTIONS] Invalid timezone, using device time:', timezone, error);
+    return {
+      day: now.getDay(),
+      minutes: now.getHours() * 60 + now.getMinutes(),
+      date: now.toISOString().slice(0, 10)
+    };
+  }
+};
+
+/**
+ * Check whether a schedule is active at `now` in the branch timezone
+ */
+export const isPromotionScheduled = (
+  schedule: PromotionSchedule | undefined,
+  now: Date = new Date(),
+  timezone: string = getBranchTimezone()
+): boolean => {
+  if (!schedule) return true;
+
+  const local = getLocalTime(now, timezone);
+
+  if (schedule.validFrom && local.date < schedule.validFrom.slice(0, 10)) return false;
+  if (schedule.validUntil && local.date > schedule.validUntil.slice(0, 10)) return false;
+  if (schedule.days?.length && !schedule.days.includes(local.day)) return false;
+
+  if (schedule.startTime || schedule.endTime) {
+    const start = schedule.startTime ? toMinutes(schedule.startTime) : 0;
+    const end = schedule.endTime ? toMinutes(schedule.endTime) : 24 * 60;
+    // Overnight windows (e.g. 22:00-02:00) wrap past midnight
+    const inWindow = start <= end
+      ? local.minutes >= start && local.minutes < end
+      : local.minutes >= start || local.minutes < end;
+    if (!inWindow) return false;
+  }
+
+  return true;
+};
+
+const matchesTarget = (unit: PromotionUnit, target: { itemIds?: string[]; categories?: string[] }): boolean => {
+  const hasItems = !!target.itemIds?.length;
+  const hasCategories = !!target.categories?.length;
+  if (!hasItems && !hasCategories) return true;
+
+  if (hasItems && target.itemIds!.includes(unit.itemId)) return true;
+  if (hasCategories && unit.category) {
+    const category = unit.category.toLowerCase();
+    return target.categories!.some(name => name.toLowerCase() === category);
+  }
+  return false;
+};
+
+// Most expensive first (customer gets the best combo, BOGO frees the cheapest in each group)
+const byPriceDesc = (a: PromotionUnit, b: PromotionUnit) => b.price - a.price;
+
+const applyBuyXGetY = (promotion: Promotion, units: PromotionUnit[]): UnitDiscount[] => {
+  const buy = Math.max(1, promotion.buyQuantity ?? 1);
+  const get = Math.max(1, promotion.getQuantity ?? 1);
+  const percent = Math.min(100, promotion.getDiscountPercent ?? 100);
+  const eligible = units.filter(unit => !unit.used && matchesTarget(unit, promotion)).sort(byPriceDesc);
+  const groupSize = buy + get;
+  const discounts: UnitDiscount[] = [];
+
+  for (let start = 0; start + groupSize <= eligible.length; start += groupSize) {
+    const group = eligible.slice(start, start + groupSize);
+    group.forEach(unit => { unit.used = true; });
+    group.slice(buy).forEach(unit => {
+      discounts.push({ unit, amount: percentOfMoney(unit.price, percent) });
+    });
+  }
+
+  return discounts;
+};
+
+const applyCombo = (promotion: Promotion, units: PromotionUnit[]): UnitDiscount[] => {
+  const components = promotion.comboItems || [];
+  if (components.length === 0 || typeof promotion.comboPrice !== 'number') return [];
+
+  const discounts: UnitDiscount[] = [];
+
+  // Build as many combos as the cart allows
+  while (true) {
+    const picked: PromotionUnit[] = [];
+    for (const component of components) {
+      const unit = units
+        .filter(candidate => !candidate.used && !picked.includes(candidate) && matchesTarget(candidate, component))
+        .sort(byPriceDesc)[0];
+      if (!unit) break;
+      picked.push(unit);
+    }
+
+    if (picked.length < components.length) break;
+
+    const saving = subtractMoney(sumMoney(picked.map(unit => unit.price)), promotion.comboPrice);
+    if (saving <= 0) break;
+
+    picked.forEach(unit => { unit.used = true; });
+    allocateMoney(saving, picked.map(unit => unit.price)).forEach((amount, index) => {
+      discounts.push({ unit: picked[index], amount });
+    });
+  }
+
+  return discounts;
+};
+
+const applyPercentageOff = (promotion: Promotion, units: PromotionUnit[]): UnitDiscount[] => {
+  const percent = Math.min(100, promotion.value ?? 0);
+  if (percent <= 0) return [];
+
+  return units
+    .filter(unit => !unit.used && matchesTarget(unit, promotion))
+    .map(unit => {
+      unit.used = true;
+      return { unit, amount: percentOfMoney(unit.price, percent) };
+    });
+};
+
+const applyFixedOff = (promotion: Promotion, units: PromotionUnit[]): UnitDiscount[] => {
+  const eligible = units.filter(unit => !unit.used && matchesTarget(unit, promotion));
+  const eligibleTotal = sumMoney(eligible.map(unit => unit.price));
+  const amount = Math.min(promotion.value ?? 0, eligibleTotal);
+  if (amount <= 0) return [];
+
+  eligible.forEach(unit => { unit.used = true; });
+  return allocateMoney(amount, eligible.map(unit => unit.price)).map((share, index) => ({
+    unit: eligible[index],
+    amount: share
+  }));
+};
+
+/**
+ * Human readable explanation shown in totals and on receipts
+ */
+const describePromotion = (promotion: Promotion, discounts: UnitDiscount[]): string => {
+  const names = Array.from(new Set(discounts.map(({ unit }) => unit.name)));
+
+  switch (promotion.type) {
+    case 'buy_x_get_y': {
+      const percent = promotion.getDiscountPercent ?? 100;
+      const deal = percent >= 100 ? 'free' : `${percent}% off`;
+      return `Buy ${promotion.buyQuantity ?? 1} get ${promotion.getQuantity ?? 1} ${deal}: ${names.join(', ')}`;
+    }
+    case 'combo':
+      return `${names.join(' + ')} for ${formatMoneyValue(promotion.comboPrice ?? 0)}`;
+    case 'percentage_off': {
+      const window = promotion.schedule?.startTime && promotion.schedule?.endTime
+        ? ` (${promotion.schedule.startTime}-${promotion.schedule.endTime})`
+        : '';
+      return `${promotion.value}% off${window}: ${names.join(', ')}`;
+    }
+    case 'fixed_off':
+      return `${formatMoneyValue(promotion.value ?? 0)} off: ${names.join(', ')}`;
+    default:
+      return promotion.name;
+  }
+};
+
+/**
+ * Evaluate promotions for a set of cart lines
+ */
+export const evaluatePromotions = (
+  lines: PromotionLineInput[],
+  context: PromotionContext = {}
+): PromotionResult => {
+  const promotions = context.promotions ?? getBranchPromotions();
+  const empty: PromotionResult = { applied: [], lineDiscounts: {}, total: 0 };
+  if (promotions.length === 0 || lines.length === 0) return empty;
+
+  const now = context.now ?? new Date();
+  const timezone = context.timezone ?? getBranchTimezone();
+  const cartTotal = sumMoney(lines.map(line => line.lineTotal));
+
+  // Expand lines to units (fractional quantities - e.g. weighed items - count as one unit)
+  const units: PromotionUnit[] = lines.flatMap(line => {
+    const count = Number.isInteger(line.quantity) && line.quantity > 0 ? line.quantity : 1;
+    return splitMoney(line.lineTotal, count).map(price => ({
+      lineId: line.id,
+      itemId: line.itemId,
+      name: line.name,
+      category: line.category,
+      price,
+      used: false
+    }));
+  });
+
+  const active = promotions
+    .filter(promotion => promotion.active !== false)
+    .filter(promotion => !promotion.orderTypes?.length || (!!context.orderType && promotion.orderTypes.includes(context.orderType)))
+    .filter(promotion => !promotion.minimumOrder || cartTotal >= promotion.minimumOrder)
+    .filter(promotion => isPromotionScheduled(promotion.schedule, now, timezone))
+    .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+
+  const applied: AppliedPromotion[] = [];
+  const lineDiscounts: Record<string, number> = {};
+
+  active.forEach(promotion => {
+    let discounts: UnitDiscount[] = [];
+    switch (promotion.type) {
+      case 'buy_x_get_y':
+        discounts = applyBuyXGetY(promotion, units);
+        break;
+      case 'combo':
+        discounts = applyCombo(promotion, units);
+        break;
+      case 'percentage_off':
+        discounts = applyPercentageOff(promotion, units);
+        break;
+      case 'fixed_off':
+        discounts = applyFixedOff(promotion, units);
+        break;
+    }
+
+    const amount = sumMoney(discounts.map(discount => discount.amount));
+    if (amount <= 0) return;
+
+    discounts.forEach(({ unit, amount: unitAmount }) => {
+      lineDiscounts[unit.lineId] = sumMoney([lineDiscounts[unit.lineId] || 0, unitAmount]);
+    });
+
+    applied.push({
+      promotionId: promotion.id,
+      name: promotion.name,
+      description: describePromotion(promotion, discounts.filter(discount => discount.amount > 0)),
+      amount,
+      lineIds: Array.from(new Set(discounts.map(({ unit }) => unit.lineId)))
+    });
+  });
+
+  return {
+    applied,
+    lineDiscounts,
+    total: sumMoney(applied.map(promotion => promotion.amount))
+  };
+};
@@ -150,6 +150,15 @@ export const generateReceiptText = (
     if (item.modifiers?.specialInstructions) {
       receipt += `  * ${item.modifiers.specialInstructions}\n`;
     }
+
+    // Line discount
+    if (item.lineDiscount && item.lineDiscount.amount > 0) {
+      receipt += leftRightText(
+        `  Discount (${item.lineDiscount.reason})`,
+        `-${formatCurrency(item.lineDiscount.amount)}`,
+        width
+      ) + '\n';
+    }
   });
 
   receipt += dashed + '\n';
@@ -0,0 +1,152 @@
+/**
+ * Split Check Rules
+ *
+ * PURPOSE: Divide one order's items between two or more sub-checks - move
+ * whole lines or some units, share one line across guests, or split every
+ * line into even shares. Pure functions over OrderItem[][] (index 0 = check 1).
+ *
+ * LINKS WITH:
+ * - SplitCheckModal: Cashier screen that builds the checks
+ * - Split Check Service: Turns each check into its own OverlayOrder on the slot
+ * - Money utils: Line totals / promotions divided so shares add up exactly
+ *
+ * RULES:
+ * - Paid lines (isPaid / paidQuantity) are locked on check 1 with the order's payments
+ * - Lines with a cashier discount or a gift card load only move whole
+ * - Every check must have at least one line
+ */
+
+import type { OrderItem } from '@/types/pos';
+import { allocateMoney, splitMoney } from '@/lib/utils/money';
+
+// Minimum checks a split produces (and the most the screen offers)
+export const MIN_SPLIT_CHECKS = 2;
+export const MAX_SPLIT_CHECKS = 12;
+
+// Shared quantities are kept to 3 decimals (e.g. 1/3 of a bottle = 0.333)
+const roundQuantity = (quantity: number): number => Math.round(quantity * 1000) / 1000;
+
+// Equal shares of a quantity that add up to it exactly - the remainder goes on the last share (1 / 3 = 0.333, 0.333, 0.334)
+const splitQuantity = (quantity: number, parts: number): number[] => {
+  const totalUnits = Math.round(quantity * 1000);
+  const base = Math.floor(totalUnits / parts);
+  return Array.from({ length: parts }, (_, index) =>
+    (index === parts - 1 ? totalUnits - base * (parts - 1) : base) / 1000
+  );
+};
+
+/**
+ * Paid lines stay on the check that holds the payments
+ */
+export const isLockedItem = (item: OrderItem): boolean =>
+  !!item.isPaid || (item.paidQuantity ?? 0) > 0;
+
+/**
+ * Lines that can be divided (some units moved, or shared across guests)
+ */
+export const canDivideItem = (item: OrderItem): boolean =>
+  !isLockedItem(item) && !item.lineDiscount && !item.giftCard;
+
+/**
+ * Divide a line into parts weighted by quantity - totals and promotions add up to the original
+ */
+const divideItem = (item: OrderItem, quantities: number[], share?: boolean): OrderItem[] => {
+  const totals = share ? splitMoney(item.total, quantities.length) : allocateMoney(item.total, quantities);
+  const promotions = item.promotionDiscount
+    ? (share ? splitMoney(item.promotionDiscount, quantities.length) : allocateMoney(item.promotionDiscount, quantities))
+    : undefined;
+  const baseId = item.uniqueId || item.id;
+
+  return quantities.map((quantity, index) => ({
+    ...item,
+    uniqueId: index === 0 ? item.uniqueId : `${baseId}-split-${Date.now()}-${index}`,
+    quantity,
+    total: totals[index],
+    promotionDiscount: promotions?.[index] || undefined,
+    splitShare: share ? { part: index + 1, parts: quantities.length } : item.splitShare
+  }));
+};
+
+/**
+ * Create empty checks, with the order's items on check 1
+ */
+export const createChecks = (items: OrderItem[], count: number): OrderItem[][] => {
+  const total = Math.min(MAX_SPLIT_CHECKS, Math.max(MIN_SPLIT_CHECKS, count));
+  return Array.from({ length: total }, (_, index) => index === 0 ? [...items] : []);
+};
+
+/**
+ * Move a line (or `quantity` whole units of it) from one check to another
+ */
+export const moveItem = (
+  checks: OrderItem[][],
+  from: number,
+  itemIndex: number,
+  to: number,
+  quantity?: number
+): OrderItem[][] => {
+  const item = checks[from]?.[itemIndex];
+  if (!item || from === to || !checks[to] || isLockedItem(item)) return checks;
+
+  const moveQuantity = quantity ?? item.quantity;
+  const next = checks.map(check => [...check]);
+
+  if (moveQuantity >= item.quantity || !canDivideItem(item)) {
+    next[from].splice(itemIndex, 1);
+    next[to].push(item);
+    return next;
+  }
+  if (moveQuantity <= 0) return checks;
+
+  const [kept, moved] = divideItem(item, [roundQuantity(item.quantity - moveQuantity), moveQuantity]);
+  next[from][itemIndex] = kept;
+  next[to].push(moved);
+  return next;
+};
+
+/**
+ * Share one line across guests - each target check gets an equal part (e.g. a bottle between 3)
+ */
+export const shareItem = (
+  checks: OrderItem[][],
+  from: number,
+  itemIndex: number,
+  targets: number[]
+): OrderItem[][] => {
+  const item = checks[from]?.[itemIndex];
+  const uniqueTargets = Array.from(new Set(targets)).filter(target => !!checks[target]);
+  if (!item || !canDivideItem(item) || uniqueTargets.length < 2) return checks;
+
+  const parts = divideItem(item, splitQuantity(item.quantity, uniqueTargets.length), true);
+  const next = checks.map(check => [...check]);
+  next[from].splice(itemIndex, 1);
+  uniqueTargets.forEach((target, index) => next[target].push(parts[index]));
+  return next;
+};
+
+/**
+ * Even shares - every open line is shared across all checks (locked / whole-only lines stay on check 1)
+ */
+export const splitEvenly = (items: OrderItem[], count: number): OrderItem[][] => {
+  const checks = createChecks([], count);
+  items.forEach(item => {
+    if (!canDivideItem(item)) {
+      checks[0].push(item);
+      return;
+    }
+    const parts = divideItem(item, splitQuantity(item.quantity, checks.length), true);
+    parts.forEach((part, index) => checks[index].push(part));
+  });
+  return checks;
+};
+
+/**
+ * Check the split can be saved - returns an error message, null when valid
+ */
+export const validateChecks = (checks: OrderItem[][]): string | null => {
+  if (checks.length < MIN_SPLIT_CHECKS) return `Split into at least ${MIN_SPLIT_CHECKS} checks`;
+  const emptyCheck = checks.findIndex(check => check.length === 0);
+  if (emptyCheck >= 0) return `Check ${emptyCheck + 1} has no items`;
+  if (checks.slice(1).some(check => check.some(isLockedItem))) return 'Paid items must stay on check 1';
+  return null;
+};
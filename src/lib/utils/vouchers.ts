@@ -0,0 +1,212 @@
+/**
+ * Voucher Codes & Discount Stacking
+ *
+ * PURPOSE: Validate voucher codes (batch, dates, minimum order, usage limits)
+ * and enforce which discounts can be combined on one order - voucher codes,
+ * automatic promotions and cashier line discounts.
+ *
+ * LINKS WITH:
+ * - Branch Config Store: `voucherBatches` + `discountConfig.stacking`
+ * - Mock Data Manager: Demo batches when mock data is enabled and branch has none
+ * - Voucher Ledger Store: Offline redemption counts (usage limits)
+ * - Cart Store (cart-new): Re-prices applied vouchers on every cart change
+ *
+ * RULES:
+ * - Codes are single-use unless the batch says otherwise (usesPerCode 0 = unlimited)
+ * - Exclusive batches cannot be combined with any other discount
+ * - A code that doesn't stack with promotions switches promotions off for the order
+ * - Voucher amounts come off the order total (after tax), like the order discount
+ */
+
+import type { AppliedVoucher, DiscountStackingRules, VoucherBatch } from '@/types/pos';
+import { useBranchConfigStore } from '@/lib/store/branchConfig';
+import { MOCK_DATA } from '@/lib/api/mockDataManager';
+import { useVoucherLedgerStore } from '@/lib/store/voucher-ledger';
+import { compareMoney, percentOfMoney, subtractMoney } from '@/lib/utils/money';
+import { formatCurrency } from '@/lib/utils/format';
+
+export const DEFAULT_STACKING_RULES: Required<DiscountStackingRules> = {
+  multipleCodes: false,
+  codesWithPromotions: true,
+  codesWithLineDiscounts: true
+};
+
+export interface VoucherValidationContext {
+  orderTotal: number;          // Order total before voucher discounts
+  appliedVouchers: AppliedVoucher[];
+  hasLineDiscounts: boolean;
+  customerPhone?: string;
+  orderId?: string | null;     // Order being edited (its own redemptions don't count)
+  appliedBy?: string;
+  now?: Date;
+}
+
+export interface VoucherValidationResult {
+  isValid: boolean;
+  error?: string;
+  voucher?: AppliedVoucher;
+}
+
+/**
+ * Get voucher batches (branch config first, then mock set when mock data is enabled)
+ */
+export const getBranchVoucherBatches = (): VoucherBatch[] => {
+  const config = useBranchConfigStore.getState().config;
+  const batches = config?.voucherBatches ?? config?.posConfig?.voucherBatches;
+  if (batches) return batches;
+
+  return process.env.NEXT_PUBLIC_ENABLE_MOCK_DATA === 'true' ? MOCK_DATA.voucherBatches : [];
+};
+
+/**
+ * Get branch stacking rules (flattened field first, then posConfig)
+ */
+export const getStackingRules = (): Required<DiscountStackingRules> => {
+  const config = useBranchConfigStore.getState().config;
+  const stacking = config?.discountConfig?.stacking ?? config?.posConfig?.discountConfig?.stacking;
+  return { ...DEFAULT_STACKING_RULES, ...stacking };
+};
+
+/**
+ * Whether automatic promotions can run next to the applied vouchers
+ */
+export const allowsPromotions = (
+  vouchers: AppliedVoucher[] = [],
+  rules: Required<DiscountStackingRules> = getStackingRules()
+): boolean => {
+  if (vouchers.length === 0) return true;
+  return rules.codesWithPromotions && !vouchers.some(voucher => voucher.exclusive);
+};
+
+/**
+ * Whether cashier line discounts can be added next to the applied vouchers
+ */
+export const allowsLineDiscounts = (
+  vouchers: AppliedVoucher[] = [],
+  rules: Required<DiscountStackingRules> = getStackingRules()
+): boolean => {
+  if (vouchers.length === 0) return true;
+  return rules.codesWithLineDiscounts && !vouchers.some(voucher => voucher.exclusive);
+};
+
+/**
+ * Find the batch a code belongs to (codes are case-insensitive)
+ */
+export const findVoucherBatch = (code: string, batches: VoucherBatch[] = getBranchVoucherBatches()): VoucherBatch | null => {
+  const normalized = code.trim().toUpperCase();
+  return batches.find(batch => batch.codes.some(batchCode => batchCode.toUpperCase() === normalized)) || null;
+};
+
+/**
+ * Resolve voucher amounts against the order total (before voucher discounts).
+ * Codes below their minimum order resolve to 0; the sum never exceeds the total.
+ */
+export const priceVouchers = (vouchers: AppliedVoucher[], orderTotal: number): AppliedVoucher[] => {
+  let remaining = Math.max(0, orderTotal);
+
+  return vouchers.map(voucher => {
+    const meetsMinimum = !voucher.minimumOrder || compareMoney(orderTotal, voucher.minimumOrder) >= 0;
+    const fullAmount = voucher.type === 'percentage'
+      ? percentOfMoney(orderTotal, Math.min(100, voucher.value))
+      : voucher.value;
+    const amount = meetsMinimum ? Math.min(fullAmount, remaining) : 0;
+    remaining = subtractMoney(remaining, amount);
+    return { ...voucher, amount };
+  });
+};
+
+/**
+ * Validate a code for the current order (dates, limits, stacking) and resolve its amount
+ */
+export const validateVoucherCode = async (
+  code: string,
+  context: VoucherValidationContext
+): Promise<VoucherValidationResult> => {
+  const normalized = code.trim().toUpperCase();
+  const batch = findVoucherBatch(normalized);
+
+  if (!batch || batch.active === false) {
+    return { isValid: false, error: 'Invalid discount code' };
+  }
+
+  // Dates compare as YYYY-MM-DD (validUntil is inclusive)
+  const today = (context.now ?? new Date()).toISOString().slice(0, 10);
+  if (batch.validFrom && today < batch.validFrom.slice(0, 10)) {
+    return { isValid: false, error: 'Discount code not yet active' };
+  }
+  if (batch.validUntil && today > batch.validUntil.slice(0, 10)) {
+    return { isValid: false, error: 'Discount code has expired' };
+  }
+
+  if (batch.minimumOrder && compareMoney(context.orderTotal, batch.minimumOrder) < 0) {
+    return { isValid: false, error: `Minimum order amount required: ${batch.minimumOrder}` };
+  }
+
+  // Stacking rules
+  const rules = getStackingRules();
+  if (context.appliedVouchers.some(voucher => voucher.code === normalized)) {
+    return { isValid: false, error: 'Code already applied to this order' };
+  }
+  if (context.appliedVouchers.length > 0) {
+    if (!rules.multipleCodes) {
+      return { isValid: false, error: 'Only one discount code per order' };
+    }
+    if (batch.exclusive || context.appliedVouchers.some(voucher => voucher.exclusive)) {
+      return { isValid: false, error: 'This code cannot be combined with other codes' };
+    }
+  }
+  if (context.hasLineDiscounts && (batch.exclusive || !rules.codesWithLineDiscounts)) {
+    return { isValid: false, error: 'This code cannot be combined with item discounts' };
+  }
+
+  // Usage limits: offline ledger + redemptions the backend already knows about
+  const usage = await useVoucherLedgerStore.getState().getUsage({
+    code: normalized,
+    batchId: batch.id,
+    customerPhone: context.customerPhone,
+    excludeOrderId: context.orderId || undefined
+  });
+  const serverCodeUses = batch.redeemed?.[normalized] ?? 0;
+  const serverBatchUses = Object.values(batch.redeemed || {}).reduce((sum, count) => sum + count, 0);
+  // Synced local redemptions may or may not be in the server counts yet - never count them twice
+  const codeUses = Math.max(serverCodeUses + usage.code - usage.codeSynced, usage.code);
+  const batchUses = Math.max(serverBatchUses + usage.batch - usage.batchSynced, usage.batch);
+
+  const usesPerCode = batch.usesPerCode ?? 1;
+  if (usesPerCode > 0 && codeUses >= usesPerCode) {
+    return { isValid: false, error: usesPerCode === 1 ? 'Code has already been used' : 'Code usage limit reached' };
+  }
+  if (batch.totalUses && batchUses >= batch.totalUses) {
+    return { isValid: false, error: 'This offer has been fully redeemed' };
+  }
+  if (batch.usesPerCustomer && context.customerPhone && usage.customer >= batch.usesPerCustomer) {
+    return { isValid: false, error: 'Customer has already used this offer' };
+  }
+
+  // Price it after the codes already on the order (same order the cart re-prices in)
+  const voucher = priceVouchers([...context.appliedVouchers, {
+    code: normalized,
+    batchId: batch.id,
+    name: batch.name,
+    type: batch.type,
+    value: batch.value,
+    amount: 0,
+    minimumOrder: batch.minimumOrder,
+    exclusive: batch.exclusive,
+    appliedBy: context.appliedBy,
+    appliedAt: new Date().toISOString()
+  }], context.orderTotal)[context.appliedVouchers.length];
+
+  if (voucher.amount <= 0) {
+    return { isValid: false, error: 'Nothing left to discount on this order' };
+  }
+
+  return { isValid: true, voucher };
+};
+
+/**
+ * Short display value for a voucher (e.g. "10% off", "Rs. 500 off")
+ */
+export const formatVoucherValue = (voucher: Pick<AppliedVoucher, 'type' | 'value'>): string => {
+  return voucher.type === 'percentage' ? `${voucher.value}% off` : `${formatCurrency(voucher.value)} off`;
+};
@@ -72,6 +72,13 @@ export interface OrderItem {
   total: number;
   notes?: string;
   modifiers?: CartItemModifiers;
+  priceIncludesTax?: boolean; // Per-item tax mode from backend menu (pricing engine)
+  taxClassId?: string;        // Tax class used for this line
+  taxRate?: number;           // Effective line tax rate (%)
+  taxAmount?: number;         // Tax charged on this line
+  lineDiscount?: LineDiscount; // Cashier discount on this line (deducted before tax)
+  priceOverride?: PriceOverride; // Cashier price change (price = overridden price)
+  promotionDiscount?: number;  // Automatic promotion discount on this line (deducted before tax)
   isPaid?: boolean; // Track individual item payment status for mixed payments
   originalOrderId?: string; // Track which order this item originally came from
 
@@ -85,6 +92,71 @@ export interface OrderItem {
 
   // 🎯 PROFESSIONAL: Differential charging - modifier upgrade items (non-editable)
   isModifierUpgrade?: boolean; // True if this is a differential charge item (cannot be edited directly)
+
+  giftCard?: GiftCardLine; // 🎁 Gift card sold / topped up by this line (loaded when the order is paid)
+  splitShare?: SplitShare; // ✂️ Part of a line shared across split checks (lib/utils/splitCheck)
+
+  // 🍽️ Coursing (dine-in) - lib/utils/coursing
+  seat?: number;        // Seat number at the table
+  course?: Course;      // Course the kitchen cooks this line in
+  courseHeld?: boolean; // Course on hold - not sent to the kitchen until fired
+  firedAt?: string;     // When a held course was fired
+
+  // ⚖️ Open-price / weight lines (price = entered or unit price, quantity = weight)
+  pricingMode?: ItemPricingMode;
+  weightUnit?: WeightUnit;
+}
+
+// Dine-in course - kitchen tickets are grouped (and held / fired) by course
+export type Course = 'starter' | 'main' | 'dessert';
+
+// One guest's part of a line shared across split checks (e.g. 1 of 3)
+export interface SplitShare {
+  part: number;
+  parts: number;
+}
+
+// 💲 Line price changed by the cashier (e.g. to match a flyer) - the line's price is the overridden one
+export interface PriceOverride {
+  originalPrice: number; // Menu price before the override
+  price: number;         // Overridden unit price
+  reason: string;        // Reason code from the branch list
+  overriddenBy?: string; // Cashier who changed the price
+  approvedBy?: string;   // Manager approval (masked PIN) when above the approval limit
+  overriddenAt: string;  // ISO timestamp
+}
+
+// 💲 Price override audit log entry (IndexedDB, synced on its own endpoint)
+export interface PriceOverrideAuditEntry {
+  id: string;
+  action: 'override' | 'restore'; // Restore = line put back to its menu price
+  businessDate: string;  // YYYY-MM-DD (counts in that day's X / Z report)
+  orderId?: string;      // Unset while the cart has not been placed yet
+  slotId?: string;
+  itemId: string;        // Menu item id
+  lineId: string;        // Cart line (uniqueId)
+  itemName: string;
+  quantity: number;
+  originalPrice: number;
+  price: number;
+  reason: string;
+  cashierId?: string;
+  cashierName?: string;
+  approvedBy?: string;
+  tillSessionId?: string;
+  createdAt: Date;
+  syncStatus: 'pending' | 'synced';
+}
+
+// Line-item discount applied by the cashier (percentage or fixed, with reason for audit)
+export interface LineDiscount {
+  type: 'percentage' | 'fixed';
+  value: number;        // Percentage (10 = 10%) or fixed amount off the line
+  amount: number;       // Resolved discount for the line (recalculated when quantity/modifiers change)
+  reason: string;
+  appliedBy?: string;   // Cashier who applied it
+  approvedBy?: string;  // Manager approval (masked PIN) when above the approval limit
+  appliedAt: string;    // ISO timestamp
 }
 
 export interface CustomerInfo {
@@ -142,13 +214,29 @@ export interface MenuItem {
   available: boolean;
   // Modifiers (variations and addons from backend)
   modifiers?: MenuItemModifiers;
+  // Tax handling from backend menu (overrides branch tax mode when set)
+  priceIncludesTax?: boolean;
+  taxClassId?: string; // Tax class from backend menu metadata (see TaxConfig.classes)
   // Custom item flags
   isCustomItem?: boolean; // True if this is a cashier-created custom item
   isCustomTemplate?: boolean; // True if this is the "Add Custom Item" template button
   createdAt?: Date; // When custom item was created
   createdBy?: string; // Which cashier created it
+  giftCard?: GiftCardLine; // 🎁 Gift card sale / top-up line (stored value - untaxed)
+  // ⚖️ Pricing mode (lib/utils/itemPricing) - fixed when not set
+  pricingMode?: ItemPricingMode;
+  minPrice?: number;        // Open price: lowest price the till accepts
+  maxPrice?: number;        // Open price: highest price the till accepts
+  weightUnit?: WeightUnit;  // Weight: unit `price` is per (quantity = weight sold)
 }
 
+// How a menu item is priced at the till
+// - fixed: menu price
+// - open: price entered at the till (market-price specials), optional min/max
+// - weight: `price` per weight unit, weight entered at the till (quantity = weight)
+export type ItemPricingMode = 'fixed' | 'open' | 'weight';
+export type WeightUnit = 'kg' | 'g' | 'lb';
+
 export interface CartItemModifiers {
   variations?: Array<{ id: string; name: string; price: number }>;
   addOns?: Array<{ id: string; name: string; price: number }>;
@@ -192,8 +280,8 @@ export interface LoyaltyReward {
 
 // QR Code Types
 export interface QRCodeData {
-  type: 'loyalty' | 'order';
-  data: LoyaltyCard | Order;
+  type: 'loyalty' | 'order' | 'gift_card';
+  data: LoyaltyCard | Order | GiftCardQRData;
   timestamp: Date;
 }
 
@@ -232,6 +320,8 @@ export interface TillSession {
   userId: string;
   status: TillStatus;
 
+  // Amounts are major units rounded to currency precision (see lib/utils/money.ts)
+
   // Opening details
   openingAmount: number;
   openingCashCounts?: CashCounts;
@@ -244,6 +334,18 @@ export interface TillSession {
   closingCashCounts?: CashCounts;
   closingNotes?: string;
   closedAt?: Date;
+  serviceChargeTotal?: number; // Service charge collected in the session (close-out)
+  roundingTotal?: number;      // Net cash rounding adjustments in the session (close-out)
+  tipTotal?: number;           // Tips collected in the session (close-out)
+  refundTotal?: number;        // Refunds paid out in the session, all tenders (close-out)
+  payInTotal?: number;         // Cash paid into the drawer (close-out)
+  payOutTotal?: number;        // Cash paid out of the drawer, e.g. suppliers (close-out)
+  safeDropTotal?: number;      // Cash moved from the drawer to the safe (close-out)
+  blindClose?: boolean;        // Counted without seeing the expected amount
+  closingVariance?: number;    // declared - system (+ over / − short)
+  varianceApprovedBy?: string; // Masked manager PIN when the variance was over the threshold
+  varianceReason?: string;     // Manager's reason for accepting the variance
+  shifts?: TillShift[];        // Cashiers on this drawer in order (handover keeps the session open)
 
   // Sync status
   syncStatus: 'pending' | 'synced' | 'failed';
@@ -254,6 +356,184 @@ export interface TillSession {
   updatedAt: Date;
 }
 
+// 🔁 One cashier's stretch on a shared drawer - ended by a handover count or the till close
+export interface TillShift {
+  id: string;
+  userId: string;
+  userName?: string;
+  startedAt: Date;
+  startingAmount: number;      // Float accepted (opening amount, or the previous cashier's count)
+  startingExpected: number;    // System expected amount when the shift started
+  endedAt?: Date;
+  countedAmount?: number;      // Count at handover / close
+  expectedAmount?: number;     // System expected amount at handover / close
+  cashCounts?: CashCounts;
+  variance?: number;           // This shift only: (counted - starting) - (expected - startingExpected)
+  notes?: string;
+}
+
+// 💵 Cash movements in a till session that are not sales (pay-ins, pay-outs, safe drops)
+export type CashMovementType = 'pay_in' | 'pay_out' | 'safe_drop';
+
+export type PayOutCategory = 'supplier' | 'petty_cash' | 'staff' | 'maintenance' | 'other';
+
+export interface CashMovement {
+  id: string;
+  tillSessionId: string;
+  type: CashMovementType;
+  amount: number;             // Always positive - the type says which way the cash went
+  reason: string;             // Required for every movement
+  category?: PayOutCategory;  // Pay-outs only
+  note?: string;
+  userId?: string;
+  userName?: string;
+  createdAt: Date;
+  syncStatus: 'pending' | 'synced'; // Synced with the till close
+}
+
+// 📊 X / Z reports - generated locally from OrderOverlayDB + TillDB
+// Sales figures are tax-exclusive; refunds, voids and tenders are money actually moved
+export type SalesReportType = 'X' | 'Z';
+
+export interface SalesReport {
+  type: SalesReportType;
+  zNumber?: number;          // Z reports only - sequential per terminal
+  businessDate: string;      // YYYY-MM-DD (same key as OverlayOrder.orderDate)
+  generatedAt: string;       // ISO timestamp
+  generatedBy?: string;
+  posId?: string;
+  orderCount: number;        // Paid orders
+  grossSales: number;        // Items before discounts (tax-exclusive)
+  discounts: number;         // Line + promotion + order discounts
+  netSales: number;          // grossSales - discounts
+  serviceCharge: number;
+  tips: number;
+  surcharges: number;
+  cashRounding: number;
+  taxTotal: number;
+  taxByRate: Array<{ rate: number; net: number; tax: number }>;
+  takings: number;           // Order totals collected (incl. tax, service, tips)
+  refunds: { count: number; amount: number };
+  voids: { count: number; amount: number };
+  priceOverrides: {          // Audit log - overrides made that day (amount = value taken off, - when raised)
+    count: number;
+    amount: number;
+    restored: number;        // Lines put back to their menu price
+    byReason: Array<{ reason: string; count: number; amount: number }>;
+  };
+  netTakings: number;        // takings - refunds - voids
+  tenders: Array<{ method: string; count: number; amount: number; refunded: number }>;
+  orderTypes: Array<{ orderType: OrderType; count: number; total: number }>;
+  cashMovements: { count: number; payIns: number; payOuts: number; safeDrops: number };
+  tills: Array<{
+    tillSessionId: string;
+    userId: string;
+    status: TillStatus;
+    openingAmount: number;
+    expectedCash: number;
+    declaredCash?: number;   // Closed sessions only
+    variance?: number;       // declared - expected
+  }>;
+  cashiers: Array<{          // Per shift on each drawer (handover splits a session)
+    userId: string;
+    userName?: string;
+    tillSessionId: string;
+    startedAt: string;       // ISO timestamp
+    endedAt?: string;
+    orderCount: number;
+    takings: number;
+    tenders: Array<{ method: string; amount: number }>;
+    refunds: number;
+    variance?: number;       // Counted at handover / close
+  }>;
+  expectedCash: number;
+  declaredCash?: number;     // When every till of the day is closed
+  cashVariance?: number;
+}
+
+// 🔒 Z report record - one per business day, locks that day
+export interface ZReportRecord {
+  zNumber: number;
+  businessDate: string;
+  posId?: string;
+  closedBy?: string;          // Masked manager PIN
+  note?: string;              // Manager's reason
+  closedAt: Date;
+  report: SalesReport;
+}
+
+// 💳 Payment ledger - one record per tender taken against an order
+export type TenderMethod = 'cash' | 'card' | 'mobile' | 'gift_card';
+
+export interface PaymentTransaction {
+  id: string;
+  method: TenderMethod;
+  amount: number;         // Applied to the order (cash: net of change)
+  tendered?: number;      // Cash handed over by the customer
+  change?: number;        // Cash given back
+  surcharge?: number;     // Method fee (card fee...) included in amount
+  reference?: string;     // Card last 4 / approval code / split share label
+  cashierId?: string;
+  cashierName?: string;
+  tillSessionId?: string; // Till the money went into (cash reconciliation)
+  refundOf?: string;      // Refund tenders (negative amount): the payment being reversed
+  // 💳 Card terminal result (lib/services/paymentTerminal)
+  approvalCode?: string;
+  maskedPan?: string;     // e.g. "**** 4242" - never the full card number
+  cardBrand?: string;
+  terminalTransactionId?: string; // Needed for terminal refund/void
+  giftCardCode?: string;  // 🎁 Gift card / store credit redeemed (or credited by a refund)
+  // 🏦 Online transfer: reference is checked against the bank statement by a manager
+  verification?: 'unverified' | 'verified';
+  verifiedBy?: string;    // Masked manager PIN
+  verifiedAt?: string;    // ISO timestamp
+  verificationNote?: string;
+  createdAt: string;      // ISO timestamp
+}
+
+// ↩️ Refunds / voids - money given back after payment
+export type RefundDestination = 'original' | 'cash' | 'store_credit';
+
+export interface RefundLine {
+  itemIndex: number; // Index into OverlayOrder.items
+  name: string;
+  quantity: number;
+  amount: number;    // Share of what was paid for these units
+}
+
+export interface OrderRefund {
+  id: string;
+  orderId: string;
+  type: 'full' | 'partial';
+  isVoid?: boolean;               // Whole order voided (vouchers released, items not served)
+  lines?: RefundLine[];           // Refund by line (absent for refund by amount)
+  amount: number;                 // Positive total given back
+  destination: RefundDestination;
+  tenders: PaymentTransaction[];  // Negative transactions against the current till session
+  reason: string;
+  approvedBy: string;             // Masked manager PIN
+  cashierId?: string;
+  cashierName?: string;
+  tillSessionId?: string;
+  createdAt: string;              // ISO timestamp
+  syncStatus: 'pending' | 'synced' | 'failed';
+  backendRefundId?: string;
+}
+
+// 📜 Order history - changes made to an order after it was started (merges, ...)
+export type OrderHistoryAction = 'merged' | 'merge_undone';
+
+export interface OrderHistoryEntry {
+  id: string;
+  action: OrderHistoryAction;
+  note: string;                   // What happened, e.g. "Merged T3 (#ORD-0012)"
+  orderIds?: string[];            // Other orders involved
+  slotIds?: string[];             // Other slots involved
+  userId?: string;                // Cashier who made the change
+  userName?: string;
+  at: string;                     // ISO timestamp
+}
+
 // Branch Configuration Types (Pay Now/Pay Later, Receipt Settings)
 export type PaymentMode = 'payNow' | 'payLater';
 
@@ -273,19 +553,262 @@ export interface ReceiptConfig {
 export interface PaymentMethodConfig {
   enabled: boolean;
   taxRateOverride?: number | null;
-  minAmount?: number;
+  minAmount?: number;                // Smallest tender accepted with this method
+  surcharge?: PaymentSurchargeConfig; // e.g. card fee - added to the total as its own line
+  rounding?: CashRoundingConfig; // Cash only - ignored for other methods
+  denominations?: CashDenominations; // Cash only - overrides the currency's note/coin set
+  account?: BankAccountInfo;         // Online transfer (mobile) only - account the customer pays into
+}
+
+// 🏦 Branch bank account for online transfers
+export interface BankAccountInfo {
+  accountNumber: string;
+  bankName: string;
+  accountTitle: string;
+  branchCode: string;
+  iban?: string;
+  swiftCode?: string;
+}
+
+// Payment QR shown to the customer (amount + order reference to quote on the transfer)
+export interface BankTransferQRData {
+  accountTitle: string;
+  bankName: string;
+  accountNumber: string;
+  iban?: string;
+  amount: number;
+  currency: string;
+  reference: string;
+}
+
+// 💵 Notes and coins in circulation (major units) - quick tender, change and till counting
+export interface CashDenominations {
+  notes: number[];
+  coins: number[];
+}
+
+// 💳 Per-method surcharge (card fee etc.) - not taxed, not part of the service charge base
+export interface PaymentSurchargeConfig {
+  type: 'percentage' | 'fixed';
+  value: number;   // Percentage of the order total, or a fixed amount
+  label?: string;  // Receipt / totals line (default "Card Fee", "Online Fee"...)
+}
+
+// 🪙 Cash tender rounding (no small coins) - applied to the cash total only
+export type CashRoundingMode =
+  | 'nearest'  // Half up to the nearest increment
+  | 'down'     // Always in the customer's favour
+  | 'bankers'; // Half to even (no bias over many orders)
+
+export interface CashRoundingConfig {
+  enabled: boolean;
+  increment: number; // Major units, e.g. 1, 5 or 10 rupees
+  mode: CashRoundingMode;
 }
 
 export interface PaymentMethodsConfig {
   cash: PaymentMethodConfig;
   card: PaymentMethodConfig;
   mobile: PaymentMethodConfig;
+  giftCard?: PaymentMethodConfig; // Gift card / store credit tender (enabled when not configured)
+}
+
+export interface TaxClass {
+  id: string;   // Referenced by menu item metadata.taxClass
+  name: string; // Shown in receipt tax breakdown
+  rate: number; // Percentage (e.g. 5 = 5%)
 }
 
 export interface TaxConfig {
   mode: 'inclusive' | 'exclusive';
   rate: number;
   vatNumber?: string;
+  classes?: TaxClass[]; // Per-item tax classes (items without a class use `rate`)
+}
+
+// Automatic promotions (evaluated by the cart on every change - see lib/utils/promotions.ts)
+export type PromotionType =
+  | 'buy_x_get_y'     // Buy `buyQuantity`, get `getQuantity` at `getDiscountPercent` off (100 = free)
+  | 'combo'           // One unit from each of `comboItems` for `comboPrice`
+  | 'percentage_off'  // `value`% off matching items
+  | 'fixed_off';      // `value` off matching items (spread across lines)
+
+export interface PromotionSchedule {
+  days?: number[];     // 0 = Sunday ... 6 = Saturday (branch timezone)
+  startTime?: string;  // 'HH:mm' (branch timezone)
+  endTime?: string;    // 'HH:mm' (branch timezone, exclusive)
+  validFrom?: string;  // ISO date
+  validUntil?: string; // ISO date
+}
+
+export interface PromotionComboComponent {
+  itemIds?: string[];
+  categories?: string[];
+}
+
+export interface Promotion {
+  id: string;
+  name: string;
+  type: PromotionType;
+  active?: boolean;
+  priority?: number;        // Higher runs first (items are used by one promotion only)
+
+  // Targeting (empty = all items / all order types / always)
+  itemIds?: string[];
+  categories?: string[];    // Category names (case-insensitive)
+  orderTypes?: OrderType[];
+  schedule?: PromotionSchedule;
+  minimumOrder?: number;
+
+  // Rule values
+  buyQuantity?: number;
+  getQuantity?: number;
+  getDiscountPercent?: number;
+  comboItems?: PromotionComboComponent[];
+  comboPrice?: number;
+  value?: number;
+}
+
+// Promotion applied to the current cart (explained line in totals + receipt)
+export interface AppliedPromotion {
+  promotionId: string;
+  name: string;
+  description: string; // e.g. "Buy 2 get 1 free: Croissant"
+  amount: number;
+  lineIds: string[];   // Cart lines (uniqueId) the promotion was applied to
+}
+
+// Discount limits - anything above a limit requires manager approval
+export interface DiscountConfig {
+  lineApprovalPercent?: number; // Line discounts above this % of the line need approval
+  lineApprovalAmount?: number;  // Line discounts above this amount need approval
+  reasons?: string[];           // Reasons offered to the cashier
+  stacking?: DiscountStackingRules;
+}
+
+// Price override rules - overrides changing a line by more than a limit require manager approval
+export interface PriceOverrideConfig {
+  approvalPercent?: number; // Price changes above this % of the menu price need approval
+  approvalAmount?: number;  // Price changes above this amount (per unit) need approval
+  reasons?: string[];       // Reason codes offered to the cashier
+}
+
+// Which discounts can be combined on one order (exclusive voucher batches combine with nothing)
+export interface DiscountStackingRules {
+  multipleCodes?: boolean;          // More than one voucher code per order (default false)
+  codesWithPromotions?: boolean;    // Codes + automatic promotions (default true; false = code switches promotions off)
+  codesWithLineDiscounts?: boolean; // Codes + cashier line discounts (default true)
+}
+
+// 🎟️ Voucher batch - a set of unique codes sharing value, validity and usage limits
+export interface VoucherBatch {
+  id: string;
+  name: string;
+  type: 'percentage' | 'fixed';
+  value: number;
+  codes: string[];
+  active?: boolean;
+  minimumOrder?: number;
+  validFrom?: string;      // YYYY-MM-DD
+  validUntil?: string;     // YYYY-MM-DD
+  usesPerCode?: number;    // Default 1 (single-use); 0 = unlimited
+  usesPerCustomer?: number; // Per customer phone, across the batch
+  totalUses?: number;      // Across all codes in the batch
+  exclusive?: boolean;     // Cannot be combined with any other discount
+  redeemed?: Record<string, number>; // Redemptions per code known to the backend
+}
+
+// Voucher code applied to a cart/order (amount follows the order total)
+export interface AppliedVoucher {
+  code: string;
+  batchId: string;
+  name: string;
+  type: 'percentage' | 'fixed';
+  value: number;
+  amount: number;
+  minimumOrder?: number;
+  exclusive?: boolean;
+  appliedBy?: string;
+  appliedAt: string; // ISO timestamp
+}
+
+// Offline redemption ledger entry (IndexedDB, synced with the order)
+export interface VoucherRedemption {
+  id: string; // `${orderId}:${code}`
+  code: string;
+  batchId: string;
+  orderId: string;
+  customerPhone?: string;
+  amount: number;
+  status: 'redeemed' | 'released';
+  syncStatus: 'pending' | 'synced';
+  redeemedAt: Date;
+  updatedAt: Date;
+}
+
+// 🎁 Gift cards / store credit - stored value with an offline balance ledger (lib/store/gift-cards)
+export type GiftCardType = 'gift_card' | 'store_credit';
+
+export interface GiftCardLine {
+  code: string;
+  kind: 'issue' | 'topup';
+}
+
+export interface GiftCardQRData {
+  code: string;
+}
+
+export interface GiftCard {
+  code: string;            // Printed on the card / encoded in its QR
+  type: GiftCardType;
+  syncedBalance: number;   // Balance last confirmed by the backend (pending entries come on top)
+  issuedOrderId?: string;
+  issuedBy?: string;
+  status: 'active' | 'void';
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type GiftCardEntryType =
+  | 'issue'          // Sold at the counter (order paid)
+  | 'topup'          // Value added at the counter (order paid)
+  | 'redeem'         // Used as a tender (negative)
+  | 'refund_credit'  // Refund paid back to the card / store credit
+  | 'reversal';      // Sale voided - unspent value taken back (negative)
+
+export interface GiftCardLedgerEntry {
+  id: string;
+  code: string;
+  type: GiftCardEntryType;
+  amount: number;          // + loads the card, - spends it
+  orderId?: string;
+  paymentId?: string;      // Tender this entry belongs to (redeem / refund credit)
+  cashierId?: string;
+  tillSessionId?: string;
+  createdAt: Date;
+  syncStatus: 'pending' | 'synced';
+}
+
+// 🍽️ Automatic service charge - percentage of the order subtotal (after line discounts + promotions)
+export interface ServiceChargeConfig {
+  enabled: boolean;
+  name?: string;                               // Receipt label (default "Service Charge")
+  rates: Partial<Record<OrderType, number>>;   // Percentage per order type (missing = no charge)
+  minCovers?: number;                          // Only charged from this many covers (UnifiedSlot.customerCount)
+  taxable?: boolean;                           // Included in the tax base (default false)
+}
+
+// Gratuity added by the cashier at payment time
+export interface TipConfig {
+  enabled?: boolean;   // Default true
+  taxable?: boolean;   // Included in the tax base (default false)
+  presets?: number[];  // Quick tip percentages of the order total (e.g. [5, 10, 15])
+}
+
+// Till close-out rules for the branch
+export interface TillCloseConfig {
+  blindClose?: boolean;        // Cashier counts without seeing the expected amount (default false)
+  varianceThreshold?: number;  // Over/short above this needs a manager (unset = no sign-off)
 }
 
 export interface POSConfig {
@@ -296,6 +819,13 @@ export interface POSConfig {
   paymentMode: PaymentMode;
   receiptConfig: ReceiptConfig;
   paymentMethods: PaymentMethodsConfig;
+  discountConfig?: DiscountConfig;
+  priceOverrideConfig?: PriceOverrideConfig;
+  promotions?: Promotion[];
+  voucherBatches?: VoucherBatch[];
+  serviceCharge?: ServiceChargeConfig;
+  tips?: TipConfig;
+  tillClose?: TillCloseConfig;
 }
 
 export interface BranchConfig {
@@ -310,4 +840,11 @@ export interface BranchConfig {
   enableTableService?: boolean;
   receiptConfig?: ReceiptConfig;
   paymentMethods?: PaymentMethodsConfig;
+  discountConfig?: DiscountConfig;
+  priceOverrideConfig?: PriceOverrideConfig;
+  promotions?: Promotion[];
+  voucherBatches?: VoucherBatch[];
+  serviceCharge?: ServiceChargeConfig;
+  tips?: TipConfig;
+  tillClose?: TillCloseConfig;
 }